@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'standalone',
+  experimental: {
+    // Enables src/instrumentation.ts, which starts the background job scheduler
+    instrumentationHook: true,
+  },
 };
 
 module.exports = nextConfig;
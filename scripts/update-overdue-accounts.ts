@@ -1,27 +1,33 @@
 /**
  * Update Overdue Accounts Script
  *
- * Sets accounts with past renewal dates to ON_HOLD status.
+ * Sets accounts past the hold grace period to ON_HOLD status.
+ * The nightly lifecycle job does this (and closures) automatically;
+ * this script is kept for one-off catch-up runs.
  *
  * Run with: npm run db:update-overdue
  */
 
 import { PrismaClient, AccountStatus } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { RENEWAL } from '../src/constants/app';
 
 const prisma = new PrismaClient();
 
 async function main(): Promise<void> {
   const now = new Date();
+  const holdCutoff = subDays(now, RENEWAL.HOLD_DAYS_AFTER_OVERDUE);
 
   console.log(`Current date: ${now.toISOString()}`);
+  console.log(`Holding accounts due on or before: ${holdCutoff.toISOString()}`);
   console.log('Finding overdue accounts...');
 
-  // Find all active accounts with past renewal dates
+  // Find all active accounts past the hold grace period
   const overdueAccounts = await prisma.account.findMany({
     where: {
       status: AccountStatus.ACTIVE,
       nextRenewalDate: {
-        lt: now,
+        lte: holdCutoff,
       },
     },
     include: {
@@ -41,7 +47,7 @@ async function main(): Promise<void> {
     where: {
       status: AccountStatus.ACTIVE,
       nextRenewalDate: {
-        lt: now,
+        lte: holdCutoff,
       },
     },
     data: {
@@ -2,14 +2,22 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { Pencil, Plus, Trash2 } from 'lucide-react';
 import { AppLayout } from '@/components/layout';
+import { AuditHistory } from '@/components/audit-log';
+import { AutoRenewalCard } from '@/components/accounts/AutoRenewalCard';
+import { MemoList, PinnedMemos, AccountTimeline } from '@/components/memos';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { format } from 'date-fns';
 import { formatPhone } from '@/lib/utils/phone';
 import { getAgeInfo } from '@/lib/utils/date';
 import type { PaymentWithDetails } from '@/types/payment';
+import type { SerializedMemo } from '@/types/memo';
+import type { ProrationPreview } from '@/types/proration';
+import type { RenewalPeriod } from '@prisma/client';
 
 // Lazy-load dialogs for better initial page load performance
 const RecipientEditDialog = dynamic(
@@ -28,6 +36,18 @@ const RecordPaymentDialog = dynamic(
   () => import('@/components/payments/RecordPaymentDialog').then((mod) => mod.RecordPaymentDialog),
   { ssr: false }
 );
+const KeyDepositSettleDialog = dynamic(
+  () => import('@/components/accounts/KeyDepositSettleDialog').then((mod) => mod.KeyDepositSettleDialog),
+  { ssr: false }
+);
+const AccountCloseDialog = dynamic(
+  () => import('@/components/accounts/AccountCloseDialog').then((mod) => mod.AccountCloseDialog),
+  { ssr: false }
+);
+const PlanChangeDialog = dynamic(
+  () => import('@/components/accounts/PlanChangeDialog').then((mod) => mod.PlanChangeDialog),
+  { ssr: false }
+);
 const PaymentHistoryTable = dynamic(
   () => import('@/components/payments/PaymentHistoryTable').then((mod) => mod.PaymentHistoryTable),
   { ssr: false }
@@ -81,10 +101,13 @@ interface AccountDetail {
   balanceDue: number;
   depositPaid: string;
   depositReturned: boolean;
+  depositForfeited: boolean;
+  creditBalance: string;
   smsEnabled: boolean;
   emailEnabled: boolean;
   closedAt: string | null;
   closureReason: string | null;
+  checkApprovalRequired: boolean;
   auditFlag: boolean;
   auditNote: string | null;
   auditedAt: string | null;
@@ -223,6 +246,8 @@ function AccountDetailContent(): React.ReactElement {
   const params = useParams();
   const router = useRouter();
   const accountId = params.id as string;
+  const { data: session } = useSession();
+  const isManager = session?.user?.role === 'MANAGER';
 
   const [account, setAccount] = useState<AccountDetail | null>(null);
   const [loading, setLoading] = useState(true);
@@ -236,6 +261,10 @@ function AccountDetailContent(): React.ReactElement {
   const [editingRecipientIndex, setEditingRecipientIndex] = useState<number | null>(null);
   const [recordPaymentOpen, setRecordPaymentOpen] = useState(false);
   const [renewalPaymentOpen, setRenewalPaymentOpen] = useState(false);
+  const [depositSettleOpen, setDepositSettleOpen] = useState(false);
+  const [closeAccountOpen, setCloseAccountOpen] = useState(false);
+  const [planChangeOpen, setPlanChangeOpen] = useState(false);
+  const [reopening, setReopening] = useState(false);
 
   // Payment state
   const [payments, setPayments] = useState<PaymentWithDetails[]>([]);
@@ -246,6 +275,9 @@ function AccountDetailContent(): React.ReactElement {
   // Recipients state for managing additions/deletions
   const [recipients, setRecipients] = useState<FormRecipient[]>([]);
 
+  // Memo state
+  const [memos, setMemos] = useState<SerializedMemo[]>([]);
+
   // Notice generation state
   const [noticeTypes, setNoticeTypes] = useState<NoticeType[]>([]);
   const [generatingNotice, setGeneratingNotice] = useState<string | null>(null);
@@ -316,13 +348,26 @@ function AccountDetailContent(): React.ReactElement {
     }
   }, [accountId]);
 
-  // Fetch account, payments, and notice types in parallel on mount
+  const fetchMemos = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/accounts/${accountId}/memos`);
+      if (res.ok) {
+        const data = await res.json() as { data: SerializedMemo[] };
+        setMemos(data.data);
+      }
+    } catch {
+      // Silently fail - memos are optional
+    }
+  }, [accountId]);
+
+  // Fetch account, payments, memos, and notice types in parallel on mount
   useEffect(() => {
     const fetchData = async (): Promise<void> => {
       // Fetch all in parallel for better performance
       const [accountResult] = await Promise.allSettled([
         fetchAccount(),
         fetchPayments(),
+        fetchMemos(),
         (async () => {
           try {
             const res = await fetch('/api/notices/types');
@@ -339,7 +384,7 @@ function AccountDetailContent(): React.ReactElement {
       void accountResult;
     };
     void fetchData();
-  }, [fetchAccount, fetchPayments]);
+  }, [fetchAccount, fetchPayments, fetchMemos]);
 
   // Balance due is calculated by the API (includes prorated charges for rate changes)
   const balanceDue = account?.balanceDue ?? 0;
@@ -455,6 +500,63 @@ function AccountDetailContent(): React.ReactElement {
     }
   };
 
+  // Reopen a recently closed account
+  const handleReopen = async (): Promise<void> => {
+    if (!confirm('Reopen this account? Its mailbox and recipients will be restored.')) return;
+
+    setReopening(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/accounts/${accountId}/reopen`, { method: 'POST' });
+      if (!res.ok) {
+        const errorData = await res.json() as { error?: { message?: string } };
+        throw new Error(errorData.error?.message ?? 'Failed to reopen account');
+      }
+      await fetchAccount();
+      setSuccessMessage('Account reopened');
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reopen account');
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  // Show what a recipient change will bill for the rest of the term and let staff
+  // back out. Changes that don't affect fees go straight through.
+  const confirmProration = async (
+    changes: Array<{ id?: string | undefined; recipientType?: string; birthdate?: string | null; _delete?: boolean; _isNew?: boolean | undefined }>
+  ): Promise<boolean> => {
+    const res = await fetch(`/api/accounts/${accountId}/proration-preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recipients: changes }),
+    });
+    if (!res.ok) {
+      const errorData = await res.json() as { error?: { message?: string } };
+      throw new Error(errorData.error?.message ?? 'Failed to preview charges');
+    }
+    const { data: preview } = await res.json() as { data: ProrationPreview };
+    if (preview.charges.length === 0 && preview.credits.length === 0) return true;
+
+    const lines = [
+      `${preview.daysRemaining} of ${preview.termDays} days remain in the current term (ends ${preview.periodEnd}).`,
+      ...preview.charges.map((c) => `Charge: ${c.description} $${c.amount.toFixed(2)}`),
+      ...preview.credits.map((c) => `Credit: ${c.description} $${c.amount.toFixed(2)}`),
+    ];
+    if (preview.chargeTotal > 0) {
+      lines.push(
+        preview.openInvoiceNumber !== null
+          ? `$${preview.chargeTotal.toFixed(2)} will be added to open invoice #${preview.openInvoiceNumber}.`
+          : `A proration invoice for $${preview.chargeTotal.toFixed(2)} will be created.`
+      );
+    }
+    if (preview.creditTotal > 0) {
+      lines.push(`$${preview.creditTotal.toFixed(2)} will be added to the account credit.`);
+    }
+    return confirm(`${lines.join('\n')}\n\nSave this change?`);
+  };
+
   // Save recipient changes
   const handleRecipientSave = async (data: {
     isPrimary: boolean;
@@ -485,6 +587,14 @@ function AccountDetailContent(): React.ReactElement {
       // Use the contactCardId from the recipient being edited
       const contactCardId = recipient.contactCardId;
 
+      const proceed = await confirmProration([{
+        id: recipient.id,
+        recipientType: data.recipientType,
+        birthdate: data.birthdate,
+        _isNew: recipient._isNew,
+      }]);
+      if (!proceed) return;
+
       const res = await fetch(`/api/accounts/${accountId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -578,6 +688,9 @@ function AccountDetailContent(): React.ReactElement {
     setSaving(true);
     setError(null);
     try {
+      const proceed = await confirmProration([{ id: recipient.id, _delete: true }]);
+      if (!proceed) return;
+
       const res = await fetch(`/api/accounts/${accountId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -648,6 +761,24 @@ function AccountDetailContent(): React.ReactElement {
             </p>
           </div>
         </div>
+        <div className="flex gap-2">
+          {account.status === 'CLOSED' ? (
+            <button
+              onClick={() => void handleReopen()}
+              className="rounded-md border px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              disabled={reopening}
+            >
+              {reopening ? 'Reopening...' : 'Reopen Account'}
+            </button>
+          ) : (
+            <button
+              onClick={() => setCloseAccountOpen(true)}
+              className="rounded-md border border-red-200 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Close Account
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Messages */}
@@ -684,582 +815,670 @@ function AccountDetailContent(): React.ReactElement {
         </div>
       )}
 
-      <div className="grid gap-6 lg:grid-cols-2">
-        {/* Account Info Card */}
-        <div className="rounded-lg border bg-white p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900">Account Information</h2>
-            <button
-              onClick={() => setAccountEditOpen(true)}
-              className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark"
-              disabled={saving}
-            >
-              <EditIcon /> Edit
-            </button>
-          </div>
-          <dl className="space-y-4">
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Status</dt>
-              <dd className="text-sm font-medium">
-                <StatusBadge status={account.status} />
-              </dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Renewal Period</dt>
-              <dd className="text-sm font-medium">{formatRenewalPeriod(account.renewalPeriod)}</dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Current Rate</dt>
-              <dd className="text-sm font-medium font-mono">${Number(account.currentRate).toFixed(2)}</dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Start Date</dt>
-              <dd className="text-sm font-medium">{format(new Date(account.startDate), 'MM/dd/yyyy')}</dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Next Renewal</dt>
-              <dd className="text-sm font-medium">{format(new Date(account.nextRenewalDate), 'MM/dd/yyyy')}</dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Deposit</dt>
-              <dd className="text-sm font-medium font-mono">
-                ${Number(account.depositPaid).toFixed(2)}
-                {account.depositReturned && (
-                  <span className="ml-2 text-xs text-gray-500">(Returned)</span>
-                )}
-              </dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Notifications</dt>
-              <dd className="flex gap-2">
-                {account.smsEnabled && (
-                  <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">
-                    SMS
-                  </span>
-                )}
-                {account.emailEnabled && (
-                  <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
-                    Email
-                  </span>
-                )}
-                {!account.smsEnabled && !account.emailEnabled && (
-                  <span className="text-xs text-gray-400">None</span>
-                )}
-              </dd>
-            </div>
-          </dl>
+      {account.checkApprovalRequired && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3">
+          <p className="text-sm text-red-700">
+            A check from this account was returned. Check payments need manager approval.
+          </p>
         </div>
+      )}
 
-        {/* Mailbox Info Card */}
-        <div className="rounded-lg border bg-white p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900">Mailbox</h2>
-            <button
-              onClick={() => setMailboxEditOpen(true)}
-              className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark"
-              disabled={saving}
-            >
-              <EditIcon /> Reassign
-            </button>
-          </div>
-          <dl className="space-y-4">
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Number</dt>
-              <dd className="text-sm font-medium font-mono">{account.mailbox.number}</dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Status</dt>
-              <dd className="text-sm font-medium">{account.mailbox.status}</dd>
+      <PinnedMemos memos={memos} />
+
+      <Tabs defaultValue="details" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Account Info Card */}
+            <div className="rounded-lg border bg-white p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Account Information</h2>
+                <button
+                  onClick={() => setAccountEditOpen(true)}
+                  className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark"
+                  disabled={saving}
+                >
+                  <EditIcon /> Edit
+                </button>
+              </div>
+              <dl className="space-y-4">
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Status</dt>
+                  <dd className="text-sm font-medium">
+                    <StatusBadge status={account.status} />
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Renewal Period</dt>
+                  <dd className="text-sm font-medium">{formatRenewalPeriod(account.renewalPeriod)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Current Rate</dt>
+                  <dd className="text-sm font-medium font-mono">${Number(account.currentRate).toFixed(2)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Start Date</dt>
+                  <dd className="text-sm font-medium">{format(new Date(account.startDate), 'MM/dd/yyyy')}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Next Renewal</dt>
+                  <dd className="text-sm font-medium">{format(new Date(account.nextRenewalDate), 'MM/dd/yyyy')}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Deposit</dt>
+                  <dd className="text-sm font-medium font-mono">
+                    ${Number(account.depositPaid).toFixed(2)}
+                    {account.depositReturned && (
+                      <span className="ml-2 text-xs text-gray-500">(Returned)</span>
+                    )}
+                    {account.depositForfeited && (
+                      <span className="ml-2 text-xs text-gray-500">(Forfeited)</span>
+                    )}
+                    {isManager &&
+                      account.status === 'CLOSED' &&
+                      Number(account.depositPaid) > 0 &&
+                      !account.depositReturned &&
+                      !account.depositForfeited && (
+                        <button
+                          onClick={() => setDepositSettleOpen(true)}
+                          className="ml-2 text-xs font-sans text-postnet-red hover:underline"
+                        >
+                          Settle
+                        </button>
+                      )}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Account Credit</dt>
+                  <dd
+                    className={`text-sm font-medium font-mono ${Number(account.creditBalance) > 0 ? 'text-green-600' : ''}`}
+                  >
+                    ${Number(account.creditBalance).toFixed(2)}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Notifications</dt>
+                  <dd className="flex gap-2">
+                    {account.smsEnabled && (
+                      <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">
+                        SMS
+                      </span>
+                    )}
+                    {account.emailEnabled && (
+                      <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
+                        Email
+                      </span>
+                    )}
+                    {!account.smsEnabled && !account.emailEnabled && (
+                      <span className="text-xs text-gray-400">None</span>
+                    )}
+                  </dd>
+                </div>
+              </dl>
             </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Key Deposit</dt>
-              <dd className="text-sm font-medium font-mono">${Number(account.mailbox.keyDeposit).toFixed(2)}</dd>
+
+            {/* Mailbox Info Card */}
+            <div className="rounded-lg border bg-white p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Mailbox</h2>
+                <button
+                  onClick={() => setMailboxEditOpen(true)}
+                  className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark"
+                  disabled={saving}
+                >
+                  <EditIcon /> Reassign
+                </button>
+              </div>
+              <dl className="space-y-4">
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Number</dt>
+                  <dd className="text-sm font-medium font-mono">{account.mailbox.number}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Status</dt>
+                  <dd className="text-sm font-medium">{account.mailbox.status}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Key Deposit</dt>
+                  <dd className="text-sm font-medium font-mono">${Number(account.mailbox.keyDeposit).toFixed(2)}</dd>
+                </div>
+              </dl>
+              <div className="mt-4 pt-4 border-t">
+                <Link
+                  href={`/mailboxes/${account.mailbox.id}`}
+                  className="text-sm text-postnet-red hover:underline"
+                >
+                  View Mailbox Details
+                </Link>
+              </div>
             </div>
-          </dl>
-          <div className="mt-4 pt-4 border-t">
-            <Link
-              href={`/mailboxes/${account.mailbox.id}`}
-              className="text-sm text-postnet-red hover:underline"
-            >
-              View Mailbox Details
-            </Link>
-          </div>
-        </div>
 
-        {/* Quick Actions - Generate Notices and Renewal */}
-        {(() => {
-          // Calculate which actions are applicable
-          const isHold = account.status === 'HOLD';
-
-          // Check if renewal is within 30 days
-          const renewalDate = new Date(account.nextRenewalDate);
-          const today = new Date();
-          const daysUntilRenewal = Math.ceil((renewalDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-          const isRenewalSoon = account.status === 'ACTIVE' && daysUntilRenewal >= 0 && daysUntilRenewal <= 30;
-
-          // Renewal is available for HOLD or accounts approaching renewal
-          const canRenew = isHold || isRenewalSoon;
-
-          // Find adult recipients (18+) without ID verification
-          const adultRecipientsWithoutId = recipients
-            .filter((r) => !r._delete && r.recipientType === 'PERSON')
-            .filter((r) => {
-              // Check if adult using getAgeInfo utility
-              if (!r.birthdate) return true; // No birthdate means treat as adult
-              const ageInfo = getAgeInfo(r.birthdate);
-              return !ageInfo.isMinor;
-            })
-            .filter((r) => !r.idVerifiedDate);
-
-          // Find recipients with expiring IDs (within 30 days)
-          const recipientsWithExpiringId = recipients
-            .filter((r) => !r._delete && r.recipientType === 'PERSON')
-            .filter((r) => {
-              if (!r.idVerifiedDate || !r.idExpirationDate) return false;
-              const expDate = new Date(r.idExpirationDate);
+            {/* Card on file and auto-renew */}
+            <AutoRenewalCard accountId={account.id} accountClosed={account.status === 'CLOSED'} />
+
+            {/* Quick Actions - Generate Notices and Renewal */}
+            {(() => {
+              // Calculate which actions are applicable
+              const isHold = account.status === 'HOLD';
+
+              // Check if renewal is within 30 days
+              const renewalDate = new Date(account.nextRenewalDate);
               const today = new Date();
-              const daysUntil = Math.ceil((expDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-              return daysUntil > 0 && daysUntil <= 30;
-            });
+              const daysUntilRenewal = Math.ceil((renewalDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+              const isRenewalSoon = account.status === 'ACTIVE' && daysUntilRenewal >= 0 && daysUntilRenewal <= 30;
+
+              // Renewal is available for HOLD or accounts approaching renewal
+              const canRenew = isHold || isRenewalSoon;
+
+              // Plan changes start a new term now, so only while the current one is running
+              const canChangePlan = account.status === 'ACTIVE' && daysUntilRenewal > 0;
+
+              // Find adult recipients (18+) without ID verification
+              const adultRecipientsWithoutId = recipients
+                .filter((r) => !r._delete && r.recipientType === 'PERSON')
+                .filter((r) => {
+                  // Check if adult using getAgeInfo utility
+                  if (!r.birthdate) return true; // No birthdate means treat as adult
+                  const ageInfo = getAgeInfo(r.birthdate);
+                  return !ageInfo.isMinor;
+                })
+                .filter((r) => !r.idVerifiedDate);
+
+              // Find recipients with expiring IDs (within 30 days)
+              const recipientsWithExpiringId = recipients
+                .filter((r) => !r._delete && r.recipientType === 'PERSON')
+                .filter((r) => {
+                  if (!r.idVerifiedDate || !r.idExpirationDate) return false;
+                  const expDate = new Date(r.idExpirationDate);
+                  const today = new Date();
+                  const daysUntil = Math.ceil((expDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+                  return daysUntil > 0 && daysUntil <= 30;
+                });
+
+              const hasApplicableNotices = noticeTypes.length > 0 && (isHold || isRenewalSoon || adultRecipientsWithoutId.length > 0 || recipientsWithExpiringId.length > 0);
+              const hasQuickActions = canRenew || canChangePlan || hasApplicableNotices;
+
+              if (!hasQuickActions) return null;
+
+              return (
+                <div className="rounded-lg border bg-white p-6 lg:col-span-2">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {/* Renew Account - for HOLD or renewal due soon */}
+                    {canRenew && (
+                      <button
+                        onClick={() => setRenewalPaymentOpen(true)}
+                        className="inline-flex items-center gap-2 rounded-md bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700"
+                      >
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                        </svg>
+                        Renew Account
+                      </button>
+                    )}
+
+                    {/* Change Plan - switch renewal period mid-term */}
+                    {canChangePlan && (
+                      <button
+                        onClick={() => setPlanChangeOpen(true)}
+                        className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21 3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+                        </svg>
+                        Change Plan
+                      </button>
+                    )}
+
+                    {/* Hold Notice - for HOLD status */}
+                    {isHold && hasApplicableNotices && (
+                      <button
+                        onClick={() => void generateNotice('HOLD_NOTICE')}
+                        disabled={generatingNotice !== null}
+                        className="inline-flex items-center gap-2 rounded-md bg-amber-100 px-3 py-2 text-sm font-medium text-amber-800 hover:bg-amber-200 disabled:opacity-50"
+                      >
+                        {generatingNotice === 'HOLD_NOTICE' ? (
+                          <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                          </svg>
+                        ) : (
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
+                          </svg>
+                        )}
+                        Generate Hold Notice
+                      </button>
+                    )}
 
-          const hasApplicableNotices = noticeTypes.length > 0 && (isHold || isRenewalSoon || adultRecipientsWithoutId.length > 0 || recipientsWithExpiringId.length > 0);
-          const hasQuickActions = canRenew || hasApplicableNotices;
+                    {/* Renewal Notice - for accounts with renewal within 30 days */}
+                    {isRenewalSoon && hasApplicableNotices && (
+                      <button
+                        onClick={() => void generateNotice('RENEWAL_NOTICE')}
+                        disabled={generatingNotice !== null}
+                        className="inline-flex items-center gap-2 rounded-md bg-blue-100 px-3 py-2 text-sm font-medium text-blue-800 hover:bg-blue-200 disabled:opacity-50"
+                      >
+                        {generatingNotice === 'RENEWAL_NOTICE' ? (
+                          <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                          </svg>
+                        ) : (
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                          </svg>
+                        )}
+                        Generate Renewal Notice
+                      </button>
+                    )}
 
-          if (!hasQuickActions) return null;
+                    {/* Missing ID Notice - for recipients without ID */}
+                    {adultRecipientsWithoutId.length > 0 && hasApplicableNotices && (
+                      <button
+                        onClick={() => void generateNotice('MISSING_ID', adultRecipientsWithoutId.map((r) => r.id).filter((id): id is string => !!id))}
+                        disabled={generatingNotice !== null}
+                        className="inline-flex items-center gap-2 rounded-md bg-orange-100 px-3 py-2 text-sm font-medium text-orange-800 hover:bg-orange-200 disabled:opacity-50"
+                      >
+                        {generatingNotice === 'MISSING_ID' ? (
+                          <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                          </svg>
+                        ) : (
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
+                          </svg>
+                        )}
+                        Request Missing ID ({adultRecipientsWithoutId.length})
+                      </button>
+                    )}
 
-          return (
+                    {/* ID Verification Request - for expiring IDs */}
+                    {recipientsWithExpiringId.length > 0 && hasApplicableNotices && (
+                      <button
+                        onClick={() => void generateNotice('ID_VERIFICATION_REQUEST', recipientsWithExpiringId.map((r) => r.id).filter((id): id is string => !!id))}
+                        disabled={generatingNotice !== null}
+                        className="inline-flex items-center gap-2 rounded-md bg-yellow-100 px-3 py-2 text-sm font-medium text-yellow-800 hover:bg-yellow-200 disabled:opacity-50"
+                      >
+                        {generatingNotice === 'ID_VERIFICATION_REQUEST' ? (
+                          <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                          </svg>
+                        ) : (
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
+                          </svg>
+                        )}
+                        Request ID Renewal ({recipientsWithExpiringId.length})
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })()}
+
+            {/* Account Holder Card - Business Card Style */}
             <div className="rounded-lg border bg-white p-6 lg:col-span-2">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
-              <div className="flex flex-wrap gap-2">
-                {/* Renew Account - for HOLD or renewal due soon */}
-                {canRenew && (
-                  <button
-                    onClick={() => setRenewalPaymentOpen(true)}
-                    className="inline-flex items-center gap-2 rounded-md bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700"
-                  >
-                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
-                    </svg>
-                    Renew Account
-                  </button>
-                )}
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Account Holder</h2>
 
-                {/* Hold Notice - for HOLD status */}
-                {isHold && hasApplicableNotices && (
+              {primaryRecipient ? (
+                <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg p-4 border border-gray-200 shadow-sm relative">
+                  {/* Edit Button - top right */}
                   <button
-                    onClick={() => void generateNotice('HOLD_NOTICE')}
-                    disabled={generatingNotice !== null}
-                    className="inline-flex items-center gap-2 rounded-md bg-amber-100 px-3 py-2 text-sm font-medium text-amber-800 hover:bg-amber-200 disabled:opacity-50"
+                    onClick={() => {
+                      const primaryIndex = recipients.findIndex((r) => r.isPrimary && !r._delete);
+                      if (primaryIndex !== -1) setEditingRecipientIndex(primaryIndex);
+                    }}
+                    className="absolute top-3 right-3 flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark bg-white px-2 py-1 rounded-md border border-gray-200 shadow-sm hover:shadow"
+                    disabled={saving}
                   >
-                    {generatingNotice === 'HOLD_NOTICE' ? (
-                      <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
-                    ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
-                      </svg>
-                    )}
-                    Generate Hold Notice
+                    <EditIcon /> Edit
                   </button>
-                )}
 
-                {/* Renewal Notice - for accounts with renewal within 30 days */}
-                {isRenewalSoon && hasApplicableNotices && (
-                  <button
-                    onClick={() => void generateNotice('RENEWAL_NOTICE')}
-                    disabled={generatingNotice !== null}
-                    className="inline-flex items-center gap-2 rounded-md bg-blue-100 px-3 py-2 text-sm font-medium text-blue-800 hover:bg-blue-200 disabled:opacity-50"
-                  >
-                    {generatingNotice === 'RENEWAL_NOTICE' ? (
-                      <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
-                    ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
-                      </svg>
+                  {/* Name */}
+                  <h3 className="text-lg font-semibold text-gray-900 pr-20">
+                    {primaryRecipient ? <RecipientNameDisplay recipient={primaryRecipient} /> : 'Unknown'}
+                  </h3>
+                  <div className="flex flex-wrap gap-1.5 mt-1 mb-3">
+                    <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">
+                      Primary
+                    </span>
+                    {primaryRecipient.recipientType === 'BUSINESS' && (
+                      <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
+                        Business
+                      </span>
                     )}
-                    Generate Renewal Notice
-                  </button>
-                )}
+                    {primaryRecipient.recipientType === 'PERSON' && (
+                      !primaryRecipient.idVerifiedDate ||
+                      (primaryRecipient.idExpirationDate && new Date(primaryRecipient.idExpirationDate) < new Date())
+                    ) && (
+                      <span className="inline-flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-700">
+                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
+                        </svg>
+                        ID Required
+                      </span>
+                    )}
+                  </div>
 
-                {/* Missing ID Notice - for recipients without ID */}
-                {adultRecipientsWithoutId.length > 0 && hasApplicableNotices && (
-                  <button
-                    onClick={() => void generateNotice('MISSING_ID', adultRecipientsWithoutId.map((r) => r.id).filter((id): id is string => !!id))}
-                    disabled={generatingNotice !== null}
-                    className="inline-flex items-center gap-2 rounded-md bg-orange-100 px-3 py-2 text-sm font-medium text-orange-800 hover:bg-orange-200 disabled:opacity-50"
-                  >
-                    {generatingNotice === 'MISSING_ID' ? (
-                      <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
+                  {/* Contact Info */}
+                  <div className="space-y-1.5 text-sm">
+                    {/* Phone Numbers */}
+                    {account.phoneNumbers.length > 0 ? (
+                      account.phoneNumbers.map((phone) => (
+                        <div key={phone.id} className="flex items-center gap-2">
+                          <svg className="h-4 w-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 6.75c0 8.284 6.716 15 15 15h2.25a2.25 2.25 0 0 0 2.25-2.25v-1.372c0-.516-.351-.966-.852-1.091l-4.423-1.106c-.44-.11-.902.055-1.173.417l-.97 1.293c-.282.376-.769.542-1.21.38a12.035 12.035 0 0 1-7.143-7.143c-.162-.441.004-.928.38-1.21l1.293-.97c.363-.271.527-.734.417-1.173L6.963 3.102a1.125 1.125 0 0 0-1.091-.852H4.5A2.25 2.25 0 0 0 2.25 4.5v2.25Z" />
+                          </svg>
+                          <span className="font-mono">{formatPhone(phone.phone)}</span>
+                          {phone.label && <span className="text-xs text-gray-500">({phone.label})</span>}
+                          {phone.isMobile && <span className="text-xs text-gray-500 bg-gray-200 px-1 rounded">Mobile</span>}
+                        </div>
+                      ))
                     ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
-                      </svg>
+                      <div className="flex items-center gap-2 text-gray-400">
+                        <svg className="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 6.75c0 8.284 6.716 15 15 15h2.25a2.25 2.25 0 0 0 2.25-2.25v-1.372c0-.516-.351-.966-.852-1.091l-4.423-1.106c-.44-.11-.902.055-1.173.417l-.97 1.293c-.282.376-.769.542-1.21.38a12.035 12.035 0 0 1-7.143-7.143c-.162-.441.004-.928.38-1.21l1.293-.97c.363-.271.527-.734.417-1.173L6.963 3.102a1.125 1.125 0 0 0-1.091-.852H4.5A2.25 2.25 0 0 0 2.25 4.5v2.25Z" />
+                        </svg>
+                        <span>No phone</span>
+                      </div>
                     )}
-                    Request Missing ID ({adultRecipientsWithoutId.length})
-                  </button>
-                )}
 
-                {/* ID Verification Request - for expiring IDs */}
-                {recipientsWithExpiringId.length > 0 && hasApplicableNotices && (
-                  <button
-                    onClick={() => void generateNotice('ID_VERIFICATION_REQUEST', recipientsWithExpiringId.map((r) => r.id).filter((id): id is string => !!id))}
-                    disabled={generatingNotice !== null}
-                    className="inline-flex items-center gap-2 rounded-md bg-yellow-100 px-3 py-2 text-sm font-medium text-yellow-800 hover:bg-yellow-200 disabled:opacity-50"
-                  >
-                    {generatingNotice === 'ID_VERIFICATION_REQUEST' ? (
-                      <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
+                    {/* Email Addresses */}
+                    {account.emailAddresses.length > 0 ? (
+                      account.emailAddresses.map((email) => (
+                        <div key={email.id} className="flex items-center gap-2">
+                          <svg className="h-4 w-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75" />
+                          </svg>
+                          <span className="break-all">{email.email}</span>
+                          {email.label && <span className="text-xs text-gray-500">({email.label})</span>}
+                        </div>
+                      ))
                     ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
-                      </svg>
+                      <div className="flex items-center gap-2 text-gray-400">
+                        <svg className="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75" />
+                        </svg>
+                        <span>No email</span>
+                      </div>
                     )}
-                    Request ID Renewal ({recipientsWithExpiringId.length})
-                  </button>
-                )}
-              </div>
-            </div>
-          );
-        })()}
-
-        {/* Account Holder Card - Business Card Style */}
-        <div className="rounded-lg border bg-white p-6 lg:col-span-2">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Account Holder</h2>
-
-          {primaryRecipient ? (
-            <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg p-4 border border-gray-200 shadow-sm relative">
-              {/* Edit Button - top right */}
-              <button
-                onClick={() => {
-                  const primaryIndex = recipients.findIndex((r) => r.isPrimary && !r._delete);
-                  if (primaryIndex !== -1) setEditingRecipientIndex(primaryIndex);
-                }}
-                className="absolute top-3 right-3 flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark bg-white px-2 py-1 rounded-md border border-gray-200 shadow-sm hover:shadow"
-                disabled={saving}
-              >
-                <EditIcon /> Edit
-              </button>
-
-              {/* Name */}
-              <h3 className="text-lg font-semibold text-gray-900 pr-20">
-                {primaryRecipient ? <RecipientNameDisplay recipient={primaryRecipient} /> : 'Unknown'}
-              </h3>
-              <div className="flex flex-wrap gap-1.5 mt-1 mb-3">
-                <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">
-                  Primary
-                </span>
-                {primaryRecipient.recipientType === 'BUSINESS' && (
-                  <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
-                    Business
-                  </span>
-                )}
-                {primaryRecipient.recipientType === 'PERSON' && (
-                  !primaryRecipient.idVerifiedDate ||
-                  (primaryRecipient.idExpirationDate && new Date(primaryRecipient.idExpirationDate) < new Date())
-                ) && (
-                  <span className="inline-flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-700">
-                    <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
-                    </svg>
-                    ID Required
-                  </span>
-                )}
-              </div>
-
-              {/* Contact Info */}
-              <div className="space-y-1.5 text-sm">
-                {/* Phone Numbers */}
-                {account.phoneNumbers.length > 0 ? (
-                  account.phoneNumbers.map((phone) => (
-                    <div key={phone.id} className="flex items-center gap-2">
-                      <svg className="h-4 w-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 6.75c0 8.284 6.716 15 15 15h2.25a2.25 2.25 0 0 0 2.25-2.25v-1.372c0-.516-.351-.966-.852-1.091l-4.423-1.106c-.44-.11-.902.055-1.173.417l-.97 1.293c-.282.376-.769.542-1.21.38a12.035 12.035 0 0 1-7.143-7.143c-.162-.441.004-.928.38-1.21l1.293-.97c.363-.271.527-.734.417-1.173L6.963 3.102a1.125 1.125 0 0 0-1.091-.852H4.5A2.25 2.25 0 0 0 2.25 4.5v2.25Z" />
-                      </svg>
-                      <span className="font-mono">{formatPhone(phone.phone)}</span>
-                      {phone.label && <span className="text-xs text-gray-500">({phone.label})</span>}
-                      {phone.isMobile && <span className="text-xs text-gray-500 bg-gray-200 px-1 rounded">Mobile</span>}
-                    </div>
-                  ))
-                ) : (
-                  <div className="flex items-center gap-2 text-gray-400">
-                    <svg className="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 6.75c0 8.284 6.716 15 15 15h2.25a2.25 2.25 0 0 0 2.25-2.25v-1.372c0-.516-.351-.966-.852-1.091l-4.423-1.106c-.44-.11-.902.055-1.173.417l-.97 1.293c-.282.376-.769.542-1.21.38a12.035 12.035 0 0 1-7.143-7.143c-.162-.441.004-.928.38-1.21l1.293-.97c.363-.271.527-.734.417-1.173L6.963 3.102a1.125 1.125 0 0 0-1.091-.852H4.5A2.25 2.25 0 0 0 2.25 4.5v2.25Z" />
-                    </svg>
-                    <span>No phone</span>
-                  </div>
-                )}
-
-                {/* Email Addresses */}
-                {account.emailAddresses.length > 0 ? (
-                  account.emailAddresses.map((email) => (
-                    <div key={email.id} className="flex items-center gap-2">
-                      <svg className="h-4 w-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75" />
-                      </svg>
-                      <span className="break-all">{email.email}</span>
-                      {email.label && <span className="text-xs text-gray-500">({email.label})</span>}
-                    </div>
-                  ))
-                ) : (
-                  <div className="flex items-center gap-2 text-gray-400">
-                    <svg className="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75" />
-                    </svg>
-                    <span>No email</span>
                   </div>
-                )}
-              </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 italic">No account holder</p>
+              )}
             </div>
-          ) : (
-            <p className="text-sm text-gray-400 italic">No account holder</p>
-          )}
-        </div>
 
-        {/* Additional Recipients Card */}
-        <div className="rounded-lg border bg-white p-6 lg:col-span-2">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900">Additional Recipients</h2>
-            <button
-              type="button"
-              onClick={() => addRecipient('PERSON')}
-              className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark bg-white px-2 py-1 rounded-md border border-gray-200 shadow-sm hover:shadow"
-              disabled={saving}
-            >
-              <Plus className="h-4 w-4" /> Add
-            </button>
-          </div>
-          {recipients.filter((r) => !r._delete && !r.isPrimary).length > 0 ? (
-            <div className="border rounded-lg overflow-hidden">
-              {/* Header Row */}
-              <div className="flex items-start gap-2 px-3 py-2 bg-gray-100 border-b text-xs font-medium text-gray-500 uppercase tracking-wide">
-                <span className="flex-1 min-w-0">Name</span>
-                <span className="w-16 text-center hidden sm:block">ID</span>
-                <span className="w-32 text-center hidden sm:block">Phone</span>
-                <span className="w-16 sm:w-20 text-center flex-shrink-0">Type</span>
-                <span className="w-16 sm:w-20 text-right flex-shrink-0">Actions</span>
+            {/* Additional Recipients Card */}
+            <div className="rounded-lg border bg-white p-6 lg:col-span-2">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Additional Recipients</h2>
+                <button
+                  type="button"
+                  onClick={() => addRecipient('PERSON')}
+                  className="flex items-center gap-1 text-sm text-postnet-red hover:text-postnet-red-dark bg-white px-2 py-1 rounded-md border border-gray-200 shadow-sm hover:shadow"
+                  disabled={saving}
+                >
+                  <Plus className="h-4 w-4" /> Add
+                </button>
               </div>
-              {/* Data Rows */}
-              <div className="divide-y">
-                {recipients
-                  .filter((r) => !r._delete && !r.isPrimary)
-                  .sort((a, b) => {
-                    // Business entries first, then persons
-                    if (a.recipientType === 'BUSINESS' && b.recipientType !== 'BUSINESS') return -1;
-                    if (a.recipientType !== 'BUSINESS' && b.recipientType === 'BUSINESS') return 1;
-
-                    // Within each type, sort alphabetically by display name
-                    const getDisplayName = (r: FormRecipient): string => {
-                      if (r.recipientType === 'BUSINESS') {
-                        return (r.businessAlias || r.businessName || '').toLowerCase();
+              {recipients.filter((r) => !r._delete && !r.isPrimary).length > 0 ? (
+                <div className="border rounded-lg overflow-hidden">
+                  {/* Header Row */}
+                  <div className="flex items-start gap-2 px-3 py-2 bg-gray-100 border-b text-xs font-medium text-gray-500 uppercase tracking-wide">
+                    <span className="flex-1 min-w-0">Name</span>
+                    <span className="w-16 text-center hidden sm:block">ID</span>
+                    <span className="w-32 text-center hidden sm:block">Phone</span>
+                    <span className="w-16 sm:w-20 text-center flex-shrink-0">Type</span>
+                    <span className="w-16 sm:w-20 text-right flex-shrink-0">Actions</span>
+                  </div>
+                  {/* Data Rows */}
+                  <div className="divide-y">
+                    {recipients
+                      .filter((r) => !r._delete && !r.isPrimary)
+                      .sort((a, b) => {
+                        // Business entries first, then persons
+                        if (a.recipientType === 'BUSINESS' && b.recipientType !== 'BUSINESS') return -1;
+                        if (a.recipientType !== 'BUSINESS' && b.recipientType === 'BUSINESS') return 1;
+
+                        // Within each type, sort alphabetically by display name
+                        const getDisplayName = (r: FormRecipient): string => {
+                          if (r.recipientType === 'BUSINESS') {
+                            return (r.businessAlias || r.businessName || '').toLowerCase();
+                          }
+                          return [r.firstName, r.middleName, r.lastName].filter(Boolean).join(' ').toLowerCase();
+                        };
+
+                        return getDisplayName(a).localeCompare(getDisplayName(b));
+                      })
+                      .map((recipient) => {
+                      const actualIndex = recipients.findIndex((r) => r.id === recipient.id || (!r.id && !recipient.id && r === recipient));
+
+                      // Check if minor (under 18) and if turning 18 soon (within 30 days)
+                      let isMinor = false;
+                      let turningAdultSoon = false;
+                      let personAge: number | null = null;
+                      if (recipient.recipientType === 'PERSON' && recipient.birthdate) {
+                        const ageInfo = getAgeInfo(recipient.birthdate);
+                        personAge = ageInfo.age;
+                        isMinor = ageInfo.isMinor;
+                        turningAdultSoon = ageInfo.isTurningAdultSoon;
                       }
-                      return [r.firstName, r.middleName, r.lastName].filter(Boolean).join(' ').toLowerCase();
-                    };
-
-                    return getDisplayName(a).localeCompare(getDisplayName(b));
-                  })
-                  .map((recipient) => {
-                  const actualIndex = recipients.findIndex((r) => r.id === recipient.id || (!r.id && !recipient.id && r === recipient));
-
-                  // Check if minor (under 18) and if turning 18 soon (within 30 days)
-                  let isMinor = false;
-                  let turningAdultSoon = false;
-                  let personAge: number | null = null;
-                  if (recipient.recipientType === 'PERSON' && recipient.birthdate) {
-                    const ageInfo = getAgeInfo(recipient.birthdate);
-                    personAge = ageInfo.age;
-                    isMinor = ageInfo.isMinor;
-                    turningAdultSoon = ageInfo.isTurningAdultSoon;
-                  }
-
-                  // Determine row background color
-                  const rowBgClass = recipient.recipientType === 'BUSINESS'
-                    ? 'bg-blue-50'
-                    : isMinor
-                      ? turningAdultSoon ? 'bg-orange-50' : 'bg-amber-50'
-                      : 'bg-white hover:bg-gray-50';
-
-                  // Get primary phone number if available
-                  const primaryPhone = recipient.phoneNumbers.find((p) => !p._delete);
-
-                  // ID verification status for PERSON recipients (adults only - minors don't need ID)
-                  let idStatus: 'verified' | 'expiring' | 'expired' | 'not-verified' | 'na' = 'na';
-                  if (recipient.recipientType === 'PERSON' && !isMinor) {
-                    if (recipient.idVerifiedDate) {
-                      if (recipient.idExpirationDate) {
-                        const expDate = new Date(recipient.idExpirationDate);
-                        const today = new Date();
-                        const daysUntilExpiry = Math.ceil((expDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-                        if (daysUntilExpiry < 0) {
-                          idStatus = 'expired';
-                        } else if (daysUntilExpiry <= 30) {
-                          idStatus = 'expiring';
+
+                      // Determine row background color
+                      const rowBgClass = recipient.recipientType === 'BUSINESS'
+                        ? 'bg-blue-50'
+                        : isMinor
+                          ? turningAdultSoon ? 'bg-orange-50' : 'bg-amber-50'
+                          : 'bg-white hover:bg-gray-50';
+
+                      // Get primary phone number if available
+                      const primaryPhone = recipient.phoneNumbers.find((p) => !p._delete);
+
+                      // ID verification status for PERSON recipients (adults only - minors don't need ID)
+                      let idStatus: 'verified' | 'expiring' | 'expired' | 'not-verified' | 'na' = 'na';
+                      if (recipient.recipientType === 'PERSON' && !isMinor) {
+                        if (recipient.idVerifiedDate) {
+                          if (recipient.idExpirationDate) {
+                            const expDate = new Date(recipient.idExpirationDate);
+                            const today = new Date();
+                            const daysUntilExpiry = Math.ceil((expDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+                            if (daysUntilExpiry < 0) {
+                              idStatus = 'expired';
+                            } else if (daysUntilExpiry <= 30) {
+                              idStatus = 'expiring';
+                            } else {
+                              idStatus = 'verified';
+                            }
+                          } else {
+                            idStatus = 'verified';
+                          }
                         } else {
-                          idStatus = 'verified';
+                          idStatus = 'not-verified';
                         }
-                      } else {
-                        idStatus = 'verified';
                       }
-                    } else {
-                      idStatus = 'not-verified';
-                    }
-                  }
-
-                  // Type badge - show age for minors, "Adult" for adults
-                  const typeBadge = recipient.recipientType === 'BUSINESS' ? (
-                    <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
-                      Business
-                    </span>
-                  ) : isMinor ? (
-                    turningAdultSoon ? (
-                      <span className="inline-flex items-center rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-800">
-                        Age {personAge}
-                      </span>
-                    ) : (
-                      <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
-                        Age {personAge}
-                      </span>
-                    )
-                  ) : (
-                    <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
-                      Adult
-                    </span>
-                  );
-
-                  // ID status badge - orange ID card icon for not-verified or expired
-                  const idBadge = idStatus === 'na' ? (
-                    <span className="text-xs text-gray-300">—</span>
-                  ) : idStatus === 'verified' ? (
-                    <span className="inline-flex items-center text-green-600" title="ID Verified">
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                      </svg>
-                    </span>
-                  ) : idStatus === 'expiring' ? (
-                    <span className="inline-flex items-center text-amber-600" title="ID Expiring Soon">
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                      </svg>
-                    </span>
-                  ) : (
-                    // expired or not-verified - show orange ID card icon
-                    <span className="inline-flex items-center text-orange-500" title={idStatus === 'expired' ? 'ID Expired' : 'ID Required'}>
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
-                      </svg>
-                    </span>
-                  );
-
-                  return (
-                    <div key={recipient.id ?? `new-${actualIndex}`} className={`flex items-start gap-2 px-3 py-2 ${rowBgClass}`}>
-                      <span className="text-sm flex-1 min-w-0 break-words"><RecipientNameDisplay recipient={recipient} /></span>
-                      <span className="w-16 flex justify-center hidden sm:flex flex-shrink-0">{idBadge}</span>
-                      <span className="w-32 text-center hidden sm:block flex-shrink-0">
-                        {primaryPhone ? (
-                          <span className="text-sm text-gray-500 font-mono">
-                            {formatPhone(primaryPhone.phone)}
+
+                      // Type badge - show age for minors, "Adult" for adults
+                      const typeBadge = recipient.recipientType === 'BUSINESS' ? (
+                        <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
+                          Business
+                        </span>
+                      ) : isMinor ? (
+                        turningAdultSoon ? (
+                          <span className="inline-flex items-center rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-800">
+                            Age {personAge}
                           </span>
                         ) : (
-                          <span className="text-xs text-gray-300">—</span>
-                        )}
-                      </span>
-                      <span className="w-16 sm:w-20 flex justify-center flex-shrink-0">{typeBadge}</span>
-                      <span className="w-16 sm:w-20 flex justify-end gap-1 flex-shrink-0">
-                        <button
-                          type="button"
-                          onClick={() => setEditingRecipientIndex(actualIndex)}
-                          className="p-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
-                          aria-label="Edit recipient"
-                          disabled={saving}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => setDeleteConfirmIndex(actualIndex)}
-                          className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded"
-                          aria-label="Delete recipient"
-                          disabled={saving}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </span>
-                    </div>
-                  );
-                })}
-              </div>
+                          <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                            Age {personAge}
+                          </span>
+                        )
+                      ) : (
+                        <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                          Adult
+                        </span>
+                      );
+
+                      // ID status badge - orange ID card icon for not-verified or expired
+                      const idBadge = idStatus === 'na' ? (
+                        <span className="text-xs text-gray-300">—</span>
+                      ) : idStatus === 'verified' ? (
+                        <span className="inline-flex items-center text-green-600" title="ID Verified">
+                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                          </svg>
+                        </span>
+                      ) : idStatus === 'expiring' ? (
+                        <span className="inline-flex items-center text-amber-600" title="ID Expiring Soon">
+                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                          </svg>
+                        </span>
+                      ) : (
+                        // expired or not-verified - show orange ID card icon
+                        <span className="inline-flex items-center text-orange-500" title={idStatus === 'expired' ? 'ID Expired' : 'ID Required'}>
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M15 9h3.75M15 12h3.75M15 15h3.75M4.5 19.5h15a2.25 2.25 0 0 0 2.25-2.25V6.75A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25v10.5A2.25 2.25 0 0 0 4.5 19.5Zm6-10.125a1.875 1.875 0 1 1-3.75 0 1.875 1.875 0 0 1 3.75 0Zm1.294 6.336a6.721 6.721 0 0 1-3.17.789 6.721 6.721 0 0 1-3.168-.789 3.376 3.376 0 0 1 6.338 0Z" />
+                          </svg>
+                        </span>
+                      );
+
+                      return (
+                        <div key={recipient.id ?? `new-${actualIndex}`} className={`flex items-start gap-2 px-3 py-2 ${rowBgClass}`}>
+                          <span className="text-sm flex-1 min-w-0 break-words"><RecipientNameDisplay recipient={recipient} /></span>
+                          <span className="w-16 flex justify-center hidden sm:flex flex-shrink-0">{idBadge}</span>
+                          <span className="w-32 text-center hidden sm:block flex-shrink-0">
+                            {primaryPhone ? (
+                              <span className="text-sm text-gray-500 font-mono">
+                                {formatPhone(primaryPhone.phone)}
+                              </span>
+                            ) : (
+                              <span className="text-xs text-gray-300">—</span>
+                            )}
+                          </span>
+                          <span className="w-16 sm:w-20 flex justify-center flex-shrink-0">{typeBadge}</span>
+                          <span className="w-16 sm:w-20 flex justify-end gap-1 flex-shrink-0">
+                            <button
+                              type="button"
+                              onClick={() => setEditingRecipientIndex(actualIndex)}
+                              className="p-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+                              aria-label="Edit recipient"
+                              disabled={saving}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setDeleteConfirmIndex(actualIndex)}
+                              className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded"
+                              aria-label="Delete recipient"
+                              disabled={saving}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 italic">No additional recipients</p>
+              )}
             </div>
-          ) : (
-            <p className="text-sm text-gray-400 italic">No additional recipients</p>
-          )}
-        </div>
 
-        {/* Payments Section - Collapsible */}
-        <div className="rounded-lg border bg-white p-6 lg:col-span-2">
-          <div className="flex items-center justify-between">
-            <button
-              type="button"
-              onClick={() => setPaymentsExpanded(!paymentsExpanded)}
-              className="flex items-center gap-2 text-lg font-semibold text-gray-900 hover:text-gray-700"
-            >
-              <svg
-                className={`h-5 w-5 transition-transform ${paymentsExpanded ? 'rotate-90' : ''}`}
-                fill="none"
-                viewBox="0 0 24 24"
-                strokeWidth={2}
-                stroke="currentColor"
-              >
-                <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
-              </svg>
-              Payments
-              {account.mailbox.status === 'RESERVED' && (
-                <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
-                  Awaiting First Payment
-                </span>
-              )}
-            </button>
-            {balanceDue > 0 && (
-              <button
-                type="button"
-                onClick={() => setRecordPaymentOpen(true)}
-                className="inline-flex items-center gap-1 rounded-md bg-postnet-red px-3 py-1.5 text-sm font-medium text-white hover:bg-postnet-red-dark"
-              >
-                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
-                </svg>
-                Record Payment
-              </button>
-            )}
-          </div>
+            {/* Payments Section - Collapsible */}
+            <div className="rounded-lg border bg-white p-6 lg:col-span-2">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setPaymentsExpanded(!paymentsExpanded)}
+                  className="flex items-center gap-2 text-lg font-semibold text-gray-900 hover:text-gray-700"
+                >
+                  <svg
+                    className={`h-5 w-5 transition-transform ${paymentsExpanded ? 'rotate-90' : ''}`}
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={2}
+                    stroke="currentColor"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+                  </svg>
+                  Payments
+                  {account.mailbox.status === 'RESERVED' && (
+                    <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                      Awaiting First Payment
+                    </span>
+                  )}
+                </button>
+                {balanceDue > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setRecordPaymentOpen(true)}
+                    className="inline-flex items-center gap-1 rounded-md bg-postnet-red px-3 py-1.5 text-sm font-medium text-white hover:bg-postnet-red-dark"
+                  >
+                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                    </svg>
+                    Record Payment
+                  </button>
+                )}
+              </div>
 
-          {paymentsExpanded && (
-            <div className="mt-4 pt-4 border-t">
-              {paymentsLoading ? (
-                <div className="animate-pulse space-y-3">
-                  <div className="h-10 bg-gray-200 rounded"></div>
-                  <div className="h-10 bg-gray-200 rounded"></div>
-                  <div className="h-10 bg-gray-200 rounded"></div>
-                </div>
-              ) : payments.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  No payments recorded yet
+              {paymentsExpanded && (
+                <div className="mt-4 pt-4 border-t">
+                  {paymentsLoading ? (
+                    <div className="animate-pulse space-y-3">
+                      <div className="h-10 bg-gray-200 rounded"></div>
+                      <div className="h-10 bg-gray-200 rounded"></div>
+                      <div className="h-10 bg-gray-200 rounded"></div>
+                    </div>
+                  ) : payments.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No payments recorded yet
+                    </div>
+                  ) : (
+                    <PaymentHistoryTable
+                      payments={payments}
+                      loading={false}
+                      onPaymentReversed={() => {
+                        void fetchPayments();
+                        void fetchAccount();
+                      }}
+                    />
+                  )}
                 </div>
-              ) : (
-                <PaymentHistoryTable payments={payments} loading={false} />
               )}
             </div>
-          )}
-        </div>
-      </div>
+
+            {/* Memos Section */}
+            <div className="lg:col-span-2">
+              <MemoList
+                accountId={accountId}
+                memos={memos}
+                isManager={isManager}
+                currentUserId={session?.user?.id ?? null}
+                onChanged={() => void fetchMemos()}
+              />
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="timeline">
+          <AccountTimeline accountId={accountId} />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <AuditHistory accountId={accountId} />
+        </TabsContent>
+      </Tabs>
 
       {/* Account Edit Dialog */}
       <AccountEditDialog
@@ -1322,6 +1541,61 @@ function AccountDetailContent(): React.ReactElement {
         }}
       />
 
+      {/* Plan Change Dialog */}
+      {account && (
+        <PlanChangeDialog
+          isOpen={planChangeOpen}
+          accountId={accountId}
+          currentPeriod={account.renewalPeriod as RenewalPeriod}
+          onClose={() => setPlanChangeOpen(false)}
+          onSuccess={(result) => {
+            setPlanChangeOpen(false);
+            void fetchAccount();
+            setSuccessMessage(
+              result.invoice.status === 'PAID'
+                ? 'Plan changed; the unused time covered the new term'
+                : `Plan changed; $${(result.invoice.totalAmount - result.invoice.creditApplied).toFixed(2)} due on the new invoice`
+            );
+            setTimeout(() => setSuccessMessage(null), 5000);
+          }}
+        />
+      )}
+
+      {/* Key Deposit Settlement Dialog */}
+      <KeyDepositSettleDialog
+        isOpen={depositSettleOpen}
+        accountId={accountId}
+        depositAmount={account ? Number(account.depositPaid) : 0}
+        onClose={() => setDepositSettleOpen(false)}
+        onSuccess={(action) => {
+          setDepositSettleOpen(false);
+          void fetchAccount();
+          setSuccessMessage(action === 'REFUND' ? 'Key deposit refunded' : 'Key deposit forfeited');
+          setTimeout(() => setSuccessMessage(null), 3000);
+        }}
+      />
+
+      {/* Account Close Dialog */}
+      <AccountCloseDialog
+        isOpen={closeAccountOpen}
+        accountId={accountId}
+        isManager={isManager}
+        onClose={() => setCloseAccountOpen(false)}
+        onSuccess={(result) => {
+          setCloseAccountOpen(false);
+          void fetchAccount();
+          if (result.notice.noticeHistoryId) {
+            window.open(`/api/notices/${result.notice.noticeHistoryId}/pdf`, '_blank');
+          }
+          setSuccessMessage(
+            result.notice.success
+              ? 'Account closed and closure notice generated'
+              : `Account closed, but the closure notice failed: ${result.notice.error ?? 'unknown error'}`
+          );
+          setTimeout(() => setSuccessMessage(null), 5000);
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       {deleteConfirmIndex !== null && (() => {
         const recipientToDelete = recipients[deleteConfirmIndex];
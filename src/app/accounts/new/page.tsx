@@ -28,6 +28,7 @@ interface FormData {
   monthlyRate: string;
   startDate: string;
   depositPaid: string;
+  discountCode: string;
   smsEnabled: boolean;
   emailEnabled: boolean;
 }
@@ -87,6 +88,7 @@ function NewAccountForm(): React.ReactElement {
     monthlyRate: '',
     startDate: today,
     depositPaid: '5.00',
+    discountCode: '',
     smsEnabled: false,
     emailEnabled: false,
   });
@@ -208,6 +210,7 @@ function NewAccountForm(): React.ReactElement {
         monthlyRate: parseFloat(formData.monthlyRate),
         startDate: formData.startDate,
         depositPaid: parseFloat(formData.depositPaid) || 5.00,
+        discountCode: formData.discountCode.trim() || undefined,
         smsEnabled: formData.smsEnabled,
         emailEnabled: formData.emailEnabled,
         recipient: {
@@ -539,7 +542,7 @@ function NewAccountForm(): React.ReactElement {
                 />
               </div>
               <div>
-                <label className="block text-xs text-gray-500 mb-1">Deposit Paid</label>
+                <label className="block text-xs text-gray-500 mb-1">Key Deposit</label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">$</span>
                   <input
@@ -552,6 +555,17 @@ function NewAccountForm(): React.ReactElement {
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Discount Code</label>
+                <input
+                  type="text"
+                  value={formData.discountCode}
+                  onChange={(e) => setFormData({ ...formData, discountCode: e.target.value.toUpperCase() })}
+                  placeholder="Optional"
+                  maxLength={30}
+                  className="w-full rounded-md border px-3 py-2 text-sm font-mono"
+                />
+              </div>
             </div>
 
             <div className="mt-4 pt-4 border-t flex gap-6">
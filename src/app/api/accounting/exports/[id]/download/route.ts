@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import { notFoundResponse, internalErrorResponse } from '@/lib/api/response';
+import { AccountingExportService } from '@/lib/services/accounting-export.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounting/exports/[id]/download
+ * Download an export batch's file (manager only)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const file = await AccountingExportService.getExportFile(id);
+    if (!file) {
+      return notFoundResponse('Export');
+    }
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.format === 'IIF' ? 'text/plain; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Accounting export download error:', error);
+    return internalErrorResponse('Failed to download accounting export');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AccountingExportService } from '@/lib/services/accounting-export.service';
+import { accountingExportRangeSchema } from '@/lib/validations/accounting';
+
+/**
+ * GET /api/accounting/exports/preview
+ * What exporting a date range would post, and how much of it is already exported (manager only)
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = accountingExportRangeSchema.safeParse({
+      startDate: searchParams.get('startDate') ?? undefined,
+      endDate: searchParams.get('endDate') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const preview = await AccountingExportService.preview(queryResult.data);
+    return successResponse(preview);
+  } catch (error) {
+    console.error('Accounting export preview GET error:', error);
+    return internalErrorResponse('Failed to preview accounting export');
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AccountingExportService } from '@/lib/services/accounting-export.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { createAccountingExportSchema } from '@/lib/validations/accounting';
+
+const EXPORT_ERRORS = [
+  'Nothing new to export for this date range',
+  'Some entries were exported by another batch, try again',
+];
+
+/**
+ * GET /api/accounting/exports
+ * Recent accounting export batches (manager only)
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const exports = await AccountingExportService.getExports();
+    return successResponse(exports);
+  } catch (error) {
+    console.error('Accounting exports GET error:', error);
+    return internalErrorResponse('Failed to fetch accounting exports');
+  }
+}
+
+/**
+ * POST /api/accounting/exports
+ * Export payments, refunds, deposits and invoice revenue for a date range as a
+ * QuickBooks IIF or journal CSV file (manager only). Entries an earlier batch
+ * already exported are left out.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = createAccountingExportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid export request',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    let batch;
+    try {
+      batch = await AccountingExportService.createExport(validationResult.data, user.id);
+    } catch (error) {
+      if (error instanceof Error && EXPORT_ERRORS.includes(error.message)) {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.ACCOUNTING_EXPORT,
+      batch.id,
+      null,
+      batch
+    );
+
+    return successResponse(batch, 201);
+  } catch (error) {
+    console.error('Accounting export POST error:', error);
+    return internalErrorResponse('Failed to create accounting export');
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AutoRenewalService } from '@/lib/services/auto-renewal.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { storeCardSchema } from '@/lib/validations/auto-renewal';
+import { prisma } from '@/lib/db/prisma';
+import { GATEWAY_NOT_CONFIGURED } from '@/lib/gateway';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const CARD_ERRORS = ['Invalid card token', 'Cannot store a card for a closed account', GATEWAY_NOT_CONFIGURED];
+
+/**
+ * PUT /api/accounts/[id]/auto-renewal/card
+ * Put a card on file from a gateway token, replacing any card already stored
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = storeCardSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid card',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const previous = await prisma.cardOnFile.findUnique({
+      where: { accountId: id },
+      include: { createdBy: { select: { id: true, username: true } } },
+    });
+
+    let card;
+    try {
+      card = await AutoRenewalService.storeCard(id, validationResult.data.sourceToken, user.id);
+    } catch (error) {
+      if (error instanceof Error && CARD_ERRORS.includes(error.message)) {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    if (!card) {
+      return notFoundResponse('Account');
+    }
+
+    const auditContext = AuditLogService.getContext(request, user);
+    if (previous) {
+      await AuditLogService.logChange(
+        auditContext,
+        AUDIT_LOG.ENTITY_TYPES.CARD_ON_FILE,
+        previous.id,
+        AutoRenewalService.serializeCard(previous),
+        null
+      );
+    }
+    await AuditLogService.logChange(auditContext, AUDIT_LOG.ENTITY_TYPES.CARD_ON_FILE, card.id, null, card);
+
+    return successResponse(card, 201);
+  } catch (error) {
+    console.error('Card on file PUT error:', error);
+    return internalErrorResponse('Failed to store card');
+  }
+}
+
+/**
+ * DELETE /api/accounts/[id]/auto-renewal/card
+ * Remove the card on file and turn auto-renew off
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const accountBefore = await prisma.account.findUnique({
+      where: { id },
+      select: { autoRenew: true },
+    });
+
+    const card = await AutoRenewalService.removeCard(id);
+    if (!card) {
+      return notFoundResponse('Card on file');
+    }
+
+    const auditContext = AuditLogService.getContext(request, user);
+    await AuditLogService.logChange(auditContext, AUDIT_LOG.ENTITY_TYPES.CARD_ON_FILE, card.id, card, null);
+    if (accountBefore?.autoRenew) {
+      await AuditLogService.logChange(
+        auditContext,
+        AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+        id,
+        { autoRenew: true },
+        { autoRenew: false }
+      );
+    }
+
+    return successResponse(card);
+  } catch (error) {
+    console.error('Card on file DELETE error:', error);
+    return internalErrorResponse('Failed to remove card');
+  }
+}
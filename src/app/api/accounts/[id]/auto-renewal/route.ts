@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AutoRenewalService } from '@/lib/services/auto-renewal.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { updateAutoRenewSchema } from '@/lib/validations/auto-renewal';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const SETTING_ERRORS = [
+  'A card must be on file to turn on auto-renew',
+  'Cannot turn on auto-renew for a closed account',
+];
+
+/**
+ * GET /api/accounts/[id]/auto-renewal
+ * Get the account's auto-renew setting, card on file and recent automatic charges
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const autoRenewal = await AutoRenewalService.getAccountAutoRenewal(id);
+    if (!autoRenewal) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(autoRenewal);
+  } catch (error) {
+    console.error('Account auto-renewal GET error:', error);
+    return internalErrorResponse('Failed to fetch auto-renewal settings');
+  }
+}
+
+/**
+ * PATCH /api/accounts/[id]/auto-renewal
+ * Turn auto-renew on or off
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = updateAutoRenewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid auto-renew setting',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    let change;
+    try {
+      change = await AutoRenewalService.setAutoRenew(id, validationResult.data.autoRenew);
+    } catch (error) {
+      if (error instanceof Error && SETTING_ERRORS.includes(error.message)) {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    if (!change) {
+      return notFoundResponse('Account');
+    }
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+      id,
+      { autoRenew: change.before },
+      { autoRenew: change.after }
+    );
+
+    const autoRenewal = await AutoRenewalService.getAccountAutoRenewal(id);
+    return successResponse(autoRenewal);
+  } catch (error) {
+    console.error('Account auto-renewal PATCH error:', error);
+    return internalErrorResponse('Failed to update auto-renew');
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AccountClosureService } from '@/lib/services/account-closure.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { closeAccountSchema } from '@/lib/validations/account-closure';
+import { prisma } from '@/lib/db/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/close
+ * Preview what closing the account involves: unpaid invoices and the key deposit
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const preview = await AccountClosureService.getClosurePreview(id);
+    if (!preview) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(preview);
+  } catch (error) {
+    console.error('Account closure preview error:', error);
+    return internalErrorResponse('Failed to load closure details');
+  }
+}
+
+/**
+ * POST /api/accounts/[id]/close
+ * Close the account, release its mailbox and send the closure notice.
+ * Writing off unpaid invoices and settling the key deposit require a manager.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = closeAccountSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid account closure',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const input = validationResult.data;
+
+    if ((input.writeOffUnpaid || input.deposit) && user.role !== 'MANAGER') {
+      return errorResponse(
+        'FORBIDDEN',
+        'A manager is required to write off invoices or settle the key deposit',
+        403
+      );
+    }
+
+    const preview = await AccountClosureService.getClosurePreview(id);
+    if (!preview) {
+      return notFoundResponse('Account');
+    }
+
+    if (preview.status === 'CLOSED') {
+      return badRequestResponse('Account is already closed');
+    }
+
+    if (preview.unpaidInvoices.length > 0 && !input.writeOffUnpaid) {
+      return badRequestResponse(
+        'Account has unpaid invoices',
+        preview.unpaidInvoices.map((invoice) => ({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          balanceDue: invoice.balanceDue,
+        }))
+      );
+    }
+
+    const accountBefore = await prisma.account.findUnique({ where: { id } });
+    if (!accountBefore) {
+      return notFoundResponse('Account');
+    }
+    const mailboxBefore = await prisma.mailbox.findUnique({ where: { id: accountBefore.mailboxId } });
+
+    const result = await AccountClosureService.closeAccount(id, input, user.id);
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    const accountAfter = await prisma.account.findUnique({ where: { id } });
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, id, accountBefore, accountAfter);
+    const mailboxAfter = await prisma.mailbox.findUnique({ where: { id: accountBefore.mailboxId } });
+    await AuditLogService.logChange(
+      auditContext,
+      ENTITY_TYPES.MAILBOX,
+      accountBefore.mailboxId,
+      mailboxBefore,
+      mailboxAfter
+    );
+    await AccountClosureService.logClosure(auditContext, result);
+
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Account not found') {
+        return notFoundResponse('Account');
+      }
+      if (
+        error.message === 'Account is already closed' ||
+        error.message === 'Account has unpaid invoices' ||
+        error.message === 'No key deposit is held for this account' ||
+        error.message === 'Refund method is required'
+      ) {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Account close error:', error);
+    return internalErrorResponse('Failed to close account');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { CreditService } from '@/lib/services/credit.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/credit
+ * Get the account's credit balance and its ledger history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const credit = await CreditService.getAccountCredit(id);
+    if (!credit) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(credit);
+  } catch (error) {
+    console.error('Account credit GET error:', error);
+    return internalErrorResponse('Failed to fetch account credit');
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { KeyDepositService } from '@/lib/services/key-deposit.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { settleKeyDepositSchema } from '@/lib/validations/key-deposit';
+import { prisma } from '@/lib/db/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/deposit
+ * Get the account's key deposit and its ledger history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const deposit = await KeyDepositService.getAccountDeposit(id);
+    if (!deposit) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(deposit);
+  } catch (error) {
+    console.error('Key deposit GET error:', error);
+    return internalErrorResponse('Failed to fetch key deposit');
+  }
+}
+
+/**
+ * POST /api/accounts/[id]/deposit
+ * Refund or forfeit the key deposit on a closed account (manager only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = settleKeyDepositSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid deposit settlement',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const accountBefore = await prisma.account.findUnique({ where: { id } });
+    if (!accountBefore) {
+      return notFoundResponse('Account');
+    }
+
+    const transaction = await KeyDepositService.settleDeposit(id, validationResult.data, user.id);
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    await AuditLogService.logChange(
+      auditContext,
+      ENTITY_TYPES.KEY_DEPOSIT_TRANSACTION,
+      transaction.id,
+      null,
+      transaction
+    );
+    const accountAfter = await prisma.account.findUnique({ where: { id } });
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, id, accountBefore, accountAfter);
+
+    return successResponse(transaction, 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Account not found') {
+        return notFoundResponse('Account');
+      }
+      if (
+        error.message === 'Deposits can only be settled once the account is closed' ||
+        error.message === 'No key deposit is held for this account' ||
+        error.message === 'Refund method is required'
+      ) {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Key deposit POST error:', error);
+    return internalErrorResponse('Failed to settle key deposit');
+  }
+}
@@ -3,6 +3,7 @@ import { requireAuth } from '@/lib/auth/authorize';
 import { successResponse, notFoundResponse, internalErrorResponse } from '@/lib/api/response';
 import { prisma } from '@/lib/db/prisma';
 import { PricingService } from '@/lib/services/pricing.service';
+import { DiscountService } from '@/lib/services/discount.service';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -52,6 +53,7 @@ function calculateRenewalEndDate(startDate: Date, renewalPeriod: string): Date {
  *   - renewal=true: Get invoice for renewal (next term with current pricing)
  *   - period=THREE_MONTH|SIX_MONTH|TWELVE_MONTH: Override renewal period (only for renewal mode)
  *   - paymentDate=YYYY-MM-DD: Date of payment (determines which rates apply for renewal)
+ *   - discountCode=CODE: Promotion to preview on a new renewal invoice
  */
 export async function GET(
   request: NextRequest,
@@ -66,6 +68,7 @@ export async function GET(
     const isRenewal = searchParams.get('renewal') === 'true';
     const periodOverride = searchParams.get('period'); // Optional period override for renewal
     const paymentDateStr = searchParams.get('paymentDate'); // Optional payment date for rate lookup
+    const discountCode = searchParams.get('discountCode');
 
     // Get account with mailbox and recipients
     const account = await prisma.account.findUnique({
@@ -126,14 +129,22 @@ export async function GET(
           total: Number(item.totalAmount),
         }));
 
+        // Late / reinstatement fees a manager can still waive
+        const overdueFees = existingRenewalInvoice.lineItems
+          .filter(item => item.lineType === 'LATE_FEE' || item.lineType === 'REINSTATEMENT_FEE')
+          .reduce((sum, item) => sum + Number(item.totalAmount), 0);
+
         return successResponse({
           mailboxNumber: account.mailbox.number,
           recipientName,
+          checkApprovalRequired: account.checkApprovalRequired,
           renewalPeriod: existingRenewalInvoice.renewalPeriod,
-          currentRate: Number(existingRenewalInvoice.totalAmount) / existingRenewalInvoice.periodMonths,
+          currentRate: (Number(existingRenewalInvoice.totalAmount) - overdueFees) / existingRenewalInvoice.periodMonths,
           startDate: existingRenewalInvoice.periodStart.toISOString(),
           nextRenewalDate: existingRenewalInvoice.periodEnd.toISOString(),
           totalPayments,
+          creditApplied: Number(existingRenewalInvoice.creditApplied),
+          overdueFees,
           isRenewal: true,
           lineItems,
           invoiceId: existingRenewalInvoice.id,
@@ -229,17 +240,68 @@ export async function GET(
         });
       }
 
+      // Promotion entered at the counter; a code that can't be used is reported, not applied
+      let discount: { code: string; amount: number } | null = null;
+      let discountError: string | null = null;
+      if (discountCode) {
+        const check = await DiscountService.checkCode(discountCode, {
+          accountId: id,
+          isNewAccount: false,
+          renewalPeriod: renewalPeriod as 'THREE_MONTH' | 'SIX_MONTH' | 'TWELVE_MONTH',
+          date: paymentDateStr ? new Date(paymentDateStr) : new Date(),
+          termTotal: priceBreakdown.totalForPeriod,
+        });
+        if (check.discount) {
+          discount = { code: check.discount.code, amount: check.discount.amount };
+          lineItems.push({
+            description: check.discount.description,
+            unitPrice: -check.discount.amount,
+            months: 1,
+            total: -check.discount.amount,
+          });
+        } else {
+          discountError = check.reason;
+        }
+      }
+
+      // One-time fees for paying after the renewal date or reinstating from HOLD
+      const fees = PricingService.getOverdueFees(
+        ratesForRenewal,
+        account,
+        paymentDateStr ? new Date(paymentDateStr) : new Date()
+      );
+      for (const fee of fees) {
+        lineItems.push({
+          description: fee.description,
+          unitPrice: fee.amount,
+          months: 1,
+          total: fee.amount,
+        });
+      }
+      const overdueFees = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
       // No payments for the renewal term yet
       const totalPayments = 0;
 
+      // Account credit the renewal invoice will draw down when it is created
+      const creditApplied = Math.min(
+        Number(account.creditBalance),
+        priceBreakdown.totalForPeriod - (discount?.amount ?? 0) + overdueFees
+      );
+
       return successResponse({
         mailboxNumber: account.mailbox.number,
         recipientName,
+        checkApprovalRequired: account.checkApprovalRequired,
         renewalPeriod: renewalPeriod, // Return the selected period, not account's default
         currentRate: priceBreakdown.totalMonthly,
         startDate: renewalStartDate.toISOString(),
         nextRenewalDate: renewalEndDate.toISOString(),
         totalPayments,
+        creditApplied,
+        overdueFees,
+        discount,
+        discountError,
         isRenewal: true,
         lineItems,
       });
@@ -343,13 +405,20 @@ export async function GET(
       return successResponse({
         mailboxNumber: account.mailbox.number,
         recipientName,
+        checkApprovalRequired: account.checkApprovalRequired,
         renewalPeriod: account.renewalPeriod,
         currentRate: totalCharge / (account.renewalPeriod === 'THREE_MONTH' ? 3 : account.renewalPeriod === 'SIX_MONTH' ? 6 : 12),
         startDate: account.startDate.toISOString(),
         nextRenewalDate: account.nextRenewalDate.toISOString(),
         totalPayments: combinedPayments,
+        creditApplied:
+          Number(existingInvoice?.creditApplied ?? 0) + Number(prorationInvoice?.creditApplied ?? 0),
         isRenewal: false,
         lineItems,
+        // Link payments to the open term invoice so it (and its key deposit) can be marked paid
+        ...(existingInvoice && existingInvoice.status !== 'PAID' && !prorationInvoice && {
+          invoiceId: existingInvoice.id,
+        }),
       });
     }
   } catch (error) {
@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
 import { successResponse, notFoundResponse, badRequestResponse, internalErrorResponse } from '@/lib/api/response';
 import { InvoiceService } from '@/lib/services/invoice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import { prisma } from '@/lib/db/prisma';
 
 interface RouteParams {
@@ -122,6 +124,16 @@ export async function POST(
       userId
     );
 
+    if (user) {
+      await AuditLogService.logChange(
+        AuditLogService.getContext(request, user),
+        AUDIT_LOG.ENTITY_TYPES.INVOICE,
+        invoice.id,
+        null,
+        invoice
+      );
+    }
+
     return successResponse({ invoice }, 201);
   } catch (error) {
     console.error('Failed to create invoice:', error);
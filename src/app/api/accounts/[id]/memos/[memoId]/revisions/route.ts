@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { MemoService } from '@/lib/services/memo.service';
+
+interface RouteParams {
+  params: Promise<{ id: string; memoId: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/memos/[memoId]/revisions
+ * Get previous versions of a memo's content, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id, memoId } = await params;
+    const revisions = await MemoService.getMemoRevisions(id, memoId);
+
+    if (!revisions) {
+      return notFoundResponse('Memo');
+    }
+
+    return successResponse(revisions);
+  } catch (error) {
+    console.error('Memo revisions GET error:', error);
+    return internalErrorResponse('Failed to fetch memo history');
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { MemoService } from '@/lib/services/memo.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { updateMemoSchema } from '@/lib/validations/memo';
+
+interface RouteParams {
+  params: Promise<{ id: string; memoId: string }>;
+}
+
+/**
+ * PATCH /api/accounts/[id]/memos/[memoId]
+ * Edit memo content (author or MANAGER) or pin/unpin a memo (any staff member)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id, memoId } = await params;
+    const body: unknown = await request.json();
+
+    const validationResult = updateMemoSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid memo data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return errorResponse('UNAUTHORIZED', 'Authentication required', 401);
+    }
+
+    const memo = await MemoService.updateMemo(
+      id,
+      memoId,
+      validationResult.data,
+      user,
+      AuditLogService.getContext(request, user)
+    );
+
+    return successResponse(memo);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Memo not found') {
+        return notFoundResponse('Memo');
+      }
+      if (error.message === 'Only the author or a manager can edit a memo') {
+        return errorResponse('FORBIDDEN', error.message, 403);
+      }
+      if (error.message === 'Cannot edit a deleted memo') {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Memo PATCH error:', error);
+    return internalErrorResponse('Failed to update memo');
+  }
+}
+
+/**
+ * DELETE /api/accounts/[id]/memos/[memoId]
+ * Soft delete a memo (MANAGER only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id, memoId } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return errorResponse('UNAUTHORIZED', 'Authentication required', 401);
+    }
+
+    const memo = await MemoService.deleteMemo(
+      id,
+      memoId,
+      user,
+      AuditLogService.getContext(request, user)
+    );
+
+    return successResponse(memo);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Memo not found') {
+        return notFoundResponse('Memo');
+      }
+      if (error.message === 'Memo is already deleted') {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Memo DELETE error:', error);
+    return internalErrorResponse('Failed to delete memo');
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { MemoService } from '@/lib/services/memo.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { createMemoSchema, memoListQuerySchema } from '@/lib/validations/memo';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/memos
+ * Get memos for an account, pinned first (deleted memos are MANAGER only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const queryResult = memoListQuerySchema.safeParse({
+      includeDeleted: request.nextUrl.searchParams.get('includeDeleted') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (queryResult.data.includeDeleted && user?.role !== 'MANAGER') {
+      return errorResponse('FORBIDDEN', 'Only managers can view deleted memos', 403);
+    }
+
+    const memos = await MemoService.getAccountMemos(id, queryResult.data.includeDeleted);
+    return successResponse(memos);
+  } catch (error) {
+    console.error('Memos GET error:', error);
+    return internalErrorResponse('Failed to fetch memos');
+  }
+}
+
+/**
+ * POST /api/accounts/[id]/memos
+ * Add a memo to an account (any staff member)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const body: unknown = await request.json();
+
+    const validationResult = createMemoSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid memo data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return errorResponse('UNAUTHORIZED', 'Authentication required', 401);
+    }
+
+    const memo = await MemoService.createMemo(
+      id,
+      validationResult.data,
+      user.id,
+      AuditLogService.getContext(request, user)
+    );
+
+    return successResponse(memo, 201);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Account not found') {
+      return notFoundResponse('Account');
+    }
+    console.error('Memos POST error:', error);
+    return internalErrorResponse('Failed to create memo');
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { AuditService } from '@/lib/services/audit.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import { prisma } from '@/lib/db/prisma';
 import { z } from 'zod';
 
@@ -63,6 +65,15 @@ export async function POST(
       validation.data.reason
     );
 
+    const updated = await prisma.account.findUnique({ where: { id: accountId } });
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+      accountId,
+      account,
+      updated
+    );
+
     return NextResponse.json({
       message: 'Rate override set successfully',
     });
@@ -76,7 +87,7 @@ export async function POST(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
@@ -109,6 +120,15 @@ export async function DELETE(
 
     await AuditService.clearRateOverride(accountId);
 
+    const updated = await prisma.account.findUnique({ where: { id: accountId } });
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+      accountId,
+      account,
+      updated
+    );
+
     return NextResponse.json({
       message: 'Rate override cleared',
     });
@@ -0,0 +1,130 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { PlanChangeService } from '@/lib/services/plan-change.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { planChangeSchema } from '@/lib/validations/plan-change';
+import { prisma } from '@/lib/db/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/plan-change?renewalPeriod=TWELVE_MONTH
+ * Compare the current term with switching to another plan today
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = planChangeSchema.safeParse({ renewalPeriod: searchParams.get('renewalPeriod') });
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid plan change',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const preview = await PlanChangeService.previewPlanChange(id, validationResult.data.renewalPeriod);
+    if (!preview) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(preview);
+  } catch (error) {
+    console.error('Plan change GET error:', error);
+    return internalErrorResponse('Failed to preview plan change');
+  }
+}
+
+/**
+ * POST /api/accounts/[id]/plan-change
+ * Switch the account to another plan, crediting unused time on the current term
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = planChangeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid plan change',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const accountBefore = await prisma.account.findUnique({ where: { id } });
+    if (!accountBefore) {
+      return notFoundResponse('Account');
+    }
+
+    let result;
+    try {
+      result = await PlanChangeService.changePlan(id, validationResult.data.renewalPeriod, user.id);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message === 'Closed accounts cannot change plans' ||
+          error.message === 'The account is already on this plan' ||
+          error.message === 'The account has an unpaid renewal invoice' ||
+          error.message === 'The current term has ended; renew the account instead')
+      ) {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    if (!result) {
+      return notFoundResponse('Account');
+    }
+
+    const context = AuditLogService.getContext(request, user);
+    const accountAfter = await prisma.account.findUnique({ where: { id } });
+    await AuditLogService.logChange(context, AUDIT_LOG.ENTITY_TYPES.ACCOUNT, id, accountBefore, accountAfter);
+    await AuditLogService.logChange(
+      context,
+      AUDIT_LOG.ENTITY_TYPES.INVOICE,
+      result.invoice.id,
+      null,
+      result.invoice
+    );
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('Plan change POST error:', error);
+    return internalErrorResponse('Failed to change plan');
+  }
+}
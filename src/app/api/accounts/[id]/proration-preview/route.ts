@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { ProrationService } from '@/lib/services/proration.service';
+import { prorationPreviewSchema } from '@/lib/validations/proration';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/accounts/[id]/proration-preview
+ * Preview what recipient changes will charge or credit for the rest of the term
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const body: unknown = await request.json();
+    const validationResult = prorationPreviewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid recipient changes',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const preview = await ProrationService.previewRecipientChanges(
+      id,
+      validationResult.data.recipients
+    );
+    if (!preview) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(preview);
+  } catch (error) {
+    console.error('Proration preview POST error:', error);
+    return internalErrorResponse('Failed to preview proration');
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AccountClosureService } from '@/lib/services/account-closure.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { ACCOUNT_CLOSURE, AUDIT_LOG } from '@/constants/app';
+import { prisma } from '@/lib/db/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/reopen
+ * Whether a closed account can still be reopened, and until when
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const eligibility = await AccountClosureService.getReopenEligibility(id);
+    if (!eligibility) {
+      return notFoundResponse('Account');
+    }
+
+    return successResponse(eligibility);
+  } catch (error) {
+    console.error('Account reopen check error:', error);
+    return internalErrorResponse('Failed to check reopen eligibility');
+  }
+}
+
+/**
+ * POST /api/accounts/[id]/reopen
+ * Reopen a recently closed account whose mailbox hasn't been reassigned
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const accountBefore = await prisma.account.findUnique({ where: { id } });
+    if (!accountBefore) {
+      return notFoundResponse('Account');
+    }
+    const mailboxBefore = await prisma.mailbox.findUnique({ where: { id: accountBefore.mailboxId } });
+
+    const result = await AccountClosureService.reopenAccount(id, user.id);
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    const accountAfter = await prisma.account.findUnique({ where: { id } });
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, id, accountBefore, accountAfter);
+    const mailboxAfter = await prisma.mailbox.findUnique({ where: { id: accountBefore.mailboxId } });
+    await AuditLogService.logChange(
+      auditContext,
+      ENTITY_TYPES.MAILBOX,
+      accountBefore.mailboxId,
+      mailboxBefore,
+      mailboxAfter
+    );
+    for (const recipientId of result.restoredRecipientIds) {
+      await AuditLogService.log(auditContext, {
+        action: 'UPDATE',
+        entityType: ENTITY_TYPES.RECIPIENT,
+        entityId: recipientId,
+        changes: {
+          removedDate: { before: accountBefore.closedAt?.toISOString() ?? null, after: null },
+          removalReason: { before: ACCOUNT_CLOSURE.RECIPIENT_REMOVAL_REASON, after: null },
+        },
+      });
+    }
+
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Account not found') {
+        return notFoundResponse('Account');
+      }
+      if (
+        error.message === 'Only closed accounts can be reopened' ||
+        error.message === 'The reopen window for this account has passed' ||
+        error.message === 'The mailbox has been reassigned'
+      ) {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Account reopen error:', error);
+    return internalErrorResponse('Failed to reopen account');
+  }
+}
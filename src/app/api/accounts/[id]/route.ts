@@ -3,14 +3,57 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { prisma } from '@/lib/db/prisma';
 import { formatRecipientName } from '@/lib/utils/recipient';
+import { roundCurrency } from '@/lib/utils/currency';
 import { PricingService } from '@/lib/services/pricing.service';
-import { InvoiceService } from '@/lib/services/invoice.service';
-import type { CreateInvoiceLineItemInput } from '@/types/invoice';
+import { ProrationService } from '@/lib/services/proration.service';
+import { DiscountService } from '@/lib/services/discount.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { SmsService } from '@/lib/services/sms.service';
+import { AUDIT_LOG } from '@/constants/app';
+import type { AuditContext } from '@/types/audit-log';
+import type { RecipientAnalysis } from '@/types/pricing';
+import type { Account, Recipient, PhoneNumber, EmailAddress } from '@prisma/client';
 
 interface RouteParams {
   params: { id: string };
 }
 
+interface AuditSnapshot {
+  account: Account | null;
+  recipients: Recipient[];
+  phoneNumbers: PhoneNumber[];
+  emailAddresses: EmailAddress[];
+}
+
+/**
+ * Load the account and everything editable through PATCH, for audit diffs
+ */
+async function loadAuditSnapshot(accountId: string): Promise<AuditSnapshot> {
+  const [account, recipients, phoneNumbers, emailAddresses] = await Promise.all([
+    prisma.account.findUnique({ where: { id: accountId } }),
+    prisma.recipient.findMany({ where: { accountId } }),
+    prisma.phoneNumber.findMany({ where: { contactCard: { recipient: { accountId } } } }),
+    prisma.emailAddress.findMany({ where: { contactCard: { recipient: { accountId } } } }),
+  ]);
+  return { account, recipients, phoneNumbers, emailAddresses };
+}
+
+/**
+ * Record every field that changed between two account snapshots
+ */
+async function logSnapshotChanges(
+  context: AuditContext,
+  accountId: string,
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): Promise<void> {
+  const { ENTITY_TYPES } = AUDIT_LOG;
+  await AuditLogService.logChange(context, ENTITY_TYPES.ACCOUNT, accountId, before.account, after.account);
+  await AuditLogService.logCollectionChanges(context, ENTITY_TYPES.RECIPIENT, before.recipients, after.recipients);
+  await AuditLogService.logCollectionChanges(context, ENTITY_TYPES.PHONE_NUMBER, before.phoneNumbers, after.phoneNumbers);
+  await AuditLogService.logCollectionChanges(context, ENTITY_TYPES.EMAIL_ADDRESS, before.emailAddresses, after.emailAddresses);
+}
+
 export async function GET(
   _request: NextRequest,
   { params }: RouteParams
@@ -162,10 +205,13 @@ export async function GET(
       balanceDue,
       depositPaid: account.depositPaid.toString(),
       depositReturned: account.depositReturned,
+      depositForfeited: account.depositForfeited,
+      creditBalance: account.creditBalance.toString(),
       smsEnabled: account.smsEnabled,
       emailEnabled: account.emailEnabled,
       closedAt: account.closedAt?.toISOString() ?? null,
       closureReason: account.closureReason,
+      checkApprovalRequired: account.checkApprovalRequired,
       auditFlag: account.auditFlag,
       auditNote: account.auditNote,
       auditedAt: account.auditedAt?.toISOString() ?? null,
@@ -227,6 +273,8 @@ export async function PATCH(
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
 
+    const auditBefore = await loadAuditSnapshot(params.id);
+
     // Build update data with only allowed fields
     const updateData: Record<string, unknown> = {};
 
@@ -323,6 +371,29 @@ export async function PATCH(
       },
     });
 
+    // Record manual status changes alongside the lifecycle engine's transitions
+    if (updated.status !== existing.status) {
+      await prisma.accountStatusChange.create({
+        data: {
+          accountId: params.id,
+          fromStatus: existing.status,
+          toStatus: updated.status,
+          reason: updated.closureReason ?? 'Manual status change',
+          changedById: session.user.id,
+        },
+      });
+    }
+
+    // Staff-recorded SMS opt-in/opt-out
+    if (updated.smsEnabled !== existing.smsEnabled) {
+      await SmsService.recordConsent({
+        accountId: params.id,
+        smsEnabled: updated.smsEnabled,
+        source: 'STAFF',
+        changedById: session.user.id,
+      });
+    }
+
     // Handle phone number updates
     if (Array.isArray(body.phoneNumbers)) {
       for (const phone of body.phoneNumbers as Array<Record<string, unknown>>) {
@@ -386,7 +457,7 @@ export async function PATCH(
     }
 
     // Capture "before" state for proration calculation
-    let beforeAnalysis: { adultCount: number; minorCount: number; hasBusinessRecipient: boolean } | null = null;
+    let beforeAnalysis: RecipientAnalysis | null = null;
     const recipientsWillChange = Array.isArray(body.recipients) && body.recipients.length > 0;
 
     if (recipientsWillChange) {
@@ -553,8 +624,12 @@ export async function PATCH(
             hasBusinessRecipient: analysis.hasBusinessRecipient,
           });
 
+          // A discount redeemed for the current term lowers the expected rate
+          const termDiscounts = await DiscountService.getCurrentTermDiscounts([accountAfterUpdate]);
           const currentRate = parseFloat(accountAfterUpdate.currentRate.toString());
-          const expectedRate = breakdown.totalMonthly;
+          const expectedRate = roundCurrency(
+            breakdown.totalMonthly - (termDiscounts.get(params.id)?.monthly ?? 0)
+          );
           const discrepancy = Math.abs(currentRate - expectedRate);
 
           if (discrepancy <= 0.01) {
@@ -567,9 +642,9 @@ export async function PATCH(
                 auditedAt: null,
               },
             });
-          } else if (recipientsWillChange && expectedRate > currentRate) {
-            // If recipients changed and rate increased, update the rate
-            // This handles cases like adding a business recipient or additional adults
+          } else if (recipientsWillChange) {
+            // Recipients changed, so move the rate to match. Added fees are billed
+            // and removed ones credited for the rest of the term below.
             await prisma.account.update({
               where: { id: params.id },
               data: {
@@ -592,86 +667,37 @@ export async function PATCH(
             });
           }
 
-          // Create proration invoice if recipients changed and fees increased
+          // Bill added fees and credit removed ones for the rest of the term
           if (beforeAnalysis && recipientsWillChange) {
-            const addedFees: Array<{
-              lineType: CreateInvoiceLineItemInput['lineType'];
-              description: string;
-              monthlyRate: number;
-            }> = [];
-
-            // Check if business fee was added
-            if (!beforeAnalysis.hasBusinessRecipient && analysis.hasBusinessRecipient) {
-              addedFees.push({
-                lineType: 'BUSINESS_FEE',
-                description: 'Business Account Fee',
-                monthlyRate: Number(rates.businessAccountFee),
-              });
-            }
-
-            // Check for additional recipient fees (4th-7th)
-            const beforeAdditional = Math.max(0, beforeAnalysis.adultCount - 3);
-            const afterAdditional = Math.max(0, analysis.adultCount - 3);
-            const additionalFeeTypes: Array<{ type: CreateInvoiceLineItemInput['lineType']; label: string; rateField: keyof typeof rates }> = [
-              { type: 'ADDITIONAL_RECIPIENT_4TH', label: '4th Recipient Fee', rateField: 'rate4thAdult' },
-              { type: 'ADDITIONAL_RECIPIENT_5TH', label: '5th Recipient Fee', rateField: 'rate5thAdult' },
-              { type: 'ADDITIONAL_RECIPIENT_6TH', label: '6th Recipient Fee', rateField: 'rate6thAdult' },
-              { type: 'ADDITIONAL_RECIPIENT_7TH', label: '7th Recipient Fee', rateField: 'rate7thAdult' },
-            ];
-
-            for (let i = beforeAdditional; i < Math.min(afterAdditional, 4); i++) {
-              const feeInfo = additionalFeeTypes[i];
-              if (feeInfo) {
-                addedFees.push({
-                  lineType: feeInfo.type,
-                  description: feeInfo.label,
-                  monthlyRate: Number(rates[feeInfo.rateField]),
-                });
-              }
-            }
-
-            // Check for minor fees added
-            const beforeMinors = beforeAnalysis.minorCount;
-            const afterMinors = analysis.minorCount;
-            if (afterMinors > beforeMinors) {
-              const addedMinors = afterMinors - beforeMinors;
-              addedFees.push({
-                lineType: 'MINOR_FEE',
-                description: `Minor Recipient Fee${addedMinors > 1 ? ` (${addedMinors})` : ''}`,
-                monthlyRate: Number(rates.minorRecipientFee) * addedMinors,
-              });
-            }
-
-            // Create proration invoice if any fees were added
-            // But first check if there's already an unpaid proration invoice for this term
-            if (addedFees.length > 0) {
-              const existingProration = await prisma.invoice.findFirst({
-                where: {
-                  accountId: params.id,
-                  invoiceType: 'PRORATION',
-                  status: { in: ['PENDING', 'PARTIAL'] },
-                  periodEnd: accountAfterUpdate.nextRenewalDate,
-                },
-              });
-
-              // Only create if no existing proration invoice for this term
-              if (!existingProration) {
-                const userId = session?.user?.id ?? null;
-                await InvoiceService.createProrationInvoice(
-                  params.id,
-                  accountAfterUpdate.startDate,
-                  accountAfterUpdate.nextRenewalDate,
-                  accountAfterUpdate.renewalPeriod,
-                  addedFees,
-                  userId
-                );
-              }
+            const proration = await ProrationService.applyRecipientChange(
+              accountAfterUpdate,
+              rates,
+              beforeAnalysis,
+              analysis,
+              session?.user?.id ?? null
+            );
+            if (proration.invoice) {
+              await AuditLogService.logChange(
+                AuditLogService.getContext(request, session.user),
+                AUDIT_LOG.ENTITY_TYPES.INVOICE,
+                proration.invoice.id,
+                proration.invoiceBefore,
+                proration.invoice
+              );
             }
           }
         }
       }
     }
 
+    const auditAfter = await loadAuditSnapshot(params.id);
+    await logSnapshotChanges(
+      AuditLogService.getContext(request, session.user),
+      params.id,
+      auditBefore,
+      auditAfter
+    );
+
     return NextResponse.json({
       id: updated.id,
       status: updated.status,
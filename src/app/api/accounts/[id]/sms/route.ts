@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { SmsService } from '@/lib/services/sms.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/sms
+ * Get SMS messages sent to an account with their delivery status, and its opt-in/opt-out history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const history = await SmsService.getAccountHistory(id);
+    return successResponse(history);
+  } catch (error) {
+    console.error('Account SMS GET error:', error);
+    return internalErrorResponse('Failed to fetch SMS history');
+  }
+}
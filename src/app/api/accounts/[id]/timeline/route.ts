@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { MemoService } from '@/lib/services/memo.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/accounts/[id]/timeline
+ * Get memos, payments, notices and status changes for an account, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const events = await MemoService.getAccountTimeline(id);
+    return successResponse(events);
+  } catch (error) {
+    console.error('Account timeline GET error:', error);
+    return internalErrorResponse('Failed to fetch account timeline');
+  }
+}
@@ -7,6 +7,11 @@ import { formatRecipientName, buildRecipientNameSearch } from '@/lib/utils/recip
 import { RENEWAL_WARNING_DAYS, type DisplayAccountStatus } from '@/constants/status';
 import { InvoiceService } from '@/lib/services/invoice.service';
 import { PricingService } from '@/lib/services/pricing.service';
+import { DiscountService } from '@/lib/services/discount.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { SmsService } from '@/lib/services/sms.service';
+import { AUDIT_LOG } from '@/constants/app';
+import type { AppliedDiscount } from '@/types/discount';
 
 type SortField = 'mailboxNumber' | 'name' | 'status' | 'nextRenewalDate';
 
@@ -157,6 +162,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           accountId: true,
           totalAmount: true,
           paidAmount: true,
+          creditApplied: true,
         },
       }),
     ]);
@@ -164,7 +170,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     // Build a map of accountId -> total balance due
     const balanceDueByAccount = new Map<string, number>();
     for (const invoice of unpaidInvoices) {
-      const balanceDue = Number(invoice.totalAmount) - Number(invoice.paidAmount);
+      const balanceDue =
+        Number(invoice.totalAmount) - Number(invoice.paidAmount) - Number(invoice.creditApplied);
       const existing = balanceDueByAccount.get(invoice.accountId) ?? 0;
       balanceDueByAccount.set(invoice.accountId, existing + balanceDue);
     }
@@ -248,7 +255,10 @@ interface CreateAccountBody {
   renewalPeriod: 'THREE_MONTH' | 'SIX_MONTH' | 'TWELVE_MONTH';
   monthlyRate: number;
   startDate: string;
-  depositPaid: number;
+  // Key deposit to charge on the new-account invoice (defaults to the mailbox's deposit)
+  depositPaid?: number;
+  // Promotion code to take off the first term
+  discountCode?: string;
   smsEnabled: boolean;
   emailEnabled: boolean;
   recipient: {
@@ -334,6 +344,40 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const nextRenewalDate = calculateNextRenewalDate(startDate, body.renewalPeriod);
     // Store the monthly rate as currentRate (not the total for the period)
     const currentRate = body.monthlyRate;
+    const keyDeposit = body.depositPaid ?? Number(mailbox.keyDeposit);
+
+    // Price the first term up front so a bad discount code is rejected before anything is created
+    const rates = await PricingService.getRatesForDate(startDate);
+    const recipientAnalysis = PricingService.analyzeRecipients([{
+      recipientType: recipient.recipientType,
+      birthdate: recipient.birthdate ? new Date(recipient.birthdate) : null,
+    }]);
+    const priceBreakdown = rates
+      ? PricingService.calculatePriceBreakdown(rates, {
+          renewalPeriod: body.renewalPeriod,
+          adultRecipientCount: recipientAnalysis.adultCount,
+          minorRecipientCount: recipientAnalysis.minorCount,
+          hasBusinessRecipient: recipientAnalysis.hasBusinessRecipient,
+        })
+      : null;
+
+    let discount: AppliedDiscount | null = null;
+    if (body.discountCode) {
+      if (!priceBreakdown) {
+        return NextResponse.json({ error: 'No pricing configured for the start date' }, { status: 400 });
+      }
+      const check = await DiscountService.checkCode(body.discountCode, {
+        accountId: null,
+        isNewAccount: true,
+        renewalPeriod: body.renewalPeriod,
+        date: startDate,
+        termTotal: priceBreakdown.totalForPeriod,
+      });
+      if (!check.discount) {
+        return NextResponse.json({ error: check.reason }, { status: 400 });
+      }
+      discount = check.discount;
+    }
 
     // Create account with recipient in a transaction
     const account = await prisma.$transaction(async (tx) => {
@@ -345,14 +389,31 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           renewalPeriod: body.renewalPeriod,
           startDate,
           nextRenewalDate,
-          currentRate,
-          depositPaid: body.depositPaid ?? 5.00,
+          // A first-term discount lowers what the account pays each month this term
+          currentRate: discount && priceBreakdown
+            ? currentRate - discount.amount / priceBreakdown.periodMonths
+            : currentRate,
+          // Set once the new-account invoice carrying the deposit is paid
+          depositPaid: 0,
           depositReturned: false,
           smsEnabled: body.smsEnabled ?? false,
           emailEnabled: body.emailEnabled ?? false,
         },
       });
 
+      // Record the customer's SMS opt-in
+      if (newAccount.smsEnabled) {
+        await SmsService.recordConsent(
+          {
+            accountId: newAccount.id,
+            smsEnabled: true,
+            source: 'STAFF',
+            changedById: session.user.id,
+          },
+          tx
+        );
+      }
+
       // Create primary recipient
       const birthdateValue = recipient.birthdate ? new Date(recipient.birthdate) : null;
       const newRecipient = await tx.recipient.create({
@@ -409,27 +470,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return { account: newAccount, recipient: newRecipient };
     });
 
+    const auditContext = AuditLogService.getContext(request, session.user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, account.account.id, null, account.account);
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.RECIPIENT, account.recipient.id, null, account.recipient);
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.MAILBOX, mailbox.id, mailbox, { ...mailbox, status: 'RESERVED' });
+
     // Create invoice for the new account
     const userId = session.user?.id ?? null;
-    const rates = await PricingService.getRatesForDate(startDate);
-
-    if (rates) {
-      // Analyze recipients to get counts
-      const recipientAnalysis = PricingService.analyzeRecipients([{
-        recipientType: recipient.recipientType,
-        birthdate: recipient.birthdate ? new Date(recipient.birthdate) : null,
-      }]);
-
-      // Calculate price breakdown
-      const priceBreakdown = PricingService.calculatePriceBreakdown(rates, {
-        renewalPeriod: body.renewalPeriod,
-        adultRecipientCount: recipientAnalysis.adultCount,
-        minorRecipientCount: recipientAnalysis.minorCount,
-        hasBusinessRecipient: recipientAnalysis.hasBusinessRecipient,
-      });
 
+    if (rates && priceBreakdown) {
       // Create the invoice
-      await InvoiceService.createInvoiceFromBreakdown(
+      const invoice = await InvoiceService.createInvoiceFromBreakdown(
         account.account.id,
         'NEW_ACCOUNT',
         priceBreakdown,
@@ -449,8 +501,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           minorFeeMonthly: Number(rates.minorRecipientFee),
         },
         recipientAnalysis,
-        userId
+        userId,
+        { keyDeposit, ...(discount && { discount }) }
       );
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, invoice.id, null, invoice);
     }
 
     return NextResponse.json({
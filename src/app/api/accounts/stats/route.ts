@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { prisma } from '@/lib/db/prisma';
 import { RENEWAL_WARNING_DAYS } from '@/constants/status';
+import { AgingService } from '@/lib/services/aging.service';
 
 export async function GET(): Promise<NextResponse> {
   try {
@@ -15,7 +16,7 @@ export async function GET(): Promise<NextResponse> {
     const renewalThreshold = new Date(now);
     renewalThreshold.setDate(renewalThreshold.getDate() + RENEWAL_WARNING_DAYS);
 
-    const [activeTotal, renewal, hold, closed, total, auditFlagged] = await Promise.all([
+    const [activeTotal, renewal, hold, closed, total, auditFlagged, outstanding] = await Promise.all([
       // All ACTIVE accounts (includes those that will show as RENEWAL)
       prisma.account.count({ where: { status: 'ACTIVE' } }),
       // RENEWAL: ACTIVE accounts with renewal date within threshold
@@ -32,6 +33,8 @@ export async function GET(): Promise<NextResponse> {
       prisma.account.count({ where: { status: 'CLOSED' } }),
       prisma.account.count(),
       prisma.account.count({ where: { auditFlag: true } }),
+      // Balance owed on open invoices
+      AgingService.getOutstandingTotal(),
     ]);
 
     // Active count excludes those showing as RENEWAL
@@ -44,6 +47,7 @@ export async function GET(): Promise<NextResponse> {
       closed,
       total,
       auditFlagged,
+      outstanding,
     });
   } catch (error) {
     console.error('Account stats API error:', error);
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  badRequestResponse,
+  internalErrorResponse,
+  paginatedResponse,
+} from '@/lib/api/response';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { auditLogQuerySchema } from '@/lib/validations/audit-log';
+
+/**
+ * GET /api/audit-log
+ * Get change history with optional filters by entity, account, user, action and date range
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = auditLogQuerySchema.safeParse({
+      entityType: searchParams.get('entityType') ?? undefined,
+      entityId: searchParams.get('entityId') ?? undefined,
+      accountId: searchParams.get('accountId') ?? undefined,
+      userId: searchParams.get('userId') ?? undefined,
+      action: searchParams.get('action') ?? undefined,
+      startDate: searchParams.get('startDate') ?? undefined,
+      endDate: searchParams.get('endDate') ?? undefined,
+      page: searchParams.get('page') ?? '1',
+      limit: searchParams.get('limit') ?? '25',
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const result = await AuditLogService.getEntries(queryResult.data);
+    return paginatedResponse(result.data, result.pagination);
+  } catch (error) {
+    console.error('Audit log GET error:', error);
+    return internalErrorResponse('Failed to fetch audit log');
+  }
+}
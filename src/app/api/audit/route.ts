@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { AuditService } from '@/lib/services/audit.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 
 /**
  * GET /api/audit - Get flagged accounts
@@ -121,6 +123,18 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
 
     const result = await AuditService.recalculateAccountRates(autoUpdate);
 
+    if (autoUpdate) {
+      const auditContext = AuditLogService.getContext(request, session.user);
+      for (const update of result.updates) {
+        await AuditLogService.log(auditContext, {
+          action: 'UPDATE',
+          entityType: AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+          entityId: update.accountId,
+          changes: { currentRate: { before: update.oldRate, after: update.newRate } },
+        });
+      }
+    }
+
     return NextResponse.json({
       message: autoUpdate ? 'Rates recalculated and updated' : 'Rate check completed',
       accountsChecked: result.accountsChecked,
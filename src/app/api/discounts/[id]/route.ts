@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  errorResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { DiscountService } from '@/lib/services/discount.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { discountSchema } from '@/lib/validations/discount';
+import { AUDIT_LOG } from '@/constants/app';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/discounts/[id]
+ * Get a discount with its usage
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const discount = await DiscountService.getDiscount(id);
+    if (!discount) {
+      return notFoundResponse('Discount');
+    }
+
+    return successResponse(discount);
+  } catch (error) {
+    console.error('Discount GET error:', error);
+    return internalErrorResponse('Failed to fetch discount');
+  }
+}
+
+/**
+ * PUT /api/discounts/[id]
+ * Update a discount, including turning it off (manager only)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = discountSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid discount data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const before = await DiscountService.getDiscount(id);
+    if (!before) {
+      return notFoundResponse('Discount');
+    }
+
+    let discount;
+    try {
+      discount = await DiscountService.updateDiscount(id, validationResult.data);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Discount code already exists') {
+        return errorResponse('CONFLICT', error.message, 409);
+      }
+      throw error;
+    }
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.DISCOUNT,
+      id,
+      before,
+      discount
+    );
+
+    return successResponse(discount);
+  } catch (error) {
+    console.error('Discount PUT error:', error);
+    return internalErrorResponse('Failed to update discount');
+  }
+}
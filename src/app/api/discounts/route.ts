@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { DiscountService } from '@/lib/services/discount.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { discountSchema } from '@/lib/validations/discount';
+import { AUDIT_LOG } from '@/constants/app';
+
+/**
+ * GET /api/discounts
+ * List discounts with their usage
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const discounts = await DiscountService.getDiscounts();
+    return successResponse(discounts);
+  } catch (error) {
+    console.error('Discounts GET error:', error);
+    return internalErrorResponse('Failed to fetch discounts');
+  }
+}
+
+/**
+ * POST /api/discounts
+ * Create a discount (manager only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = discountSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid discount data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    let discount;
+    try {
+      discount = await DiscountService.createDiscount(validationResult.data, user.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Discount code already exists') {
+        return errorResponse('CONFLICT', error.message, 409);
+      }
+      throw error;
+    }
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.DISCOUNT,
+      discount.id,
+      null,
+      discount
+    );
+
+    return successResponse(discount, 201);
+  } catch (error) {
+    console.error('Discounts POST error:', error);
+    return internalErrorResponse('Failed to create discount');
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { DrawerService } from '@/lib/services/drawer.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { businessDateSchema, closeDrawerSchema } from '@/lib/validations/drawer';
+import { AUDIT_LOG } from '@/constants/app';
+
+interface RouteParams {
+  params: Promise<{ date: string }>;
+}
+
+/**
+ * GET /api/drawer/[date]
+ * A business day's takings by method and staff member, with its close-out if closed
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { date } = await params;
+    const dateResult = businessDateSchema.safeParse(date);
+    if (!dateResult.success) {
+      return badRequestResponse('Date must be in YYYY-MM-DD format');
+    }
+
+    const day = await DrawerService.getDay(dateResult.data);
+    return successResponse(day);
+  } catch (error) {
+    console.error('Drawer day GET error:', error);
+    return internalErrorResponse('Failed to fetch drawer');
+  }
+}
+
+/**
+ * POST /api/drawer/[date]
+ * Close out the day's drawer with the counted cash and card batch totals.
+ * Once closed, no payments can be recorded against the day.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { date } = await params;
+    const dateResult = businessDateSchema.safeParse(date);
+    if (!dateResult.success) {
+      return badRequestResponse('Date must be in YYYY-MM-DD format');
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = closeDrawerSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid close-out data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    let closeout;
+    try {
+      closeout = await DrawerService.closeDay(dateResult.data, validationResult.data, user.id);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Business day is already closed') {
+          return errorResponse('CONFLICT', error.message, 409);
+        }
+        if (
+          error.message === 'A note is required when the drawer does not balance' ||
+          error.message === 'Cannot close a future business day'
+        ) {
+          return badRequestResponse(error.message);
+        }
+      }
+      throw error;
+    }
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.DRAWER_CLOSEOUT,
+      closeout.id,
+      null,
+      closeout
+    );
+
+    return successResponse(closeout, 201);
+  } catch (error) {
+    console.error('Drawer close POST error:', error);
+    return internalErrorResponse('Failed to close drawer');
+  }
+}
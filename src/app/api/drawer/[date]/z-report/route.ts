@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import { badRequestResponse, internalErrorResponse } from '@/lib/api/response';
+import { generateZReport } from '@/lib/services/thermal-receipt.service';
+import { businessDateSchema, zReportQuerySchema } from '@/lib/validations/drawer';
+
+interface RouteParams {
+  params: Promise<{ date: string }>;
+}
+
+/**
+ * GET /api/drawer/[date]/z-report
+ * End-of-day Z-report as a raw ESC/POS stream for the local print bridge,
+ * or ?format=text for a plain-text preview
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { date } = await params;
+    const dateResult = businessDateSchema.safeParse(date);
+    if (!dateResult.success) {
+      return badRequestResponse('Date must be in YYYY-MM-DD format');
+    }
+
+    const validationResult = zReportQuerySchema.safeParse({
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const report = await generateZReport(dateResult.data);
+
+    if (validationResult.data.format === 'text') {
+      return new NextResponse(report.text, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(report.escpos), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="z-report-${dateResult.data}.bin"`,
+        'Content-Length': report.escpos.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate Z-report:', error);
+    return internalErrorResponse('Failed to generate Z-report');
+  }
+}
@@ -0,0 +1,20 @@
+import { requireAuth } from '@/lib/auth/authorize';
+import { successResponse, internalErrorResponse } from '@/lib/api/response';
+import { DrawerService } from '@/lib/services/drawer.service';
+
+/**
+ * GET /api/drawer
+ * Recent drawer close-outs, newest first
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const closeouts = await DrawerService.getCloseouts();
+    return successResponse(closeouts);
+  } catch (error) {
+    console.error('Drawer GET error:', error);
+    return internalErrorResponse('Failed to fetch drawer close-outs');
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { waiveFeesSchema } from '@/lib/validations/invoice';
+import { prisma } from '@/lib/db/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/invoices/[id]/waive-fees
+ * Waive the late and reinstatement fees on an unpaid invoice (manager only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = waiveFeesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid fee waiver',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const invoiceBefore = await prisma.invoice.findUnique({ where: { id } });
+    if (!invoiceBefore) {
+      return notFoundResponse('Invoice');
+    }
+
+    let invoice;
+    try {
+      invoice = await InvoiceService.waiveFees(id, {
+        waivedById: user.id,
+        reason: validationResult.data.reason || null,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message === 'Fees can only be waived on unpaid invoices' ||
+          error.message === 'Invoice has no fees to waive')
+      ) {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    const invoiceAfter = await prisma.invoice.findUnique({ where: { id } });
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.INVOICE,
+      id,
+      invoiceBefore,
+      invoiceAfter
+    );
+
+    return successResponse(invoice);
+  } catch (error) {
+    console.error('Invoice fee waiver POST error:', error);
+    return internalErrorResponse('Failed to waive invoice fees');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { LifecycleService } from '@/lib/services/lifecycle.service';
+import { lifecyclePreviewQuerySchema } from '@/lib/validations/lifecycle';
+
+/**
+ * GET /api/lifecycle/preview
+ * Dry run - list the transitions the next lifecycle run would apply (MANAGER only)
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const validationResult = lifecyclePreviewQuerySchema.safeParse({
+      asOf: searchParams.get('asOf') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOf } = validationResult.data;
+    const preview = await LifecycleService.previewRun(asOf ? new Date(asOf) : undefined);
+
+    return successResponse(preview);
+  } catch (error) {
+    console.error('Lifecycle preview GET error:', error);
+    return internalErrorResponse('Failed to preview lifecycle run');
+  }
+}
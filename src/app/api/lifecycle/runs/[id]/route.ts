@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { LifecycleService } from '@/lib/services/lifecycle.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/lifecycle/runs/[id]
+ * Get a lifecycle run with the transitions it applied (MANAGER only)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const run = await LifecycleService.getRunById(id);
+
+    if (!run) {
+      return notFoundResponse('Lifecycle run');
+    }
+
+    return successResponse(run);
+  } catch (error) {
+    console.error('Lifecycle run GET error:', error);
+    return internalErrorResponse('Failed to fetch lifecycle run');
+  }
+}
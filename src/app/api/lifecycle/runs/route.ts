@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  errorResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { LifecycleService } from '@/lib/services/lifecycle.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { runLifecycleSchema } from '@/lib/validations/lifecycle';
+
+/**
+ * GET /api/lifecycle/runs
+ * Get recent lifecycle run history (MANAGER only)
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const runs = await LifecycleService.getRuns();
+    return successResponse(runs);
+  } catch (error) {
+    console.error('Lifecycle runs GET error:', error);
+    return internalErrorResponse('Failed to fetch lifecycle runs');
+  }
+}
+
+/**
+ * POST /api/lifecycle/runs
+ * Run the lifecycle engine now (MANAGER only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    let body: unknown = {};
+    try {
+      body = await request.json();
+    } catch {
+      // No body - run as of today
+    }
+
+    const validationResult = runLifecycleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid lifecycle run data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOfDate } = validationResult.data;
+    const run = await LifecycleService.runLifecycle({
+      trigger: 'MANUAL',
+      asOfDate: asOfDate ? new Date(asOfDate) : undefined,
+      userId: user.id,
+      auditContext: AuditLogService.getContext(request, user),
+    });
+
+    return successResponse(run, 201);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'A lifecycle run is already in progress') {
+      return errorResponse('CONFLICT', error.message, 409);
+    }
+    console.error('Lifecycle runs POST error:', error);
+    return internalErrorResponse('Failed to run lifecycle');
+  }
+}
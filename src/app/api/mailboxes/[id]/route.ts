@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { prisma } from '@/lib/db/prisma';
 import { formatRecipientName } from '@/lib/utils/recipient';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 
 interface RouteParams {
   params: { id: string };
@@ -145,6 +147,14 @@ export async function PATCH(
       data: updateData,
     });
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.MAILBOX,
+      params.id,
+      existing,
+      updated
+    );
+
     return NextResponse.json({
       id: updated.id,
       number: updated.number,
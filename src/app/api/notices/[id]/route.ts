@@ -5,6 +5,8 @@ import {
   getNoticeHistoryById,
   deleteNoticeHistory,
 } from '@/lib/services/notice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -44,7 +46,7 @@ export async function GET(
  * DELETE /api/notices/[id] - Delete a notice history record
  */
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse> {
   try {
@@ -59,8 +61,17 @@ export async function DELETE(
     }
 
     const { id } = await params;
+    const existing = await getNoticeHistoryById(id);
     await deleteNoticeHistory(id);
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_HISTORY,
+      id,
+      existing,
+      null
+    );
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete notice API error:', error);
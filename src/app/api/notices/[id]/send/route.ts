@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/options';
+import { getNoticeHistoryById } from '@/lib/services/notice.service';
+import { sendNoticeEmail } from '@/lib/services/notice-email.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/notices/[id]/send - Email a notice (again), e.g. after a failed delivery
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await getNoticeHistoryById(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Notice not found' }, { status: 404 });
+    }
+
+    if (existing.deliveryMethod === 'PRINT') {
+      return NextResponse.json(
+        { error: 'Notice is not set up for email delivery' },
+        { status: 400 }
+      );
+    }
+
+    const result = await sendNoticeEmail(id);
+
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_HISTORY,
+      id,
+      { status: existing.status, errorMessage: existing.errorMessage },
+      { status: result.success ? 'SENT' : 'FAILED', errorMessage: result.error ?? null }
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Send notice API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -12,6 +12,7 @@ const VALID_NOTICE_TYPE_CODES: NoticeTypeCode[] = [
   'HOLD_NOTICE',
   'ID_VERIFICATION_REQUEST',
   'MISSING_ID',
+  'CLOSURE_NOTICE',
   'CUSTOM',
 ];
 
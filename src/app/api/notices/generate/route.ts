@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { generateNotices } from '@/lib/services/notice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import type { NoticeDeliveryMethod } from '@prisma/client';
 
 interface GenerateNoticesBody {
@@ -63,6 +65,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       session.user.id
     );
 
+    const auditContext = AuditLogService.getContext(request, session.user);
+    for (const generated of result.results) {
+      if (!generated.success || !generated.noticeHistoryId) continue;
+      await AuditLogService.logChange(
+        auditContext,
+        AUDIT_LOG.ENTITY_TYPES.NOTICE_HISTORY,
+        generated.noticeHistoryId,
+        null,
+        {
+          accountId: generated.accountId,
+          noticeTypeId: body.noticeTypeId,
+          deliveryMethod: body.deliveryMethod,
+        }
+      );
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     console.error('Generate notices API error:', error);
@@ -1,13 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
+import { prisma } from '@/lib/db/prisma';
 import { seedDefaultNoticeTypes } from '@/lib/services/notice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 
 /**
  * POST /api/notices/seed - Seed default notice types
  * Only managers can seed notice types
  */
-export async function POST(): Promise<NextResponse> {
+export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const session = await getServerSession(authOptions);
     if (!session) {
@@ -19,7 +22,16 @@ export async function POST(): Promise<NextResponse> {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    const before = await prisma.noticeType.findMany();
     await seedDefaultNoticeTypes(session.user.id);
+    const after = await prisma.noticeType.findMany();
+
+    await AuditLogService.logCollectionChanges(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_TYPE,
+      before,
+      after
+    );
 
     return NextResponse.json({
       success: true,
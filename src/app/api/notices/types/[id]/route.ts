@@ -6,6 +6,8 @@ import {
   updateNoticeType,
   deleteNoticeType,
 } from '@/lib/services/notice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -72,6 +74,7 @@ export async function PATCH(
 
     const { id } = await params;
     const body = (await request.json()) as UpdateNoticeTypeBody;
+    const existing = await getNoticeTypeById(id);
 
     const noticeType = await updateNoticeType(
       id,
@@ -85,6 +88,14 @@ export async function PATCH(
       session.user.id
     );
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_TYPE,
+      id,
+      existing,
+      noticeType
+    );
+
     return NextResponse.json(noticeType);
   } catch (error) {
     console.error('Update notice type API error:', error);
@@ -102,7 +113,7 @@ export async function PATCH(
  * DELETE /api/notices/types/[id] - Delete a notice type
  */
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse> {
   try {
@@ -117,8 +128,17 @@ export async function DELETE(
     }
 
     const { id } = await params;
+    const existing = await getNoticeTypeById(id);
     await deleteNoticeType(id);
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_TYPE,
+      id,
+      existing,
+      null
+    );
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete notice type API error:', error);
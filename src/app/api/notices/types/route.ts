@@ -5,6 +5,8 @@ import {
   getAllNoticeTypes,
   createNoticeType,
 } from '@/lib/services/notice.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import type { NoticeTypeCode } from '@prisma/client';
 
 /**
@@ -100,6 +102,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       session.user.id
     );
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.NOTICE_TYPE,
+      noticeType.id,
+      null,
+      noticeType
+    );
+
     return NextResponse.json(noticeType, { status: 201 });
   } catch (error) {
     console.error('Create notice type API error:', error);
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import { notFoundResponse, internalErrorResponse } from '@/lib/api/response';
+import { generatePaymentReceiptPdf } from '@/lib/services/invoice-pdf.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/payments/[id]/receipt
+ * Printable receipt for a payment, including the invoice it was applied to
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const pdf = await generatePaymentReceiptPdf(id);
+
+    if (!pdf) {
+      return notFoundResponse('Payment');
+    }
+
+    return new NextResponse(new Uint8Array(pdf.buffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${pdf.filename}"`,
+        'Content-Length': pdf.buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate payment receipt:', error);
+    return internalErrorResponse('Failed to generate payment receipt');
+  }
+}
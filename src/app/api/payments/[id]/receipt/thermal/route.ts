@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { generateThermalReceipt } from '@/lib/services/thermal-receipt.service';
+import { thermalReceiptQuerySchema } from '@/lib/validations/payment';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/payments/[id]/receipt/thermal
+ * 80mm counter receipt as a raw ESC/POS stream for the local print bridge,
+ * or ?format=text for a plain-text preview
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = thermalReceiptQuerySchema.safeParse({
+      format: searchParams.get('format') ?? undefined,
+      openDrawer: searchParams.get('openDrawer') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { format, openDrawer } = validationResult.data;
+    const receipt = await generateThermalReceipt(id, { openCashDrawer: openDrawer });
+
+    if (!receipt) {
+      return notFoundResponse('Payment');
+    }
+
+    if (format === 'text') {
+      return new NextResponse(receipt.text, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(receipt.escpos), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="receipt-${id}.bin"`,
+        'Content-Length': receipt.escpos.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate thermal receipt:', error);
+    return internalErrorResponse('Failed to generate thermal receipt');
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { ReturnedCheckService } from '@/lib/services/returned-check.service';
+import { DrawerService } from '@/lib/services/drawer.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { returnedCheckSchema } from '@/lib/validations/payment';
+import { prisma } from '@/lib/db/prisma';
+import { getBusinessDate } from '@/lib/utils/date';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/payments/[id]/returned-check
+ * Mark a check payment as returned by the bank (manager only). Voids the
+ * payment, bills the returned check fee and flags the account so later
+ * check payments need a manager. Optionally puts the account on HOLD.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = returnedCheckSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid returned check request',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const paymentBefore = await prisma.payment.findUnique({ where: { id } });
+    if (!paymentBefore) {
+      return notFoundResponse('Payment');
+    }
+
+    const blocker = ReturnedCheckService.getReturnBlocker(paymentBefore);
+    if (blocker) {
+      return badRequestResponse(blocker);
+    }
+
+    // The void is dated today, so today's drawer must still be open
+    if (await DrawerService.isDayClosed(new Date(getBusinessDate()))) {
+      return badRequestResponse('Payments cannot be recorded on a closed business day');
+    }
+
+    // A returned check can reopen the invoice and undo a renewal - capture both for the audit trail
+    const accountBefore = await prisma.account.findUnique({ where: { id: paymentBefore.accountId } });
+    const invoiceBefore = paymentBefore.invoiceId
+      ? await prisma.invoice.findUnique({ where: { id: paymentBefore.invoiceId } })
+      : null;
+
+    let result;
+    try {
+      result = await ReturnedCheckService.markReturned(id, validationResult.data, user.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Payment has already been fully voided or refunded') {
+        return badRequestResponse(error.message);
+      }
+      throw error;
+    }
+
+    if (!result) {
+      return notFoundResponse('Payment');
+    }
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    const paymentAfter = await prisma.payment.findUnique({ where: { id } });
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.PAYMENT, id, paymentBefore, paymentAfter);
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.PAYMENT, result.reversal.id, null, result.reversal);
+    if (accountBefore) {
+      const accountAfter = await prisma.account.findUnique({ where: { id: accountBefore.id } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, accountBefore.id, accountBefore, accountAfter);
+    }
+    if (invoiceBefore) {
+      const invoiceAfter = await prisma.invoice.findUnique({ where: { id: invoiceBefore.id } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, invoiceBefore.id, invoiceBefore, invoiceAfter);
+    }
+    if (result.feeInvoice) {
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, result.feeInvoice.id, null, result.feeInvoice);
+    }
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('Returned check POST error:', error);
+    return internalErrorResponse('Failed to mark check as returned');
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { PaymentService } from '@/lib/services/payment.service';
+import { DrawerService } from '@/lib/services/drawer.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
+import { voidPaymentSchema } from '@/lib/validations/payment';
+import { prisma } from '@/lib/db/prisma';
+import { getBusinessDate } from '@/lib/utils/date';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/payments/[id]/void
+ * Void a payment (manager only). Records an offsetting entry for whatever
+ * hasn't already been refunded and rolls back any renewal it paid for.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    const body: unknown = await request.json();
+    const validationResult = voidPaymentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid void request',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const payment = await PaymentService.getPaymentById(id);
+    if (!payment) {
+      return notFoundResponse('Payment');
+    }
+
+    if (payment.paymentType !== 'PAYMENT') {
+      return badRequestResponse('Only payments can be voided or refunded');
+    }
+
+    // Reversals are dated today, so today's drawer must still be open
+    if (await DrawerService.isDayClosed(new Date(getBusinessDate()))) {
+      return badRequestResponse('Payments cannot be recorded on a closed business day');
+    }
+
+    try {
+      PaymentService.getReversalAmount(payment, { type: 'VOID' });
+    } catch (error) {
+      return badRequestResponse(error instanceof Error ? error.message : 'Payment cannot be voided');
+    }
+
+    // Voids can reopen the invoice and undo a renewal - capture both for the audit trail
+    const accountBefore = await prisma.account.findUnique({ where: { id: payment.accountId } });
+    const invoiceBefore = payment.invoiceId
+      ? await prisma.invoice.findUnique({ where: { id: payment.invoiceId } })
+      : null;
+
+    const result = await PaymentService.reversePayment(
+      id,
+      { type: 'VOID', reason: validationResult.data.reason },
+      user.id
+    );
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.PAYMENT, result.reversal.id, null, result.reversal);
+    if (accountBefore) {
+      const accountAfter = await prisma.account.findUnique({ where: { id: accountBefore.id } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, accountBefore.id, accountBefore, accountAfter);
+    }
+    if (invoiceBefore) {
+      const invoiceAfter = await prisma.invoice.findUnique({ where: { id: invoiceBefore.id } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, invoiceBefore.id, invoiceBefore, invoiceAfter);
+    }
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('Payment void POST error:', error);
+    return internalErrorResponse('Failed to void payment');
+  }
+}
@@ -3,15 +3,22 @@ import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
 import {
   successResponse,
   badRequestResponse,
+  errorResponse,
   internalErrorResponse,
   paginatedResponse,
 } from '@/lib/api/response';
 import { PaymentService } from '@/lib/services/payment.service';
 import { InvoiceService } from '@/lib/services/invoice.service';
 import { PricingService } from '@/lib/services/pricing.service';
+import { DiscountService } from '@/lib/services/discount.service';
+import { DrawerService } from '@/lib/services/drawer.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import { createPaymentSchema, paymentListQuerySchema } from '@/lib/validations/payment';
 import { prisma } from '@/lib/db/prisma';
-import type { RenewalPeriod } from '@prisma/client';
+import type { Prisma, RenewalPeriod } from '@prisma/client';
+import type { AppliedDiscount } from '@/types/discount';
+import type { SerializedInvoice } from '@/types/invoice';
 
 /**
  * GET /api/payments
@@ -28,6 +35,7 @@ export async function GET(request: NextRequest): Promise<Response> {
       startDate: searchParams.get('startDate') ?? undefined,
       endDate: searchParams.get('endDate') ?? undefined,
       paymentMethod: searchParams.get('paymentMethod') ?? undefined,
+      paymentType: searchParams.get('paymentType') ?? undefined,
       page: searchParams.get('page') ?? '1',
       limit: searchParams.get('limit') ?? '20',
       sortField: searchParams.get('sortField') ?? 'paymentDate',
@@ -81,7 +89,34 @@ export async function POST(request: NextRequest): Promise<Response> {
 
     const paymentData = validationResult.data;
 
-    // For renewal payments without an invoiceId, create a RENEWAL invoice
+    // Checked before any renewal invoice is created for the payment
+    if (await DrawerService.isDayClosed(new Date(paymentData.paymentDate))) {
+      return badRequestResponse('Payments cannot be recorded on a closed business day');
+    }
+
+    const auditContext = AuditLogService.getContext(request, user);
+    const { ENTITY_TYPES } = AUDIT_LOG;
+
+    // A returned check on file means a manager has to accept any further checks
+    if (paymentData.paymentMethod === 'CHECK' && user.role !== 'MANAGER') {
+      const account = await prisma.account.findUnique({
+        where: { id: paymentData.accountId },
+        select: { checkApprovalRequired: true },
+      });
+      if (account?.checkApprovalRequired) {
+        return errorResponse('FORBIDDEN', 'A manager is required to accept checks from this account', 403);
+      }
+    }
+
+    if (paymentData.waiveFees && user.role !== 'MANAGER') {
+      return errorResponse('FORBIDDEN', 'A manager is required to waive late or reinstatement fees', 403);
+    }
+    const feeWaiver = paymentData.waiveFees
+      ? { waivedById: user.id, reason: paymentData.feeWaiverReason || null }
+      : undefined;
+
+    // For renewal payments without an invoiceId, a RENEWAL invoice is created with the payment
+    let createRenewalInvoice: ((tx: Prisma.TransactionClient) => Promise<SerializedInvoice>) | undefined;
     if (paymentData.isRenewal && !paymentData.invoiceId && paymentData.renewalPeriod && paymentData.newRate !== undefined) {
       const account = await prisma.account.findUnique({
         where: { id: paymentData.accountId },
@@ -109,40 +144,130 @@ export async function POST(request: NextRequest): Promise<Response> {
             hasBusinessRecipient: recipientAnalysis.hasBusinessRecipient,
           });
 
-          // Create the RENEWAL invoice
-          const invoice = await InvoiceService.createInvoiceFromBreakdown(
-            paymentData.accountId,
-            'RENEWAL',
-            priceBreakdown,
-            {
-              invoiceDate: paymentDate,
-              periodStart: new Date(paymentData.periodStart),
-              periodEnd: new Date(paymentData.periodEnd),
+          let discount: AppliedDiscount | undefined;
+          if (paymentData.discountCode) {
+            const check = await DiscountService.checkCode(paymentData.discountCode, {
+              accountId: account.id,
+              isNewAccount: false,
               renewalPeriod: paymentData.renewalPeriod as RenewalPeriod,
-            },
-            {
-              baseRateMonthly: paymentData.newRate,
-              businessFeeMonthly: Number(rates.businessAccountFee),
-              rate4thAdult: Number(rates.rate4thAdult),
-              rate5thAdult: Number(rates.rate5thAdult),
-              rate6thAdult: Number(rates.rate6thAdult),
-              rate7thAdult: Number(rates.rate7thAdult),
-              minorFeeMonthly: Number(rates.minorRecipientFee),
-            },
-            recipientAnalysis,
-            user.id
-          );
-
-          // Link the payment to the invoice
-          paymentData.invoiceId = invoice.id;
+              date: paymentDate,
+              termTotal: priceBreakdown.totalForPeriod,
+            });
+            if (!check.discount) {
+              return badRequestResponse(check.reason ?? 'Discount code cannot be used');
+            }
+            discount = check.discount;
+          }
+
+          const periodInfo = {
+            invoiceDate: paymentDate,
+            periodStart: new Date(paymentData.periodStart),
+            periodEnd: new Date(paymentData.periodEnd),
+            renewalPeriod: paymentData.renewalPeriod as RenewalPeriod,
+          };
+          const invoiceRates = {
+            baseRateMonthly: paymentData.newRate,
+            businessFeeMonthly: Number(rates.businessAccountFee),
+            rate4thAdult: Number(rates.rate4thAdult),
+            rate5thAdult: Number(rates.rate5thAdult),
+            rate6thAdult: Number(rates.rate6thAdult),
+            rate7thAdult: Number(rates.rate7thAdult),
+            minorFeeMonthly: Number(rates.minorRecipientFee),
+          };
+          const invoiceOptions = {
+            // Paying after the renewal date, or reinstating from HOLD, carries one-time fees
+            overdueFees: PricingService.getOverdueFees(rates, account, paymentDate),
+            feeWaiver,
+            discount,
+          };
+
+          // The RENEWAL invoice is created in the same transaction as the payment
+          createRenewalInvoice = (tx): Promise<SerializedInvoice> =>
+            InvoiceService.createInvoiceFromBreakdown(
+              account.id,
+              'RENEWAL',
+              priceBreakdown,
+              periodInfo,
+              invoiceRates,
+              recipientAnalysis,
+              user.id,
+              invoiceOptions,
+              tx
+            );
+
+          // The account's rate for the new term reflects the discount
+          if (discount) {
+            paymentData.newRate =
+              (priceBreakdown.totalForPeriod - discount.amount) / priceBreakdown.periodMonths;
+          }
         }
       }
     }
 
-    const result = await PaymentService.createPayment(paymentData, user.id);
+    const invoiceCreated = createRenewalInvoice !== undefined;
+    if (paymentData.discountCode && !invoiceCreated) {
+      return badRequestResponse('Discounts can only be applied when the renewal invoice is created');
+    }
+
+    // An existing invoice has its fee lines taken off before the payment is applied
+    if (feeWaiver && paymentData.invoiceId && !invoiceCreated) {
+      const invoiceBeforeWaiver = await prisma.invoice.findUnique({ where: { id: paymentData.invoiceId } });
+      try {
+        await InvoiceService.waiveFees(paymentData.invoiceId, feeWaiver);
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message === 'Fees can only be waived on unpaid invoices' ||
+            error.message === 'Invoice has no fees to waive')
+        ) {
+          return badRequestResponse(error.message);
+        }
+        throw error;
+      }
+      const invoiceAfterWaiver = await prisma.invoice.findUnique({ where: { id: paymentData.invoiceId } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, paymentData.invoiceId, invoiceBeforeWaiver, invoiceAfterWaiver);
+    }
+
+    // Payments can update the invoice and renew the account - capture both for the audit trail
+    const accountBefore = await prisma.account.findUnique({ where: { id: paymentData.accountId } });
+
+    // A failed payment must not leave behind an invoice that has already used up credit or a discount
+    const { createdInvoice, invoiceBefore, result } = await prisma.$transaction(async (tx) => {
+      const createdInvoice = createRenewalInvoice ? await createRenewalInvoice(tx) : null;
+      if (createdInvoice) {
+        // Link the payment to the invoice
+        paymentData.invoiceId = createdInvoice.id;
+      }
+      const invoiceBefore = paymentData.invoiceId
+        ? await tx.invoice.findUnique({ where: { id: paymentData.invoiceId } })
+        : null;
+      const result = await PaymentService.createPayment(paymentData, user.id, tx);
+      return { createdInvoice, invoiceBefore, result };
+    });
+
+    if (createdInvoice) {
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, createdInvoice.id, null, createdInvoice);
+    }
+    await AuditLogService.logChange(auditContext, ENTITY_TYPES.PAYMENT, result.payment.id, null, result.payment);
+    if (accountBefore) {
+      const accountAfter = await prisma.account.findUnique({ where: { id: paymentData.accountId } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.ACCOUNT, accountBefore.id, accountBefore, accountAfter);
+    }
+    if (invoiceBefore) {
+      const invoiceAfter = await prisma.invoice.findUnique({ where: { id: invoiceBefore.id } });
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.INVOICE, invoiceBefore.id, invoiceBefore, invoiceAfter);
+    }
+
     return successResponse(result, 201);
   } catch (error) {
     console.error('Payments POST error:', error);
+    if (
+      error instanceof Error &&
+      (error.message === 'This discount has reached its usage limit' ||
+        error.message === 'This account has already used this discount')
+    ) {
+      return badRequestResponse(error.message);
+    }
     const message = error instanceof Error ? error.message : 'Failed to create payment';
     return internalErrorResponse(message);
   }
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { PaymentService } from '@/lib/services/payment.service';
+import { paymentSummaryQuerySchema } from '@/lib/validations/payment';
+
+/**
+ * GET /api/payments/summary
+ * Payment totals for a date range with voids and refunds broken out
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = paymentSummaryQuerySchema.safeParse({
+      startDate: searchParams.get('startDate') ?? undefined,
+      endDate: searchParams.get('endDate') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const summary = await PaymentService.getPaymentSummary(queryResult.data);
+    return successResponse(summary);
+  } catch (error) {
+    console.error('Payment summary GET error:', error);
+    return internalErrorResponse('Failed to fetch payment summary');
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server';
-import { requireManager } from '@/lib/auth/authorize';
+import { requireManager, getCurrentUser } from '@/lib/auth/authorize';
 import {
   successResponse,
   notFoundResponse,
@@ -9,7 +9,8 @@ import {
 import { prisma } from '@/lib/db/prisma';
 import { updatePricingSchema } from '@/lib/validations/pricing';
 import { PricingService } from '@/lib/services/pricing.service';
-import { PRICING } from '@/constants/app';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { PRICING, AUDIT_LOG } from '@/constants/app';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -20,7 +21,7 @@ interface RouteParams {
  * Delete a pricing configuration (MANAGER only, only if start date is in the future)
  */
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<Response> {
   const authError = await requireManager();
@@ -51,6 +52,7 @@ export async function DELETE(
     }
 
     // If this is the current rate (endDate is null), we need to restore the previous rate
+    let reopenedRate: { before: typeof priceConfig; after: typeof priceConfig } | null = null;
     if (priceConfig.endDate === null) {
       // Find the previous rate that was closed out when this one was created
       const previousRate = await prisma.rateHistory.findFirst({
@@ -62,10 +64,11 @@ export async function DELETE(
 
       if (previousRate) {
         // Re-open the previous rate by setting its endDate to null
-        await prisma.rateHistory.update({
+        const reopened = await prisma.rateHistory.update({
           where: { id: previousRate.id },
           data: { endDate: null },
         });
+        reopenedRate = { before: previousRate, after: reopened };
       }
     }
 
@@ -74,6 +77,21 @@ export async function DELETE(
       where: { id },
     });
 
+    const user = await getCurrentUser();
+    if (user) {
+      const auditContext = AuditLogService.getContext(request, user);
+      if (reopenedRate) {
+        await AuditLogService.logChange(
+          auditContext,
+          AUDIT_LOG.ENTITY_TYPES.RATE_HISTORY,
+          reopenedRate.before.id,
+          reopenedRate.before,
+          reopenedRate.after
+        );
+      }
+      await AuditLogService.logChange(auditContext, AUDIT_LOG.ENTITY_TYPES.RATE_HISTORY, id, priceConfig, null);
+    }
+
     return successResponse({ deleted: true });
   } catch (error) {
     console.error('Pricing DELETE error:', error);
@@ -154,10 +172,24 @@ export async function PUT(
         businessAccountFee: input.businessAccountFee,
         minorRecipientFee: input.minorRecipientFee,
         keyDeposit: input.keyDeposit,
+        lateFee: input.lateFee,
+        reinstatementFee: input.reinstatementFee,
+        returnedCheckFee: input.returnedCheckFee,
         notes: input.notes ?? null,
       },
     });
 
+    const user = await getCurrentUser();
+    if (user) {
+      await AuditLogService.logChange(
+        AuditLogService.getContext(request, user),
+        AUDIT_LOG.ENTITY_TYPES.RATE_HISTORY,
+        id,
+        priceConfig,
+        updatedConfig
+      );
+    }
+
     return successResponse(PricingService.serializePriceConfig(updatedConfig));
   } catch (error) {
     console.error('Pricing PUT error:', error);
@@ -8,8 +8,9 @@ import {
 } from '@/lib/api/response';
 import { prisma } from '@/lib/db/prisma';
 import { PricingService } from '@/lib/services/pricing.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
 import { createPricingSchema } from '@/lib/validations/pricing';
-import { PRICING } from '@/constants/app';
+import { PRICING, AUDIT_LOG } from '@/constants/app';
 
 /**
  * GET /api/pricing
@@ -78,10 +79,11 @@ export async function POST(request: NextRequest): Promise<Response> {
       orderBy: { startDate: 'desc' },
     });
 
+    let closedRate: typeof currentRate = null;
     if (currentRate) {
       const endDate = new Date(newStartDate);
       endDate.setDate(endDate.getDate() - 1);
-      await prisma.rateHistory.update({
+      closedRate = await prisma.rateHistory.update({
         where: { id: currentRate.id },
         data: { endDate },
       });
@@ -102,11 +104,23 @@ export async function POST(request: NextRequest): Promise<Response> {
         businessAccountFee: input.businessAccountFee,
         minorRecipientFee: input.minorRecipientFee,
         keyDeposit: input.keyDeposit,
+        lateFee: input.lateFee,
+        reinstatementFee: input.reinstatementFee,
+        returnedCheckFee: input.returnedCheckFee,
         notes: input.notes ?? null,
         createdById: user?.id ?? null,
       },
     });
 
+    if (user) {
+      const auditContext = AuditLogService.getContext(request, user);
+      const { ENTITY_TYPES } = AUDIT_LOG;
+      if (currentRate && closedRate) {
+        await AuditLogService.logChange(auditContext, ENTITY_TYPES.RATE_HISTORY, currentRate.id, currentRate, closedRate);
+      }
+      await AuditLogService.logChange(auditContext, ENTITY_TYPES.RATE_HISTORY, newConfig.id, null, newConfig);
+    }
+
     return successResponse(PricingService.serializePriceConfig(newConfig), 201);
   } catch (error) {
     console.error('Pricing API POST error:', error);
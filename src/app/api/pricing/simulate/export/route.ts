@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import { badRequestResponse, internalErrorResponse } from '@/lib/api/response';
+import { RateSimulationService } from '@/lib/services/rate-simulation.service';
+import { simulatePricingSchema } from '@/lib/validations/pricing';
+
+const SIMULATION_ERRORS = ['No pricing configuration found'];
+
+/**
+ * POST /api/pricing/simulate/export
+ * Download the per-account impact of proposed rates as CSV (MANAGER only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const body: unknown = await request.json();
+
+    const validationResult = simulatePricingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid pricing data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const result = await RateSimulationService.simulateProposedRates(validationResult.data);
+
+    return new NextResponse(RateSimulationService.formatCsv(result), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="rate-impact-${result.startDate}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && SIMULATION_ERRORS.includes(error.message)) {
+      return badRequestResponse(error.message);
+    }
+    console.error('Pricing simulation export error:', error);
+    return internalErrorResponse('Failed to export pricing simulation');
+  }
+}
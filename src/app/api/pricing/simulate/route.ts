@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { RateSimulationService } from '@/lib/services/rate-simulation.service';
+import { simulatePricingSchema } from '@/lib/validations/pricing';
+
+const SIMULATION_ERRORS = ['No pricing configuration found'];
+
+/**
+ * POST /api/pricing/simulate
+ * Preview proposed rates against every ACTIVE and HOLD account's next renewal (MANAGER only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    const body: unknown = await request.json();
+
+    const validationResult = simulatePricingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid pricing data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const result = await RateSimulationService.simulateProposedRates(validationResult.data);
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof Error && SIMULATION_ERRORS.includes(error.message)) {
+      return badRequestResponse(error.message);
+    }
+    console.error('Pricing simulation error:', error);
+    return internalErrorResponse('Failed to simulate pricing');
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getCurrentUser } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { ReminderService } from '@/lib/services/reminder.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/reminders/[id]/dismiss
+ * Dismiss a reminder from the work queue
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return internalErrorResponse('User not found');
+    }
+
+    await ReminderService.dismissReminder(id, user.id, AuditLogService.getContext(request, user));
+    return successResponse({ dismissed: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Reminder not found') {
+        return notFoundResponse('Reminder');
+      }
+      if (error.message === 'Reminder is already dismissed') {
+        return badRequestResponse(error.message);
+      }
+    }
+    console.error('Reminder dismiss POST error:', error);
+    return internalErrorResponse('Failed to dismiss reminder');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { ReminderService } from '@/lib/services/reminder.service';
+import { generateRemindersSchema } from '@/lib/validations/reminder';
+
+/**
+ * POST /api/reminders/generate
+ * Generate reminders now instead of waiting for the daily job (MANAGER only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    let body: unknown = {};
+    try {
+      body = await request.json();
+    } catch {
+      // No body - generate as of today
+    }
+
+    const validationResult = generateRemindersSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid reminder generation data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOfDate } = validationResult.data;
+    const result = await ReminderService.generateReminders(
+      asOfDate ? new Date(asOfDate) : undefined
+    );
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('Reminders generate POST error:', error);
+    return internalErrorResponse('Failed to generate reminders');
+  }
+}
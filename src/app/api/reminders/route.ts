@@ -0,0 +1,23 @@
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { ReminderService } from '@/lib/services/reminder.service';
+
+/**
+ * GET /api/reminders
+ * Get the dashboard work queue - open reminders ordered by priority
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const queue = await ReminderService.getWorkQueue();
+    return successResponse(queue);
+  } catch (error) {
+    console.error('Reminders GET error:', error);
+    return internalErrorResponse('Failed to fetch reminders');
+  }
+}
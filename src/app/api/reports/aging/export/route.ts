@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import { badRequestResponse, internalErrorResponse } from '@/lib/api/response';
+import { AgingService } from '@/lib/services/aging.service';
+import { agingReportQuerySchema } from '@/lib/validations/aging';
+
+/**
+ * GET /api/reports/aging/export
+ * Download the aging report as CSV, one row per open invoice
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const queryResult = agingReportQuerySchema.safeParse({
+      asOf: request.nextUrl.searchParams.get('asOf') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOf } = queryResult.data;
+    const report = await AgingService.getReport(asOf ? new Date(`${asOf}T00:00:00`) : new Date());
+
+    return new NextResponse(AgingService.formatCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="ar-aging-${report.asOf}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Aging can only be reported as of today or a later date') {
+      return badRequestResponse(error.message);
+    }
+    console.error('Aging report export error:', error);
+    return internalErrorResponse('Failed to export aging report');
+  }
+}
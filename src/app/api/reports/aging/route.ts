@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { AgingService } from '@/lib/services/aging.service';
+import { agingReportQuerySchema } from '@/lib/validations/aging';
+
+/**
+ * GET /api/reports/aging
+ * Open invoice balances by account, bucketed by days since the invoice date
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const queryResult = agingReportQuerySchema.safeParse({
+      asOf: request.nextUrl.searchParams.get('asOf') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOf } = queryResult.data;
+    const report = await AgingService.getReport(asOf ? new Date(`${asOf}T00:00:00`) : new Date());
+    return successResponse(report);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Aging can only be reported as of today or a later date') {
+      return badRequestResponse(error.message);
+    }
+    console.error('Aging report GET error:', error);
+    return internalErrorResponse('Failed to fetch aging report');
+  }
+}
@@ -0,0 +1,20 @@
+import { requireAuth } from '@/lib/auth/authorize';
+import { successResponse, internalErrorResponse } from '@/lib/api/response';
+import { KeyDepositService } from '@/lib/services/key-deposit.service';
+
+/**
+ * GET /api/reports/deposits
+ * Key deposits the store is holding, closed accounts awaiting settlement first
+ */
+export async function GET(): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const report = await KeyDepositService.getOutstandingDeposits();
+    return successResponse(report);
+  } catch (error) {
+    console.error('Deposit report GET error:', error);
+    return internalErrorResponse('Failed to fetch deposit report');
+  }
+}
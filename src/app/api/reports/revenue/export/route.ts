@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import { badRequestResponse, internalErrorResponse } from '@/lib/api/response';
+import { RevenueRecognitionService } from '@/lib/services/revenue-recognition.service';
+import { revenueRangeSchema } from '@/lib/validations/revenue';
+
+/**
+ * GET /api/reports/revenue/export
+ * Download the per-invoice revenue recognition schedule as CSV
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const defaults = RevenueRecognitionService.getDefaultRange();
+    const queryResult = revenueRangeSchema.safeParse({
+      from: searchParams.get('from') ?? defaults.from,
+      to: searchParams.get('to') ?? defaults.to,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const file = await RevenueRecognitionService.exportScheduleCsv(
+      queryResult.data.from,
+      queryResult.data.to
+    );
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Revenue schedule export error:', error);
+    return internalErrorResponse('Failed to export revenue schedule');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { RevenueRecognitionService } from '@/lib/services/revenue-recognition.service';
+import { revenueRangeSchema } from '@/lib/validations/revenue';
+
+/**
+ * GET /api/reports/revenue
+ * Billed, earned and deferred revenue per month (defaults to the last 12 months)
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const defaults = RevenueRecognitionService.getDefaultRange();
+    const queryResult = revenueRangeSchema.safeParse({
+      from: searchParams.get('from') ?? defaults.from,
+      to: searchParams.get('to') ?? defaults.to,
+    });
+
+    if (!queryResult.success) {
+      return badRequestResponse(
+        'Invalid query parameters',
+        queryResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const report = await RevenueRecognitionService.getReport(queryResult.data.from, queryResult.data.to);
+    return successResponse(report);
+  } catch (error) {
+    console.error('Revenue report GET error:', error);
+    return internalErrorResponse('Failed to fetch revenue report');
+  }
+}
@@ -6,6 +6,8 @@ import {
   internalErrorResponse,
 } from '@/lib/api/response';
 import { StoreSettingsService } from '@/lib/services/store-settings.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AUDIT_LOG } from '@/constants/app';
 import { updateStoreSettingsSchema } from '@/lib/validations/store-settings';
 
 /**
@@ -54,8 +56,18 @@ export async function PUT(request: NextRequest): Promise<Response> {
     }
 
     const input = validationResult.data;
+    const existing = await StoreSettingsService.getSettings();
     const updated = await StoreSettingsService.updateSettings(input, user.id);
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, user),
+      AUDIT_LOG.ENTITY_TYPES.STORE_SETTINGS,
+      updated.id,
+      // The first save creates the row - the fallback defaults were never stored
+      existing.id === updated.id ? existing : null,
+      updated
+    );
+
     return successResponse(StoreSettingsService.serializeSettings(updated));
   } catch (error) {
     console.error('Store settings PUT error:', error);
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { requireManager } from '@/lib/auth/authorize';
+import {
+  successResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { SmsService } from '@/lib/services/sms.service';
+import { dispatchSmsSchema } from '@/lib/validations/sms';
+
+/**
+ * POST /api/sms/dispatch
+ * Send due SMS notifications now instead of waiting for the daily job (MANAGER only)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const authError = await requireManager();
+  if (authError) return authError;
+
+  try {
+    let body: unknown = {};
+    try {
+      body = await request.json();
+    } catch {
+      // No body - dispatch as of today
+    }
+
+    const validationResult = dispatchSmsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return badRequestResponse(
+        'Invalid SMS dispatch data',
+        validationResult.error.issues.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      );
+    }
+
+    const { asOfDate } = validationResult.data;
+    const result = await SmsService.dispatchScheduled(
+      asOfDate ? new Date(asOfDate) : undefined
+    );
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('SMS dispatch POST error:', error);
+    return internalErrorResponse('Failed to send SMS notifications');
+  }
+}
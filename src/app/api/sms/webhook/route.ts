@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  badRequestResponse,
+  errorResponse,
+  internalErrorResponse,
+} from '@/lib/api/response';
+import { getSmsProvider, getSmsWebhookUrl } from '@/lib/sms';
+import { SmsService } from '@/lib/services/sms.service';
+
+/**
+ * Escape text for inclusion in a TwiML document
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * TwiML response, optionally replying to the sender
+ */
+function twimlResponse(reply: string | null): NextResponse {
+  const body = reply
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(reply)}</Message></Response>`
+    : '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+  return new NextResponse(body, { headers: { 'Content-Type': 'text/xml' } });
+}
+
+/**
+ * POST /api/sms/webhook
+ * Provider callbacks: delivery status updates and inbound messages (STOP/START/HELP).
+ * Not behind a session - requests are verified by the provider signature instead.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') {
+        params[key] = value;
+      }
+    });
+
+    const verified = getSmsProvider().verifyWebhook({
+      signature: request.headers.get('x-twilio-signature'),
+      url: getSmsWebhookUrl() ?? request.url,
+      params,
+    });
+
+    if (!verified) {
+      return errorResponse('FORBIDDEN', 'Invalid webhook signature', 403);
+    }
+
+    // Delivery status callback for a message we sent
+    const messageStatus = params.MessageStatus ?? params.SmsStatus;
+    if (params.MessageSid && messageStatus && params.Body === undefined) {
+      await SmsService.applyStatusCallback({
+        messageSid: params.MessageSid,
+        status: messageStatus,
+        errorCode: params.ErrorCode ?? null,
+      });
+      return twimlResponse(null);
+    }
+
+    // Inbound message from a customer
+    if (params.From && params.Body !== undefined) {
+      const reply = await SmsService.handleInboundMessage({
+        from: params.From,
+        body: params.Body,
+        messageSid: params.MessageSid ?? null,
+      });
+      return twimlResponse(reply);
+    }
+
+    return badRequestResponse('Unrecognized webhook payload');
+  } catch (error) {
+    console.error('SMS webhook POST error:', error);
+    return internalErrorResponse('Failed to process SMS webhook');
+  }
+}
@@ -3,12 +3,27 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { prisma } from '@/lib/db/prisma';
 import bcrypt from 'bcrypt';
-import { PASSWORD } from '@/constants/app';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { PASSWORD, AUDIT_LOG } from '@/constants/app';
 
 interface RouteParams {
   params: { id: string };
 }
 
+/**
+ * Flatten a user's contact lists into plain values so they diff cleanly
+ */
+function toAuditRecord<T extends {
+  phoneNumbers: Array<{ e164Format: string }>;
+  emailAddresses: Array<{ email: string }>;
+}>(user: T): Omit<T, 'phoneNumbers' | 'emailAddresses'> & { phoneNumbers: string[]; emailAddresses: string[] } {
+  return {
+    ...user,
+    phoneNumbers: user.phoneNumbers.map((p) => p.e164Format),
+    emailAddresses: user.emailAddresses.map((e) => e.email),
+  };
+}
+
 export async function GET(
   _request: NextRequest,
   { params }: RouteParams
@@ -102,6 +117,10 @@ export async function PATCH(
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
       where: { id: params.id },
+      include: {
+        phoneNumbers: { orderBy: { isPrimary: 'desc' } },
+        emailAddresses: { orderBy: { isPrimary: 'desc' } },
+      },
     });
 
     if (!existingUser) {
@@ -242,6 +261,14 @@ export async function PATCH(
       });
     });
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.USER,
+      params.id,
+      toAuditRecord(existingUser),
+      toAuditRecord({ ...user, passwordHash: updateData.passwordHash ?? existingUser.passwordHash })
+    );
+
     return NextResponse.json(user);
   } catch (error) {
     console.error('Update user API error:', error);
@@ -250,7 +277,7 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse> {
   try {
@@ -278,11 +305,19 @@ export async function DELETE(
     }
 
     // Soft delete - set isActive to false
-    await prisma.user.update({
+    const deactivated = await prisma.user.update({
       where: { id: params.id },
       data: { isActive: false },
     });
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.USER,
+      params.id,
+      existingUser,
+      deactivated
+    );
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete user API error:', error);
@@ -3,7 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/options';
 import { prisma } from '@/lib/db/prisma';
 import bcrypt from 'bcrypt';
-import { PASSWORD } from '@/constants/app';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { PASSWORD, AUDIT_LOG } from '@/constants/app';
 
 export async function GET(): Promise<NextResponse> {
   try {
@@ -175,6 +176,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       },
     });
 
+    await AuditLogService.logChange(
+      AuditLogService.getContext(request, session.user),
+      AUDIT_LOG.ENTITY_TYPES.USER,
+      user.id,
+      null,
+      { ...user, passwordHash }
+    );
+
     return NextResponse.json(user, { status: 201 });
   } catch (error) {
     console.error('Create user API error:', error);
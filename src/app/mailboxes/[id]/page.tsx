@@ -4,6 +4,9 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { AppLayout } from '@/components/layout';
+import { AuditHistory } from '@/components/audit-log';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AUDIT_LOG } from '@/constants/app';
 import { format } from 'date-fns';
 
 interface Recipient {
@@ -287,155 +290,168 @@ function MailboxDetailContent(): React.ReactElement {
         </div>
       )}
 
-      <div className="grid gap-6 lg:grid-cols-2">
-        {/* Mailbox Info Card */}
-        <div className="rounded-lg border bg-white p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Mailbox Information</h2>
-          <dl className="space-y-4">
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Number</dt>
-              <dd className="text-sm font-medium font-mono">{mailbox.number}</dd>
+      <Tabs defaultValue="details" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Mailbox Info Card */}
+            <div className="rounded-lg border bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Mailbox Information</h2>
+              <dl className="space-y-4">
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Number</dt>
+                  <dd className="text-sm font-medium font-mono">{mailbox.number}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Status</dt>
+                  <dd className="text-sm font-medium">
+                    {isEditing ? (
+                      <select
+                        value={formData.status}
+                        onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                        className="rounded-md border px-2 py-1 text-sm"
+                        disabled={mailbox.account !== null && formData.status !== 'MAINTENANCE'}
+                      >
+                        <option value="AVAILABLE" disabled={mailbox.account !== null}>Available</option>
+                        <option value="ACTIVE">Active</option>
+                        <option value="RESERVED">Reserved</option>
+                        <option value="MAINTENANCE">Maintenance</option>
+                      </select>
+                    ) : (
+                      <StatusBadge status={mailbox.status} />
+                    )}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Key Deposit</dt>
+                  <dd className="text-sm font-medium font-mono">
+                    {isEditing ? (
+                      <div className="flex items-center gap-1">
+                        <span>$</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={formData.keyDeposit}
+                          onChange={(e) => setFormData({ ...formData, keyDeposit: e.target.value })}
+                          className="w-20 rounded-md border px-2 py-1 text-sm text-right"
+                        />
+                      </div>
+                    ) : (
+                      `$${Number(mailbox.keyDeposit).toFixed(2)}`
+                    )}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Created</dt>
+                  <dd className="text-sm font-medium">
+                    {format(new Date(mailbox.createdAt), 'MM/dd/yyyy')}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-sm text-gray-500">Last Updated</dt>
+                  <dd className="text-sm font-medium">
+                    {format(new Date(mailbox.updatedAt), 'MM/dd/yyyy HH:mm')}
+                  </dd>
+                </div>
+              </dl>
             </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Status</dt>
-              <dd className="text-sm font-medium">
-                {isEditing ? (
-                  <select
-                    value={formData.status}
-                    onChange={(e) => setFormData({ ...formData, status: e.target.value })}
-                    className="rounded-md border px-2 py-1 text-sm"
-                    disabled={mailbox.account !== null && formData.status !== 'MAINTENANCE'}
+
+            {/* Account Info Card */}
+            <div className="rounded-lg border bg-white p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Account</h2>
+                {mailbox.account && (
+                  <Link
+                    href={`/accounts/${mailbox.account.id}`}
+                    className="text-sm text-postnet-red hover:underline"
                   >
-                    <option value="AVAILABLE" disabled={mailbox.account !== null}>Available</option>
-                    <option value="ACTIVE">Active</option>
-                    <option value="RESERVED">Reserved</option>
-                    <option value="MAINTENANCE">Maintenance</option>
-                  </select>
-                ) : (
-                  <StatusBadge status={mailbox.status} />
+                    View Details
+                  </Link>
                 )}
-              </dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Key Deposit</dt>
-              <dd className="text-sm font-medium font-mono">
-                {isEditing ? (
-                  <div className="flex items-center gap-1">
-                    <span>$</span>
-                    <input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={formData.keyDeposit}
-                      onChange={(e) => setFormData({ ...formData, keyDeposit: e.target.value })}
-                      className="w-20 rounded-md border px-2 py-1 text-sm text-right"
-                    />
+              </div>
+              {mailbox.account ? (
+                <dl className="space-y-4">
+                  <div className="flex justify-between">
+                    <dt className="text-sm text-gray-500">Account Holder</dt>
+                    <dd className="text-sm font-medium">{mailbox.account.holderName}</dd>
                   </div>
-                ) : (
-                  `$${Number(mailbox.keyDeposit).toFixed(2)}`
-                )}
-              </dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Created</dt>
-              <dd className="text-sm font-medium">
-                {format(new Date(mailbox.createdAt), 'MM/dd/yyyy')}
-              </dd>
-            </div>
-            <div className="flex justify-between">
-              <dt className="text-sm text-gray-500">Last Updated</dt>
-              <dd className="text-sm font-medium">
-                {format(new Date(mailbox.updatedAt), 'MM/dd/yyyy HH:mm')}
-              </dd>
+                  <div className="flex justify-between">
+                    <dt className="text-sm text-gray-500">Account Status</dt>
+                    <dd className="text-sm font-medium">
+                      <AccountStatusBadge status={mailbox.account.status} />
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-sm text-gray-500">Next Renewal</dt>
+                    <dd className="text-sm font-medium">
+                      {format(new Date(mailbox.account.nextRenewalDate), 'MM/dd/yyyy')}
+                    </dd>
+                  </div>
+                </dl>
+              ) : (
+                <p className="text-sm text-gray-500">No account assigned to this mailbox.</p>
+              )}
             </div>
-          </dl>
-        </div>
-
-        {/* Account Info Card */}
-        <div className="rounded-lg border bg-white p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900">Account</h2>
-            {mailbox.account && (
-              <Link
-                href={`/accounts/${mailbox.account.id}`}
-                className="text-sm text-postnet-red hover:underline"
-              >
-                View Details
-              </Link>
-            )}
           </div>
-          {mailbox.account ? (
-            <dl className="space-y-4">
-              <div className="flex justify-between">
-                <dt className="text-sm text-gray-500">Account Holder</dt>
-                <dd className="text-sm font-medium">{mailbox.account.holderName}</dd>
-              </div>
-              <div className="flex justify-between">
-                <dt className="text-sm text-gray-500">Account Status</dt>
-                <dd className="text-sm font-medium">
-                  <AccountStatusBadge status={mailbox.account.status} />
-                </dd>
-              </div>
-              <div className="flex justify-between">
-                <dt className="text-sm text-gray-500">Next Renewal</dt>
-                <dd className="text-sm font-medium">
-                  {format(new Date(mailbox.account.nextRenewalDate), 'MM/dd/yyyy')}
-                </dd>
+
+          {/* Account History */}
+          {mailbox.accountHistory.length > 0 && (
+            <div className="mt-6 rounded-lg border bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Account History</h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Account Holder</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Start Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">End Date</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {mailbox.accountHistory.map((account) => (
+                      <tr
+                        key={account.id}
+                        className={`hover:bg-gray-50 cursor-pointer ${account.status === 'CLOSED' ? 'text-gray-400' : ''}`}
+                      >
+                        <td className="px-4 py-3 text-sm">
+                          <Link
+                            href={`/accounts/${account.id}`}
+                            className="text-postnet-red hover:underline"
+                          >
+                            {account.holderName}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <AccountStatusBadge status={account.status} />
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono">
+                          {format(new Date(account.startDate), 'MM/dd/yyyy')}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono">
+                          {account.endDate
+                            ? format(new Date(account.endDate), 'MM/dd/yyyy')
+                            : <span className="text-gray-400">—</span>
+                          }
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-            </dl>
-          ) : (
-            <p className="text-sm text-gray-500">No account assigned to this mailbox.</p>
+            </div>
           )}
-        </div>
-      </div>
+        </TabsContent>
 
-      {/* Account History */}
-      {mailbox.accountHistory.length > 0 && (
-        <div className="mt-6 rounded-lg border bg-white p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Account History</h2>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Account Holder</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Status</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Start Date</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">End Date</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {mailbox.accountHistory.map((account) => (
-                  <tr
-                    key={account.id}
-                    className={`hover:bg-gray-50 cursor-pointer ${account.status === 'CLOSED' ? 'text-gray-400' : ''}`}
-                  >
-                    <td className="px-4 py-3 text-sm">
-                      <Link
-                        href={`/accounts/${account.id}`}
-                        className="text-postnet-red hover:underline"
-                      >
-                        {account.holderName}
-                      </Link>
-                    </td>
-                    <td className="px-4 py-3 text-sm">
-                      <AccountStatusBadge status={account.status} />
-                    </td>
-                    <td className="px-4 py-3 text-sm font-mono">
-                      {format(new Date(account.startDate), 'MM/dd/yyyy')}
-                    </td>
-                    <td className="px-4 py-3 text-sm font-mono">
-                      {account.endDate
-                        ? format(new Date(account.endDate), 'MM/dd/yyyy')
-                        : <span className="text-gray-400">—</span>
-                      }
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      )}
+        <TabsContent value="history">
+          <AuditHistory entityType={AUDIT_LOG.ENTITY_TYPES.MAILBOX} entityId={mailboxId} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout';
+import { WorkQueue } from '@/components/reminders';
+import { formatCurrency } from '@/lib/utils/currency';
 
 interface AccountStats {
   active: number;
@@ -11,6 +13,7 @@ interface AccountStats {
   closed: number;
   total: number;
   auditFlagged: number;
+  outstanding: number;
 }
 
 function StatusCard({
@@ -19,12 +22,14 @@ function StatusCard({
   href,
   colorClass,
   alertWhenPositive = false,
+  formatValue = (value): string => value.toLocaleString(),
 }: {
   title: string;
   count: number | null;
   href: string;
   colorClass: string;
   alertWhenPositive?: boolean;
+  formatValue?: (value: number) => string;
 }): React.ReactElement {
   const showAlert = alertWhenPositive && count !== null && count > 0;
   return (
@@ -36,7 +41,7 @@ function StatusCard({
         {title}
       </span>
       <p className={`mt-3 text-2xl sm:text-3xl font-bold font-mono ${showAlert ? 'text-postnet-red' : 'text-postnet-charcoal'}`}>
-        {count !== null ? count.toLocaleString() : '—'}
+        {count !== null ? formatValue(count) : '—'}
       </p>
     </Link>
   );
@@ -106,8 +111,8 @@ function Dashboard(): React.ReactElement {
       <div>
         <h2 className="text-lg font-semibold text-postnet-charcoal mb-4">Account Status</h2>
         {loading ? (
-          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6 sm:gap-4">
-            {[1, 2, 3, 4, 5, 6].map((i) => (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-7 sm:gap-4">
+            {[1, 2, 3, 4, 5, 6, 7].map((i) => (
               <div key={i} className="flex flex-col rounded-lg border border-gray-200 bg-white p-4 sm:p-5 shadow-sm animate-pulse">
                 <div className="h-5 w-16 bg-gray-200 rounded-full" />
                 <div className="mt-3 h-8 w-14 bg-gray-200 rounded" />
@@ -115,7 +120,7 @@ function Dashboard(): React.ReactElement {
             ))}
           </div>
         ) : (
-          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6 sm:gap-4">
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-7 sm:gap-4">
             <StatusCard
               title="Active"
               count={stats?.active ?? null}
@@ -155,10 +160,20 @@ function Dashboard(): React.ReactElement {
               colorClass="bg-status-due/10 text-status-due"
               alertWhenPositive
             />
+            <StatusCard
+              title="Outstanding"
+              count={stats?.outstanding ?? null}
+              href="/reports"
+              colorClass="bg-status-hold/10 text-status-hold"
+              formatValue={formatCurrency}
+            />
           </div>
         )}
       </div>
 
+      {/* Work Queue Section */}
+      <WorkQueue />
+
       {/* Quick Actions Section */}
       <div>
         <h2 className="text-lg font-semibold text-postnet-charcoal mb-4">Quick Actions</h2>
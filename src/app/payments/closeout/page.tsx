@@ -0,0 +1,415 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { AppLayout } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+import { formatCurrency, roundCurrency } from '@/lib/utils/currency';
+import { formatDisplayDate, formatInputDate } from '@/lib/utils/date';
+import type { DrawerDay } from '@/types/drawer';
+
+// Local service that forwards ESC/POS streams to the counter's thermal printer
+const PRINT_BRIDGE_URL = process.env.NEXT_PUBLIC_PRINT_BRIDGE_URL;
+
+const METHODS = ['CASH', 'CARD', 'CHECK'] as const;
+
+const textareaClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-postnet-red/50 text-sm';
+
+function varianceClassName(variance: number): string {
+  if (variance === 0) return 'text-green-600';
+  return variance > 0 ? 'text-amber-600' : 'text-red-600';
+}
+
+function formatVariance(variance: number): string {
+  return variance > 0 ? `+${formatCurrency(variance)}` : formatCurrency(variance);
+}
+
+function DrawerCloseoutContent(): React.ReactElement {
+  const [businessDate, setBusinessDate] = useState(formatInputDate(new Date()));
+  const [day, setDay] = useState<DrawerDay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [countedCash, setCountedCash] = useState('');
+  const [countedCard, setCountedCard] = useState('');
+  const [varianceNote, setVarianceNote] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  const [reportText, setReportText] = useState<string | null>(null);
+  const [printing, setPrinting] = useState(false);
+
+  const fetchDay = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setReportText(null);
+
+    try {
+      const res = await fetch(`/api/drawer/${businessDate}`);
+      if (!res.ok) {
+        throw new Error('Failed to load drawer');
+      }
+      const { data } = await res.json() as { data: DrawerDay };
+      setDay(data);
+    } catch (err) {
+      setDay(null);
+      setError(err instanceof Error ? err.message : 'Failed to load drawer');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessDate]);
+
+  useEffect(() => {
+    setCountedCash('');
+    setCountedCard('');
+    setVarianceNote('');
+    void fetchDay();
+  }, [fetchDay]);
+
+  const summary = day?.summary;
+  const closeout = day?.closeout ?? null;
+  const cashVariance =
+    summary && countedCash !== ''
+      ? roundCurrency(parseFloat(countedCash) - summary.byMethod.CASH.total)
+      : null;
+  const cardVariance =
+    summary && countedCard !== ''
+      ? roundCurrency(parseFloat(countedCard) - summary.byMethod.CARD.total)
+      : null;
+  const isBalanced = cashVariance === 0 && cardVariance === 0;
+
+  const handleClose = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    if (!confirm(`Close the drawer for ${formatDisplayDate(businessDate)}? No further payments can be recorded on this day.`)) {
+      return;
+    }
+
+    setClosing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/drawer/${businessDate}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          countedCash: parseFloat(countedCash),
+          countedCard: parseFloat(countedCard),
+          ...(varianceNote.trim() && { varianceNote: varianceNote.trim() }),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to close drawer');
+      }
+
+      await fetchDay();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close drawer');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handlePreviewReport = async (): Promise<void> => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/drawer/${businessDate}/z-report?format=text`);
+      if (!res.ok) {
+        throw new Error('Failed to generate Z-report');
+      }
+      setReportText(await res.text());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate Z-report');
+    }
+  };
+
+  const handlePrintReport = async (): Promise<void> => {
+    if (!PRINT_BRIDGE_URL) return;
+    setPrinting(true);
+    setError(null);
+
+    try {
+      const reportResponse = await fetch(`/api/drawer/${businessDate}/z-report`);
+      if (!reportResponse.ok) {
+        throw new Error('Failed to generate Z-report');
+      }
+
+      const printResponse = await fetch(PRINT_BRIDGE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: await reportResponse.blob(),
+      });
+      if (!printResponse.ok) {
+        throw new Error('Receipt printer is not responding');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to print Z-report');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/payments" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Payments
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Drawer Close-Out</h1>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="businessDate">Business Date</Label>
+            <Input
+              id="businessDate"
+              type="date"
+              value={businessDate}
+              max={formatInputDate(new Date())}
+              onChange={(e) => e.target.value && setBusinessDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse grid grid-cols-2 gap-4 md:grid-cols-4">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : summary && (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {METHODS.map((method) => (
+              <Card key={method}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">
+                    {PAYMENT_METHOD_LABELS[method]} ({summary.byMethod[method].count})
+                  </p>
+                  <p className="text-2xl font-semibold font-mono">
+                    {formatCurrency(summary.byMethod[method].total)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-gray-500">
+                  Net Total
+                  {summary.reversalCount > 0 && ` (after ${formatCurrency(summary.reversalTotal)} reversed)`}
+                </p>
+                <p className="text-2xl font-semibold font-mono">{formatCurrency(summary.total)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Staff</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summary.byStaff.length === 0 ? (
+                <p className="text-sm text-gray-500">No payments recorded on this day.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Staff</TableHead>
+                      {METHODS.map((method) => (
+                        <TableHead key={method} className="text-right">
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.byStaff.map((staff) => (
+                      <TableRow key={staff.userId}>
+                        <TableCell>{staff.name}</TableCell>
+                        {METHODS.map((method) => (
+                          <TableCell key={method} className="text-right font-mono">
+                            {formatCurrency(staff.byMethod[method].total)}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono font-medium">
+                          {formatCurrency(staff.total)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{closeout ? 'Drawer Closed' : 'Close Drawer'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {closeout ? (
+                <div className="space-y-4">
+                  <dl className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm md:grid-cols-3">
+                    <div>
+                      <dt className="text-gray-500">Cash Expected / Counted</dt>
+                      <dd className="font-mono">
+                        {formatCurrency(closeout.expectedCash)} / {formatCurrency(closeout.countedCash)}
+                      </dd>
+                      <dd className={`font-mono ${varianceClassName(closeout.cashVariance)}`}>
+                        {formatVariance(closeout.cashVariance)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Card Expected / Batch</dt>
+                      <dd className="font-mono">
+                        {formatCurrency(closeout.expectedCard)} / {formatCurrency(closeout.countedCard)}
+                      </dd>
+                      <dd className={`font-mono ${varianceClassName(closeout.cardVariance)}`}>
+                        {formatVariance(closeout.cardVariance)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Checks</dt>
+                      <dd className="font-mono">{formatCurrency(closeout.expectedCheck)}</dd>
+                    </div>
+                  </dl>
+                  {closeout.varianceNote && (
+                    <p className="text-sm text-gray-700">Note: {closeout.varianceNote}</p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    Closed by {closeout.closedBy.name} on {new Date(closeout.closedAt).toLocaleString()}
+                  </p>
+                </div>
+              ) : (
+                <form onSubmit={(e) => void handleClose(e)} className="space-y-4">
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="countedCash">Counted Cash *</Label>
+                      <Input
+                        id="countedCash"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={countedCash}
+                        onChange={(e) => setCountedCash(e.target.value)}
+                        required
+                      />
+                      <p className="text-sm text-gray-500">
+                        Expected {formatCurrency(summary.byMethod.CASH.total)}
+                        {cashVariance !== null && (
+                          <span className={`ml-2 font-mono ${varianceClassName(cashVariance)}`}>
+                            {formatVariance(cashVariance)}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="countedCard">Card Batch Total *</Label>
+                      <Input
+                        id="countedCard"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={countedCard}
+                        onChange={(e) => setCountedCard(e.target.value)}
+                        required
+                      />
+                      <p className="text-sm text-gray-500">
+                        Expected {formatCurrency(summary.byMethod.CARD.total)}
+                        {cardVariance !== null && (
+                          <span className={`ml-2 font-mono ${varianceClassName(cardVariance)}`}>
+                            {formatVariance(cardVariance)}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="varianceNote">
+                      Variance Note{cashVariance !== null && cardVariance !== null && !isBalanced && ' *'}
+                    </Label>
+                    <textarea
+                      id="varianceNote"
+                      value={varianceNote}
+                      onChange={(e) => setVarianceNote(e.target.value)}
+                      rows={2}
+                      maxLength={500}
+                      className={textareaClassName}
+                      placeholder="Explain any overage or shortage"
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button
+                      type="submit"
+                      disabled={
+                        closing ||
+                        cashVariance === null ||
+                        cardVariance === null ||
+                        (!isBalanced && !varianceNote.trim())
+                      }
+                    >
+                      {closing ? 'Closing...' : 'Close Drawer'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Z-Report</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => void handlePreviewReport()}>
+                  Preview
+                </Button>
+                {PRINT_BRIDGE_URL && (
+                  <Button size="sm" onClick={() => void handlePrintReport()} disabled={printing}>
+                    {printing ? 'Printing...' : 'Print'}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            {reportText && (
+              <CardContent>
+                <pre className="mx-auto w-fit rounded-md bg-gray-50 p-4 font-mono text-xs">{reportText}</pre>
+              </CardContent>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function DrawerCloseoutPage(): React.ReactElement {
+  return (
+    <AppLayout>
+      <DrawerCloseoutContent />
+    </AppLayout>
+  );
+}
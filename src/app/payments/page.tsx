@@ -1,12 +1,18 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
 import { AppLayout } from '@/components/layout';
 import { PaymentHistoryTable } from '@/components/payments/PaymentHistoryTable';
 import { PaymentFilters } from '@/components/payments/PaymentFilters';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import type { PaymentWithDetails, PaginatedPaymentResponse } from '@/types/payment';
+import { formatCurrency } from '@/lib/utils/currency';
+import type {
+  PaymentWithDetails,
+  PaginatedPaymentResponse,
+  PaymentSummary,
+} from '@/types/payment';
 
 function PaymentsPageContent(): React.ReactElement {
   const [payments, setPayments] = useState<PaymentWithDetails[]>([]);
@@ -19,6 +25,8 @@ function PaymentsPageContent(): React.ReactElement {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [paymentMethod, setPaymentMethod] = useState('');
+  const [paymentType, setPaymentType] = useState('');
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
 
   const fetchPayments = useCallback(async () => {
     setLoading(true);
@@ -33,8 +41,16 @@ function PaymentsPageContent(): React.ReactElement {
       if (startDate) params.set('startDate', startDate);
       if (endDate) params.set('endDate', endDate);
       if (paymentMethod && paymentMethod !== 'ALL') params.set('paymentMethod', paymentMethod);
+      if (paymentType && paymentType !== 'ALL') params.set('paymentType', paymentType);
 
-      const res = await fetch(`/api/payments?${params}`);
+      const summaryParams = new URLSearchParams();
+      if (startDate) summaryParams.set('startDate', startDate);
+      if (endDate) summaryParams.set('endDate', endDate);
+
+      const [res, summaryRes] = await Promise.all([
+        fetch(`/api/payments?${params}`),
+        fetch(`/api/payments/summary?${summaryParams}`),
+      ]);
       if (!res.ok) {
         throw new Error('Failed to fetch payments');
       }
@@ -42,12 +58,17 @@ function PaymentsPageContent(): React.ReactElement {
       const data = await res.json() as PaginatedPaymentResponse;
       setPayments(data.data);
       setTotalPages(data.pagination.totalPages);
+
+      if (summaryRes.ok) {
+        const summaryData = await summaryRes.json() as { data: PaymentSummary };
+        setSummary(summaryData.data);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load payments');
     } finally {
       setLoading(false);
     }
-  }, [page, startDate, endDate, paymentMethod]);
+  }, [page, startDate, endDate, paymentMethod, paymentType]);
 
   useEffect(() => {
     void fetchPayments();
@@ -57,6 +78,7 @@ function PaymentsPageContent(): React.ReactElement {
     setStartDate('');
     setEndDate('');
     setPaymentMethod('');
+    setPaymentType('');
     setPage(1);
   };
 
@@ -64,8 +86,47 @@ function PaymentsPageContent(): React.ReactElement {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Payments</h1>
+        <Link
+          href="/payments/closeout"
+          className="rounded-md bg-postnet-red px-3 py-2 text-sm font-medium text-white hover:bg-postnet-red-dark"
+        >
+          Close Out Drawer
+        </Link>
       </div>
 
+      {summary && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Payments ({summary.paymentCount})</p>
+              <p className="text-2xl font-semibold font-mono">{formatCurrency(summary.grossPayments)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Voids ({summary.voidCount})</p>
+              <p className="text-2xl font-semibold font-mono text-red-600">
+                {formatCurrency(-summary.voidedAmount)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Refunds ({summary.refundCount})</p>
+              <p className="text-2xl font-semibold font-mono text-red-600">
+                {formatCurrency(-summary.refundedAmount)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Net Collected</p>
+              <p className="text-2xl font-semibold font-mono">{formatCurrency(summary.netAmount)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Payment History</CardTitle>
@@ -76,9 +137,11 @@ function PaymentsPageContent(): React.ReactElement {
               startDate={startDate}
               endDate={endDate}
               paymentMethod={paymentMethod}
+              paymentType={paymentType}
               onStartDateChange={(v) => { setStartDate(v); setPage(1); }}
               onEndDateChange={(v) => { setEndDate(v); setPage(1); }}
               onPaymentMethodChange={(v) => { setPaymentMethod(v); setPage(1); }}
+              onPaymentTypeChange={(v) => { setPaymentType(v); setPage(1); }}
               onClear={clearFilters}
             />
           </div>
@@ -93,6 +156,7 @@ function PaymentsPageContent(): React.ReactElement {
             payments={payments}
             showAccount={true}
             loading={loading}
+            onPaymentReversed={() => void fetchPayments()}
           />
 
           {/* Pagination */}
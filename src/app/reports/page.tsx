@@ -0,0 +1,29 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { AppLayout } from '@/components/layout';
+import { AccountingExport, AgingReport, KeyDepositReport, RevenueReport } from '@/components/reports';
+
+export default function ReportsPage(): React.ReactElement {
+  const { data: session } = useSession();
+  const isManager = session?.user?.role === 'MANAGER';
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-postnet-charcoal">Reports</h1>
+          <p className="text-muted-foreground">Balances the store is holding or owed.</p>
+        </div>
+
+        <AgingReport />
+
+        <KeyDepositReport />
+
+        <RevenueReport />
+
+        {isManager && <AccountingExport />}
+      </div>
+    </AppLayout>
+  );
+}
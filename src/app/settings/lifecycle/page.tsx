@@ -0,0 +1,28 @@
+'use client';
+
+import { useState } from 'react';
+import { AppLayout } from '@/components/layout';
+import { LifecyclePreviewTable, LifecycleRunHistory } from '@/components/lifecycle';
+import { RENEWAL } from '@/constants/app';
+
+export default function LifecycleSettingsPage(): React.ReactElement {
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-postnet-charcoal">Account Lifecycle</h1>
+          <p className="text-muted-foreground">
+            Overdue accounts are placed on hold {RENEWAL.HOLD_DAYS_AFTER_OVERDUE} days after their
+            renewal date and closed after {RENEWAL.CLOSE_DAYS_AFTER_OVERDUE} days. This runs automatically every night.
+          </p>
+        </div>
+
+        <LifecyclePreviewTable onRunComplete={() => setRefreshKey((k) => k + 1)} />
+        <LifecycleRunHistory refreshKey={refreshKey} />
+      </div>
+    </AppLayout>
+  );
+}
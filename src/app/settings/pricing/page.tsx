@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { AppLayout } from '@/components/layout';
-import { PriceCard, PriceCalculator, PriceManagementForm, PriceHistoryTable } from '@/components/pricing';
+import { PriceCard, PriceCalculator, PriceManagementForm, PriceHistoryTable, DiscountManager } from '@/components/pricing';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { SerializedPriceConfig } from '@/types/pricing';
 
@@ -86,6 +86,7 @@ export default function PricingSettingsPage(): React.ReactElement {
               <TabsTrigger value="calculator">Calculator</TabsTrigger>
               <TabsTrigger value="update">Update Pricing</TabsTrigger>
               <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="discounts">Discounts</TabsTrigger>
             </TabsList>
 
             <TabsContent value="current">
@@ -106,6 +107,10 @@ export default function PricingSettingsPage(): React.ReactElement {
             <TabsContent value="history">
               <PriceHistoryTable />
             </TabsContent>
+
+            <TabsContent value="discounts">
+              <DiscountManager />
+            </TabsContent>
           </Tabs>
         ) : (
           /* Staff view - only current pricing and calculator */
@@ -25,6 +25,12 @@ export default function StoreSettingsPage(): React.ReactElement {
     phone: '',
     email: '',
     hours: '',
+    smtpHost: '',
+    smtpPort: '',
+    smtpSecure: false,
+    smtpUser: '',
+    smtpPassword: '',
+    reopenWindowDays: '',
   });
 
   const fetchSettings = useCallback(async (): Promise<void> => {
@@ -47,6 +53,12 @@ export default function StoreSettingsPage(): React.ReactElement {
         phone: data.data.phone,
         email: data.data.email,
         hours: data.data.hours,
+        smtpHost: data.data.smtpHost ?? '',
+        smtpPort: data.data.smtpPort?.toString() ?? '',
+        smtpSecure: data.data.smtpSecure,
+        smtpUser: data.data.smtpUser ?? '',
+        smtpPassword: '',
+        reopenWindowDays: data.data.reopenWindowDays.toString(),
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -78,7 +90,11 @@ export default function StoreSettingsPage(): React.ReactElement {
       const response = await fetch('/api/settings/store', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          smtpPort: formData.smtpPort ? Number(formData.smtpPort) : null,
+          reopenWindowDays: Number(formData.reopenWindowDays || 0),
+        }),
       });
 
       if (!response.ok) {
@@ -88,6 +104,7 @@ export default function StoreSettingsPage(): React.ReactElement {
 
       const data = await response.json();
       setSettings(data.data);
+      setFormData((prev) => ({ ...prev, smtpPassword: '' }));
       setIsEditing(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -107,6 +124,12 @@ export default function StoreSettingsPage(): React.ReactElement {
         phone: settings.phone,
         email: settings.email,
         hours: settings.hours,
+        smtpHost: settings.smtpHost ?? '',
+        smtpPort: settings.smtpPort?.toString() ?? '',
+        smtpSecure: settings.smtpSecure,
+        smtpUser: settings.smtpUser ?? '',
+        smtpPassword: '',
+        reopenWindowDays: settings.reopenWindowDays.toString(),
       });
     }
     setIsEditing(false);
@@ -120,7 +143,7 @@ export default function StoreSettingsPage(): React.ReactElement {
           <div>
             <h1 className="text-2xl font-bold text-postnet-charcoal">Store Settings</h1>
             <p className="text-muted-foreground">
-              Manage store information displayed on notices
+              Manage store information displayed on notices and the email server used to send them
             </p>
           </div>
           <div className="bg-white rounded-lg border p-6">
@@ -142,7 +165,7 @@ export default function StoreSettingsPage(): React.ReactElement {
           <div>
             <h1 className="text-2xl font-bold text-postnet-charcoal">Store Settings</h1>
             <p className="text-muted-foreground">
-              Manage store information displayed on notices
+              Manage store information displayed on notices and the email server used to send them
             </p>
           </div>
           {isManager && !isEditing && (
@@ -275,6 +298,131 @@ export default function StoreSettingsPage(): React.ReactElement {
               )}
             </div>
 
+            <div className="space-y-4 pt-4 border-t">
+              <div>
+                <h2 className="text-lg font-semibold text-postnet-charcoal">Outgoing Email</h2>
+                <p className="text-sm text-muted-foreground">
+                  SMTP server used to email notices. Leave the host blank to save emails to the
+                  local outbox instead.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="smtpHost">SMTP Host</Label>
+                  {isEditing ? (
+                    <Input
+                      id="smtpHost"
+                      value={formData.smtpHost}
+                      onChange={(e) => setFormData({ ...formData, smtpHost: e.target.value })}
+                      placeholder="smtp.example.com"
+                    />
+                  ) : (
+                    <p className="text-sm text-postnet-charcoal py-2">
+                      {settings?.smtpHost || <span className="text-gray-400">Not configured</span>}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="smtpPort">Port</Label>
+                  {isEditing ? (
+                    <Input
+                      id="smtpPort"
+                      type="number"
+                      value={formData.smtpPort}
+                      onChange={(e) => setFormData({ ...formData, smtpPort: e.target.value })}
+                      placeholder="587"
+                    />
+                  ) : (
+                    <p className="text-sm text-postnet-charcoal py-2">
+                      {settings?.smtpPort ?? <span className="text-gray-400">—</span>}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="smtpUser">Username</Label>
+                  {isEditing ? (
+                    <Input
+                      id="smtpUser"
+                      value={formData.smtpUser}
+                      onChange={(e) => setFormData({ ...formData, smtpUser: e.target.value })}
+                      placeholder="(optional)"
+                      autoComplete="off"
+                    />
+                  ) : (
+                    <p className="text-sm text-postnet-charcoal py-2">
+                      {settings?.smtpUser || <span className="text-gray-400">—</span>}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="smtpPassword">Password</Label>
+                  {isEditing ? (
+                    <Input
+                      id="smtpPassword"
+                      type="password"
+                      value={formData.smtpPassword}
+                      onChange={(e) => setFormData({ ...formData, smtpPassword: e.target.value })}
+                      placeholder={settings?.smtpPasswordSet ? 'Leave blank to keep current' : '(optional)'}
+                      autoComplete="new-password"
+                    />
+                  ) : (
+                    <p className="text-sm text-postnet-charcoal py-2">
+                      {settings?.smtpPasswordSet ? '••••••••' : <span className="text-gray-400">—</span>}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  id="smtpSecure"
+                  type="checkbox"
+                  checked={isEditing ? formData.smtpSecure : settings?.smtpSecure ?? false}
+                  onChange={(e) => setFormData({ ...formData, smtpSecure: e.target.checked })}
+                  disabled={!isEditing}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="smtpSecure">Use TLS from the start (usually port 465)</Label>
+              </div>
+            </div>
+
+            <div className="space-y-4 pt-4 border-t">
+              <div>
+                <h2 className="text-lg font-semibold text-postnet-charcoal">Account Closure</h2>
+                <p className="text-sm text-muted-foreground">
+                  A closed account can be reopened within this many days, as long as its mailbox
+                  hasn&apos;t been assigned to someone else.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reopenWindowDays">Reopen Window (days)</Label>
+                  {isEditing ? (
+                    <Input
+                      id="reopenWindowDays"
+                      type="number"
+                      min="0"
+                      max="365"
+                      value={formData.reopenWindowDays}
+                      onChange={(e) => setFormData({ ...formData, reopenWindowDays: e.target.value })}
+                      placeholder="30"
+                    />
+                  ) : (
+                    <p className="text-sm text-postnet-charcoal py-2">
+                      {settings?.reopenWindowDays ?? '—'}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
             {isEditing && (
               <div className="flex justify-end gap-2 pt-4 border-t">
                 <Button variant="outline" onClick={handleCancel} disabled={isSaving}>
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CLOSURE_REASONS, PAYMENT_METHOD_LABELS } from '@/constants/status';
+import { NOTICE_DELIVERY_METHOD_LABELS } from '@/constants/notice';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { AccountClosurePreview, CloseAccountResult } from '@/types/account-closure';
+
+type DepositChoice = 'HOLD' | 'REFUND' | 'FORFEIT';
+
+interface AccountCloseDialogProps {
+  isOpen: boolean;
+  accountId: string;
+  isManager: boolean;
+  onClose: () => void;
+  onSuccess: (result: CloseAccountResult) => void;
+}
+
+export function AccountCloseDialog({
+  isOpen,
+  accountId,
+  isManager,
+  onClose,
+  onSuccess,
+}: AccountCloseDialogProps): React.ReactElement {
+  const [preview, setPreview] = useState<AccountClosurePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState<string>('Customer Request');
+  const [notes, setNotes] = useState('');
+  const [writeOff, setWriteOff] = useState(false);
+  const [depositChoice, setDepositChoice] = useState<DepositChoice>('HOLD');
+  const [depositMethod, setDepositMethod] = useState('CASH');
+  const [deliveryMethod, setDeliveryMethod] = useState('PRINT');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setReason('Customer Request');
+    setNotes('');
+    setWriteOff(false);
+    setDepositChoice('HOLD');
+    setDepositMethod('CASH');
+    setDeliveryMethod('PRINT');
+    setError(null);
+    setPreview(null);
+    setLoading(true);
+
+    fetch(`/api/accounts/${accountId}/close`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load closure details');
+        const data = await response.json() as { data: AccountClosurePreview };
+        setPreview(data.data);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load closure details');
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, accountId]);
+
+  const hasUnpaid = (preview?.unpaidInvoices.length ?? 0) > 0;
+  const depositHeld = preview?.deposit.status === 'HELD';
+  const blockedByUnpaid = hasUnpaid && !writeOff;
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    if (depositChoice === 'FORFEIT' && !notes.trim()) {
+      setError('Please note why the key deposit is being kept');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${accountId}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason,
+          ...(notes.trim() && { notes: notes.trim() }),
+          writeOffUnpaid: writeOff,
+          ...(depositChoice !== 'HOLD' && {
+            deposit: {
+              action: depositChoice,
+              ...(depositChoice === 'REFUND' && { paymentMethod: depositMethod }),
+              ...(notes.trim() && { notes: notes.trim() }),
+            },
+          }),
+          noticeDeliveryMethod: deliveryMethod,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to close account');
+      }
+
+      const data = await response.json() as { data: CloseAccountResult };
+      onSuccess(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Close Account</DialogTitle>
+          <DialogDescription>
+            Closing releases the mailbox, removes the account&apos;s recipients and sends a
+            closure notice. It can be reopened later if the mailbox is still free.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading && <p className="text-sm text-gray-500">Loading...</p>}
+
+          {hasUnpaid && preview && (
+            <div className="rounded-md bg-amber-50 border border-amber-300 p-3 space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                {formatCurrency(preview.unpaidTotal)} is still owed on this account
+              </p>
+              <ul className="text-sm text-amber-700">
+                {preview.unpaidInvoices.map((invoice) => (
+                  <li key={invoice.id} className="flex justify-between">
+                    <span>Invoice #{invoice.invoiceNumber}</span>
+                    <span className="font-mono">{formatCurrency(invoice.balanceDue)}</span>
+                  </li>
+                ))}
+              </ul>
+              {isManager ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    id="writeOffUnpaid"
+                    type="checkbox"
+                    checked={writeOff}
+                    onChange={(e) => setWriteOff(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <Label htmlFor="writeOffUnpaid">Write off the unpaid balance</Label>
+                </div>
+              ) : (
+                <p className="text-xs text-amber-700">
+                  Collect the balance first, or ask a manager to write it off.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="closureReason">Reason *</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger id="closureReason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLOSURE_REASONS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="closureNotice">Closure Notice</Label>
+              <Select value={deliveryMethod} onValueChange={setDeliveryMethod}>
+                <SelectTrigger id="closureNotice">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NOTICE_DELIVERY_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {depositHeld && preview && (
+            isManager ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="closureDeposit">
+                    Key Deposit ({formatCurrency(preview.deposit.amount)})
+                  </Label>
+                  <Select value={depositChoice} onValueChange={(v) => setDepositChoice(v as DepositChoice)}>
+                    <SelectTrigger id="closureDeposit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="HOLD">Settle later</SelectItem>
+                      <SelectItem value="REFUND">Refund</SelectItem>
+                      <SelectItem value="FORFEIT">Forfeit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {depositChoice === 'REFUND' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="closureDepositMethod">Paid Out As *</Label>
+                    <Select value={depositMethod} onValueChange={setDepositMethod}>
+                      <SelectTrigger id="closureDepositMethod">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                The {formatCurrency(preview.deposit.amount)} key deposit stays held until a manager
+                settles it.
+              </p>
+            )
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="closureNotes">
+              Notes{depositChoice === 'FORFEIT' ? ' *' : ' (optional)'}
+            </Label>
+            <Input
+              id="closureNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g., Moving off island, keys returned"
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={saving || loading || !preview || blockedByUnpaid}
+            >
+              {saving ? 'Closing...' : 'Close Account'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
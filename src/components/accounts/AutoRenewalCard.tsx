@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AccountAutoRenewal } from '@/types/gateway';
+
+interface AutoRenewalCardProps {
+  accountId: string;
+  accountClosed: boolean;
+}
+
+const ATTEMPT_STATUS_STYLES: Record<string, string> = {
+  APPROVED: 'bg-green-100 text-green-800',
+  DECLINED: 'bg-red-100 text-red-800',
+  FAILED: 'bg-amber-100 text-amber-800',
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+/**
+ * Card on file and auto-renew setting for an account, with its recent automatic charges
+ */
+export function AutoRenewalCard({ accountId, accountClosed }: AutoRenewalCardProps): React.ReactElement {
+  const [autoRenewal, setAutoRenewal] = useState<AccountAutoRenewal | null>(null);
+  const [sourceToken, setSourceToken] = useState('');
+  const [showCardForm, setShowCardForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAutoRenewal = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch(`/api/accounts/${accountId}/auto-renewal`);
+      if (!response.ok) {
+        throw new Error('Failed to load auto-renewal');
+      }
+      const data = await response.json() as { data: AccountAutoRenewal };
+      setAutoRenewal(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load auto-renewal');
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    void fetchAutoRenewal();
+  }, [fetchAutoRenewal]);
+
+  const send = async (url: string, init: RequestInit, fallback: string): Promise<boolean> => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? fallback);
+      }
+
+      await fetchAutoRenewal();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (autoRenew: boolean): Promise<void> => {
+    await send(
+      `/api/accounts/${accountId}/auto-renewal`,
+      { method: 'PATCH', body: JSON.stringify({ autoRenew }) },
+      'Failed to update auto-renew'
+    );
+  };
+
+  const handleStoreCard = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!sourceToken.trim()) {
+      setError('Card token is required');
+      return;
+    }
+
+    const stored = await send(
+      `/api/accounts/${accountId}/auto-renewal/card`,
+      { method: 'PUT', body: JSON.stringify({ sourceToken: sourceToken.trim() }) },
+      'Failed to store card'
+    );
+    if (stored) {
+      setSourceToken('');
+      setShowCardForm(false);
+    }
+  };
+
+  const handleRemoveCard = async (): Promise<void> => {
+    if (!confirm('Remove the card on file? Auto-renew will be turned off.')) return;
+    await send(`/api/accounts/${accountId}/auto-renewal/card`, { method: 'DELETE' }, 'Failed to remove card');
+  };
+
+  const card = autoRenewal?.card ?? null;
+
+  return (
+    <div className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Auto-Renewal</h2>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!autoRenewal ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={autoRenewal.autoRenew}
+              onChange={(e) => void handleToggle(e.target.checked)}
+              disabled={saving || accountClosed || (!card && !autoRenewal.autoRenew)}
+              className="rounded text-postnet-red focus:ring-postnet-red"
+            />
+            Renew automatically with the card on file
+          </label>
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              {card ? (
+                <>
+                  <span className="font-medium capitalize">{card.brand}</span> ending{' '}
+                  <span className="font-mono">{card.last4}</span>
+                  <span className="text-gray-500">
+                    {' '}· exp {String(card.expMonth).padStart(2, '0')}/{card.expYear}
+                  </span>
+                </>
+              ) : (
+                <span className="text-gray-400">No card on file</span>
+              )}
+            </div>
+            {!accountClosed && (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowCardForm((open) => !open)}
+                  className="text-sm text-postnet-red hover:underline"
+                  disabled={saving}
+                >
+                  {card ? 'Replace' : 'Add Card'}
+                </button>
+                {card && (
+                  <button
+                    onClick={() => void handleRemoveCard()}
+                    className="text-sm text-gray-500 hover:underline"
+                    disabled={saving}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {showCardForm && (
+            <form onSubmit={(e) => void handleStoreCard(e)} className="space-y-2">
+              <Label htmlFor="cardSourceToken">Card token</Label>
+              <Input
+                id="cardSourceToken"
+                value={sourceToken}
+                onChange={(e) => setSourceToken(e.target.value)}
+                placeholder="Token from the card terminal"
+                autoComplete="off"
+                maxLength={255}
+              />
+              <p className="text-xs text-gray-500">
+                Only the token is kept. Never type the card number here.
+              </p>
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Card'}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowCardForm(false)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {autoRenewal.attempts.length > 0 && (
+            <div className="border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Recent Charges</h3>
+              <ul className="space-y-2">
+                {autoRenewal.attempts.map((attempt) => (
+                  <li key={attempt.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {format(new Date(attempt.attemptedAt), 'MMM d, yyyy')} ·{' '}
+                      <span className="font-mono">{formatCurrency(attempt.amount)}</span> ·{' '}
+                      <span className="font-mono">{attempt.cardLast4}</span>
+                      {attempt.declineReason && (
+                        <span className="text-gray-500"> · {attempt.declineReason}</span>
+                      )}
+                    </span>
+                    <span
+                      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs ${ATTEMPT_STATUS_STYLES[attempt.status] ?? ''}`}
+                    >
+                      {attempt.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
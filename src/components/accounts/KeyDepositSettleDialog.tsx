@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+
+interface KeyDepositSettleDialogProps {
+  isOpen: boolean;
+  accountId: string;
+  depositAmount: number;
+  onClose: () => void;
+  onSuccess: (action: 'REFUND' | 'FORFEIT') => void;
+}
+
+export function KeyDepositSettleDialog({
+  isOpen,
+  accountId,
+  depositAmount,
+  onClose,
+  onSuccess,
+}: KeyDepositSettleDialogProps): React.ReactElement {
+  const [action, setAction] = useState<'REFUND' | 'FORFEIT'>('REFUND');
+  const [paymentMethod, setPaymentMethod] = useState('CASH');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setAction('REFUND');
+      setPaymentMethod('CASH');
+      setNotes('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    if (action === 'FORFEIT' && !notes.trim()) {
+      setError('Please note why the deposit is being kept');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${accountId}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(action === 'REFUND' && { paymentMethod }),
+          ...(notes.trim() && { notes: notes.trim() }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to settle deposit');
+      }
+
+      onSuccess(action);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to settle deposit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settle Key Deposit</DialogTitle>
+          <DialogDescription>
+            Refund the ${depositAmount.toFixed(2)} deposit when the keys come back, or forfeit it if they don&apos;t.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="depositAction">Action *</Label>
+              <Select value={action} onValueChange={(v) => setAction(v as 'REFUND' | 'FORFEIT')}>
+                <SelectTrigger id="depositAction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="REFUND">Refund</SelectItem>
+                  <SelectItem value="FORFEIT">Forfeit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {action === 'REFUND' && (
+              <div className="space-y-2">
+                <Label htmlFor="depositRefundMethod">Paid Out As *</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger id="depositRefundMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="depositNotes">Notes{action === 'FORFEIT' ? ' *' : ' (optional)'}</Label>
+            <Input
+              id="depositNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={action === 'FORFEIT' ? 'e.g., Keys not returned' : 'e.g., Both keys returned'}
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : action === 'REFUND' ? 'Refund Deposit' : 'Forfeit Deposit'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RENEWAL_PERIOD_LABELS } from '@/constants/status';
+import type { RenewalPeriod } from '@prisma/client';
+import type { PlanChangePreview, PlanChangeResult } from '@/types/plan-change';
+
+interface PlanChangeDialogProps {
+  isOpen: boolean;
+  accountId: string;
+  currentPeriod: RenewalPeriod;
+  onClose: () => void;
+  onSuccess: (result: PlanChangeResult) => void;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export function PlanChangeDialog({
+  isOpen,
+  accountId,
+  currentPeriod,
+  onClose,
+  onSuccess,
+}: PlanChangeDialogProps): React.ReactElement {
+  const [renewalPeriod, setRenewalPeriod] = useState<RenewalPeriod>(
+    currentPeriod === 'TWELVE_MONTH' ? 'SIX_MONTH' : 'TWELVE_MONTH'
+  );
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRenewalPeriod(currentPeriod === 'TWELVE_MONTH' ? 'SIX_MONTH' : 'TWELVE_MONTH');
+      setError(null);
+    }
+  }, [isOpen, currentPeriod]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchPreview = async (): Promise<void> => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/accounts/${accountId}/plan-change?renewalPeriod=${renewalPeriod}`
+        );
+        if (!response.ok) {
+          const data = await response.json() as { error?: { message?: string } };
+          throw new Error(data.error?.message ?? 'Failed to load plan comparison');
+        }
+        const { data } = await response.json() as { data: PlanChangePreview };
+        setPreview(data);
+      } catch (err) {
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Failed to load plan comparison');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void fetchPreview();
+  }, [isOpen, accountId, renewalPeriod]);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${accountId}/plan-change`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ renewalPeriod }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to change plan');
+      }
+
+      const { data } = await response.json() as { data: PlanChangeResult };
+      onSuccess(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rows: Array<{ label: string; current: string; proposed: string }> = preview
+    ? [
+        {
+          label: 'Plan',
+          current: RENEWAL_PERIOD_LABELS[preview.current.renewalPeriod],
+          proposed: RENEWAL_PERIOD_LABELS[preview.proposed.renewalPeriod],
+        },
+        {
+          label: 'Monthly Rate',
+          current: formatMoney(preview.current.monthlyRate),
+          proposed: formatMoney(preview.proposed.monthlyRate),
+        },
+        {
+          label: 'Term Total',
+          current: formatMoney(preview.current.termTotal),
+          proposed: formatMoney(preview.proposed.termTotal),
+        },
+        {
+          label: 'Term',
+          current: `${preview.current.periodStart} to ${preview.current.nextRenewalDate}`,
+          proposed: `${preview.proposed.periodStart} to ${preview.proposed.nextRenewalDate}`,
+        },
+      ]
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Plan</DialogTitle>
+          <DialogDescription>
+            Bill a new term on a different plan starting today; it takes effect once paid. Unused days on the current term are credited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="planChangePeriod">New Plan *</Label>
+            <Select value={renewalPeriod} onValueChange={(v) => setRenewalPeriod(v as RenewalPeriod)}>
+              <SelectTrigger id="planChangePeriod">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RENEWAL_PERIOD_LABELS)
+                  .filter(([value]) => value !== currentPeriod)
+                  .map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse space-y-2">
+              <div className="h-8 bg-gray-200 rounded"></div>
+              <div className="h-8 bg-gray-200 rounded"></div>
+              <div className="h-8 bg-gray-200 rounded"></div>
+            </div>
+          ) : preview && (
+            <>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-500">
+                    <th className="py-2 text-left font-medium"></th>
+                    <th className="py-2 text-left font-medium">Current</th>
+                    <th className="py-2 text-left font-medium">New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.label} className="border-b last:border-0">
+                      <td className="py-2 text-gray-500">{row.label}</td>
+                      <td className="py-2">{row.current}</td>
+                      <td className="py-2 font-medium">{row.proposed}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <dl className="space-y-1 rounded-md bg-gray-50 p-3 text-sm">
+                {preview.lineItems.map((item) => (
+                  <div key={item.description} className="flex justify-between">
+                    <dt className="text-gray-600">{item.description}</dt>
+                    <dd className="font-mono">{formatMoney(item.amount)}</dd>
+                  </div>
+                ))}
+                {preview.unusedCredit > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <dt>
+                      Unused time ({preview.current.daysRemaining} of {preview.current.termDays} days)
+                    </dt>
+                    <dd className="font-mono">-{formatMoney(preview.unusedCredit)}</dd>
+                  </div>
+                )}
+                {preview.creditBalance > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <dt>Account Credit</dt>
+                    <dd className="font-mono">-{formatMoney(preview.creditBalance)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between border-t pt-1 font-semibold">
+                  <dt>Amount Due</dt>
+                  <dd className="font-mono">{formatMoney(preview.amountDue)}</dd>
+                </div>
+              </dl>
+
+              {preview.blocker && (
+                <p className="text-sm text-amber-700">{preview.blocker}</p>
+              )}
+            </>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || loading || !preview || preview.blocker !== null}>
+              {saving ? 'Saving...' : 'Change Plan'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
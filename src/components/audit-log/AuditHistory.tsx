@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { describeAuditEntry, describeFieldChange } from '@/lib/utils/audit-log';
+import type { SerializedAuditLogEntry } from '@/types/audit-log';
+
+interface AuditHistoryProps {
+  // Show the account and everything that belongs to it
+  accountId?: string;
+  // Or a single entity
+  entityType?: string;
+  entityId?: string;
+}
+
+interface PaginatedResponse {
+  success: boolean;
+  data: SerializedAuditLogEntry[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+}
+
+const ACTION_DOT_CLASSES: Record<SerializedAuditLogEntry['action'], string> = {
+  CREATE: 'bg-green-500',
+  UPDATE: 'bg-blue-500',
+  DELETE: 'bg-red-500',
+};
+
+export function AuditHistory({ accountId, entityType, entityId }: AuditHistoryProps): React.ReactElement {
+  const [entries, setEntries] = useState<SerializedAuditLogEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '25' });
+      if (accountId) params.set('accountId', accountId);
+      if (entityType) params.set('entityType', entityType);
+      if (entityId) params.set('entityId', entityId);
+
+      const response = await fetch(`/api/audit-log?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch history');
+      }
+
+      const data = await response.json() as PaginatedResponse;
+      setEntries(data.data);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountId, entityType, entityId, page]);
+
+  useEffect(() => {
+    void fetchEntries();
+  }, [fetchEntries]);
+
+  return (
+    <div className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Change History</h2>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No changes recorded</p>
+      ) : (
+        <ol className="space-y-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex gap-3">
+              <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${ACTION_DOT_CLASSES[entry.action]}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                  <p className="text-sm font-medium text-gray-900">{describeAuditEntry(entry)}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')} by {entry.userName}
+                  </p>
+                </div>
+                {entry.changes && entry.action === 'UPDATE' && (
+                  <ul className="mt-1 space-y-0.5">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <li key={field} className="text-sm text-gray-600">
+                        {describeFieldChange(field, change)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-between border-t pt-4">
+          <p className="text-sm text-gray-500">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { AuditHistory } from './AuditHistory';
@@ -13,10 +13,12 @@ const navigation = [
   { name: 'Accounts', href: '/accounts', icon: UsersIcon },
   { name: 'Mailboxes', href: '/mailboxes', icon: MailboxIcon },
   { name: 'Payments', href: '/payments', icon: PaymentsIcon },
+  { name: 'Reports', href: '/reports', icon: ReportsIcon },
   { name: 'Notices', href: '/settings/notices', icon: NoticesIcon },
   { name: 'Pricing', href: '/settings/pricing', icon: CurrencyIcon },
   { name: 'Store', href: '/settings/store', icon: StoreIcon },
   { name: 'Audit', href: '/settings/audit', icon: AuditIcon },
+  { name: 'Lifecycle', href: '/settings/lifecycle', icon: LifecycleIcon },
   { name: 'Users', href: '/settings/users', icon: UserAdminIcon },
 ];
 
@@ -52,6 +54,14 @@ function PaymentsIcon({ className }: { className?: string }): React.ReactElement
   );
 }
 
+function ReportsIcon({ className }: { className?: string }): React.ReactElement {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 0 1 3 19.875v-6.75ZM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V8.625ZM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V4.125Z" />
+    </svg>
+  );
+}
+
 function NoticesIcon({ className }: { className?: string }): React.ReactElement {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -84,6 +94,14 @@ function AuditIcon({ className }: { className?: string }): React.ReactElement {
   );
 }
 
+function LifecycleIcon({ className }: { className?: string }): React.ReactElement {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+    </svg>
+  );
+}
+
 function UserAdminIcon({ className }: { className?: string }): React.ReactElement {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
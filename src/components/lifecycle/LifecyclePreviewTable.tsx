@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ACCOUNT_STATUS_LABELS, MAILBOX_STATUS_LABELS } from '@/constants/status';
+import type { LifecyclePreview } from '@/types/lifecycle';
+
+interface LifecyclePreviewTableProps {
+  onRunComplete?: () => void;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function LifecyclePreviewTable({ onRunComplete }: LifecyclePreviewTableProps): React.ReactElement {
+  const [asOf, setAsOf] = useState('');
+  const [preview, setPreview] = useState<LifecyclePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreview = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = asOf ? `?asOf=${asOf}` : '';
+      const response = await fetch(`/api/lifecycle/preview${query}`);
+
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error('You do not have permission to view the lifecycle preview');
+        }
+        throw new Error('Failed to load lifecycle preview');
+      }
+
+      const data = await response.json();
+      setPreview(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [asOf]);
+
+  useEffect(() => {
+    void fetchPreview();
+  }, [fetchPreview]);
+
+  const handleRunNow = async (): Promise<void> => {
+    if (!confirm('Apply these status changes now? Held and closed accounts will be updated immediately.')) {
+      return;
+    }
+
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/lifecycle/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(asOf ? { asOfDate: asOf } : {}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message ?? 'Failed to run lifecycle');
+      }
+
+      await fetchPreview();
+      onRunComplete?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run lifecycle');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const holdCount = preview?.transitions.filter((t) => t.toStatus === 'HOLD').length ?? 0;
+  const closeCount = preview?.transitions.filter((t) => t.toStatus === 'CLOSED').length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upcoming Changes</CardTitle>
+        <CardDescription>
+          Dry run of the nightly lifecycle job. Nothing is changed until the job runs or you run it now.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="lifecycle-as-of">As of date</Label>
+            <Input
+              id="lifecycle-as-of"
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="w-44"
+            />
+          </div>
+          {asOf && (
+            <Button variant="outline" onClick={() => setAsOf('')}>
+              Next scheduled run
+            </Button>
+          )}
+          <Button
+            onClick={() => void handleRunNow()}
+            disabled={isRunning || isLoading || !preview || preview.transitions.length === 0}
+          >
+            {isRunning ? 'Running...' : 'Run Now'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-4 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {preview && (
+          <p className="text-sm text-muted-foreground">
+            As of {formatDate(preview.asOfDate)}: {preview.accountsEvaluated} overdue accounts checked,{' '}
+            {holdCount} to hold, {closeCount} to close.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : preview && preview.transitions.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Renewal Due</TableHead>
+                <TableHead className="text-right">Days Overdue</TableHead>
+                <TableHead>Account Status</TableHead>
+                <TableHead>Mailbox Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.transitions.map((t) => (
+                <TableRow key={t.accountId}>
+                  <TableCell className="font-medium">
+                    <Link href={`/accounts/${t.accountId}`} className="hover:underline">
+                      #{t.mailboxNumber}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{t.accountName}</TableCell>
+                  <TableCell>{formatDate(t.nextRenewalDate)}</TableCell>
+                  <TableCell className="text-right">{t.daysOverdue}</TableCell>
+                  <TableCell>
+                    {ACCOUNT_STATUS_LABELS[t.fromStatus]} &rarr;{' '}
+                    <span className={t.toStatus === 'CLOSED' ? 'text-red-600 font-medium' : 'text-orange-600 font-medium'}>
+                      {ACCOUNT_STATUS_LABELS[t.toStatus]}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {MAILBOX_STATUS_LABELS[t.mailboxFromStatus]} &rarr; {MAILBOX_STATUS_LABELS[t.mailboxToStatus]}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No accounts will change status
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ACCOUNT_STATUS_LABELS } from '@/constants/status';
+import type { SerializedLifecycleRun, LifecycleRunWithTransitions } from '@/types/lifecycle';
+
+interface LifecycleRunHistoryProps {
+  refreshKey?: number;
+}
+
+const RUN_STATUS_CLASSES: Record<SerializedLifecycleRun['status'], string> = {
+  RUNNING: 'text-blue-600',
+  COMPLETED: 'text-green-600',
+  FAILED: 'text-red-600',
+};
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function LifecycleRunHistory({ refreshKey = 0 }: LifecycleRunHistoryProps): React.ReactElement {
+  const [runs, setRuns] = useState<SerializedLifecycleRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<LifecycleRunWithTransitions | null>(null);
+
+  const fetchRuns = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/lifecycle/runs');
+
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error('You do not have permission to view lifecycle runs');
+        }
+        throw new Error('Failed to fetch lifecycle runs');
+      }
+
+      const data = await response.json();
+      setRuns(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchRuns();
+  }, [fetchRuns, refreshKey]);
+
+  const handleViewRun = async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/lifecycle/runs/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch run details');
+      }
+      const data = await response.json();
+      setSelectedRun(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Run History</CardTitle>
+        <CardDescription>Recent scheduled and manual lifecycle runs</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-4 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No runs yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>As Of</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Checked</TableHead>
+                <TableHead className="text-right">Held</TableHead>
+                <TableHead className="text-right">Closed</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>{formatDateTime(run.startedAt)}</TableCell>
+                  <TableCell>{formatDate(run.asOfDate)}</TableCell>
+                  <TableCell>
+                    {run.trigger === 'SCHEDULED' ? 'Scheduled' : `Manual (${run.triggeredBy?.username ?? 'unknown'})`}
+                  </TableCell>
+                  <TableCell className={RUN_STATUS_CLASSES[run.status]} title={run.errorMessage ?? undefined}>
+                    {run.status.charAt(0) + run.status.slice(1).toLowerCase()}
+                  </TableCell>
+                  <TableCell className="text-right">{run.accountsEvaluated}</TableCell>
+                  <TableCell className="text-right">{run.accountsHeld}</TableCell>
+                  <TableCell className="text-right">{run.accountsClosed}</TableCell>
+                  <TableCell className="text-right">{run.accountsFailed}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => void handleViewRun(run.id)}>
+                      Details
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedRun !== null} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Lifecycle Run</DialogTitle>
+            <DialogDescription>
+              {selectedRun && `Started ${formatDateTime(selectedRun.startedAt)} as of ${formatDate(selectedRun.asOfDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedRun && (
+            selectedRun.transitions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No accounts changed status</div>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Mailbox</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedRun.transitions.map((t) => (
+                      <TableRow key={t.id}>
+                        <TableCell className="font-medium">
+                          <Link href={`/accounts/${t.accountId}`} className="hover:underline">
+                            #{t.mailboxNumber}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          {ACCOUNT_STATUS_LABELS[t.fromStatus]} &rarr; {ACCOUNT_STATUS_LABELS[t.toStatus]}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{t.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
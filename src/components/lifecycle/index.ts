@@ -0,0 +1,2 @@
+export { LifecyclePreviewTable } from './LifecyclePreviewTable';
+export { LifecycleRunHistory } from './LifecycleRunHistory';
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import type { TimelineEvent, TimelineEventType } from '@/types/memo';
+
+interface AccountTimelineProps {
+  accountId: string;
+}
+
+const EVENT_DOT_CLASSES: Record<TimelineEventType, string> = {
+  MEMO: 'bg-amber-500',
+  PAYMENT: 'bg-green-500',
+  NOTICE: 'bg-blue-500',
+  STATUS_CHANGE: 'bg-red-500',
+};
+
+const EVENT_TYPE_LABELS: Record<TimelineEventType, string> = {
+  MEMO: 'Memo',
+  PAYMENT: 'Payment',
+  NOTICE: 'Notice',
+  STATUS_CHANGE: 'Status',
+};
+
+export function AccountTimeline({ accountId }: AccountTimelineProps): React.ReactElement {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [typeFilter, setTypeFilter] = useState<TimelineEventType | 'ALL'>('ALL');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTimeline = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${accountId}/timeline`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch timeline');
+      }
+
+      const data = await response.json() as { data: TimelineEvent[] };
+      setEvents(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    void fetchTimeline();
+  }, [fetchTimeline]);
+
+  const visibleEvents = typeFilter === 'ALL' ? events : events.filter((e) => e.type === typeFilter);
+
+  return (
+    <div className="rounded-lg border bg-white p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Timeline</h2>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as TimelineEventType | 'ALL')}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+        >
+          <option value="ALL">All activity</option>
+          {(Object.keys(EVENT_TYPE_LABELS) as TimelineEventType[]).map((type) => (
+            <option key={type} value={type}>{EVENT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+      ) : visibleEvents.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No activity recorded</p>
+      ) : (
+        <ol className="space-y-4">
+          {visibleEvents.map((event) => (
+            <li key={`${event.type}-${event.id}`} className="flex gap-3">
+              <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${EVENT_DOT_CLASSES[event.type]}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                  <p className="text-sm font-medium text-gray-900">
+                    <span className="mr-2 text-xs font-normal uppercase tracking-wide text-gray-500">
+                      {EVENT_TYPE_LABELS[event.type]}
+                    </span>
+                    {event.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(event.occurredAt), 'MMM d, yyyy h:mm a')}
+                    {event.userName && ` by ${event.userName}`}
+                  </p>
+                </div>
+                {event.description && (
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-600">{event.description}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
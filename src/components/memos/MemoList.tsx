@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Pin, PinOff, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MEMO } from '@/constants/app';
+import type { SerializedMemo, SerializedMemoRevision } from '@/types/memo';
+
+interface MemoListProps {
+  accountId: string;
+  memos: SerializedMemo[];
+  isManager: boolean;
+  currentUserId: string | null;
+  onChanged: () => void;
+}
+
+const textareaClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-postnet-red/50 text-sm';
+
+function formatMemoDate(date: string): string {
+  return format(new Date(date), 'MMM d, yyyy h:mm a');
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+  return data?.error?.message ?? fallback;
+}
+
+export function MemoList({
+  accountId,
+  memos,
+  isManager,
+  currentUserId,
+  onChanged,
+}: MemoListProps): React.ReactElement {
+  const [newContent, setNewContent] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [revisions, setRevisions] = useState<Record<string, SerializedMemoRevision[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/accounts/${accountId}/memos`;
+
+  const handleAdd = async (): Promise<void> => {
+    if (!newContent.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: newContent }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add memo'));
+      }
+      setNewContent('');
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add memo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateMemo = async (memoId: string, body: { content?: string; isPinned?: boolean }): Promise<boolean> => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/${memoId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update memo'));
+      }
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update memo');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async (memoId: string): Promise<void> => {
+    if (await updateMemo(memoId, { content: editContent })) {
+      setEditingId(null);
+      setRevisions((prev) => {
+        const next = { ...prev };
+        delete next[memoId];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (memoId: string): Promise<void> => {
+    if (!confirm('Are you sure you want to delete this memo?')) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/${memoId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete memo'));
+      }
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete memo');
+    }
+  };
+
+  const toggleRevisions = async (memoId: string): Promise<void> => {
+    if (revisions[memoId]) {
+      setRevisions((prev) => {
+        const next = { ...prev };
+        delete next[memoId];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/${memoId}/revisions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch memo history');
+      }
+      const data = await response.json() as { data: SerializedMemoRevision[] };
+      setRevisions((prev) => ({ ...prev, [memoId]: data.data }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch memo history');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Memos</h2>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="mb-6">
+        <textarea
+          value={newContent}
+          onChange={(e) => setNewContent(e.target.value)}
+          rows={3}
+          maxLength={MEMO.MAX_LENGTH}
+          className={textareaClassName}
+          placeholder="Add a memo about this account..."
+        />
+        <div className="mt-2 flex justify-end">
+          <Button size="sm" onClick={() => void handleAdd()} disabled={saving || !newContent.trim()}>
+            Add Memo
+          </Button>
+        </div>
+      </div>
+
+      {memos.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No memos</p>
+      ) : (
+        <ul className="space-y-4">
+          {memos.map((memo) => (
+            <li
+              key={memo.id}
+              className={`rounded-md border p-4 ${memo.isPinned ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-xs text-gray-500">
+                  {memo.isPinned && <span className="mr-2 font-medium text-amber-700">Pinned</span>}
+                  {formatMemoDate(memo.createdAt)} by {memo.createdBy.username}
+                </p>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => void updateMemo(memo.id, { isPinned: !memo.isPinned })}
+                    disabled={saving}
+                    title={memo.isPinned ? 'Unpin memo' : 'Pin memo'}
+                  >
+                    {memo.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                  {(isManager || memo.createdBy.id === currentUserId) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(memo.id);
+                        setEditContent(memo.content);
+                      }}
+                      disabled={saving}
+                      title="Edit memo"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {isManager && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => void handleDelete(memo.id)}
+                      disabled={saving}
+                      title="Delete memo"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {editingId === memo.id ? (
+                <div className="mt-2">
+                  <textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    rows={3}
+                    maxLength={MEMO.MAX_LENGTH}
+                    className={textareaClassName}
+                  />
+                  <div className="mt-2 flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={saving}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => void handleSaveEdit(memo.id)}
+                      disabled={saving || !editContent.trim()}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="mt-2 whitespace-pre-wrap text-sm text-gray-900">{memo.content}</p>
+              )}
+
+              {memo.updatedBy && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Edited by {memo.updatedBy.username} on {formatMemoDate(memo.updatedAt)}
+                  {memo.revisionCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => void toggleRevisions(memo.id)}
+                      className="ml-2 text-postnet-red hover:underline"
+                    >
+                      {revisions[memo.id] ? 'Hide history' : `View history (${memo.revisionCount})`}
+                    </button>
+                  )}
+                </p>
+              )}
+
+              {revisions[memo.id] && (
+                <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                  {revisions[memo.id]?.map((revision) => (
+                    <li key={revision.id}>
+                      <p className="text-xs text-gray-500">
+                        Replaced {formatMemoDate(revision.editedAt)} by {revision.editedBy.username}
+                      </p>
+                      <p className="whitespace-pre-wrap text-sm text-gray-600">{revision.content}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Pin } from 'lucide-react';
+import type { SerializedMemo } from '@/types/memo';
+
+interface PinnedMemosProps {
+  memos: SerializedMemo[];
+}
+
+export function PinnedMemos({ memos }: PinnedMemosProps): React.ReactElement | null {
+  const pinned = memos.filter((memo) => memo.isPinned);
+  if (pinned.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      {pinned.map((memo) => (
+        <div key={memo.id} className="rounded-md bg-amber-50 border border-amber-300 p-4">
+          <div className="flex items-start gap-3">
+            <Pin className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="whitespace-pre-wrap text-sm text-amber-900">{memo.content}</p>
+              <p className="text-xs text-amber-600 mt-1">
+                {memo.createdBy.username} on {format(new Date(memo.createdAt), 'MMM d, yyyy')}
+              </p>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { MemoList } from './MemoList';
+export { PinnedMemos } from './PinnedMemos';
+export { AccountTimeline } from './AccountTimeline';
@@ -268,6 +268,26 @@ export function NoticeGenerateDialog({
                   </div>
                 </div>
               )}
+
+              {result.results.some((r) => r.emailStatus === 'FAILED') && (
+                <div className="border rounded-lg overflow-hidden">
+                  <div className="bg-amber-50 px-4 py-2 border-b">
+                    <p className="text-sm font-medium text-amber-800">
+                      Email Not Delivered (notice saved - resend from history)
+                    </p>
+                  </div>
+                  <div className="divide-y max-h-48 overflow-y-auto">
+                    {result.results
+                      .filter((r) => r.emailStatus === 'FAILED')
+                      .map((r) => (
+                        <div key={r.accountId} className="px-4 py-2 text-sm">
+                          <span className="font-medium">Box #{r.mailboxNumber}</span>
+                          <span className="text-amber-700 ml-2">{r.emailError}</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             // Selection view
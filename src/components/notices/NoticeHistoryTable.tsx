@@ -7,7 +7,7 @@ import {
   NOTICE_STATUS_COLORS,
   NOTICE_DELIVERY_METHOD_LABELS,
 } from '@/constants/notice';
-import type { SerializedNoticeHistory } from '@/types/notice';
+import type { SerializedNoticeHistory, NoticeEmailResult } from '@/types/notice';
 import type { NoticeStatus, NoticeDeliveryMethod } from '@prisma/client';
 
 interface NoticeHistoryTableProps {
@@ -33,6 +33,7 @@ export function NoticeHistoryTable({
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
 
   // Filters
   const [statusFilter, setStatusFilter] = useState<NoticeStatus | ''>('');
@@ -94,6 +95,30 @@ export function NoticeHistoryTable({
     }
   };
 
+  const handleSendEmail = async (noticeId: string): Promise<void> => {
+    setSendingId(noticeId);
+
+    try {
+      const response = await fetch(`/api/notices/${noticeId}/send`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null) as { error?: string } | null;
+        throw new Error(data?.error ?? 'Failed to send email');
+      }
+
+      const result = await response.json() as NoticeEmailResult;
+      if (!result.success) {
+        alert(`Email not delivered: ${result.error ?? 'Unknown error'}`);
+      }
+      void fetchHistory(pagination.page);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send email');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
   const handleDelete = async (noticeId: string): Promise<void> => {
     if (!confirm('Are you sure you want to delete this notice record?')) return;
 
@@ -229,6 +254,7 @@ export function NoticeHistoryTable({
                       className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
                         NOTICE_STATUS_COLORS[notice.status]
                       }`}
+                      title={notice.errorMessage ?? notice.emailAddress ?? undefined}
                     >
                       {NOTICE_STATUS_LABELS[notice.status]}
                     </span>
@@ -242,6 +268,18 @@ export function NoticeHistoryTable({
                       >
                         PDF
                       </Button>
+                      {notice.deliveryMethod !== 'PRINT' && notice.status !== 'SENT' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => void handleSendEmail(notice.id)}
+                          disabled={sendingId === notice.id}
+                        >
+                          {sendingId === notice.id
+                            ? 'Sending...'
+                            : notice.status === 'FAILED' ? 'Retry Email' : 'Send Email'}
+                        </Button>
+                      )}
                       {isManager && (
                         <Button
                           variant="outline"
@@ -21,6 +21,7 @@ const NOTICE_TYPE_CODES: NoticeTypeCode[] = [
   'BIRTHDAY',
   'HOLD_NOTICE',
   'ID_VERIFICATION_REQUEST',
+  'CLOSURE_NOTICE',
   'CUSTOM',
 ];
 
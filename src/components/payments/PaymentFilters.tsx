@@ -10,15 +10,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+import { PAYMENT_METHOD_LABELS, PAYMENT_TYPE_LABELS } from '@/constants/status';
 
 interface PaymentFiltersProps {
   startDate: string;
   endDate: string;
   paymentMethod: string;
+  paymentType: string;
   onStartDateChange: (value: string) => void;
   onEndDateChange: (value: string) => void;
   onPaymentMethodChange: (value: string) => void;
+  onPaymentTypeChange: (value: string) => void;
   onClear: () => void;
 }
 
@@ -26,12 +28,14 @@ export function PaymentFilters({
   startDate,
   endDate,
   paymentMethod,
+  paymentType,
   onStartDateChange,
   onEndDateChange,
   onPaymentMethodChange,
+  onPaymentTypeChange,
   onClear,
 }: PaymentFiltersProps): React.ReactElement {
-  const hasFilters = startDate || endDate || paymentMethod;
+  const hasFilters = startDate || endDate || paymentMethod || paymentType;
 
   return (
     <div className="flex flex-wrap gap-4 items-end">
@@ -74,6 +78,23 @@ export function PaymentFilters({
         </Select>
       </div>
 
+      <div className="space-y-1">
+        <Label htmlFor="paymentType" className="text-xs">Type</Label>
+        <Select value={paymentType} onValueChange={onPaymentTypeChange}>
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder="All" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">All</SelectItem>
+            {Object.entries(PAYMENT_TYPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {hasFilters && (
         <Button variant="ghost" size="sm" onClick={onClear}>
           Clear filters
@@ -1,5 +1,8 @@
 'use client';
 
+import { Ban, FileText, FileX, Receipt, Undo2 } from 'lucide-react';
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
 import {
   Table,
   TableBody,
@@ -9,13 +12,18 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+import { ReversePaymentDialog } from './ReversePaymentDialog';
+import { ReturnedCheckDialog } from './ReturnedCheckDialog';
+import { PAYMENT_METHOD_LABELS, PAYMENT_TYPE_LABELS } from '@/constants/status';
+import type { PaymentType } from '@prisma/client';
 import type { PaymentWithDetails } from '@/types/payment';
 
 interface PaymentHistoryTableProps {
   payments: PaymentWithDetails[];
   showAccount?: boolean;
   loading?: boolean;
+  // When set, managers can void or refund payments from the table
+  onPaymentReversed?: () => void;
 }
 
 function formatDate(dateStr: string): string {
@@ -46,11 +54,26 @@ function PaymentMethodBadge({ method }: { method: string }): React.ReactElement
   );
 }
 
+function PaymentTypeBadge({ type }: { type: PaymentType }): React.ReactElement {
+  const colors: Record<PaymentType, string> = {
+    PAYMENT: 'bg-gray-100 text-gray-800',
+    VOID: 'bg-red-100 text-red-800',
+    REFUND: 'bg-purple-100 text-purple-800',
+  };
+  return <Badge className={colors[type]}>{PAYMENT_TYPE_LABELS[type]}</Badge>;
+}
+
 export function PaymentHistoryTable({
   payments,
   showAccount = false,
   loading = false,
+  onPaymentReversed,
 }: PaymentHistoryTableProps): React.ReactElement {
+  const { data: session } = useSession();
+  const [reversing, setReversing] = useState<{ payment: PaymentWithDetails; type: 'VOID' | 'REFUND' } | null>(null);
+  const [returningCheck, setReturningCheck] = useState<PaymentWithDetails | null>(null);
+  const canReverse = !!onPaymentReversed && session?.user?.role === 'MANAGER';
+
   if (loading) {
     return (
       <div className="animate-pulse space-y-3">
@@ -70,45 +93,147 @@ export function PaymentHistoryTable({
   }
 
   return (
-    <Table>
-      <TableHeader>
-        <TableRow>
-          <TableHead>Date</TableHead>
-          {showAccount && <TableHead>Mailbox</TableHead>}
-          <TableHead className="text-right">Amount</TableHead>
-          <TableHead>Method</TableHead>
-          <TableHead>Period</TableHead>
-          <TableHead>Recorded By</TableHead>
-          <TableHead>Notes</TableHead>
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {payments.map((payment) => (
-          <TableRow key={payment.id}>
-            <TableCell>{formatDate(payment.paymentDate)}</TableCell>
-            {showAccount && (
-              <TableCell className="font-mono">
-                {payment.account?.mailbox.number ?? '-'}
-              </TableCell>
-            )}
-            <TableCell className="text-right font-mono">
-              {formatCurrency(payment.amount)}
-            </TableCell>
-            <TableCell>
-              <PaymentMethodBadge method={payment.paymentMethod} />
-            </TableCell>
-            <TableCell className="text-sm text-gray-600">
-              {formatDate(payment.periodStart)} - {formatDate(payment.periodEnd)}
-            </TableCell>
-            <TableCell className="text-sm">
-              {payment.recordedByUser.firstName ?? payment.recordedByUser.username}
-            </TableCell>
-            <TableCell className="text-sm text-gray-500 max-w-[200px] truncate">
-              {payment.notes ?? '-'}
-            </TableCell>
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            {showAccount && <TableHead>Mailbox</TableHead>}
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead>Period</TableHead>
+            <TableHead>Recorded By</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
           </TableRow>
-        ))}
-      </TableBody>
-    </Table>
+        </TableHeader>
+        <TableBody>
+          {payments.map((payment) => {
+            const isReversal = payment.paymentType !== 'PAYMENT';
+            const isFullyReversed = !isReversal && payment.reversedAmount >= payment.amount;
+            const canReversePayment = canReverse && !isReversal && !isFullyReversed;
+
+            return (
+              <TableRow key={payment.id} className={isFullyReversed ? 'text-gray-400' : undefined}>
+                <TableCell>{formatDate(payment.paymentDate)}</TableCell>
+                {showAccount && (
+                  <TableCell className="font-mono">
+                    {payment.account?.mailbox.number ?? '-'}
+                  </TableCell>
+                )}
+                <TableCell
+                  className={`text-right font-mono ${isFullyReversed ? 'line-through' : ''} ${isReversal ? 'text-red-600' : ''}`}
+                >
+                  {formatCurrency(payment.amount)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <PaymentMethodBadge method={payment.paymentMethod} />
+                    {isReversal && <PaymentTypeBadge type={payment.paymentType} />}
+                    {payment.checkReturnedAt && (
+                      <Badge className="bg-red-100 text-red-800">Returned</Badge>
+                    )}
+                  </div>
+                  {payment.checkNumber && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      #{payment.checkNumber} · {payment.checkBank}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {formatDate(payment.periodStart)} - {formatDate(payment.periodEnd)}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {payment.recordedByUser.firstName ?? payment.recordedByUser.username}
+                </TableCell>
+                <TableCell
+                  className="text-sm text-gray-500 max-w-[200px] truncate"
+                  title={payment.reason ?? payment.notes ?? undefined}
+                >
+                  {payment.reason ?? payment.notes ?? '-'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center justify-end gap-2">
+                    <a
+                      href={`/api/payments/${payment.id}/receipt`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="Print receipt"
+                      className="text-gray-500 hover:text-postnet-red"
+                    >
+                      <Receipt className="h-4 w-4" />
+                    </a>
+                    {payment.invoiceId && (
+                      <a
+                        href={`/api/invoices/${payment.invoiceId}/pdf`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title="Print invoice"
+                        className="text-gray-500 hover:text-postnet-red"
+                      >
+                        <FileText className="h-4 w-4" />
+                      </a>
+                    )}
+                    {canReversePayment && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setReversing({ payment, type: 'REFUND' })}
+                          title="Refund payment"
+                          className="text-gray-500 hover:text-postnet-red"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setReversing({ payment, type: 'VOID' })}
+                          title="Void payment"
+                          className="text-gray-500 hover:text-postnet-red"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                        {payment.paymentMethod === 'CHECK' && !payment.checkReturnedAt && (
+                          <button
+                            type="button"
+                            onClick={() => setReturningCheck(payment)}
+                            title="Mark check as returned"
+                            className="text-gray-500 hover:text-postnet-red"
+                          >
+                            <FileX className="h-4 w-4" />
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {canReverse && (
+        <ReversePaymentDialog
+          payment={reversing?.payment ?? null}
+          type={reversing?.type ?? 'VOID'}
+          onClose={() => setReversing(null)}
+          onSuccess={() => {
+            setReversing(null);
+            onPaymentReversed?.();
+          }}
+        />
+      )}
+
+      {canReverse && (
+        <ReturnedCheckDialog
+          payment={returningCheck}
+          onClose={() => setReturningCheck(null)}
+          onSuccess={() => {
+            setReturningCheck(null);
+            onPaymentReversed?.();
+          }}
+        />
+      )}
+    </>
   );
 }
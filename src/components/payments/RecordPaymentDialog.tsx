@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import {
   Dialog,
   DialogContent,
@@ -19,6 +20,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+import type { CreatePaymentResult } from '@/types/payment';
+
+// Local service that forwards ESC/POS streams to the counter's thermal printer
+const PRINT_BRIDGE_URL = process.env.NEXT_PUBLIC_PRINT_BRIDGE_URL;
 
 interface InvoiceLineItem {
   description: string;
@@ -30,11 +35,20 @@ interface InvoiceLineItem {
 interface AccountInvoiceInfo {
   mailboxNumber: number;
   recipientName: string;
+  // A returned check is on file, so checks need a manager
+  checkApprovalRequired?: boolean;
   renewalPeriod: string;
   currentRate: number;
   startDate: string;
   nextRenewalDate: string;
   totalPayments: number;
+  // Account credit put (or about to be put) toward the invoice
+  creditApplied?: number;
+  // Late / reinstatement fees included in the line items
+  overdueFees?: number;
+  // Promotion previewed on a new renewal invoice, or why the entered code can't be used
+  discount?: { code: string; amount: number } | null;
+  discountError?: string | null;
   isRenewal?: boolean;
   lineItems?: InvoiceLineItem[];
   invoiceId?: string;
@@ -98,6 +112,8 @@ export function RecordPaymentDialog({
   onSuccess,
 }: RecordPaymentDialogProps): React.ReactElement {
   const today = new Date().toISOString().split('T')[0] ?? '';
+  const { data: session } = useSession();
+  const isManager = session?.user?.role === 'MANAGER';
 
   const [loading, setLoading] = useState(false);
   const [invoiceInfo, setInvoiceInfo] = useState<AccountInvoiceInfo | null>(null);
@@ -105,10 +121,21 @@ export function RecordPaymentDialog({
   const [paymentDate, setPaymentDate] = useState<string>(today);
   const [paymentMethod, setPaymentMethod] = useState<string>('CASH');
   const [notes, setNotes] = useState<string>('');
+  const [checkNumber, setCheckNumber] = useState('');
+  const [checkBank, setCheckBank] = useState('');
+  const [checkDate, setCheckDate] = useState<string>(today);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [recordedPayment, setRecordedPayment] = useState<CreatePaymentResult['payment'] | null>(null);
+  const [receiptText, setReceiptText] = useState<string | null>(null);
+  const [printing, setPrinting] = useState(false);
+  const [receiptPrinted, setReceiptPrinted] = useState(false);
+  const [waiveFees, setWaiveFees] = useState(false);
+  const [feeWaiverReason, setFeeWaiverReason] = useState('');
+  const [discountCodeInput, setDiscountCodeInput] = useState('');
+  const [discountCode, setDiscountCode] = useState<string | null>(null);
 
   // Reset state when dialog closes
   useEffect(() => {
@@ -116,8 +143,18 @@ export function RecordPaymentDialog({
       setSelectedPeriod(null);
       setInvoiceInfo(null);
       setIsInitialLoad(true);
+      setRecordedPayment(null);
+      setReceiptText(null);
+      setReceiptPrinted(false);
+      setWaiveFees(false);
+      setFeeWaiverReason('');
+      setDiscountCodeInput('');
+      setDiscountCode(null);
+      setCheckNumber('');
+      setCheckBank('');
+      setCheckDate(today);
     }
-  }, [isOpen]);
+  }, [isOpen, today]);
 
   // Fetch account and payment info when dialog opens, period changes, or payment date changes
   useEffect(() => {
@@ -135,6 +172,9 @@ export function RecordPaymentDialog({
         if (paymentDate) {
           url += `&paymentDate=${paymentDate}`;
         }
+        if (discountCode) {
+          url += `&discountCode=${encodeURIComponent(discountCode)}`;
+        }
       } else {
         url = `/api/accounts/${accountId}/invoice`;
       }
@@ -160,9 +200,10 @@ export function RecordPaymentDialog({
           // Calculate balance due and pre-fill amount
           const { months } = formatRenewalPeriod(data.renewalPeriod);
           const rate = data.currentRate || 0;
-          const totalCharge = rate * months;
-          const balanceDue = Math.max(0, totalCharge - (data.totalPayments || 0));
+          const totalCharge = rate * months + (data.overdueFees || 0) - (data.discount?.amount || 0);
+          const balanceDue = Math.max(0, totalCharge - (data.totalPayments || 0) - (data.creditApplied || 0));
           setAmount(balanceDue.toFixed(2));
+          setWaiveFees(false);
 
           // Only reset other form fields on initial load
           if (isInitialLoad) {
@@ -178,7 +219,7 @@ export function RecordPaymentDialog({
           setLoading(false);
         });
     }
-  }, [isOpen, accountId, isRenewal, selectedPeriod, paymentDate, isInitialLoad]);
+  }, [isOpen, accountId, isRenewal, selectedPeriod, paymentDate, discountCode, isInitialLoad]);
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
@@ -214,6 +255,12 @@ export function RecordPaymentDialog({
         invoiceId: invoiceInfo?.invoiceId,
       };
 
+      if (paymentMethod === 'CHECK') {
+        payload.checkNumber = checkNumber;
+        payload.checkBank = checkBank;
+        payload.checkDate = checkDate;
+      }
+
       // Add renewal data if this is a renewal payment
       const isRenewalPayment = invoiceInfo?.isRenewal ?? isRenewal;
       if (isRenewalPayment && invoiceInfo) {
@@ -222,6 +269,15 @@ export function RecordPaymentDialog({
         payload.newRate = invoiceInfo.currentRate;
       }
 
+      if (invoiceInfo?.discount && discountCode) {
+        payload.discountCode = discountCode;
+      }
+
+      if (waiveFees) {
+        payload.waiveFees = true;
+        payload.feeWaiverReason = feeWaiverReason || undefined;
+      }
+
       const response = await fetch('/api/payments', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -233,8 +289,15 @@ export function RecordPaymentDialog({
         throw new Error(data.error?.message ?? 'Failed to record payment');
       }
 
+      const data = await response.json() as { data: CreatePaymentResult };
+      setRecordedPayment(data.data.payment);
       onSuccess();
-      onClose();
+
+      // Stay open on the receipt preview so the counter can print it
+      const receiptResponse = await fetch(`/api/payments/${data.data.payment.id}/receipt/thermal?format=text`);
+      if (receiptResponse.ok) {
+        setReceiptText(await receiptResponse.text());
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to record payment');
     } finally {
@@ -242,12 +305,54 @@ export function RecordPaymentDialog({
     }
   };
 
+  const handlePrintReceipt = async (): Promise<void> => {
+    if (!recordedPayment || !PRINT_BRIDGE_URL) return;
+    setPrinting(true);
+    setError(null);
+
+    try {
+      // Pop the cash drawer only on the first print of a cash payment
+      const openDrawer = recordedPayment.paymentMethod === 'CASH' && !receiptPrinted;
+      const receiptResponse = await fetch(
+        `/api/payments/${recordedPayment.id}/receipt/thermal?openDrawer=${openDrawer}`
+      );
+      if (!receiptResponse.ok) {
+        throw new Error('Failed to generate receipt');
+      }
+
+      const printResponse = await fetch(PRINT_BRIDGE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: await receiptResponse.blob(),
+      });
+      if (!printResponse.ok) {
+        throw new Error('Receipt printer is not responding');
+      }
+      setReceiptPrinted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to print receipt');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   // Calculate invoice totals
   const periodInfo = invoiceInfo ? formatRenewalPeriod(invoiceInfo.renewalPeriod) : null;
   const rate = invoiceInfo?.currentRate || 0;
-  const totalCharge = periodInfo ? rate * periodInfo.months : 0;
+  const overdueFees = invoiceInfo?.overdueFees || 0;
+  const discountAmount = invoiceInfo?.discount?.amount || 0;
+  const totalCharge = periodInfo ? rate * periodInfo.months + overdueFees - discountAmount : 0;
+  const waivedFees = waiveFees ? overdueFees : 0;
   const totalPayments = invoiceInfo?.totalPayments || 0;
-  const balanceDue = Math.max(0, totalCharge - totalPayments);
+  const creditApplied = Math.min(invoiceInfo?.creditApplied || 0, totalCharge - waivedFees);
+  const balanceDue = Math.max(0, totalCharge - waivedFees - totalPayments - creditApplied);
+
+  const handleWaiveFeesChange = (checked: boolean): void => {
+    setWaiveFees(checked);
+    const waived = checked ? overdueFees : 0;
+    const credit = Math.min(invoiceInfo?.creditApplied || 0, totalCharge - waived);
+    setAmount(Math.max(0, totalCharge - waived - totalPayments - credit).toFixed(2));
+  };
 
   // Determine if this is a renewal based on response or prop
   const isRenewalMode = invoiceInfo?.isRenewal ?? isRenewal;
@@ -259,7 +364,45 @@ export function RecordPaymentDialog({
           <DialogTitle>{isRenewalMode ? 'Renew Account' : 'Record Payment'}</DialogTitle>
         </DialogHeader>
 
-        {loading ? (
+        {recordedPayment ? (
+          <div className="space-y-4">
+            <div className="rounded-md bg-green-50 border border-green-200 p-3">
+              <p className="text-sm text-green-700">
+                {formatCurrency(recordedPayment.amount)} payment recorded
+              </p>
+            </div>
+
+            {receiptText && (
+              <pre className="max-h-80 overflow-y-auto rounded-lg border bg-gray-50 p-3 font-mono text-xs leading-tight text-gray-800">
+                {receiptText}
+              </pre>
+            )}
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/payments/${recordedPayment.id}/receipt`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Full-Page Receipt
+                </a>
+              </Button>
+              {PRINT_BRIDGE_URL && (
+                <Button variant="outline" onClick={() => void handlePrintReceipt()} disabled={printing}>
+                  {printing ? 'Printing...' : receiptPrinted ? 'Reprint Receipt' : 'Print Receipt'}
+                </Button>
+              )}
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : loading ? (
           <div className="py-8 text-center text-gray-500">
             Loading account information...
           </div>
@@ -335,12 +478,24 @@ export function RecordPaymentDialog({
                   <span>Total Charge</span>
                   <span className="font-mono">{formatCurrency(totalCharge)}</span>
                 </div>
+                {waivedFees > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Fees Waived</span>
+                    <span className="font-mono">-{formatCurrency(waivedFees)}</span>
+                  </div>
+                )}
                 {totalPayments > 0 && (
                   <div className="flex justify-between text-sm text-green-600">
                     <span>Payments Made</span>
                     <span className="font-mono">-{formatCurrency(totalPayments)}</span>
                   </div>
                 )}
+                {creditApplied > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Account Credit</span>
+                    <span className="font-mono">-{formatCurrency(creditApplied)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-base font-bold border-t pt-2">
                   <span>Balance Due</span>
                   <span className={`font-mono ${balanceDue > 0 ? 'text-red-600' : 'text-green-600'}`}>
@@ -350,6 +505,59 @@ export function RecordPaymentDialog({
               </div>
             </div>
 
+            {isRenewalMode && !invoiceInfo.invoiceId && (
+              <div className="space-y-2">
+                <Label htmlFor="discountCode">Discount Code</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="discountCode"
+                    value={discountCodeInput}
+                    onChange={(e) => setDiscountCodeInput(e.target.value.toUpperCase())}
+                    placeholder="e.g., MILITARY"
+                    maxLength={30}
+                    className="font-mono"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setDiscountCode(discountCodeInput.trim() || null)}
+                  >
+                    Apply
+                  </Button>
+                </div>
+                {invoiceInfo.discountError && (
+                  <p className="text-xs text-red-600">{invoiceInfo.discountError}</p>
+                )}
+                {invoiceInfo.discount && (
+                  <p className="text-xs text-green-600">
+                    {invoiceInfo.discount.code} applied: -{formatCurrency(invoiceInfo.discount.amount)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isManager && overdueFees > 0 && (
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={waiveFees}
+                    onChange={(e) => handleWaiveFeesChange(e.target.checked)}
+                    className="rounded text-postnet-red focus:ring-postnet-red"
+                  />
+                  Waive late / reinstatement fees ({formatCurrency(overdueFees)})
+                </label>
+                {waiveFees && (
+                  <Input
+                    value={feeWaiverReason}
+                    onChange={(e) => setFeeWaiverReason(e.target.value)}
+                    placeholder="Reason for waiving (optional)"
+                    maxLength={500}
+                  />
+                )}
+              </div>
+            )}
+
             {error && (
               <div className="rounded-md bg-red-50 border border-red-200 p-3">
                 <p className="text-sm text-red-600">{error}</p>
@@ -391,6 +599,52 @@ export function RecordPaymentDialog({
               </div>
             </div>
 
+            {paymentMethod === 'CHECK' && (
+              <>
+                {invoiceInfo?.checkApprovalRequired && (
+                  <div className="rounded-md bg-amber-50 border border-amber-200 p-3">
+                    <p className="text-sm text-amber-800">
+                      {isManager
+                        ? 'This account has a returned check on file. Confirm before accepting another check.'
+                        : 'This account has a returned check on file. A manager must accept check payments.'}
+                    </p>
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="checkNumber">Check # *</Label>
+                    <Input
+                      id="checkNumber"
+                      value={checkNumber}
+                      onChange={(e) => setCheckNumber(e.target.value)}
+                      maxLength={20}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="checkBank">Bank *</Label>
+                    <Input
+                      id="checkBank"
+                      value={checkBank}
+                      onChange={(e) => setCheckBank(e.target.value)}
+                      maxLength={100}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="checkDate">Check Date *</Label>
+                    <Input
+                      id="checkDate"
+                      type="date"
+                      value={checkDate}
+                      onChange={(e) => setCheckDate(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="paymentDate">Payment Date *</Label>
               <Input
@@ -417,7 +671,10 @@ export function RecordPaymentDialog({
               <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={saving}>
+              <Button
+                type="submit"
+                disabled={saving || (paymentMethod === 'CHECK' && invoiceInfo?.checkApprovalRequired === true && !isManager)}
+              >
                 {saving ? 'Recording...' : 'Record Payment'}
               </Button>
             </DialogFooter>
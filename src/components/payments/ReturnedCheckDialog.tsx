@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { PaymentWithDetails, ReturnedCheckResult } from '@/types/payment';
+
+interface ReturnedCheckDialogProps {
+  payment: PaymentWithDetails | null;
+  onClose: () => void;
+  onSuccess: (result: ReturnedCheckResult) => void;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+export function ReturnedCheckDialog({
+  payment,
+  onClose,
+  onSuccess,
+}: ReturnedCheckDialogProps): React.ReactElement {
+  const [reason, setReason] = useState('');
+  const [placeOnHold, setPlaceOnHold] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remaining = payment ? Math.round((payment.amount - payment.reversedAmount) * 100) / 100 : 0;
+
+  useEffect(() => {
+    if (payment) {
+      setReason('');
+      setPlaceOnHold(false);
+      setError(null);
+    }
+  }, [payment]);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!payment) return;
+
+    if (!reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/payments/${payment.id}/returned-check`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim(), placeOnHold }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to mark check as returned');
+      }
+
+      const data = await response.json() as { data: ReturnedCheckResult };
+      onSuccess(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark check as returned');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={payment !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Returned Check{payment?.checkNumber ? ` #${payment.checkNumber}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Voids the remaining {formatCurrency(remaining)}, reopens the invoice and bills the
+            returned check fee. Future check payments on this account will need a manager.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="returnedCheckReason">Reason *</Label>
+            <Input
+              id="returnedCheckReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Insufficient funds"
+              maxLength={500}
+              required
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={placeOnHold}
+              onChange={(e) => setPlaceOnHold(e.target.checked)}
+              className="rounded text-postnet-red focus:ring-postnet-red"
+            />
+            Place the account on HOLD
+          </label>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving}>
+              {saving ? 'Saving...' : 'Mark as Returned'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PAYMENT_METHOD_LABELS } from '@/constants/status';
+import type { PaymentWithDetails, ReversePaymentResult } from '@/types/payment';
+
+interface ReversePaymentDialogProps {
+  payment: PaymentWithDetails | null;
+  type: 'VOID' | 'REFUND';
+  onClose: () => void;
+  onSuccess: (result: ReversePaymentResult) => void;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+export function ReversePaymentDialog({
+  payment,
+  type,
+  onClose,
+  onSuccess,
+}: ReversePaymentDialogProps): React.ReactElement {
+  const [amount, setAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remaining = payment ? Math.round((payment.amount - payment.reversedAmount) * 100) / 100 : 0;
+  const isVoid = type === 'VOID';
+
+  useEffect(() => {
+    if (payment) {
+      setAmount(remaining.toFixed(2));
+      setPaymentMethod(payment.paymentMethod);
+      setReason('');
+      setError(null);
+    }
+  }, [payment, remaining]);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!payment) return;
+
+    if (!reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+
+    const payload: Record<string, unknown> = { reason: reason.trim() };
+    if (!isVoid) {
+      const refundAmount = parseFloat(amount);
+      if (isNaN(refundAmount) || refundAmount <= 0) {
+        setError('Please enter a valid refund amount');
+        return;
+      }
+      if (refundAmount > remaining) {
+        setError(`Refund cannot exceed ${formatCurrency(remaining)}`);
+        return;
+      }
+      payload.amount = refundAmount;
+      payload.paymentMethod = paymentMethod;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/payments/${payment.id}/${isVoid ? 'void' : 'refund'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? `Failed to ${isVoid ? 'void' : 'refund'} payment`);
+      }
+
+      const data = await response.json() as { data: ReversePaymentResult };
+      onSuccess(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${isVoid ? 'void' : 'refund'} payment`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={payment !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isVoid ? 'Void Payment' : 'Refund Payment'}</DialogTitle>
+          <DialogDescription>
+            {isVoid
+              ? `Records an offsetting entry for ${formatCurrency(remaining)}. If the invoice is no longer paid in full, any renewal it paid for is rolled back.`
+              : `Up to ${formatCurrency(remaining)} can be refunded. If the invoice is no longer paid in full, any renewal it paid for is rolled back.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {!isVoid && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="refundAmount">Refund Amount *</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                  <Input
+                    id="refundAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={remaining}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="pl-7 font-mono"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="refundMethod">Refunded As *</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger id="refundMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reversalReason">Reason *</Label>
+            <Input
+              id="reversalReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={isVoid ? 'e.g., Recorded on the wrong account' : 'e.g., Customer moved before term started'}
+              maxLength={500}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving}>
+              {saving
+                ? isVoid ? 'Voiding...' : 'Refunding...'
+                : isVoid ? 'Void Payment' : 'Refund Payment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,477 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Pencil, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SerializedDiscount } from '@/types/discount';
+
+const PERIOD_OPTIONS = [
+  { value: 'THREE_MONTH', label: '3 Months' },
+  { value: 'SIX_MONTH', label: '6 Months' },
+  { value: 'TWELVE_MONTH', label: '12 Months' },
+] as const;
+
+type PeriodValue = (typeof PERIOD_OPTIONS)[number]['value'];
+
+interface FormData {
+  code: string;
+  name: string;
+  description: string;
+  discountType: 'PERCENTAGE' | 'FIXED';
+  value: string;
+  newAccountsOnly: boolean;
+  renewalPeriods: PeriodValue[];
+  startDate: string;
+  endDate: string;
+  maxUses: string;
+  maxUsesPerAccount: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: FormData = {
+  code: '',
+  name: '',
+  description: '',
+  discountType: 'PERCENTAGE',
+  value: '',
+  newAccountsOnly: false,
+  renewalPeriods: [],
+  startDate: '',
+  endDate: '',
+  maxUses: '',
+  maxUsesPerAccount: '',
+  isActive: true,
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+function formatValue(discount: SerializedDiscount): string {
+  return discount.discountType === 'PERCENTAGE'
+    ? `${discount.value}% off`
+    : `${formatCurrency(discount.value)} off`;
+}
+
+function formatRules(discount: SerializedDiscount): string {
+  const rules: string[] = [];
+  if (discount.newAccountsOnly) rules.push('New accounts');
+  if (discount.renewalPeriods.length > 0) {
+    rules.push(
+      discount.renewalPeriods
+        .map((p) => PERIOD_OPTIONS.find((o) => o.value === p)?.label ?? p)
+        .join(', ')
+    );
+  }
+  if (discount.startDate || discount.endDate) {
+    rules.push(`${discount.startDate ?? '…'} to ${discount.endDate ?? '…'}`);
+  }
+  return rules.length > 0 ? rules.join(' · ') : 'Any account';
+}
+
+function toFormData(discount: SerializedDiscount): FormData {
+  return {
+    code: discount.code,
+    name: discount.name,
+    description: discount.description ?? '',
+    discountType: discount.discountType,
+    value: discount.value.toString(),
+    newAccountsOnly: discount.newAccountsOnly,
+    renewalPeriods: discount.renewalPeriods,
+    startDate: discount.startDate ?? '',
+    endDate: discount.endDate ?? '',
+    maxUses: discount.maxUses?.toString() ?? '',
+    maxUsesPerAccount: discount.maxUsesPerAccount?.toString() ?? '',
+    isActive: discount.isActive,
+  };
+}
+
+export function DiscountManager(): React.ReactElement {
+  const [discounts, setDiscounts] = useState<SerializedDiscount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = dialog closed; editingId null with form open = creating
+  const [formData, setFormData] = useState<FormData | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchDiscounts = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/discounts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch discounts');
+      }
+      const data = await response.json() as { data: SerializedDiscount[] };
+      setDiscounts(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchDiscounts();
+  }, [fetchDiscounts]);
+
+  const handleNew = (): void => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setFormError(null);
+  };
+
+  const handleEdit = (discount: SerializedDiscount): void => {
+    setEditingId(discount.id);
+    setFormData(toFormData(discount));
+    setFormError(null);
+  };
+
+  const handleClose = (): void => {
+    setFormData(null);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleChange = <K extends keyof FormData>(field: K, value: FormData[K]): void => {
+    if (!formData) return;
+    setFormData({ ...formData, [field]: value });
+    setFormError(null);
+  };
+
+  const togglePeriod = (period: PeriodValue): void => {
+    if (!formData) return;
+    const renewalPeriods = formData.renewalPeriods.includes(period)
+      ? formData.renewalPeriods.filter((p) => p !== period)
+      : [...formData.renewalPeriods, period];
+    handleChange('renewalPeriods', renewalPeriods);
+  };
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!formData) return;
+
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/discounts/${editingId}` : '/api/discounts', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: formData.code,
+          name: formData.name,
+          description: formData.description || undefined,
+          discountType: formData.discountType,
+          value: parseFloat(formData.value),
+          newAccountsOnly: formData.newAccountsOnly,
+          renewalPeriods: formData.renewalPeriods,
+          startDate: formData.startDate || undefined,
+          endDate: formData.endDate || undefined,
+          maxUses: formData.maxUses ? parseInt(formData.maxUses, 10) : undefined,
+          maxUsesPerAccount: formData.maxUsesPerAccount ? parseInt(formData.maxUsesPerAccount, 10) : undefined,
+          isActive: formData.isActive,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string; details?: Array<{ field: string; message: string }> } };
+        if (data.error?.details) {
+          const messages = data.error.details.map((d) => `${d.field}: ${d.message}`).join(', ');
+          throw new Error(messages);
+        }
+        throw new Error(data.error?.message ?? 'Failed to save discount');
+      }
+
+      handleClose();
+      await fetchDiscounts();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Discounts</CardTitle>
+          <CardDescription>
+            Promotion codes and standing discounts applied to new accounts and renewals
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={handleNew}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Discount
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            {error}
+          </div>
+        ) : isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+          </div>
+        ) : discounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No discounts set up yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {discounts.map((discount) => (
+                <TableRow key={discount.id} className={discount.isActive ? '' : 'opacity-60'}>
+                  <TableCell className="font-mono font-medium">{discount.code}</TableCell>
+                  <TableCell>{discount.name}</TableCell>
+                  <TableCell>{formatValue(discount)}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatRules(discount)}</TableCell>
+                  <TableCell>
+                    {discount.timesUsed}
+                    {discount.maxUses !== null && ` / ${discount.maxUses}`}
+                  </TableCell>
+                  <TableCell>
+                    {discount.isActive ? (
+                      <span className="text-green-600 font-medium">Active</span>
+                    ) : (
+                      <span className="text-muted-foreground">Inactive</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(discount)}
+                      className="h-8 w-8 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={formData !== null} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Discount' : 'New Discount'}</DialogTitle>
+            <DialogDescription>
+              Rules left blank don&apos;t restrict who can use the code
+            </DialogDescription>
+          </DialogHeader>
+          {formData && (
+            <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="discount-code">Code</Label>
+                  <Input
+                    id="discount-code"
+                    value={formData.code}
+                    onChange={(e) => handleChange('code', e.target.value.toUpperCase())}
+                    maxLength={30}
+                    className="font-mono"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="discount-name">Name</Label>
+                  <Input
+                    id="discount-name"
+                    value={formData.name}
+                    onChange={(e) => handleChange('name', e.target.value)}
+                    maxLength={100}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="discount-description">Description (optional)</Label>
+                <Input
+                  id="discount-description"
+                  value={formData.description}
+                  onChange={(e) => handleChange('description', e.target.value)}
+                  maxLength={500}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="discount-type">Type</Label>
+                  <select
+                    id="discount-type"
+                    value={formData.discountType}
+                    onChange={(e) => handleChange('discountType', e.target.value as FormData['discountType'])}
+                    className="w-full rounded-md border px-3 py-2 text-sm"
+                  >
+                    <option value="PERCENTAGE">Percent off term</option>
+                    <option value="FIXED">Dollar amount off term</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="discount-value">
+                    {formData.discountType === 'PERCENTAGE' ? 'Percent (%)' : 'Amount ($)'}
+                  </Label>
+                  <Input
+                    id="discount-value"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={formData.discountType === 'PERCENTAGE' ? 100 : undefined}
+                    value={formData.value}
+                    onChange={(e) => handleChange('value', e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Terms</Label>
+                <div className="flex gap-4">
+                  {PERIOD_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.renewalPeriods.includes(option.value)}
+                        onChange={() => togglePeriod(option.value)}
+                        className="rounded text-postnet-red focus:ring-postnet-red"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Leave all unchecked for any term</p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.newAccountsOnly}
+                  onChange={(e) => handleChange('newAccountsOnly', e.target.checked)}
+                  className="rounded text-postnet-red focus:ring-postnet-red"
+                />
+                New accounts only (first term)
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="discount-start">Starts</Label>
+                  <Input
+                    id="discount-start"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => handleChange('startDate', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="discount-end">Ends</Label>
+                  <Input
+                    id="discount-end"
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => handleChange('endDate', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="discount-max-uses">Total Uses Allowed</Label>
+                  <Input
+                    id="discount-max-uses"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.maxUses}
+                    onChange={(e) => handleChange('maxUses', e.target.value)}
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="discount-max-per-account">Uses Per Account</Label>
+                  <Input
+                    id="discount-max-per-account"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.maxUsesPerAccount}
+                    onChange={(e) => handleChange('maxUsesPerAccount', e.target.value)}
+                    placeholder="Unlimited"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => handleChange('isActive', e.target.checked)}
+                  className="rounded text-postnet-red focus:ring-postnet-red"
+                />
+                Active
+              </label>
+
+              {formError && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                  {formError}
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : editingId ? 'Save Changes' : 'Create Discount'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
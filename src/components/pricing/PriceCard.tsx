@@ -130,12 +130,24 @@ export function PriceCard({ pricing, isLoading }: PriceCardProps): React.ReactEl
           </div>
         </div>
 
-        {/* Key Deposit */}
+        {/* Key Deposit and one-time fees */}
         <div className="pt-2 border-t">
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Key Deposit</span>
             <span className="font-medium">{formatCurrency(pricing.keyDeposit)}</span>
           </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Late Fee</span>
+            <span className="font-medium">{formatCurrency(pricing.lateFee)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Reinstatement Fee</span>
+            <span className="font-medium">{formatCurrency(pricing.reinstatementFee)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Returned Check Fee</span>
+            <span className="font-medium">{formatCurrency(pricing.returnedCheckFee)}</span>
+          </div>
         </div>
 
         {/* Notes */}
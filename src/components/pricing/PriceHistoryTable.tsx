@@ -70,6 +70,9 @@ interface EditFormData {
   businessAccountFee: string;
   minorRecipientFee: string;
   keyDeposit: string;
+  lateFee: string;
+  reinstatementFee: string;
+  returnedCheckFee: string;
   notes: string;
 }
 
@@ -156,6 +159,9 @@ export function PriceHistoryTable(): React.ReactElement {
       businessAccountFee: config.businessAccountFee.toFixed(2),
       minorRecipientFee: config.minorRecipientFee.toFixed(2),
       keyDeposit: config.keyDeposit.toFixed(2),
+      lateFee: config.lateFee.toFixed(2),
+      reinstatementFee: config.reinstatementFee.toFixed(2),
+      returnedCheckFee: config.returnedCheckFee.toFixed(2),
       notes: config.notes ?? '',
     });
     setEditError(null);
@@ -188,6 +194,9 @@ export function PriceHistoryTable(): React.ReactElement {
           businessAccountFee: parseFloat(editFormData.businessAccountFee),
           minorRecipientFee: parseFloat(editFormData.minorRecipientFee),
           keyDeposit: parseFloat(editFormData.keyDeposit),
+          lateFee: parseFloat(editFormData.lateFee),
+          reinstatementFee: parseFloat(editFormData.reinstatementFee),
+          returnedCheckFee: parseFloat(editFormData.returnedCheckFee),
           notes: editFormData.notes || undefined,
         }),
       });
@@ -570,6 +579,48 @@ export function PriceHistoryTable(): React.ReactElement {
                 />
               </div>
 
+              {/* Late Fee */}
+              <div className="space-y-2">
+                <Label htmlFor="edit-lateFee">Late Fee ($)</Label>
+                <Input
+                  id="edit-lateFee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={editFormData.lateFee}
+                  onChange={(e) => handleEditChange('lateFee', e.target.value)}
+                  required
+                />
+              </div>
+
+              {/* Reinstatement Fee */}
+              <div className="space-y-2">
+                <Label htmlFor="edit-reinstatementFee">Reinstatement Fee ($)</Label>
+                <Input
+                  id="edit-reinstatementFee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={editFormData.reinstatementFee}
+                  onChange={(e) => handleEditChange('reinstatementFee', e.target.value)}
+                  required
+                />
+              </div>
+
+              {/* Returned Check Fee */}
+              <div className="space-y-2">
+                <Label htmlFor="edit-returnedCheckFee">Returned Check Fee ($)</Label>
+                <Input
+                  id="edit-returnedCheckFee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={editFormData.returnedCheckFee}
+                  onChange={(e) => handleEditChange('returnedCheckFee', e.target.value)}
+                  required
+                />
+              </div>
+
               {/* Notes */}
               <div className="space-y-2">
                 <Label htmlFor="edit-notes">Notes (optional)</Label>
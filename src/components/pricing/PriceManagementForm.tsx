@@ -6,7 +6,8 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { PRICING } from '@/constants/app';
-import type { SerializedPriceConfig } from '@/types/pricing';
+import { RateImpactPreview } from './RateImpactPreview';
+import type { RateSimulationResult, SerializedPriceConfig } from '@/types/pricing';
 
 interface PriceManagementFormProps {
   currentPricing: SerializedPriceConfig | null;
@@ -23,6 +24,9 @@ interface FormData {
   businessAccountFee: string;
   minorRecipientFee: string;
   keyDeposit: string;
+  lateFee: string;
+  reinstatementFee: string;
+  returnedCheckFee: string;
   notes: string;
 }
 
@@ -45,6 +49,9 @@ export function PriceManagementForm({
         businessAccountFee: currentPricing.businessAccountFee.toFixed(2),
         minorRecipientFee: currentPricing.minorRecipientFee.toFixed(2),
         keyDeposit: currentPricing.keyDeposit.toFixed(2),
+        lateFee: currentPricing.lateFee.toFixed(2),
+        reinstatementFee: currentPricing.reinstatementFee.toFixed(2),
+        returnedCheckFee: currentPricing.returnedCheckFee.toFixed(2),
         notes: '',
       };
     }
@@ -58,6 +65,9 @@ export function PriceManagementForm({
       businessAccountFee: PRICING.DEFAULT_BUSINESS_ACCOUNT_FEE.toFixed(2),
       minorRecipientFee: PRICING.DEFAULT_MINOR_RECIPIENT_FEE.toFixed(2),
       keyDeposit: PRICING.DEFAULT_KEY_DEPOSIT.toFixed(2),
+      lateFee: PRICING.DEFAULT_LATE_FEE.toFixed(2),
+      reinstatementFee: PRICING.DEFAULT_REINSTATEMENT_FEE.toFixed(2),
+      returnedCheckFee: PRICING.DEFAULT_RETURNED_CHECK_FEE.toFixed(2),
       notes: '',
     };
   });
@@ -65,11 +75,97 @@ export function PriceManagementForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [simulation, setSimulation] = useState<RateSimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const handleChange = (field: keyof FormData, value: string): void => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     setError(null);
     setSuccess(false);
+    setSimulation(null);
+  };
+
+  const buildPayload = (): string =>
+    JSON.stringify({
+      startDate: formData.startDate,
+      baseMonthlyRate: parseFloat(formData.baseMonthlyRate),
+      rate4thAdult: parseFloat(formData.rate4thAdult),
+      rate5thAdult: parseFloat(formData.rate5thAdult),
+      rate6thAdult: parseFloat(formData.rate6thAdult),
+      rate7thAdult: parseFloat(formData.rate7thAdult),
+      businessAccountFee: parseFloat(formData.businessAccountFee),
+      minorRecipientFee: parseFloat(formData.minorRecipientFee),
+      keyDeposit: parseFloat(formData.keyDeposit),
+      lateFee: parseFloat(formData.lateFee),
+      reinstatementFee: parseFloat(formData.reinstatementFee),
+      returnedCheckFee: parseFloat(formData.returnedCheckFee),
+      notes: formData.notes || undefined,
+    });
+
+  const getErrorMessage = async (response: Response, fallback: string): Promise<string> => {
+    const data = await response.json() as { error?: { message?: string; details?: Array<{ field: string; message: string }> } };
+    if (data.error?.details) {
+      return data.error.details.map((d) => `${d.field}: ${d.message}`).join(', ');
+    }
+    return data.error?.message ?? fallback;
+  };
+
+  const handleSimulate = async (): Promise<void> => {
+    setIsSimulating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/pricing/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: buildPayload(),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to preview pricing'));
+      }
+
+      const data = await response.json() as { data: RateSimulationResult };
+      setSimulation(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const handleExportSimulation = async (): Promise<void> => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/pricing/simulate/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: buildPayload(),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to export preview'));
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download =
+        response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') ??
+        'rate-impact.csv';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
@@ -82,27 +178,11 @@ export function PriceManagementForm({
       const response = await fetch('/api/pricing', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          startDate: formData.startDate,
-          baseMonthlyRate: parseFloat(formData.baseMonthlyRate),
-          rate4thAdult: parseFloat(formData.rate4thAdult),
-          rate5thAdult: parseFloat(formData.rate5thAdult),
-          rate6thAdult: parseFloat(formData.rate6thAdult),
-          rate7thAdult: parseFloat(formData.rate7thAdult),
-          businessAccountFee: parseFloat(formData.businessAccountFee),
-          minorRecipientFee: parseFloat(formData.minorRecipientFee),
-          keyDeposit: parseFloat(formData.keyDeposit),
-          notes: formData.notes || undefined,
-        }),
+        body: buildPayload(),
       });
 
       if (!response.ok) {
-        const data = await response.json() as { error?: { message?: string; details?: Array<{ field: string; message: string }> } };
-        if (data.error?.details) {
-          const messages = data.error.details.map((d) => `${d.field}: ${d.message}`).join(', ');
-          throw new Error(messages);
-        }
-        throw new Error(data.error?.message ?? 'Failed to save pricing');
+        throw new Error(await getErrorMessage(response, 'Failed to save pricing'));
       }
 
       setSuccess(true);
@@ -268,6 +348,57 @@ export function PriceManagementForm({
             />
           </div>
 
+          {/* Late Fee */}
+          <div className="space-y-2">
+            <Label htmlFor="lateFee">Late Fee ($)</Label>
+            <Input
+              id="lateFee"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.lateFee}
+              onChange={(e) => handleChange('lateFee', e.target.value)}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              One-time fee when a renewal is paid after its due date
+            </p>
+          </div>
+
+          {/* Reinstatement Fee */}
+          <div className="space-y-2">
+            <Label htmlFor="reinstatementFee">Reinstatement Fee ($)</Label>
+            <Input
+              id="reinstatementFee"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.reinstatementFee}
+              onChange={(e) => handleChange('reinstatementFee', e.target.value)}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              One-time fee to reinstate an account on HOLD
+            </p>
+          </div>
+
+          {/* Returned Check Fee */}
+          <div className="space-y-2">
+            <Label htmlFor="returnedCheckFee">Returned Check Fee ($)</Label>
+            <Input
+              id="returnedCheckFee"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.returnedCheckFee}
+              onChange={(e) => handleChange('returnedCheckFee', e.target.value)}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Charged when the bank returns a customer&apos;s check unpaid
+            </p>
+          </div>
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notes (optional)</Label>
@@ -295,10 +426,30 @@ export function PriceManagementForm({
             </div>
           )}
 
+          {/* Impact preview */}
+          {simulation && (
+            <RateImpactPreview
+              result={simulation}
+              onExport={() => void handleExportSimulation()}
+              isExporting={isExporting}
+            />
+          )}
+
           {/* Submit */}
-          <Button type="submit" disabled={isSubmitting} className="w-full">
-            {isSubmitting ? 'Saving...' : 'Save New Pricing'}
-          </Button>
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => void handleSimulate()}
+              disabled={isSimulating || isSubmitting}
+              className="flex-1"
+            >
+              {isSimulating ? 'Calculating...' : 'Preview Impact'}
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? 'Saving...' : 'Save New Pricing'}
+            </Button>
+          </div>
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,125 @@
+'use client';
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RENEWAL_PERIOD_LABELS } from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { RateSimulationResult } from '@/types/pricing';
+
+interface RateImpactPreviewProps {
+  result: RateSimulationResult;
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+function formatDelta(amount: number): string {
+  return amount > 0 ? `+${formatCurrency(amount)}` : formatCurrency(amount);
+}
+
+function deltaClass(amount: number): string {
+  if (amount > 0) return 'text-green-700';
+  if (amount < 0) return 'text-red-600';
+  return 'text-gray-500';
+}
+
+/**
+ * Revenue impact of proposed rates at each account's next renewal
+ */
+export function RateImpactPreview({
+  result,
+  onExport,
+  isExporting,
+}: RateImpactPreviewProps): React.ReactElement {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm space-y-1">
+          <p className="font-medium">
+            Next-renewal revenue: {formatCurrency(result.currentRevenue)} →{' '}
+            {formatCurrency(result.proposedRevenue)}{' '}
+            <span className={deltaClass(result.totalDelta)}>({formatDelta(result.totalDelta)})</span>
+          </p>
+          <p className="text-muted-foreground">
+            {result.affectedCount} of {result.accountCount} active and held accounts renew on or after{' '}
+            {result.startDate}. {result.increasedCount} go up, {result.decreasedCount} go down.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={onExport} disabled={isExporting}>
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Renewal Period</TableHead>
+            <TableHead className="text-right">Accounts</TableHead>
+            <TableHead className="text-right">Current</TableHead>
+            <TableHead className="text-right">Proposed</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.byRenewalPeriod.map((period) => (
+            <TableRow key={period.renewalPeriod}>
+              <TableCell>{RENEWAL_PERIOD_LABELS[period.renewalPeriod]}</TableCell>
+              <TableCell className="text-right font-mono">
+                {period.affectedCount}/{period.accountCount}
+              </TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(period.currentRevenue)}</TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(period.proposedRevenue)}</TableCell>
+              <TableCell className={`text-right font-mono ${deltaClass(period.delta)}`}>
+                {formatDelta(period.delta)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {result.topIncreases.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Largest Increases</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Renews</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Proposed</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.topIncreases.map((account) => (
+                <TableRow key={account.accountId}>
+                  <TableCell className="font-mono">
+                    <Link href={`/accounts/${account.accountId}`} className="hover:underline">
+                      {account.mailboxNumber}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{account.accountName}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{account.nextRenewalDate}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(account.currentPrice)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(account.proposedPrice)}</TableCell>
+                  <TableCell className="text-right font-mono text-green-700">
+                    {formatDelta(account.delta)}
+                    {account.deltaPercent !== null && ` (${account.deltaPercent}%)`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
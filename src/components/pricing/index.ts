@@ -2,3 +2,5 @@ export { PriceCard } from './PriceCard';
 export { PriceCalculator } from './PriceCalculator';
 export { PriceManagementForm } from './PriceManagementForm';
 export { PriceHistoryTable } from './PriceHistoryTable';
+export { DiscountManager } from './DiscountManager';
+export { RateImpactPreview } from './RateImpactPreview';
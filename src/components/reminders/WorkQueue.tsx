@@ -0,0 +1,132 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { WORK_QUEUE_CATEGORIES } from '@/constants/status';
+import type { WorkQueue as WorkQueueData, WorkQueueCategory } from '@/types/reminder';
+
+// Indicator colors from the priority table in docs/07-notifications.md
+const CATEGORY_DOT_CLASSES: Record<WorkQueueCategory, string> = {
+  OVERDUE: 'bg-status-overdue',
+  HOLD: 'bg-status-due',
+  RENEWAL_DUE: 'bg-status-due-soon',
+  ID_EXPIRY: 'bg-status-due-soon',
+  AGE_18: 'bg-status-due-soon',
+  BUSINESS_EXPIRY: 'bg-status-due-soon',
+  CUSTOM: 'bg-status-due-soon',
+  RENEWAL_UPCOMING: 'bg-status-available',
+};
+
+export function WorkQueue(): React.ReactElement {
+  const [queue, setQueue] = useState<WorkQueueData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async (): Promise<void> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/reminders');
+      if (!response.ok) {
+        throw new Error('Failed to fetch work queue');
+      }
+
+      const data = await response.json() as { data: WorkQueueData };
+      setQueue(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchQueue();
+  }, [fetchQueue]);
+
+  const handleDismiss = async (id: string): Promise<void> => {
+    setDismissingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reminders/${id}/dismiss`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to dismiss reminder');
+      }
+      await fetchQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to dismiss reminder');
+    } finally {
+      setDismissingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-postnet-charcoal">Work Queue</h2>
+        {queue && (
+          <p className="text-sm text-postnet-gray">
+            {queue.counts.HIGH} high · {queue.counts.MEDIUM} medium · {queue.counts.LOW} low
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+        {error && (
+          <div className="m-4 rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+        ) : !queue || queue.items.length === 0 ? (
+          <p className="p-6 text-sm text-gray-400 italic">Nothing needs attention</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {queue.items.map((item) => (
+              <li key={item.id} className="flex items-start gap-3 px-4 py-3">
+                <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${CATEGORY_DOT_CLASSES[item.category]}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-postnet-charcoal">
+                    <span className="mr-2 text-xs font-medium uppercase tracking-wide text-postnet-gray">
+                      {WORK_QUEUE_CATEGORIES[item.category].label}
+                    </span>
+                    {item.account ? (
+                      <Link href={`/accounts/${item.account.id}`} className="hover:text-postnet-red hover:underline">
+                        {item.message}
+                      </Link>
+                    ) : (
+                      item.message
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(parseISO(item.triggerDate), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void handleDismiss(item.id)}
+                  disabled={dismissingId === item.id}
+                >
+                  Dismiss
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {queue && queue.totalItems > queue.items.length && (
+          <p className="border-t px-4 py-2 text-xs text-gray-500">
+            Showing {queue.items.length} of {queue.totalItems} items
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { WorkQueue } from './WorkQueue';
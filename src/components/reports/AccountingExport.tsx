@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { AccountingExportPreview, SerializedAccountingExport } from '@/types/accounting';
+
+const SOURCE_LABELS: Record<keyof AccountingExportPreview['counts'], string> = {
+  INVOICE: 'Invoices',
+  INVOICE_CHARGE: 'Charges added to exported invoices',
+  PAYMENT: 'Payments, voids & refunds',
+  CREDIT: 'Account credit issued & applied',
+  KEY_DEPOSIT: 'Key deposit refunds & forfeits',
+  WRITE_OFF: 'Write-offs',
+  FEE_WAIVER: 'Fee waivers',
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function AccountingExport(): React.ReactElement {
+  const lastMonth = subMonths(new Date(), 1);
+  const [startDate, setStartDate] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [exportFormat, setExportFormat] = useState<'IIF' | 'CSV'>('IIF');
+  const [preview, setPreview] = useState<AccountingExportPreview | null>(null);
+  const [exports, setExports] = useState<SerializedAccountingExport[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExports = useCallback(async (): Promise<void> => {
+    const response = await fetch('/api/accounting/exports');
+    if (!response.ok) {
+      throw new Error('Failed to fetch accounting exports');
+    }
+    const data = await response.json() as { data: SerializedAccountingExport[] };
+    setExports(data.data);
+  }, []);
+
+  const fetchPreview = useCallback(async (): Promise<void> => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setPreview(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ startDate, endDate });
+    const response = await fetch(`/api/accounting/exports/preview?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to preview export');
+    }
+    const data = await response.json() as { data: AccountingExportPreview };
+    setPreview(data.data);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchExports().catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    });
+  }, [fetchExports]);
+
+  useEffect(() => {
+    fetchPreview().catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    });
+  }, [fetchPreview]);
+
+  const handleExport = async (): Promise<void> => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/accounting/exports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate, format: exportFormat }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to create export');
+      }
+
+      const data = await response.json() as { data: SerializedAccountingExport };
+      window.location.href = `/api/accounting/exports/${data.data.id}/download`;
+      await Promise.all([fetchExports(), fetchPreview()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create export');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accounting Export</CardTitle>
+        <CardDescription>
+          Journal entries for QuickBooks. Anything already exported is left out of later batches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="exportStartDate">From</Label>
+            <Input
+              id="exportStartDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exportEndDate">To</Label>
+            <Input
+              id="exportEndDate"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exportFormat">Format</Label>
+            <select
+              id="exportFormat"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as 'IIF' | 'CSV')}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+            >
+              <option value="IIF">QuickBooks (IIF)</option>
+              <option value="CSV">Journal (CSV)</option>
+            </select>
+          </div>
+          <Button
+            onClick={() => void handleExport()}
+            disabled={saving || !preview || preview.entryCount === 0}
+          >
+            {saving ? 'Exporting...' : 'Export'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="text-sm text-gray-600 space-y-1">
+            <p>
+              {preview.entryCount} new entries, {formatCurrency(preview.totalDebits)} in debits
+              {preview.alreadyExported > 0 && ` (${preview.alreadyExported} already exported)`}
+            </p>
+            <p className="text-xs text-gray-500">
+              {Object.entries(preview.counts)
+                .filter(([, count]) => count > 0)
+                .map(([type, count]) => `${SOURCE_LABELS[type as keyof typeof SOURCE_LABELS]}: ${count}`)
+                .join(' · ')}
+            </p>
+          </div>
+        )}
+
+        {exports.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Exported</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Format</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="text-right">Entries</TableHead>
+                <TableHead className="text-right">Debits</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exports.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell className="text-sm text-gray-600">{formatDate(batch.createdAt)}</TableCell>
+                  <TableCell className="text-sm">
+                    {batch.startDate} – {batch.endDate}
+                  </TableCell>
+                  <TableCell>{batch.format}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{batch.createdBy.username}</TableCell>
+                  <TableCell className="text-right font-mono">{batch.entryCount}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(batch.totalDebits)}</TableCell>
+                  <TableCell className="text-right">
+                    <a
+                      href={`/api/accounting/exports/${batch.id}/download`}
+                      className="text-sm text-postnet-red hover:underline"
+                    >
+                      Download
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ACCOUNT_STATUS_LABELS, AGING_BUCKETS } from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { AgingBucket, AgingReport as AgingReportData } from '@/types/aging';
+
+const BUCKET_KEYS = Object.keys(AGING_BUCKETS) as AgingBucket[];
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatAmount(amount: number): string {
+  return amount === 0 ? '-' : formatCurrency(amount);
+}
+
+export function AgingReport(): React.ReactElement {
+  const [report, setReport] = useState<AgingReportData | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/reports/aging');
+      if (!response.ok) {
+        throw new Error('Failed to fetch aging report');
+      }
+
+      const data = await response.json() as { data: AgingReportData };
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchReport();
+  }, [fetchReport]);
+
+  const toggleAccount = (accountId: string): void => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(accountId)) {
+        next.delete(accountId);
+      } else {
+        next.add(accountId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accounts Receivable Aging</CardTitle>
+        <CardDescription>
+          {report
+            ? `${formatCurrency(report.total)} outstanding on ${report.invoiceCount} invoices across ${report.accounts.length} accounts, as of ${formatDate(report.asOf)}.`
+            : 'Open invoice balances by days since the invoice date'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+          </div>
+        ) : report && report.accounts.length > 0 ? (
+          <>
+            <div className="flex justify-end">
+              <a
+                href={`/api/reports/aging/export?asOf=${report.asOf}`}
+                className="text-sm text-postnet-red hover:underline"
+              >
+                Export CSV
+              </a>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mailbox</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Status</TableHead>
+                  {BUCKET_KEYS.map((key) => (
+                    <TableHead key={key} className="text-right">{AGING_BUCKETS[key].label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.accounts.map((account) => (
+                  <Fragment key={account.accountId}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleAccount(account.accountId)}>
+                      <TableCell className="font-mono">
+                        <Link
+                          href={`/accounts/${account.accountId}`}
+                          className="hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {account.mailboxNumber}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <span className="mr-1 text-gray-400">{expanded.has(account.accountId) ? '▾' : '▸'}</span>
+                        {account.accountName}
+                      </TableCell>
+                      <TableCell>{ACCOUNT_STATUS_LABELS[account.accountStatus]}</TableCell>
+                      {BUCKET_KEYS.map((key) => (
+                        <TableCell key={key} className="text-right font-mono">
+                          {formatAmount(account.buckets[key])}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono font-medium">{formatCurrency(account.total)}</TableCell>
+                    </TableRow>
+                    {expanded.has(account.accountId) &&
+                      account.invoices.map((invoice) => (
+                        <TableRow key={invoice.id} className="bg-gray-50 text-sm text-gray-600">
+                          <TableCell></TableCell>
+                          <TableCell className="pl-8">
+                            Invoice #{invoice.invoiceNumber} · {formatDate(invoice.invoiceDate)}
+                          </TableCell>
+                          <TableCell>{invoice.daysOutstanding > 0 ? `${invoice.daysOutstanding} days` : 'Current'}</TableCell>
+                          {BUCKET_KEYS.map((key) => (
+                            <TableCell key={key} className="text-right font-mono">
+                              {key === invoice.bucket ? formatCurrency(invoice.balanceDue) : ''}
+                            </TableCell>
+                          ))}
+                          <TableCell></TableCell>
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={3}>Total</TableCell>
+                  {BUCKET_KEYS.map((key) => (
+                    <TableCell key={key} className="text-right font-mono">
+                      {formatCurrency(report.buckets[key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-mono">{formatCurrency(report.total)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No outstanding balances</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ACCOUNT_STATUS_LABELS } from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { OutstandingKeyDepositReport } from '@/types/key-deposit';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function KeyDepositReport(): React.ReactElement {
+  const [report, setReport] = useState<OutstandingKeyDepositReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/reports/deposits');
+      if (!response.ok) {
+        throw new Error('Failed to fetch deposit report');
+      }
+
+      const data = await response.json() as { data: OutstandingKeyDepositReport };
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Key Deposits Held</CardTitle>
+        <CardDescription>
+          {report
+            ? `${report.totalCount} deposits totaling ${formatCurrency(report.totalHeld)}. ` +
+              `${report.awaitingSettlementCount} closed accounts (${formatCurrency(report.awaitingSettlementAmount)}) are waiting to be refunded or forfeited.`
+            : 'Deposits collected and not yet refunded or forfeited'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+          </div>
+        ) : report && report.deposits.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Collected</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Deposit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.deposits.map((deposit) => (
+                <TableRow key={deposit.accountId}>
+                  <TableCell className="font-mono">
+                    <Link href={`/accounts/${deposit.accountId}`} className="hover:underline">
+                      {deposit.mailboxNumber}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{deposit.accountName}</TableCell>
+                  <TableCell
+                    className={deposit.accountStatus === 'CLOSED' ? 'text-red-600 font-medium' : undefined}
+                  >
+                    {ACCOUNT_STATUS_LABELS[deposit.accountStatus]}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {deposit.collectedAt ? formatDate(deposit.collectedAt) : '-'}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {deposit.closedAt ? formatDate(deposit.closedAt) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(deposit.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No deposits held</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
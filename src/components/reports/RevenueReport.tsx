@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, subMonths } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils/currency';
+import type { RevenueRecognitionReport } from '@/types/revenue';
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+  });
+}
+
+export function RevenueReport(): React.ReactElement {
+  const [from, setFrom] = useState(format(subMonths(new Date(), 11), 'yyyy-MM'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM'));
+  const [report, setReport] = useState<RevenueRecognitionReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async (): Promise<void> => {
+    if (!from || !to) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ from, to });
+      const response = await fetch(`/api/reports/revenue?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json() as { error?: { message?: string } };
+        throw new Error(data.error?.message ?? 'Failed to fetch revenue report');
+      }
+
+      const data = await response.json() as { data: RevenueRecognitionReport };
+      setReport(data.data);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    void fetchReport();
+  }, [fetchReport]);
+
+  const exportParams = new URLSearchParams({ from, to });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revenue Recognition</CardTitle>
+        <CardDescription>
+          Invoiced revenue earned day by day over each service period. One-time fees are earned when billed, written-off balances are taken back when written off, and key deposits are left out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="revenueFrom">From</Label>
+            <Input
+              id="revenueFrom"
+              type="month"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="revenueTo">To</Label>
+            <Input
+              id="revenueTo"
+              type="month"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          {report && (
+            <a
+              href={`/api/reports/revenue/export?${exportParams.toString()}`}
+              className="pb-2 text-sm text-postnet-red hover:underline"
+            >
+              Export schedule (CSV)
+            </a>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+          </div>
+        ) : report && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead className="text-right">Billed</TableHead>
+                <TableHead className="text-right">Earned</TableHead>
+                <TableHead className="text-right">Deferred at Month End</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="text-gray-500">Opening balance</TableCell>
+                <TableCell></TableCell>
+                <TableCell></TableCell>
+                <TableCell className="text-right font-mono text-gray-500">
+                  {formatCurrency(report.openingDeferred)}
+                </TableCell>
+              </TableRow>
+              {report.months.map((month) => (
+                <TableRow key={month.month}>
+                  <TableCell>{formatMonth(month.month)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(month.billed)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(month.earned)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(month.deferredBalance)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(report.totalBilled)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(report.totalEarned)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(report.closingDeferred)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
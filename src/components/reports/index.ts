@@ -0,0 +1,4 @@
+export { KeyDepositReport } from './KeyDepositReport';
+export { AccountingExport } from './AccountingExport';
+export { RevenueReport } from './RevenueReport';
+export { AgingReport } from './AgingReport';
@@ -27,6 +27,70 @@ export const RENEWAL = {
   CLOSE_DAYS_AFTER_OVERDUE: 60,
 } as const;
 
+export const LIFECYCLE = {
+  // Nightly run at 1:00 AM store time, after the business day has closed
+  CRON_SCHEDULE: '0 1 * * *',
+  TIMEZONE: 'Pacific/Guam',
+  RUN_HISTORY_LIMIT: 30,
+  // A run still RUNNING after this long is assumed to have crashed
+  STALE_RUN_MINUTES: 60,
+  // Closure notices for accounts the run closes are left in notice history to print
+  CLOSURE_NOTICE_DELIVERY: 'PRINT',
+} as const;
+
+export const ACCOUNT_CLOSURE = {
+  // Default days after closing during which an account can be reopened
+  DEFAULT_REOPEN_WINDOW_DAYS: 30,
+  WRITE_OFF_REASON: 'Written off at account closure',
+  RECIPIENT_REMOVAL_REASON: 'Account closed',
+  // Thrown when the account left the expected status before it could be closed
+  STATUS_CHANGED_ERROR: 'Account status has changed',
+} as const;
+
+export const REMINDERS = {
+  // Runs after the lifecycle job so held and closed accounts are already up to date
+  CRON_SCHEDULE: '30 1 * * *',
+  // Most urgent items returned for the dashboard work queue
+  WORK_QUEUE_LIMIT: 100,
+} as const;
+
+export const AUDIT_LOG = {
+  // Entity types recorded in AuditLog.entityType
+  ENTITY_TYPES: {
+    ACCOUNT: 'Account',
+    RECIPIENT: 'Recipient',
+    PHONE_NUMBER: 'PhoneNumber',
+    EMAIL_ADDRESS: 'EmailAddress',
+    MAILBOX: 'Mailbox',
+    PAYMENT: 'Payment',
+    INVOICE: 'Invoice',
+    RATE_HISTORY: 'RateHistory',
+    NOTICE_TYPE: 'NoticeType',
+    NOTICE_HISTORY: 'NoticeHistory',
+    USER: 'User',
+    STORE_SETTINGS: 'StoreSettings',
+    MEMO: 'Memo',
+    REMINDER: 'Reminder',
+    KEY_DEPOSIT_TRANSACTION: 'KeyDepositTransaction',
+    DISCOUNT: 'Discount',
+    DRAWER_CLOSEOUT: 'DrawerCloseout',
+    CARD_ON_FILE: 'CardOnFile',
+    ACCOUNTING_EXPORT: 'AccountingExport',
+  },
+  // Name recorded for changes made by background jobs
+  SYSTEM_USER_NAME: 'System',
+  // Fields never worth recording in a diff
+  IGNORED_FIELDS: ['id', 'createdAt', 'updatedAt'],
+  // Fields recorded as changed without storing their values
+  REDACTED_FIELDS: ['passwordHash', 'smtpPassword'],
+} as const;
+
+export const MEMO = {
+  MAX_LENGTH: 5000,
+  // Most recent entries returned for the account timeline
+  TIMELINE_LIMIT: 200,
+} as const;
+
 export const VERIFICATION = {
   DAYS_BEFORE_18TH_BIRTHDAY: 30,
   DAYS_BEFORE_ID_EXPIRY: 30,
@@ -46,6 +110,101 @@ export const SESSION = {
 export const SMS = {
   MAX_REMINDERS_PER_RENEWAL: 1,
   MIN_DAYS_BETWEEN_REMINDERS: 25,
+  // Daily send during business hours, not alongside the overnight jobs
+  CRON_SCHEDULE: '0 9 * * *',
+  // Local stub output when SMS_PROVIDER=file and SMS_OUTBOX_FILE is not set
+  DEFAULT_OUTBOX_FILE: 'tmp/sms-outbox.log',
+  // Delivery callbacks and inbound messages, relative to APP_URL
+  WEBHOOK_PATH: '/api/sms/webhook',
+  // Carrier-standard keywords for inbound messages
+  STOP_KEYWORDS: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'],
+  START_KEYWORDS: ['START', 'YES', 'UNSTOP'],
+  HELP_KEYWORDS: ['HELP', 'INFO'],
+} as const;
+
+export const AUTO_RENEWAL = {
+  // Early morning, before the counter opens, so the day's drawer is still open
+  CRON_SCHEDULE: '0 6 * * *',
+  // Charge this many days ahead of the renewal date, leaving time to sort out a declined card
+  DAYS_BEFORE: 3,
+  // Most recent attempts shown on the account page
+  HISTORY_LIMIT: 10,
+} as const;
+
+export const ACCOUNTING = {
+  // QuickBooks account names - rename to match the bookkeeper's chart of accounts
+  RECEIVABLE_ACCOUNT: 'Accounts Receivable',
+  // Income (or liability) account credited for each invoice line type
+  REVENUE_ACCOUNTS: {
+    BASE_RATE: 'Mailbox Rental Income',
+    BUSINESS_FEE: 'Mailbox Rental Income:Business Fees',
+    ADDITIONAL_RECIPIENT_4TH: 'Mailbox Rental Income:Additional Recipients',
+    ADDITIONAL_RECIPIENT_5TH: 'Mailbox Rental Income:Additional Recipients',
+    ADDITIONAL_RECIPIENT_6TH: 'Mailbox Rental Income:Additional Recipients',
+    ADDITIONAL_RECIPIENT_7TH: 'Mailbox Rental Income:Additional Recipients',
+    MINOR_FEE: 'Mailbox Rental Income:Minor Recipients',
+    MINOR_TRANSITION: 'Mailbox Rental Income:Additional Recipients',
+    KEY_DEPOSIT: 'Key Deposits Held',
+    LATE_FEE: 'Late Fee Income',
+    REINSTATEMENT_FEE: 'Late Fee Income',
+    DISCOUNT: 'Discounts Given',
+    RETURNED_CHECK_FEE: 'Returned Check Fee Income',
+  },
+  // Where money taken at the counter lands until it is banked
+  PAYMENT_ACCOUNTS: {
+    CASH: 'Undeposited Funds',
+    CARD: 'Undeposited Funds',
+    CHECK: 'Undeposited Funds',
+  },
+  FORFEITED_DEPOSIT_ACCOUNT: 'Forfeited Key Deposits',
+  BAD_DEBT_ACCOUNT: 'Bad Debt',
+  // Liability for account credit held until it is applied to an invoice
+  CUSTOMER_CREDIT_ACCOUNT: 'Customer Credits',
+  // Other side of the customer credit posting for each credit ledger action
+  CREDIT_ACCOUNTS: {
+    OVERPAYMENT: 'Accounts Receivable',
+    APPLIED: 'Accounts Receivable',
+    REVERSED: 'Accounts Receivable',
+    PRORATION: 'Credits Issued',
+    PLAN_CHANGE: 'Credits Issued',
+  },
+  // QuickBooks customer name is this prefix plus the mailbox number
+  CUSTOMER_PREFIX: 'Mailbox',
+  // Most recent batches listed on the reports page
+  EXPORT_HISTORY_LIMIT: 20,
+} as const;
+
+export const REVENUE_RECOGNITION = {
+  // Months shown when the report is first opened, ending with the current month
+  DEFAULT_MONTHS: 12,
+  // Longest range a single report covers
+  MAX_MONTHS: 36,
+  // Fees earned in full when billed instead of over the service period
+  ONE_TIME_LINE_TYPES: ['LATE_FEE', 'REINSTATEMENT_FEE', 'RETURNED_CHECK_FEE'],
+} as const;
+
+export const RATE_SIMULATION = {
+  // Accounts listed as the largest price increases
+  TOP_INCREASES: 10,
+} as const;
+
+export const EMAIL = {
+  // Delivery attempts per notice before it is marked FAILED (transient errors only)
+  MAX_SEND_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 2000,
+  RETRY_MAX_DELAY_MS: 30000,
+  DEFAULT_SMTP_PORT: 587,
+  // Local stand-in output when no SMTP host is configured and EMAIL_OUTBOX_DIR is not set
+  DEFAULT_OUTBOX_DIR: 'tmp/email-outbox',
+  // SMTP/socket error codes worth retrying - anything else (auth, rejected recipient) fails immediately
+  TRANSIENT_ERROR_CODES: ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET'],
+} as const;
+
+export const RECEIPT_PRINTER = {
+  // Characters per line in the default font on 80mm paper
+  COLUMNS: 48,
+  // Blank lines fed before the cut so the last line clears the cutter
+  FEED_LINES_BEFORE_CUT: 4,
 } as const;
 
 export const PHONE = {
@@ -79,6 +238,10 @@ export const PRICING = {
   DEFAULT_ADDITIONAL_RECIPIENT_FEE: 2.0,
   DEFAULT_MINOR_RECIPIENT_FEE: 0.0,
   DEFAULT_KEY_DEPOSIT: 5.0,
+  // One-time fees (0 = not charged)
+  DEFAULT_LATE_FEE: 0.0,
+  DEFAULT_REINSTATEMENT_FEE: 0.0,
+  DEFAULT_RETURNED_CHECK_FEE: 0.0,
 
   // Recipient thresholds
   INCLUDED_RECIPIENTS: 3,
@@ -16,6 +16,7 @@ export const NOTICE_TYPE_CODE_LABELS: Record<NoticeTypeCode, string> = {
   HOLD_NOTICE: 'Hold Notice',
   ID_VERIFICATION_REQUEST: 'ID Verification Request',
   MISSING_ID: 'Missing ID',
+  CLOSURE_NOTICE: 'Closure Notice',
   CUSTOM: 'Custom',
 } as const;
 
@@ -426,6 +427,45 @@ Hours: {{storeHours}}
 
 If you no longer need mailbox services, please contact us to properly close your account and arrange for mail forwarding.
 
+---
+*Notice generated on {{currentDate}}*`,
+  },
+  {
+    code: 'CLOSURE_NOTICE',
+    name: 'Closure Notice',
+    description: 'Confirmation that the mailbox account has been closed',
+    subject: 'Mailbox {{mailboxNumber}} - Account Closed',
+    isSystem: true,
+    template: `# Account Closure Notice
+
+Dear {{displayName}},
+
+This notice confirms that your mailbox account has been **CLOSED** as of {{currentDate}}.
+
+## Account Information
+
+| | |
+|---|---|
+| **Mailbox Number** | {{mailboxNumber}} |
+| **Account Status** | CLOSED |
+
+## What Happens Next
+
+- We will no longer accept mail or packages addressed to this mailbox
+- Please update your address with the senders you use this mailbox for
+- Any mail already received is held at the store for pickup
+- Please return your mailbox keys so your key deposit can be settled
+
+If this closure was made in error, please contact us as soon as possible. Recently closed accounts can be reopened while the mailbox is still available.
+
+**{{storeName}}**
+{{storeAddress}}
+Phone: {{storePhone}}
+Email: {{storeEmail}}
+Hours: {{storeHours}}
+
+Thank you for choosing {{storeName}}.
+
 ---
 *Notice generated on {{currentDate}}*`,
   },
@@ -40,6 +40,26 @@ export const PAYMENT_METHOD_LABELS = {
   CHECK: 'Check',
 } as const;
 
+export const PAYMENT_TYPE_LABELS = {
+  PAYMENT: 'Payment',
+  VOID: 'Void',
+  REFUND: 'Refund',
+} as const;
+
+export const INVOICE_TYPE_LABELS = {
+  NEW_ACCOUNT: 'New Account',
+  RENEWAL: 'Renewal',
+  PRORATION: 'Proration',
+  FEE: 'Fee',
+} as const;
+
+export const INVOICE_STATUS_LABELS = {
+  PENDING: 'Unpaid',
+  PARTIAL: 'Partially Paid',
+  PAID: 'Paid',
+  WRITTEN_OFF: 'Written Off',
+} as const;
+
 export const RECIPIENT_TYPE_LABELS = {
   PERSON: 'Person',
   BUSINESS: 'Business',
@@ -94,3 +114,53 @@ export const BUSINESS_REMOVAL_REASONS = [
   'No Longer Associated',
   'Other',
 ] as const;
+
+export const AUDIT_ACTION_LABELS = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+} as const;
+
+// Entity types as they read in a sentence ("Updated phone number")
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  Account: 'account',
+  Recipient: 'recipient',
+  PhoneNumber: 'phone number',
+  EmailAddress: 'email address',
+  Mailbox: 'mailbox',
+  Payment: 'payment',
+  Invoice: 'invoice',
+  RateHistory: 'pricing',
+  NoticeType: 'notice type',
+  NoticeHistory: 'notice',
+  User: 'user',
+  StoreSettings: 'store settings',
+  Memo: 'memo',
+  Reminder: 'reminder',
+  KeyDepositTransaction: 'key deposit',
+  Discount: 'discount',
+  DrawerCloseout: 'drawer close-out',
+  CardOnFile: 'card on file',
+  AccountingExport: 'accounting export',
+};
+
+// Dashboard work queue, in priority order (see docs/07-notifications.md)
+export const WORK_QUEUE_CATEGORIES = {
+  OVERDUE: { label: 'Overdue', priority: 'HIGH', rank: 1 },
+  HOLD: { label: 'On Hold', priority: 'HIGH', rank: 2 },
+  RENEWAL_DUE: { label: 'Renewal Due', priority: 'MEDIUM', rank: 3 },
+  ID_EXPIRY: { label: 'ID Expiring', priority: 'MEDIUM', rank: 4 },
+  AGE_18: { label: 'Turning 18', priority: 'MEDIUM', rank: 5 },
+  BUSINESS_EXPIRY: { label: 'Business Registration Expiring', priority: 'MEDIUM', rank: 6 },
+  CUSTOM: { label: 'Reminder', priority: 'MEDIUM', rank: 7 },
+  RENEWAL_UPCOMING: { label: 'Upcoming Renewal', priority: 'LOW', rank: 8 },
+} as const;
+
+// Accounts receivable aging, by days since the invoice date (maxDays null = no upper limit)
+export const AGING_BUCKETS = {
+  CURRENT: { label: 'Current', maxDays: 0 },
+  DAYS_1_30: { label: '1-30 Days', maxDays: 30 },
+  DAYS_31_60: { label: '31-60 Days', maxDays: 60 },
+  DAYS_61_90: { label: '61-90 Days', maxDays: 90 },
+  OVER_90: { label: '90+ Days', maxDays: null },
+} as const;
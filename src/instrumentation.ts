@@ -0,0 +1,10 @@
+/**
+ * Next.js startup hook - starts background jobs on the Node.js server runtime
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.ENABLE_SCHEDULER === 'false') return;
+
+  const { startScheduler } = await import('@/lib/jobs/scheduler');
+  startScheduler();
+}
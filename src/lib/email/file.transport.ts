@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { EmailMessage, EmailSendResult, EmailTransport } from '@/types/email';
+
+/**
+ * Stand-in transport for development and tests.
+ * Builds the full MIME message and writes it to the outbox directory as an .eml file
+ * that opens in any mail client, attachments included.
+ */
+export function createFileEmailTransport(outboxDir: string): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+      const info = await transporter.sendMail(message);
+      const messageId = info.messageId;
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.replace(/[^a-zA-Z0-9-]/g, '')}.eml`;
+
+      await mkdir(outboxDir, { recursive: true });
+      await writeFile(path.join(outboxDir, filename), info.message);
+
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { EMAIL } from '@/constants/app';
+import { StoreSettingsService } from '@/lib/services/store-settings.service';
+import { createSmtpEmailTransport } from './smtp.transport';
+import { createFileEmailTransport } from './file.transport';
+import type { EmailTransport } from '@/types/email';
+
+export { createSmtpEmailTransport, createFileEmailTransport };
+
+let override: EmailTransport | null = null;
+
+/**
+ * Get the email transport for the current store settings.
+ * SMTP is used when a host is configured in Store Settings; otherwise (or with
+ * EMAIL_TRANSPORT=file) messages are written to the local outbox directory.
+ * Built per call so settings changes apply without a restart.
+ */
+export async function getEmailTransport(): Promise<EmailTransport> {
+  if (override) return override;
+
+  const settings = await StoreSettingsService.getSettings();
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR || EMAIL.DEFAULT_OUTBOX_DIR;
+
+  if (!settings.smtpHost || process.env.EMAIL_TRANSPORT === 'file') {
+    return createFileEmailTransport(outboxDir);
+  }
+
+  return createSmtpEmailTransport({
+    host: settings.smtpHost,
+    port: settings.smtpPort ?? EMAIL.DEFAULT_SMTP_PORT,
+    secure: settings.smtpSecure,
+    user: settings.smtpUser,
+    password: settings.smtpPassword,
+  });
+}
+
+/**
+ * Replace the transport (tests)
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  override = next;
+}
@@ -0,0 +1,32 @@
+import nodemailer from 'nodemailer';
+import type { EmailMessage, EmailSendResult, EmailTransport } from '@/types/email';
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is negotiated when offered
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+}
+
+/**
+ * Email transport that relays through an SMTP server
+ */
+export function createSmtpEmailTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    ...(config.user ? { auth: { user: config.user, pass: config.password ?? '' } } : {}),
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+}
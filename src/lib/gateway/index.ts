@@ -0,0 +1,63 @@
+import { createStripePaymentGateway } from './stripe.gateway';
+import { createStubPaymentGateway } from './stub.gateway';
+import type { PaymentGateway } from '@/types/gateway';
+
+export { createStripePaymentGateway, createStubPaymentGateway };
+
+export const GATEWAY_NOT_CONFIGURED = 'No payment gateway is configured';
+
+let gateway: PaymentGateway | null = null;
+
+/**
+ * Which gateway the environment asks for. Stripe is used when a secret key is
+ * present; the stub, which approves almost any token without moving money, only
+ * when PAYMENT_GATEWAY=stub is set explicitly.
+ */
+function getGatewayChoice(): 'stripe' | 'stub' | null {
+  const choice = process.env.PAYMENT_GATEWAY;
+  if (choice === 'stripe' || choice === 'stub') return choice;
+  return process.env.STRIPE_SECRET_KEY ? 'stripe' : null;
+}
+
+/**
+ * Whether a gateway that actually collects money is configured
+ */
+export function isLivePaymentGatewayConfigured(): boolean {
+  return getGatewayChoice() === 'stripe' && Boolean(process.env.STRIPE_SECRET_KEY);
+}
+
+/**
+ * Get the configured payment gateway.
+ * Throws when none is configured, or when the stub is asked for in production.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (gateway) return gateway;
+
+  switch (getGatewayChoice()) {
+    case 'stripe': {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        throw new Error('Stripe payment gateway requires STRIPE_SECRET_KEY');
+      }
+      gateway = createStripePaymentGateway({ secretKey });
+      break;
+    }
+    case 'stub':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The stub payment gateway cannot be used in production');
+      }
+      gateway = createStubPaymentGateway();
+      break;
+    default:
+      throw new Error(GATEWAY_NOT_CONFIGURED);
+  }
+
+  return gateway;
+}
+
+/**
+ * Replace the gateway (tests)
+ */
+export function setPaymentGateway(next: PaymentGateway | null): void {
+  gateway = next;
+}
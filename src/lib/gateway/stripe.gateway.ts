@@ -0,0 +1,139 @@
+import { roundCurrency } from '@/lib/utils/currency';
+import type {
+  GatewayChargeInput,
+  GatewayChargeResult,
+  GatewayCustomer,
+  PaymentGateway,
+  StoredCard,
+} from '@/types/gateway';
+
+interface StripeConfig {
+  secretKey: string;
+  apiUrl?: string | undefined;
+}
+
+interface StripeError {
+  type?: string;
+  code?: string;
+  decline_code?: string;
+  message?: string;
+}
+
+class StripeRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly stripeError: StripeError
+  ) {
+    super(stripeError.message ?? `Stripe request failed (${status})`);
+  }
+}
+
+const DEFAULT_API_URL = 'https://api.stripe.com/v1';
+
+/**
+ * Payment gateway backed by the Stripe REST API.
+ * Cards are tokenized in the browser or terminal as PaymentMethods; here they are
+ * attached to a Stripe customer and the stored token is "customerId:paymentMethodId".
+ */
+export function createStripePaymentGateway(config: StripeConfig): PaymentGateway {
+  const apiUrl = config.apiUrl ?? DEFAULT_API_URL;
+
+  async function request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: Record<string, string> = {},
+    idempotencyKey?: string
+  ): Promise<T> {
+    const body = new URLSearchParams(params).toString();
+    const response = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      ...(method === 'POST' ? { body } : {}),
+    });
+
+    const data = (await response.json()) as T & { error?: StripeError };
+    if (!response.ok) {
+      throw new StripeRequestError(response.status, data.error ?? {});
+    }
+    return data;
+  }
+
+  function parseToken(token: string): { customerId: string; paymentMethodId: string } {
+    const [customerId, paymentMethodId] = token.split(':');
+    if (!customerId || !paymentMethodId) {
+      throw new Error('Invalid Stripe card token');
+    }
+    return { customerId, paymentMethodId };
+  }
+
+  return {
+    name: 'stripe',
+
+    async storeCard(sourceToken: string, customer: GatewayCustomer): Promise<StoredCard> {
+      const created = await request<{ id: string }>('POST', '/customers', {
+        description: customer.description,
+        payment_method: sourceToken,
+        'metadata[accountId]': customer.accountId,
+        ...(customer.email ? { email: customer.email } : {}),
+      });
+
+      const paymentMethod = await request<{
+        card: { brand: string; last4: string; exp_month: number; exp_year: number };
+      }>('GET', `/payment_methods/${encodeURIComponent(sourceToken)}`);
+
+      return {
+        token: `${created.id}:${sourceToken}`,
+        brand: paymentMethod.card.brand,
+        last4: paymentMethod.card.last4,
+        expMonth: paymentMethod.card.exp_month,
+        expYear: paymentMethod.card.exp_year,
+      };
+    },
+
+    async charge(input: GatewayChargeInput): Promise<GatewayChargeResult> {
+      const { customerId, paymentMethodId } = parseToken(input.token);
+
+      try {
+        const intent = await request<{ id: string; status: string }>(
+          'POST',
+          '/payment_intents',
+          {
+            amount: String(Math.round(roundCurrency(input.amount) * 100)),
+            currency: 'usd',
+            customer: customerId,
+            payment_method: paymentMethodId,
+            description: input.description,
+            off_session: 'true',
+            confirm: 'true',
+          },
+          input.idempotencyKey
+        );
+
+        if (intent.status !== 'succeeded') {
+          // Off-session charges that need the cardholder (e.g. 3-D Secure) can't complete unattended
+          return { approved: false, declineCode: intent.status, declineReason: 'Card requires cardholder action' };
+        }
+
+        return { approved: true, transactionId: intent.id };
+      } catch (error) {
+        if (error instanceof StripeRequestError && error.stripeError.type === 'card_error') {
+          return {
+            approved: false,
+            declineCode: error.stripeError.decline_code ?? error.stripeError.code ?? 'card_declined',
+            declineReason: error.message,
+          };
+        }
+        throw error;
+      }
+    },
+
+    async removeCard(token: string): Promise<void> {
+      const { paymentMethodId } = parseToken(token);
+      await request('POST', `/payment_methods/${encodeURIComponent(paymentMethodId)}/detach`);
+    },
+  };
+}
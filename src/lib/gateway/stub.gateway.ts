@@ -0,0 +1,71 @@
+import { logger } from '@/lib/utils/logger';
+import type {
+  GatewayChargeInput,
+  GatewayChargeResult,
+  GatewayCustomer,
+  PaymentGateway,
+  StoredCard,
+} from '@/types/gateway';
+
+/**
+ * Test card endings that are declined, mirroring the usual gateway test cards
+ */
+const DECLINES: Record<string, { declineCode: string; declineReason: string }> = {
+  '0002': { declineCode: 'card_declined', declineReason: 'Card was declined' },
+  '9995': { declineCode: 'insufficient_funds', declineReason: 'Insufficient funds' },
+  '0069': { declineCode: 'expired_card', declineReason: 'Card has expired' },
+};
+
+// tok_4242 or tok_visa_4242
+const SOURCE_TOKEN_PATTERN = /^tok_(?:([a-z]+)_)?(\d{4})$/;
+const STORED_TOKEN_PATTERN = /^stub_card_([a-z]+)_(\d{4})$/;
+
+/**
+ * Stand-in gateway for development and tests. Nothing leaves the machine and
+ * every outcome follows from the token: cards ending 0002, 9995 or 0069 are
+ * declined and everything else is approved. Charge ids derive from the
+ * idempotency key, so repeating a charge returns the same transaction.
+ */
+export function createStubPaymentGateway(): PaymentGateway {
+  return {
+    name: 'stub',
+
+    async storeCard(sourceToken: string, customer: GatewayCustomer): Promise<StoredCard> {
+      const match = SOURCE_TOKEN_PATTERN.exec(sourceToken);
+      if (!match) {
+        throw new Error('Invalid card token');
+      }
+
+      const brand = match[1] ?? 'visa';
+      const last4 = match[2] ?? '';
+      logger.info({ accountId: customer.accountId, last4 }, 'Card stored (stub gateway)');
+
+      return {
+        token: `stub_card_${brand}_${last4}`,
+        brand,
+        last4,
+        expMonth: 12,
+        expYear: new Date().getFullYear() + 3,
+      };
+    },
+
+    async charge(input: GatewayChargeInput): Promise<GatewayChargeResult> {
+      const match = STORED_TOKEN_PATTERN.exec(input.token);
+      if (!match) {
+        return { approved: false, declineCode: 'invalid_token', declineReason: 'Card is not on file with this gateway' };
+      }
+
+      const decline = DECLINES[match[2] ?? ''];
+      if (decline) {
+        return { approved: false, ...decline };
+      }
+
+      logger.info({ amount: input.amount, idempotencyKey: input.idempotencyKey }, 'Card charged (stub gateway)');
+      return { approved: true, transactionId: `stub_txn_${input.idempotencyKey}` };
+    },
+
+    async removeCard(): Promise<void> {
+      // Nothing is vaulted anywhere
+    },
+  };
+}
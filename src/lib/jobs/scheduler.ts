@@ -0,0 +1,110 @@
+import cron from 'node-cron';
+import { AUTO_RENEWAL, LIFECYCLE, REMINDERS, SMS } from '@/constants/app';
+import { isLivePaymentGatewayConfigured } from '@/lib/gateway';
+import { AutoRenewalService } from '@/lib/services/auto-renewal.service';
+import { LifecycleService } from '@/lib/services/lifecycle.service';
+import { ReminderService } from '@/lib/services/reminder.service';
+import { SmsService } from '@/lib/services/sms.service';
+import { logger } from '@/lib/utils/logger';
+
+let started = false;
+
+/**
+ * Register background jobs. Safe to call more than once - jobs are only scheduled on the first call.
+ */
+export function startScheduler(): void {
+  if (started) return;
+  started = true;
+
+  cron.schedule(
+    LIFECYCLE.CRON_SCHEDULE,
+    async () => {
+      try {
+        await LifecycleService.runLifecycle({ trigger: 'SCHEDULED' });
+      } catch (error) {
+        logger.error({ err: error }, 'Scheduled lifecycle run failed');
+      }
+    },
+    {
+      name: 'account-lifecycle',
+      timezone: LIFECYCLE.TIMEZONE,
+      noOverlap: true,
+    }
+  );
+
+  cron.schedule(
+    REMINDERS.CRON_SCHEDULE,
+    async () => {
+      try {
+        const result = await ReminderService.generateReminders();
+        logger.info(result, 'Reminders generated');
+      } catch (error) {
+        logger.error({ err: error }, 'Scheduled reminder generation failed');
+      }
+    },
+    {
+      name: 'reminder-generation',
+      timezone: LIFECYCLE.TIMEZONE,
+      noOverlap: true,
+    }
+  );
+
+  cron.schedule(
+    SMS.CRON_SCHEDULE,
+    async () => {
+      try {
+        const result = await SmsService.dispatchScheduled();
+        logger.info(result, 'SMS notifications sent');
+      } catch (error) {
+        logger.error({ err: error }, 'Scheduled SMS dispatch failed');
+      }
+    },
+    {
+      name: 'sms-dispatch',
+      timezone: LIFECYCLE.TIMEZONE,
+      noOverlap: true,
+    }
+  );
+
+  // Cards are only charged through a gateway that really collects the money
+  const autoRenewalEnabled = isLivePaymentGatewayConfigured();
+  if (autoRenewalEnabled) {
+    cron.schedule(
+      AUTO_RENEWAL.CRON_SCHEDULE,
+      async () => {
+        try {
+          const result = await AutoRenewalService.runScheduled();
+          logger.info(result, 'Auto-renewals charged');
+        } catch (error) {
+          logger.error({ err: error }, 'Scheduled auto-renewal run failed');
+        }
+      },
+      {
+        name: 'auto-renewal',
+        timezone: LIFECYCLE.TIMEZONE,
+        noOverlap: true,
+      }
+    );
+  }
+
+  logger.info(
+    { schedule: LIFECYCLE.CRON_SCHEDULE, timezone: LIFECYCLE.TIMEZONE },
+    'Account lifecycle job scheduled'
+  );
+  logger.info(
+    { schedule: REMINDERS.CRON_SCHEDULE, timezone: LIFECYCLE.TIMEZONE },
+    'Reminder generation job scheduled'
+  );
+  logger.info(
+    { schedule: SMS.CRON_SCHEDULE, timezone: LIFECYCLE.TIMEZONE },
+    'SMS dispatch job scheduled'
+  );
+  if (autoRenewalEnabled) {
+    logger.info(
+      { schedule: AUTO_RENEWAL.CRON_SCHEDULE, timezone: LIFECYCLE.TIMEZONE },
+      'Auto-renewal job scheduled'
+    );
+  } else {
+    logger.warn('Auto-renewal job not scheduled: no live payment gateway configured (set STRIPE_SECRET_KEY)');
+  }
+}
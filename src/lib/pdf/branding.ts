@@ -0,0 +1,61 @@
+import path from 'path';
+import { Font } from '@react-pdf/renderer';
+import type { StoreSettings } from '@/types/store-settings';
+
+// Font paths (relative to project root)
+const FONTS_PATH = path.join(process.cwd(), 'public/fonts');
+
+// Register Roboto font for body text (PostNet official font)
+Font.register({
+  family: 'Roboto',
+  fonts: [
+    {
+      src: path.join(FONTS_PATH, 'Roboto-Regular.ttf'),
+      fontWeight: 400,
+    },
+    {
+      src: path.join(FONTS_PATH, 'Roboto-Bold.ttf'),
+      fontWeight: 700,
+    },
+    {
+      src: path.join(FONTS_PATH, 'Roboto-Italic.ttf'),
+      fontWeight: 400,
+      fontStyle: 'italic',
+    },
+    {
+      src: path.join(FONTS_PATH, 'Roboto-BoldItalic.ttf'),
+      fontWeight: 700,
+      fontStyle: 'italic',
+    },
+  ],
+});
+
+// Register Roboto Slab font for headings (PostNet official heading font)
+Font.register({
+  family: 'Roboto Slab',
+  src: path.join(FONTS_PATH, 'RobotoSlab-Bold.ttf'),
+  fontWeight: 700,
+});
+
+// PostNet logo path (relative to project root)
+export const LOGO_PATH = path.join(process.cwd(), 'public/images/postnet-logo.png');
+
+// PostNet brand colors (official from postnet.com)
+export const COLORS = {
+  red: '#D11532', // Official PostNet red from logo
+  charcoal: '#2D2D2D',
+  gray: '#6B7280',
+  lightGray: '#F3F4F6',
+  white: '#FFFFFF',
+};
+
+/**
+ * Single-line store address for document headers and footers
+ */
+export function formatStoreAddress(
+  settings: Pick<StoreSettings, 'street1' | 'street2' | 'city' | 'zip'>
+): string {
+  return [settings.street1, settings.street2, `${settings.city} ${settings.zip}`]
+    .filter(Boolean)
+    .join(', ');
+}
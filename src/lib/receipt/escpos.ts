@@ -0,0 +1,182 @@
+import { RECEIPT_PRINTER } from '@/constants/app';
+import type { ReceiptAlign, ReceiptLine } from '@/types/receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// ESC/POS commands used by the receipt (Epson TM series and compatibles)
+const COMMANDS = {
+  init: [ESC, 0x40],
+  align: { left: [ESC, 0x61, 0], center: [ESC, 0x61, 1], right: [ESC, 0x61, 2] },
+  boldOn: [ESC, 0x45, 1],
+  boldOff: [ESC, 0x45, 0],
+  // Double width and height
+  largeOn: [GS, 0x21, 0x11],
+  largeOff: [GS, 0x21, 0x00],
+  // Feed to the cutter, then partial cut
+  cut: [GS, 0x56, 66, 0],
+  // Pulse drawer pin 2 (the cash drawer port on most printers)
+  openDrawer: [ESC, 0x70, 0, 25, 250],
+} as const;
+
+interface RenderOptions {
+  columns?: number;
+  openCashDrawer?: boolean;
+}
+
+/**
+ * Reduce text to printable ASCII - accents are dropped (ñ -> n), anything else becomes "?"
+ */
+export function toPrinterText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * Word-wrap text to the line width, hard-breaking words that are longer than a line
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let remaining = word;
+    while (remaining.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(remaining.slice(0, width));
+      remaining = remaining.slice(width);
+    }
+
+    if (!current) {
+      current = remaining;
+    } else if (current.length + 1 + remaining.length <= width) {
+      current += ` ${remaining}`;
+    } else {
+      lines.push(current);
+      current = remaining;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Left label and right value on one line, wrapping the label when both don't fit
+ */
+function formatRow(left: string, right: string, width: number): string[] {
+  if (left.length + 1 + right.length <= width) {
+    return [left + ' '.repeat(width - left.length - right.length) + right];
+  }
+
+  const labelLines = wrapText(left, width);
+  const last = labelLines[labelLines.length - 1] ?? '';
+  if (last.length + 1 + right.length <= width) {
+    labelLines[labelLines.length - 1] = last + ' '.repeat(width - last.length - right.length) + right;
+    return labelLines;
+  }
+  return [...labelLines, right.padStart(width)];
+}
+
+function alignText(text: string, align: ReceiptAlign, width: number): string {
+  if (align === 'right') return text.padStart(width);
+  if (align === 'center') {
+    const padding = Math.floor((width - text.length) / 2);
+    return ' '.repeat(Math.max(padding, 0)) + text;
+  }
+  return text;
+}
+
+/**
+ * Plain-text rendering of a receipt, laid out exactly as it prints (large text at normal size)
+ */
+export function renderReceiptText(
+  lines: ReceiptLine[],
+  { columns = RECEIPT_PRINTER.COLUMNS }: RenderOptions = {}
+): string {
+  const output: string[] = [];
+
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'text':
+        for (const wrapped of wrapText(toPrinterText(line.text), columns)) {
+          output.push(alignText(wrapped, line.align ?? 'left', columns).trimEnd());
+        }
+        break;
+      case 'row':
+        output.push(...formatRow(toPrinterText(line.left), toPrinterText(line.right), columns));
+        break;
+      case 'divider':
+        output.push('-'.repeat(columns));
+        break;
+      case 'feed':
+        output.push('');
+        break;
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * ESC/POS byte stream for a receipt, ending with a paper cut.
+ * Alignment is done by the printer so large (double-width) text stays centered.
+ */
+export function renderReceiptEscPos(
+  lines: ReceiptLine[],
+  { columns = RECEIPT_PRINTER.COLUMNS, openCashDrawer = false }: RenderOptions = {}
+): Buffer {
+  const bytes: number[] = [...COMMANDS.init];
+
+  const writeLine = (text: string): void => {
+    bytes.push(...Array.from(Buffer.from(text, 'ascii')), LF);
+  };
+
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'text': {
+        const width = line.large ? Math.floor(columns / 2) : columns;
+        bytes.push(...COMMANDS.align[line.align ?? 'left']);
+        if (line.bold) bytes.push(...COMMANDS.boldOn);
+        if (line.large) bytes.push(...COMMANDS.largeOn);
+        for (const wrapped of wrapText(toPrinterText(line.text), width)) {
+          writeLine(wrapped);
+        }
+        if (line.large) bytes.push(...COMMANDS.largeOff);
+        if (line.bold) bytes.push(...COMMANDS.boldOff);
+        bytes.push(...COMMANDS.align.left);
+        break;
+      }
+      case 'row':
+        if (line.bold) bytes.push(...COMMANDS.boldOn);
+        for (const row of formatRow(toPrinterText(line.left), toPrinterText(line.right), columns)) {
+          writeLine(row);
+        }
+        if (line.bold) bytes.push(...COMMANDS.boldOff);
+        break;
+      case 'divider':
+        writeLine('-'.repeat(columns));
+        break;
+      case 'feed':
+        bytes.push(LF);
+        break;
+    }
+  }
+
+  for (let i = 0; i < RECEIPT_PRINTER.FEED_LINES_BEFORE_CUT; i++) {
+    bytes.push(LF);
+  }
+  bytes.push(...COMMANDS.cut);
+
+  if (openCashDrawer) {
+    bytes.push(...COMMANDS.openDrawer);
+  }
+
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,413 @@
+import { addDays } from 'date-fns';
+import type { AccountStatus, MailboxStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ACCOUNT_CLOSURE, AUDIT_LOG } from '@/constants/app';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { AuditLogService } from './audit-log.service';
+import { KeyDepositService } from './key-deposit.service';
+import { generateNoticeByCode } from './notice.service';
+import { StoreSettingsService } from './store-settings.service';
+import type {
+  AccountClosurePreview,
+  CloseAccountInput,
+  CloseAccountOptions,
+  CloseAccountResult,
+  ReopenAccountResult,
+  ReopenCheckInput,
+  ReopenEligibility,
+  UnpaidInvoiceSummary,
+} from '@/types/account-closure';
+import type { SerializedKeyDepositTransaction } from '@/types/key-deposit';
+import type { NoticeGenerationResult } from '@/types/notice';
+import type { AuditContext } from '@/types/audit-log';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+/**
+ * Invoices that still have a balance to collect
+ */
+async function findUnpaidInvoices(
+  accountId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<UnpaidInvoiceSummary[]> {
+  const invoices = await tx.invoice.findMany({
+    where: { accountId, status: { in: ['PENDING', 'PARTIAL'] } },
+    orderBy: { invoiceDate: 'asc' },
+  });
+
+  return invoices.map((invoice) => {
+    const totalAmount = decimalToNumber(invoice.totalAmount);
+    const paidAmount = decimalToNumber(invoice.paidAmount);
+    const creditApplied = decimalToNumber(invoice.creditApplied);
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: formatDateString(invoice.invoiceDate),
+      totalAmount,
+      paidAmount,
+      balanceDue: roundCurrency(Math.max(0, totalAmount - paidAmount - creditApplied)),
+    };
+  });
+}
+
+/**
+ * Service for closing accounts and reopening them within the reopen window
+ */
+export const AccountClosureService = {
+  /**
+   * Why a closed account can't be reopened, or null if it can.
+   * The mailbox must still be free and the window (in days) must not have passed.
+   */
+  getReopenBlocker(account: ReopenCheckInput, windowDays: number, now: Date = new Date()): string | null {
+    if (account.status !== 'CLOSED' || !account.closedAt) {
+      return 'Only closed accounts can be reopened';
+    }
+
+    if (now > addDays(account.closedAt, windowDays)) {
+      return 'The reopen window for this account has passed';
+    }
+
+    if (account.mailboxReassigned || account.mailboxStatus !== 'AVAILABLE') {
+      return 'The mailbox has been reassigned';
+    }
+
+    return null;
+  },
+
+  /**
+   * What closing the account will involve: unpaid invoices, the key deposit and recipients
+   */
+  async getClosurePreview(accountId: string): Promise<AccountClosurePreview | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      include: {
+        _count: { select: { recipients: { where: { removedDate: null } } } },
+      },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const unpaidInvoices = await findUnpaidInvoices(accountId);
+    const depositAmount = decimalToNumber(account.depositPaid);
+
+    return {
+      accountId,
+      status: account.status,
+      unpaidInvoices,
+      unpaidTotal: roundCurrency(unpaidInvoices.reduce((sum, i) => sum + i.balanceDue, 0)),
+      deposit: {
+        status: KeyDepositService.getStatus({ ...account, depositPaid: depositAmount }),
+        amount: depositAmount,
+      },
+      activeRecipientCount: account._count.recipients,
+    };
+  },
+
+  /**
+   * Close an account: write off unpaid invoices (when allowed), settle the key
+   * deposit, release the mailbox and remove recipients, then send the closure
+   * notice. A notice that fails is reported in the result; the account stays closed.
+   */
+  async closeAccount(
+    accountId: string,
+    input: CloseAccountInput,
+    userId: string | null,
+    options: CloseAccountOptions = {}
+  ): Promise<CloseAccountResult> {
+    const closedAt = new Date();
+
+    const { writtenOffInvoices, deposit, removedRecipients } = await prisma.$transaction(async (tx) => {
+      const account = await tx.account.findUnique({
+        where: { id: accountId },
+        include: { mailbox: { select: { id: true, status: true } } },
+      });
+
+      if (!account) {
+        throw new Error('Account not found');
+      }
+
+      if (options.expectedStatus && account.status !== options.expectedStatus) {
+        throw new Error(ACCOUNT_CLOSURE.STATUS_CHANGED_ERROR);
+      }
+
+      if (account.status === 'CLOSED') {
+        throw new Error('Account is already closed');
+      }
+
+      const unpaid = await findUnpaidInvoices(accountId, tx);
+      if (unpaid.length > 0 && !input.writeOffUnpaid) {
+        throw new Error('Account has unpaid invoices');
+      }
+
+      for (const invoice of unpaid) {
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            status: 'WRITTEN_OFF',
+            writtenOffAmount: invoice.balanceDue,
+            writtenOffAt: closedAt,
+            writtenOffById: userId,
+            writeOffReason: ACCOUNT_CLOSURE.WRITE_OFF_REASON,
+          },
+        });
+      }
+
+      await tx.account.update({
+        where: { id: accountId },
+        data: { status: 'CLOSED', closedAt, closureReason: input.reason },
+      });
+
+      await tx.mailbox.update({
+        where: { id: account.mailbox.id },
+        data: { status: 'AVAILABLE' },
+      });
+
+      await tx.accountStatusChange.create({
+        data: {
+          accountId,
+          lifecycleRunId: options.lifecycleRunId ?? null,
+          fromStatus: account.status,
+          toStatus: 'CLOSED',
+          mailboxFromStatus: account.mailbox.status,
+          mailboxToStatus: 'AVAILABLE',
+          reason: options.statusChangeReason ?? (input.notes ? `${input.reason}: ${input.notes}` : input.reason),
+          daysOverdue: options.daysOverdue ?? null,
+          changedById: userId,
+        },
+      });
+
+      let settled: SerializedKeyDepositTransaction | null = null;
+      if (input.deposit) {
+        settled = await KeyDepositService.settleDeposit(accountId, input.deposit, userId, tx);
+      }
+
+      const recipients = await tx.recipient.findMany({
+        where: { accountId, removedDate: null },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+        select: { id: true },
+      });
+      await tx.recipient.updateMany({
+        where: { id: { in: recipients.map((r) => r.id) } },
+        data: { removedDate: closedAt, removalReason: ACCOUNT_CLOSURE.RECIPIENT_REMOVAL_REASON },
+      });
+
+      return { writtenOffInvoices: unpaid, deposit: settled, removedRecipients: recipients };
+    });
+
+    // Addressed to the primary recipient the closure just removed
+    const primaryRecipientId = removedRecipients[0]?.id;
+    let notice: NoticeGenerationResult;
+    try {
+      notice = await generateNoticeByCode(
+        'CLOSURE_NOTICE',
+        accountId,
+        input.noticeDeliveryMethod,
+        userId,
+        primaryRecipientId
+      );
+    } catch (error) {
+      notice = {
+        accountId,
+        mailboxNumber: 0,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    return {
+      accountId,
+      closedAt: closedAt.toISOString(),
+      writtenOffInvoices,
+      writtenOffTotal: roundCurrency(writtenOffInvoices.reduce((sum, i) => sum + i.balanceDue, 0)),
+      deposit,
+      recipientsRemoved: removedRecipients.length,
+      removedRecipientIds: removedRecipients.map((r) => r.id),
+      notice,
+    };
+  },
+
+  /**
+   * Record what a closure did beyond the account and mailbox status:
+   * written-off invoices, removed recipients and the settled deposit
+   */
+  async logClosure(auditContext: AuditContext, result: CloseAccountResult): Promise<void> {
+    const { ENTITY_TYPES } = AUDIT_LOG;
+
+    for (const invoice of result.writtenOffInvoices) {
+      await AuditLogService.log(auditContext, {
+        action: 'UPDATE',
+        entityType: ENTITY_TYPES.INVOICE,
+        entityId: invoice.id,
+        changes: {
+          status: { before: invoice.paidAmount > 0 ? 'PARTIAL' : 'PENDING', after: 'WRITTEN_OFF' },
+          writtenOffAmount: { before: null, after: invoice.balanceDue },
+        },
+      });
+    }
+
+    for (const recipientId of result.removedRecipientIds) {
+      await AuditLogService.log(auditContext, {
+        action: 'UPDATE',
+        entityType: ENTITY_TYPES.RECIPIENT,
+        entityId: recipientId,
+        changes: {
+          removedDate: { before: null, after: result.closedAt },
+          removalReason: { before: null, after: ACCOUNT_CLOSURE.RECIPIENT_REMOVAL_REASON },
+        },
+      });
+    }
+
+    if (result.deposit) {
+      await AuditLogService.logChange(
+        auditContext,
+        ENTITY_TYPES.KEY_DEPOSIT_TRANSACTION,
+        result.deposit.id,
+        null,
+        result.deposit
+      );
+    }
+  },
+
+  /**
+   * Whether a closed account can be reopened, and until when
+   */
+  async getReopenEligibility(accountId: string): Promise<ReopenEligibility | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      include: { mailbox: { select: { status: true } } },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const { reopenWindowDays } = await StoreSettingsService.getSettings();
+    const reason = this.getReopenBlocker(
+      {
+        status: account.status,
+        closedAt: account.closedAt,
+        mailboxStatus: account.mailbox.status,
+        mailboxReassigned: await this.isMailboxReassigned(accountId, account.mailboxId),
+      },
+      reopenWindowDays
+    );
+
+    return {
+      eligible: reason === null,
+      reason,
+      reopenDeadline: account.closedAt
+        ? addDays(account.closedAt, reopenWindowDays).toISOString()
+        : null,
+    };
+  },
+
+  /**
+   * Reopen a closed account: restore its previous status, take the mailbox back
+   * and restore the recipients removed when it closed.
+   */
+  async reopenAccount(accountId: string, userId: string): Promise<ReopenAccountResult> {
+    const { reopenWindowDays } = await StoreSettingsService.getSettings();
+
+    return prisma.$transaction(async (tx) => {
+      const account = await tx.account.findUnique({
+        where: { id: accountId },
+        include: { mailbox: { select: { id: true, status: true } } },
+      });
+
+      if (!account) {
+        throw new Error('Account not found');
+      }
+
+      const blocker = this.getReopenBlocker(
+        {
+          status: account.status,
+          closedAt: account.closedAt,
+          mailboxStatus: account.mailbox.status,
+          mailboxReassigned: await this.isMailboxReassigned(accountId, account.mailboxId, tx),
+        },
+        reopenWindowDays
+      );
+      if (blocker) {
+        throw new Error(blocker);
+      }
+
+      // Go back to the status (and mailbox status) the account had before it closed
+      const closure = await tx.accountStatusChange.findFirst({
+        where: { accountId, toStatus: 'CLOSED' },
+        orderBy: { createdAt: 'desc' },
+      });
+      const status: AccountStatus =
+        closure && closure.fromStatus !== 'CLOSED' ? closure.fromStatus : 'ACTIVE';
+      const mailboxStatus: MailboxStatus =
+        closure?.mailboxFromStatus && closure.mailboxFromStatus !== 'AVAILABLE'
+          ? closure.mailboxFromStatus
+          : status === 'HOLD' ? 'HOLD' : 'ACTIVE';
+
+      await tx.account.update({
+        where: { id: accountId },
+        data: { status, closedAt: null, closureReason: null },
+      });
+
+      await tx.mailbox.update({
+        where: { id: account.mailbox.id },
+        data: { status: mailboxStatus },
+      });
+
+      await tx.accountStatusChange.create({
+        data: {
+          accountId,
+          fromStatus: 'CLOSED',
+          toStatus: status,
+          mailboxFromStatus: account.mailbox.status,
+          mailboxToStatus: mailboxStatus,
+          reason: 'Account reopened',
+          changedById: userId,
+        },
+      });
+
+      // Only recipients removed by the closure come back, not ones removed earlier
+      const restored = await tx.recipient.findMany({
+        where: {
+          accountId,
+          removalReason: ACCOUNT_CLOSURE.RECIPIENT_REMOVAL_REASON,
+          removedDate: { gte: new Date(formatDateString(account.closedAt ?? new Date())) },
+        },
+        select: { id: true },
+      });
+      await tx.recipient.updateMany({
+        where: { id: { in: restored.map((r) => r.id) } },
+        data: { removedDate: null, removalReason: null },
+      });
+
+      return {
+        accountId,
+        status,
+        mailboxStatus,
+        recipientsRestored: restored.length,
+        restoredRecipientIds: restored.map((r) => r.id),
+      };
+    });
+  },
+
+  /**
+   * Whether another account has been opened on the mailbox since this one closed
+   */
+  async isMailboxReassigned(
+    accountId: string,
+    mailboxId: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const others = await tx.account.count({
+      where: { mailboxId, id: { not: accountId }, status: { not: 'CLOSED' } },
+    });
+    return others > 0;
+  },
+};
@@ -0,0 +1,622 @@
+import { addDays } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import type { AccountingExportFormat, CreditAction, InvoiceLineType, PaymentMethod } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ACCOUNTING } from '@/constants/app';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { escapeCsv } from '@/lib/utils/csv';
+import type {
+  AccountingExportPreview,
+  AccountingExportRange,
+  CreateAccountingExportInput,
+  CreditPostingInput,
+  InvoiceAdjustmentPostingInput,
+  InvoiceChargePostingInput,
+  InvoicePostingInput,
+  JournalEntry,
+  JournalLine,
+  JournalSourceType,
+  KeyDepositPostingInput,
+  PaymentPostingInput,
+  SerializedAccountingExport,
+} from '@/types/accounting';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const REVENUE_ACCOUNTS: Record<InvoiceLineType, string> = ACCOUNTING.REVENUE_ACCOUNTS;
+const PAYMENT_ACCOUNTS: Record<PaymentMethod, string> = ACCOUNTING.PAYMENT_ACCOUNTS;
+const CREDIT_ACCOUNTS: Record<CreditAction, string> = ACCOUNTING.CREDIT_ACCOUNTS;
+
+const SOURCE_TYPES: JournalSourceType[] = [
+  'INVOICE',
+  'INVOICE_CHARGE',
+  'PAYMENT',
+  'CREDIT',
+  'KEY_DEPOSIT',
+  'WRITE_OFF',
+  'FEE_WAIVER',
+];
+
+const PAYMENT_TYPE_LABELS = { PAYMENT: 'Payment', VOID: 'Void', REFUND: 'Refund' } as const;
+const PAYMENT_METHOD_LABELS = { CASH: 'Cash', CARD: 'Card', CHECK: 'Check' } as const;
+const CREDIT_ACTION_LABELS = {
+  OVERPAYMENT: 'Overpayment held as credit',
+  APPLIED: 'Credit applied',
+  REVERSED: 'Overpayment credit reversed',
+  PRORATION: 'Proration credit',
+  PLAN_CHANGE: 'Plan change credit',
+} as const;
+
+const IIF_HEADER = [
+  '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+  '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+  '!ENDTRNS',
+];
+
+const CSV_HEADER = ['Date', 'Journal No.', 'Doc No.', 'Account', 'Debit', 'Credit', 'Name', 'Memo'];
+
+const exportInclude = {
+  createdBy: { select: { id: true, username: true } },
+} satisfies Prisma.AccountingExportInclude;
+
+type ExportWithCreator = Prisma.AccountingExportGetPayload<{ include: typeof exportInclude }>;
+
+/**
+ * A journal line from a signed amount: positive debits the account, negative credits it
+ */
+function signedLine(account: string, amount: number, customer: string | null, memo: string): JournalLine {
+  const rounded = roundCurrency(amount);
+  return {
+    account,
+    debit: rounded > 0 ? rounded : 0,
+    credit: rounded < 0 ? -rounded : 0,
+    customer,
+    memo,
+  };
+}
+
+function nonZero(lines: JournalLine[]): JournalLine[] {
+  return lines.filter((line) => line.debit !== 0 || line.credit !== 0);
+}
+
+/**
+ * Keep tabs and line breaks out of IIF fields and CSV cells
+ */
+function cleanField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+/**
+ * MM/DD/YYYY, as QuickBooks Desktop reads IIF dates
+ */
+function formatIifDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Service for exporting payments, deposits and invoice revenue to the bookkeeper's accounting software
+ */
+export const AccountingExportService = {
+  /**
+   * QuickBooks customer name for a mailbox
+   */
+  customerName(mailboxNumber: number): string {
+    return `${ACCOUNTING.CUSTOMER_PREFIX} ${mailboxNumber}`;
+  },
+
+  /**
+   * Receivable for the invoice total against the revenue account of each line.
+   * Discount lines are negative, so they debit the discount account.
+   */
+  buildInvoiceEntry(invoice: InvoicePostingInput): JournalEntry | null {
+    const customer = this.customerName(invoice.mailboxNumber);
+    const total = invoice.lineItems.reduce((sum, item) => sum + item.totalAmount, 0);
+    const lines = nonZero([
+      signedLine(ACCOUNTING.RECEIVABLE_ACCOUNT, total, customer, `Invoice #${invoice.invoiceNumber}`),
+      ...invoice.lineItems.map((item) =>
+        signedLine(REVENUE_ACCOUNTS[item.lineType], -item.totalAmount, customer, item.description)
+      ),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType: 'INVOICE',
+      sourceId: invoice.id,
+      date: formatDateString(invoice.invoiceDate),
+      docNumber: `INV-${invoice.invoiceNumber}`,
+      memo: `Invoice #${invoice.invoiceNumber}`,
+      lines,
+    };
+  },
+
+  /**
+   * Proration charge added to an invoice that an earlier batch already posted
+   */
+  buildInvoiceChargeEntry(charge: InvoiceChargePostingInput): JournalEntry | null {
+    const customer = this.customerName(charge.mailboxNumber);
+    const lines = nonZero([
+      signedLine(ACCOUNTING.RECEIVABLE_ACCOUNT, charge.totalAmount, customer, `Invoice #${charge.invoiceNumber}`),
+      signedLine(REVENUE_ACCOUNTS[charge.lineType], -charge.totalAmount, customer, charge.description),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType: 'INVOICE_CHARGE',
+      sourceId: charge.id,
+      date: formatDateString(charge.createdAt),
+      docNumber: `INV-${charge.invoiceNumber}`,
+      memo: `Added to Invoice #${charge.invoiceNumber}`,
+      lines,
+    };
+  },
+
+  /**
+   * Money received against receivables. Voids and refunds carry negative
+   * amounts, so the same posting reverses them.
+   */
+  buildPaymentEntry(payment: PaymentPostingInput): JournalEntry | null {
+    const customer = this.customerName(payment.mailboxNumber);
+    const memo = `${PAYMENT_TYPE_LABELS[payment.paymentType]} (${PAYMENT_METHOD_LABELS[payment.paymentMethod]})`;
+    const lines = nonZero([
+      signedLine(PAYMENT_ACCOUNTS[payment.paymentMethod], payment.amount, customer, memo),
+      signedLine(ACCOUNTING.RECEIVABLE_ACCOUNT, -payment.amount, customer, memo),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType: 'PAYMENT',
+      sourceId: payment.id,
+      date: formatDateString(payment.paymentDate),
+      docNumber: payment.invoiceNumber ? `INV-${payment.invoiceNumber}` : '',
+      memo,
+      lines,
+    };
+  },
+
+  /**
+   * Account credit moving through the customer credit liability. Overpayments
+   * move out of receivables and applied credit moves back against them;
+   * proration and plan change credits are issued from the credits account.
+   */
+  buildCreditEntry(transaction: CreditPostingInput): JournalEntry | null {
+    const customer = this.customerName(transaction.mailboxNumber);
+    const memo = transaction.invoiceNumber
+      ? `${CREDIT_ACTION_LABELS[transaction.action]} (Invoice #${transaction.invoiceNumber})`
+      : CREDIT_ACTION_LABELS[transaction.action];
+    const lines = nonZero([
+      signedLine(CREDIT_ACCOUNTS[transaction.action], transaction.amount, customer, memo),
+      signedLine(ACCOUNTING.CUSTOMER_CREDIT_ACCOUNT, -transaction.amount, customer, memo),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType: 'CREDIT',
+      sourceId: transaction.id,
+      date: formatDateString(transaction.createdAt),
+      docNumber: transaction.invoiceNumber ? `INV-${transaction.invoiceNumber}` : '',
+      memo,
+      lines,
+    };
+  },
+
+  /**
+   * Key deposit paid back or kept at closing. Collection is already posted
+   * through the KEY_DEPOSIT line of the new-account invoice, and a reversed
+   * collection leaves that line owed in receivables.
+   */
+  buildKeyDepositEntry(transaction: KeyDepositPostingInput): JournalEntry | null {
+    if (transaction.action === 'COLLECTED' || transaction.action === 'REVERSED') return null;
+
+    const customer = this.customerName(transaction.mailboxNumber);
+    const refunded = transaction.action === 'REFUNDED';
+    const memo = refunded ? 'Key deposit refunded' : 'Key deposit forfeited';
+    const amount = Math.abs(transaction.amount);
+    const lines = nonZero([
+      signedLine(REVENUE_ACCOUNTS.KEY_DEPOSIT, amount, customer, memo),
+      signedLine(
+        refunded ? PAYMENT_ACCOUNTS[transaction.paymentMethod ?? 'CASH'] : ACCOUNTING.FORFEITED_DEPOSIT_ACCOUNT,
+        -amount,
+        customer,
+        memo
+      ),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType: 'KEY_DEPOSIT',
+      sourceId: transaction.id,
+      date: formatDateString(transaction.createdAt),
+      docNumber: '',
+      memo,
+      lines,
+    };
+  },
+
+  /**
+   * Unpaid balance written off to bad debt
+   */
+  buildWriteOffEntry(adjustment: InvoiceAdjustmentPostingInput): JournalEntry | null {
+    return this.buildAdjustmentEntry('WRITE_OFF', ACCOUNTING.BAD_DEBT_ACCOUNT, 'Written off', adjustment);
+  },
+
+  /**
+   * Late and reinstatement fees a manager waived after the invoice was exported with them
+   */
+  buildFeeWaiverEntry(adjustment: InvoiceAdjustmentPostingInput): JournalEntry | null {
+    return this.buildAdjustmentEntry('FEE_WAIVER', REVENUE_ACCOUNTS.LATE_FEE, 'Fees waived', adjustment);
+  },
+
+  buildAdjustmentEntry(
+    sourceType: Extract<JournalSourceType, 'WRITE_OFF' | 'FEE_WAIVER'>,
+    account: string,
+    label: string,
+    adjustment: InvoiceAdjustmentPostingInput
+  ): JournalEntry | null {
+    const customer = this.customerName(adjustment.mailboxNumber);
+    const memo = adjustment.reason
+      ? `${label}: ${adjustment.reason}`
+      : `${label} on Invoice #${adjustment.invoiceNumber}`;
+    const lines = nonZero([
+      signedLine(account, adjustment.amount, customer, memo),
+      signedLine(ACCOUNTING.RECEIVABLE_ACCOUNT, -adjustment.amount, customer, memo),
+    ]);
+
+    if (lines.length === 0) return null;
+
+    return {
+      sourceType,
+      sourceId: adjustment.invoiceId,
+      date: formatDateString(adjustment.date),
+      docNumber: `INV-${adjustment.invoiceNumber}`,
+      memo,
+      lines,
+    };
+  },
+
+  /**
+   * QuickBooks Desktop IIF: one general journal transaction per entry.
+   * Amounts are signed, debits positive.
+   */
+  formatIif(entries: JournalEntry[]): string {
+    const rows = [...IIF_HEADER];
+
+    for (const entry of entries) {
+      entry.lines.forEach((line, index) => {
+        rows.push(
+          [
+            index === 0 ? 'TRNS' : 'SPL',
+            '',
+            'GENERAL JOURNAL',
+            formatIifDate(entry.date),
+            cleanField(line.account),
+            cleanField(line.customer ?? ''),
+            (line.debit - line.credit).toFixed(2),
+            cleanField(entry.docNumber),
+            cleanField(line.memo),
+          ].join('\t')
+        );
+      });
+      rows.push('ENDTRNS');
+    }
+
+    return `${rows.join('\r\n')}\r\n`;
+  },
+
+  /**
+   * Generic journal CSV: one row per line, grouped by journal number
+   */
+  formatCsv(entries: JournalEntry[]): string {
+    const rows = [CSV_HEADER.join(',')];
+
+    entries.forEach((entry, index) => {
+      for (const line of entry.lines) {
+        rows.push(
+          [
+            entry.date,
+            String(index + 1),
+            entry.docNumber,
+            line.account,
+            line.debit ? line.debit.toFixed(2) : '',
+            line.credit ? line.credit.toFixed(2) : '',
+            line.customer ?? '',
+            line.memo,
+          ]
+            .map((value) => escapeCsv(cleanField(value)))
+            .join(',')
+        );
+      }
+    });
+
+    return `${rows.join('\r\n')}\r\n`;
+  },
+
+  /**
+   * Journal entries for everything dated in the range, oldest first
+   */
+  async getEntries(range: AccountingExportRange): Promise<JournalEntry[]> {
+    const start = new Date(range.startDate);
+    const endExclusive = addDays(new Date(range.endDate), 1);
+    const dateRange = { gte: start, lt: endExclusive };
+    const mailbox = { select: { mailbox: { select: { number: true } } } };
+
+    const [invoices, charges, payments, credits, deposits, writeOffs, waivers] = await Promise.all([
+      prisma.invoice.findMany({
+        where: { invoiceDate: dateRange },
+        include: { account: mailbox, lineItems: { orderBy: { sortOrder: 'asc' } } },
+      }),
+      prisma.invoiceLineItem.findMany({
+        where: { createdAt: dateRange, invoice: { invoiceType: 'PRORATION' } },
+        include: { invoice: { select: { id: true, invoiceNumber: true, account: mailbox } } },
+      }),
+      prisma.payment.findMany({
+        where: { paymentDate: dateRange },
+        include: { account: mailbox, invoice: { select: { invoiceNumber: true } } },
+      }),
+      prisma.creditTransaction.findMany({
+        where: { createdAt: dateRange },
+        include: { account: mailbox, invoice: { select: { invoiceNumber: true } } },
+      }),
+      prisma.keyDepositTransaction.findMany({
+        where: { action: { in: ['REFUNDED', 'FORFEITED'] }, createdAt: dateRange },
+        include: { account: mailbox },
+      }),
+      prisma.invoice.findMany({
+        where: { writtenOffAt: dateRange, writtenOffAmount: { not: null } },
+        include: { account: mailbox },
+      }),
+      prisma.invoice.findMany({
+        where: { feesWaivedAt: dateRange, feesWaivedAmount: { not: null } },
+        include: { account: mailbox },
+      }),
+    ]);
+
+    const postedInvoices = await prisma.accountingExportItem.findMany({
+      where: {
+        sourceType: 'INVOICE',
+        sourceId: { in: [...waivers.map((invoice) => invoice.id), ...charges.map((line) => line.invoiceId)] },
+      },
+      select: { sourceId: true, export: { select: { createdAt: true } } },
+    });
+    const postedAt = new Map(postedInvoices.map((item) => [item.sourceId, item.export.createdAt]));
+    const postedBefore = (invoiceId: string, date: Date | null): boolean => {
+      const posted = postedAt.get(invoiceId);
+      return posted !== undefined && date !== null && posted < date;
+    };
+
+    // Waiving removes the fee lines, so an invoice first posted after the waiver never carried them
+    const waiversAfterPosting = waivers.filter((invoice) => postedBefore(invoice.id, invoice.feesWaivedAt));
+    // Lines added before the invoice was first posted went out with it
+    const chargesAfterPosting = charges.filter((line) => postedBefore(line.invoiceId, line.createdAt));
+
+    const entries: Array<JournalEntry | null> = [
+      ...invoices.map((invoice) =>
+        this.buildInvoiceEntry({
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceDate: invoice.invoiceDate,
+          mailboxNumber: invoice.account.mailbox.number,
+          lineItems: invoice.lineItems.map((item) => ({
+            lineType: item.lineType,
+            description: item.description,
+            totalAmount: decimalToNumber(item.totalAmount),
+          })),
+        })
+      ),
+      ...chargesAfterPosting.map((line) =>
+        this.buildInvoiceChargeEntry({
+          id: line.id,
+          invoiceNumber: line.invoice.invoiceNumber,
+          lineType: line.lineType,
+          description: line.description,
+          totalAmount: decimalToNumber(line.totalAmount),
+          createdAt: line.createdAt,
+          mailboxNumber: line.invoice.account.mailbox.number,
+        })
+      ),
+      ...payments.map((payment) =>
+        this.buildPaymentEntry({
+          id: payment.id,
+          amount: decimalToNumber(payment.amount),
+          paymentDate: payment.paymentDate,
+          paymentMethod: payment.paymentMethod,
+          paymentType: payment.paymentType,
+          mailboxNumber: payment.account.mailbox.number,
+          invoiceNumber: payment.invoice?.invoiceNumber ?? null,
+        })
+      ),
+      ...credits.map((transaction) =>
+        this.buildCreditEntry({
+          id: transaction.id,
+          action: transaction.action,
+          amount: decimalToNumber(transaction.amount),
+          createdAt: transaction.createdAt,
+          mailboxNumber: transaction.account.mailbox.number,
+          invoiceNumber: transaction.invoice?.invoiceNumber ?? null,
+        })
+      ),
+      ...deposits.map((transaction) =>
+        this.buildKeyDepositEntry({
+          id: transaction.id,
+          action: transaction.action,
+          amount: decimalToNumber(transaction.amount),
+          paymentMethod: transaction.paymentMethod,
+          createdAt: transaction.createdAt,
+          mailboxNumber: transaction.account.mailbox.number,
+        })
+      ),
+      ...writeOffs.map((invoice) =>
+        this.buildWriteOffEntry({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          amount: invoice.writtenOffAmount ? decimalToNumber(invoice.writtenOffAmount) : 0,
+          date: invoice.writtenOffAt ?? invoice.invoiceDate,
+          mailboxNumber: invoice.account.mailbox.number,
+          reason: invoice.writeOffReason,
+        })
+      ),
+      ...waiversAfterPosting.map((invoice) =>
+        this.buildFeeWaiverEntry({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          amount: invoice.feesWaivedAmount ? decimalToNumber(invoice.feesWaivedAmount) : 0,
+          date: invoice.feesWaivedAt ?? invoice.invoiceDate,
+          mailboxNumber: invoice.account.mailbox.number,
+          reason: invoice.feeWaiverReason,
+        })
+      ),
+    ];
+
+    return entries
+      .filter((entry): entry is JournalEntry => entry !== null)
+      .sort((a, b) => a.date.localeCompare(b.date) || SOURCE_TYPES.indexOf(a.sourceType) - SOURCE_TYPES.indexOf(b.sourceType));
+  },
+
+  /**
+   * Split entries into those not yet posted and a count of those earlier batches already posted
+   */
+  async excludeExported(entries: JournalEntry[]): Promise<{ pending: JournalEntry[]; alreadyExported: number }> {
+    const exported = await prisma.accountingExportItem.findMany({
+      where: { sourceId: { in: entries.map((entry) => entry.sourceId) } },
+      select: { sourceType: true, sourceId: true },
+    });
+    const posted = new Set(exported.map((item) => `${item.sourceType}:${item.sourceId}`));
+    const pending = entries.filter((entry) => !posted.has(`${entry.sourceType}:${entry.sourceId}`));
+
+    return { pending, alreadyExported: entries.length - pending.length };
+  },
+
+  /**
+   * What exporting the range would post, leaving out anything already exported
+   */
+  async preview(range: AccountingExportRange): Promise<AccountingExportPreview> {
+    const { pending, alreadyExported } = await this.excludeExported(await this.getEntries(range));
+
+    const counts = Object.fromEntries(SOURCE_TYPES.map((type) => [type, 0])) as Record<JournalSourceType, number>;
+    for (const entry of pending) {
+      counts[entry.sourceType] += 1;
+    }
+
+    return {
+      ...range,
+      counts,
+      entryCount: pending.length,
+      totalDebits: this.sumDebits(pending),
+      alreadyExported,
+    };
+  },
+
+  /**
+   * Export everything in the range that no earlier batch posted, and record it as posted
+   */
+  async createExport(input: CreateAccountingExportInput, userId: string): Promise<SerializedAccountingExport> {
+    if (input.startDate > input.endDate) {
+      throw new Error('Start date must be on or before end date');
+    }
+
+    const { pending } = await this.excludeExported(await this.getEntries(input));
+    if (pending.length === 0) {
+      throw new Error('Nothing new to export for this date range');
+    }
+
+    const content = input.format === 'IIF' ? this.formatIif(pending) : this.formatCsv(pending);
+
+    try {
+      const batch = await prisma.$transaction(async (tx) => {
+        const created = await tx.accountingExport.create({
+          data: {
+            format: input.format,
+            startDate: new Date(input.startDate),
+            endDate: new Date(input.endDate),
+            entryCount: pending.length,
+            totalDebits: this.sumDebits(pending),
+            content,
+            createdById: userId,
+          },
+          include: exportInclude,
+        });
+
+        await tx.accountingExportItem.createMany({
+          data: pending.map((entry) => ({
+            exportId: created.id,
+            sourceType: entry.sourceType,
+            sourceId: entry.sourceId,
+          })),
+        });
+
+        return created;
+      });
+
+      return this.serializeExport(batch);
+    } catch (error) {
+      // Another batch posted some of the same entries while this one was built
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Some entries were exported by another batch, try again');
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Most recent export batches, newest first
+   */
+  async getExports(limit: number = ACCOUNTING.EXPORT_HISTORY_LIMIT): Promise<SerializedAccountingExport[]> {
+    const batches = await prisma.accountingExport.findMany({
+      include: exportInclude,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return batches.map((batch) => this.serializeExport(batch));
+  },
+
+  /**
+   * An export batch's file, for downloading again
+   */
+  async getExportFile(
+    id: string
+  ): Promise<{ filename: string; format: AccountingExportFormat; content: string } | null> {
+    const batch = await prisma.accountingExport.findUnique({ where: { id } });
+    if (!batch) return null;
+
+    return { filename: this.getFilename(batch), format: batch.format, content: batch.content };
+  },
+
+  getFilename(batch: { format: AccountingExportFormat; startDate: Date; endDate: Date }): string {
+    const extension = batch.format === 'IIF' ? 'iif' : 'csv';
+    return `journal-${formatDateString(batch.startDate)}-to-${formatDateString(batch.endDate)}.${extension}`;
+  },
+
+  sumDebits(entries: JournalEntry[]): number {
+    return roundCurrency(
+      entries.reduce((sum, entry) => sum + entry.lines.reduce((lineSum, line) => lineSum + line.debit, 0), 0)
+    );
+  },
+
+  /**
+   * Serialize an export batch for API response. The file itself is downloaded separately.
+   */
+  serializeExport(batch: ExportWithCreator): SerializedAccountingExport {
+    return {
+      id: batch.id,
+      format: batch.format,
+      startDate: formatDateString(batch.startDate),
+      endDate: formatDateString(batch.endDate),
+      entryCount: batch.entryCount,
+      totalDebits: decimalToNumber(batch.totalDebits),
+      filename: this.getFilename(batch),
+      createdBy: batch.createdBy,
+      createdAt: batch.createdAt.toISOString(),
+    };
+  },
+};
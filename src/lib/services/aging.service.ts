@@ -0,0 +1,253 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { AGING_BUCKETS } from '@/constants/status';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { escapeCsv } from '@/lib/utils/csv';
+import type {
+  AgingAccount,
+  AgingBucket,
+  AgingBucketTotals,
+  AgingInvoiceInput,
+  AgingReport,
+} from '@/types/aging';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGING_BUCKET_KEYS = Object.keys(AGING_BUCKETS) as AgingBucket[];
+
+/**
+ * Invoices with a balance still to collect (written-off invoices owe nothing)
+ */
+const openInvoiceWhere = {
+  status: { in: ['PENDING', 'PARTIAL'] },
+} satisfies Prisma.InvoiceWhereInput;
+
+function emptyBuckets(): AgingBucketTotals {
+  return { CURRENT: 0, DAYS_1_30: 0, DAYS_31_60: 0, DAYS_61_90: 0, OVER_90: 0 };
+}
+
+/**
+ * Stored invoice dates are calendar dates at UTC midnight; compare against the
+ * as-of calendar date the same way
+ */
+function toCalendarDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/**
+ * Service for the accounts receivable aging report
+ */
+export const AgingService = {
+  /**
+   * Bucket for a number of days since the invoice date
+   */
+  getBucket(daysOutstanding: number): AgingBucket {
+    for (const key of AGING_BUCKET_KEYS) {
+      const maxDays = AGING_BUCKETS[key].maxDays;
+      if (maxDays === null || daysOutstanding <= maxDays) {
+        return key;
+      }
+    }
+    return 'OVER_90';
+  },
+
+  /**
+   * Group open invoices by account and bucket their balances.
+   * Accounts with the oldest balance come first.
+   */
+  buildReport(invoices: AgingInvoiceInput[], asOf: Date): AgingReport {
+    const asOfDate = toCalendarDate(asOf);
+    const accounts = new Map<string, AgingAccount>();
+    const oldestDays = new Map<string, number>();
+    const buckets = emptyBuckets();
+    let invoiceCount = 0;
+
+    for (const invoice of invoices) {
+      if (invoice.balanceDue <= 0) continue;
+
+      const daysOutstanding = Math.max(
+        0,
+        Math.round((asOfDate.getTime() - invoice.invoiceDate.getTime()) / DAY_MS)
+      );
+      const bucket = this.getBucket(daysOutstanding);
+
+      let account = accounts.get(invoice.accountId);
+      if (!account) {
+        account = {
+          accountId: invoice.accountId,
+          mailboxNumber: invoice.mailboxNumber,
+          accountName: invoice.accountName,
+          accountStatus: invoice.accountStatus,
+          buckets: emptyBuckets(),
+          total: 0,
+          invoices: [],
+        };
+        accounts.set(invoice.accountId, account);
+      }
+
+      account.buckets[bucket] = roundCurrency(account.buckets[bucket] + invoice.balanceDue);
+      account.total = roundCurrency(account.total + invoice.balanceDue);
+      oldestDays.set(invoice.accountId, Math.max(oldestDays.get(invoice.accountId) ?? 0, daysOutstanding));
+      account.invoices.push({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate: formatDateString(invoice.invoiceDate),
+        status: invoice.status,
+        daysOutstanding,
+        bucket,
+        balanceDue: invoice.balanceDue,
+      });
+
+      buckets[bucket] = roundCurrency(buckets[bucket] + invoice.balanceDue);
+      invoiceCount++;
+    }
+
+    const sorted = Array.from(accounts.values()).sort(
+      (a, b) =>
+        (oldestDays.get(b.accountId) ?? 0) - (oldestDays.get(a.accountId) ?? 0) ||
+        b.total - a.total ||
+        a.mailboxNumber - b.mailboxNumber
+    );
+
+    return {
+      asOf: formatDateString(asOfDate),
+      buckets,
+      total: roundCurrency(AGING_BUCKET_KEYS.reduce((sum, key) => sum + buckets[key], 0)),
+      invoiceCount,
+      accounts: sorted.map((account) => ({
+        ...account,
+        invoices: account.invoices.sort((a, b) => b.daysOutstanding - a.daysOutstanding),
+      })),
+    };
+  },
+
+  /**
+   * Open balances as of a date, bucketed by age. Balances are today's, so a
+   * past date would miss invoices paid since then; only today or later can be aged.
+   */
+  async getReport(asOf: Date = new Date()): Promise<AgingReport> {
+    const asOfDate = toCalendarDate(asOf);
+    if (asOfDate < toCalendarDate(new Date())) {
+      throw new Error('Aging can only be reported as of today or a later date');
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { ...openInvoiceWhere, invoiceDate: { lte: asOfDate } },
+      include: {
+        account: {
+          select: {
+            id: true,
+            status: true,
+            mailbox: { select: { number: true } },
+            recipients: {
+              where: { removedDate: null },
+              orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+              take: 1,
+            },
+          },
+        },
+      },
+      orderBy: { invoiceDate: 'asc' },
+    });
+
+    return this.buildReport(
+      invoices.map((invoice) => {
+        const recipient = invoice.account.recipients[0];
+        return {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceDate: invoice.invoiceDate,
+          status: invoice.status,
+          accountId: invoice.account.id,
+          mailboxNumber: invoice.account.mailbox.number,
+          accountName: recipient ? formatRecipientName(recipient) : 'Unknown',
+          accountStatus: invoice.account.status,
+          balanceDue: roundCurrency(
+            Math.max(
+              0,
+              decimalToNumber(invoice.totalAmount) -
+                decimalToNumber(invoice.paidAmount) -
+                decimalToNumber(invoice.creditApplied)
+            )
+          ),
+        };
+      }),
+      asOf
+    );
+  },
+
+  /**
+   * Total still owed across all open invoices
+   */
+  async getOutstandingTotal(): Promise<number> {
+    const result = await prisma.invoice.aggregate({
+      where: openInvoiceWhere,
+      _sum: { totalAmount: true, paidAmount: true, creditApplied: true },
+    });
+
+    const { totalAmount, paidAmount, creditApplied } = result._sum;
+    return roundCurrency(
+      Math.max(
+        0,
+        (totalAmount ? decimalToNumber(totalAmount) : 0) -
+          (paidAmount ? decimalToNumber(paidAmount) : 0) -
+          (creditApplied ? decimalToNumber(creditApplied) : 0)
+      )
+    );
+  },
+
+  /**
+   * Aging by account as CSV, one row per open invoice
+   */
+  formatCsv(report: AgingReport): string {
+    const header = [
+      'Mailbox',
+      'Account',
+      'Account Status',
+      'Invoice',
+      'Invoice Date',
+      'Days Outstanding',
+      ...AGING_BUCKET_KEYS.map((key) => AGING_BUCKETS[key].label),
+      'Total',
+    ];
+
+    const rows = report.accounts.flatMap((account) =>
+      account.invoices.map((invoice) => [
+        String(account.mailboxNumber),
+        account.accountName,
+        account.accountStatus,
+        String(invoice.invoiceNumber),
+        invoice.invoiceDate,
+        String(invoice.daysOutstanding),
+        ...AGING_BUCKET_KEYS.map((key) => (key === invoice.bucket ? invoice.balanceDue.toFixed(2) : '')),
+        invoice.balanceDue.toFixed(2),
+      ])
+    );
+
+    const totals = [
+      'Total',
+      '',
+      '',
+      '',
+      '',
+      '',
+      ...AGING_BUCKET_KEYS.map((key) => report.buckets[key].toFixed(2)),
+      report.total.toFixed(2),
+    ];
+
+    const content = [header, ...rows, totals]
+      .map((row) => row.map(escapeCsv).join(','))
+      .join('\r\n');
+
+    return `${content}\r\n`;
+  },
+};
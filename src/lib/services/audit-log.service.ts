@@ -0,0 +1,311 @@
+import { addDays } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import type { AuditAction, AuditLog } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { AUDIT_LOG } from '@/constants/app';
+import { logger } from '@/lib/utils/logger';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import type { AuditLogQuery } from '@/lib/validations/audit-log';
+import type {
+  AuditChanges,
+  AuditContext,
+  CreateAuditLogInput,
+  SerializedAuditLogEntry,
+} from '@/types/audit-log';
+
+// Any prisma row or serialized object - only its scalar fields are compared
+type AuditRecord = object;
+
+const IGNORED_FIELDS: readonly string[] = AUDIT_LOG.IGNORED_FIELDS;
+const REDACTED_FIELDS: readonly string[] = AUDIT_LOG.REDACTED_FIELDS;
+const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * Normalize a field value into something JSON-safe and comparable
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Prisma.Decimal.isDecimal(value)) return Number(value.toString());
+  return value;
+}
+
+/**
+ * Only scalar fields are audited - nested relations are audited as their own entities
+ */
+function isScalar(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (value instanceof Date || Prisma.Decimal.isDecimal(value)) return true;
+  if (Array.isArray(value)) return value.every((v) => typeof v !== 'object' || v === null);
+  return typeof value !== 'object';
+}
+
+/**
+ * Pull the client IP address from proxy headers
+ */
+function getIpAddress(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0]?.trim() || null;
+  }
+  return headers.get('x-real-ip');
+}
+
+/**
+ * Service for writing the AuditLog trail of who changed what
+ */
+export const AuditLogService = {
+  /**
+   * Build the audit context for a request made by a signed-in user
+   */
+  getContext(
+    request: Request,
+    user: { id: string; username: string }
+  ): AuditContext {
+    return {
+      userId: user.id,
+      userName: user.username,
+      ipAddress: getIpAddress(request.headers),
+      userAgent: request.headers.get('user-agent'),
+    };
+  },
+
+  /**
+   * Audit context for changes made by background jobs
+   */
+  getSystemContext(userId: string | null = null, userName: string = AUDIT_LOG.SYSTEM_USER_NAME): AuditContext {
+    return {
+      userId,
+      userName,
+      ipAddress: null,
+      userAgent: null,
+    };
+  },
+
+  /**
+   * Compute a field-level diff between two versions of a record.
+   * Pass null for `before` on create or `after` on delete.
+   * Returns null when nothing changed.
+   */
+  diff(before: AuditRecord | null, after: AuditRecord | null): AuditChanges | null {
+    const beforeFields = (before ?? {}) as Record<string, unknown>;
+    const afterFields = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditChanges = {};
+    const keys = Object.keys(beforeFields).concat(
+      Object.keys(afterFields).filter((key) => !(key in beforeFields))
+    );
+
+    for (const key of keys) {
+      if (IGNORED_FIELDS.includes(key)) continue;
+
+      const rawBefore = beforeFields[key];
+      const rawAfter = afterFields[key];
+      if (!isScalar(rawBefore) || !isScalar(rawAfter)) continue;
+
+      const beforeValue = normalizeValue(rawBefore);
+      const afterValue = normalizeValue(rawAfter);
+      if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue;
+
+      changes[key] = REDACTED_FIELDS.includes(key)
+        ? { before: REDACTED_VALUE, after: REDACTED_VALUE }
+        : { before: beforeValue, after: afterValue };
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  },
+
+  /**
+   * Write an audit log entry. Failures are logged rather than thrown so an
+   * audit problem never rolls back a change the user has already made.
+   */
+  async log(context: AuditContext, input: CreateAuditLogInput): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: context.userId,
+          userName: context.userName,
+          action: input.action,
+          entityType: input.entityType,
+          entityId: input.entityId,
+          changes: input.changes === null ? Prisma.JsonNull : (input.changes as unknown as Prisma.InputJsonValue),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    } catch (error) {
+      logger.error({ err: error, entityType: input.entityType, entityId: input.entityId }, 'Failed to write audit log');
+    }
+  },
+
+  /**
+   * Diff two versions of a record and log the change.
+   * The action is inferred: no `before` is a create, no `after` is a delete.
+   * Nothing is logged for an update that changed no fields.
+   */
+  async logChange(
+    context: AuditContext,
+    entityType: string,
+    entityId: string,
+    before: AuditRecord | null,
+    after: AuditRecord | null
+  ): Promise<void> {
+    const action: AuditAction = before === null ? 'CREATE' : after === null ? 'DELETE' : 'UPDATE';
+    const changes = this.diff(before, after);
+    if (action === 'UPDATE' && changes === null) return;
+
+    await this.log(context, { action, entityType, entityId, changes });
+  },
+
+  /**
+   * Log changes across a set of records keyed by id - rows only in `before`
+   * were deleted, rows only in `after` were created.
+   */
+  async logCollectionChanges<T extends { id: string }>(
+    context: AuditContext,
+    entityType: string,
+    before: T[],
+    after: T[]
+  ): Promise<void> {
+    for (const row of before) {
+      const updated = after.find((a) => a.id === row.id) ?? null;
+      await this.logChange(context, entityType, row.id, row, updated);
+    }
+
+    for (const row of after) {
+      if (before.some((b) => b.id === row.id)) continue;
+      await this.logChange(context, entityType, row.id, null, row);
+    }
+  },
+
+  /**
+   * Get audit log entries with filtering and pagination, newest first
+   */
+  async getEntries(query: AuditLogQuery): Promise<{
+    data: SerializedAuditLogEntry[];
+    pagination: {
+      page: number;
+      pageSize: number;
+      totalItems: number;
+      totalPages: number;
+    };
+  }> {
+    const { entityType, entityId, accountId, userId, action, startDate, endDate, page, limit } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (entityType) {
+      where.entityType = entityType;
+    }
+
+    if (entityId) {
+      where.entityId = entityId;
+    } else if (accountId) {
+      where.entityId = { in: await this.getAccountEntityIds(accountId) };
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (action) {
+      where.action = action;
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) {
+        where.createdAt.gte = new Date(startDate);
+      }
+      if (endDate) {
+        // End date is inclusive of the whole day
+        where.createdAt.lt = addDays(new Date(endDate), 1);
+      }
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    const labels = await this.getEntityLabels(entries);
+
+    return {
+      data: entries.map((entry) => this.serializeEntry(entry, labels.get(entry.entityId) ?? null)),
+      pagination: {
+        page,
+        pageSize: limit,
+        totalItems: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  },
+
+  /**
+   * Get the ids of an account and every record that belongs to it,
+   * so an account's history includes recipient, contact and billing changes
+   */
+  async getAccountEntityIds(accountId: string): Promise<string[]> {
+    const contactCardFilter = { contactCard: { recipient: { accountId } } };
+    const [recipients, phoneNumbers, emailAddresses, invoices, payments, notices, memos] = await Promise.all([
+      prisma.recipient.findMany({ where: { accountId }, select: { id: true } }),
+      prisma.phoneNumber.findMany({ where: contactCardFilter, select: { id: true } }),
+      prisma.emailAddress.findMany({ where: contactCardFilter, select: { id: true } }),
+      prisma.invoice.findMany({ where: { accountId }, select: { id: true } }),
+      prisma.payment.findMany({ where: { accountId }, select: { id: true } }),
+      prisma.noticeHistory.findMany({ where: { accountId }, select: { id: true } }),
+      prisma.memo.findMany({ where: { accountId }, select: { id: true } }),
+    ]);
+
+    return [accountId].concat(
+      [recipients, phoneNumbers, emailAddresses, invoices, payments, notices, memos].flatMap((rows) =>
+        rows.map((row) => row.id)
+      )
+    );
+  },
+
+  /**
+   * Look up display names for the entities referenced by a page of entries
+   */
+  async getEntityLabels(entries: AuditLog[]): Promise<Map<string, string>> {
+    const { ENTITY_TYPES } = AUDIT_LOG;
+    const idsOfType = (type: string): string[] =>
+      entries.filter((e) => e.entityType === type).map((e) => e.entityId);
+
+    const [recipients, mailboxes, invoices] = await Promise.all([
+      prisma.recipient.findMany({ where: { id: { in: idsOfType(ENTITY_TYPES.RECIPIENT) } } }),
+      prisma.mailbox.findMany({ where: { id: { in: idsOfType(ENTITY_TYPES.MAILBOX) } } }),
+      prisma.invoice.findMany({ where: { id: { in: idsOfType(ENTITY_TYPES.INVOICE) } } }),
+    ]);
+
+    const labels = new Map<string, string>();
+    recipients.forEach((r) => labels.set(r.id, formatRecipientName(r)));
+    mailboxes.forEach((m) => labels.set(m.id, String(m.number)));
+    invoices.forEach((i) => labels.set(i.id, `#${i.invoiceNumber}`));
+    return labels;
+  },
+
+  /**
+   * Serialize an audit log entry for API response
+   */
+  serializeEntry(entry: AuditLog, entityLabel: string | null): SerializedAuditLogEntry {
+    return {
+      id: entry.id,
+      userId: entry.userId,
+      userName: entry.userName,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      entityLabel,
+      changes: entry.changes as AuditChanges | null,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt.toISOString(),
+    };
+  },
+};
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db/prisma';
 import { PricingService } from './pricing.service';
+import { DiscountService } from './discount.service';
 import type { AccountStatus, AuditFlagType } from '@prisma/client';
 import { PRICING } from '@/constants/app';
 import { formatRecipientName } from '@/lib/utils/recipient';
@@ -71,6 +72,9 @@ export const AuditService = {
       orderBy: { mailbox: { number: 'asc' } },
     });
 
+    // Discounted terms are expected to come in under the list rate
+    const termDiscounts = await DiscountService.getCurrentTermDiscounts(accounts);
+
     const results: AuditResult[] = [];
     let accountsFlagged = 0;
     let accountsWithOverride = 0;
@@ -133,8 +137,12 @@ export const AuditService = {
       });
 
       const currentRate = parseFloat(account.currentRate.toString());
-      const expectedRate = breakdown.totalMonthly;
+      const termDiscount = termDiscounts.get(account.id);
+      const expectedRate = breakdown.totalMonthly - (termDiscount?.monthly ?? 0);
       const discrepancy = Math.abs(currentRate - expectedRate);
+      const discountNote = termDiscount
+        ? ` (after ${termDiscount.code} discount of $${termDiscount.monthly.toFixed(2)}/mo)`
+        : '';
 
       // Check for recipient overflow (more than MAX_RECIPIENTS adults)
       const hasRecipientOverflow = adultRecipientCount > MAX_RECIPIENTS;
@@ -167,7 +175,7 @@ export const AuditService = {
           } else {
             auditFlagType = 'OVERCHARGED';
           }
-          auditNote = `Expected: $${expectedRate.toFixed(2)}, Current: $${currentRate.toFixed(2)}. Difference: $${discrepancy.toFixed(2)}`;
+          auditNote = `Expected: $${expectedRate.toFixed(2)}${discountNote}, Current: $${currentRate.toFixed(2)}. Difference: $${discrepancy.toFixed(2)}`;
         }
       } else {
         accountsOk++;
@@ -268,6 +276,7 @@ export const AuditService = {
       orderBy: { mailbox: { number: 'asc' } },
     });
 
+    const termDiscounts = await DiscountService.getCurrentTermDiscounts(accounts);
     const results: AuditResult[] = [];
 
     for (const account of accounts) {
@@ -286,7 +295,7 @@ export const AuditService = {
           minorRecipientCount: analysis.minorCount,
           hasBusinessRecipient: analysis.hasBusinessRecipient,
         });
-        expectedRate = breakdown.totalMonthly;
+        expectedRate = breakdown.totalMonthly - (termDiscounts.get(account.id)?.monthly ?? 0);
         discrepancy = Math.abs(parseFloat(account.currentRate.toString()) - expectedRate);
       }
 
@@ -333,6 +342,7 @@ export const AuditService = {
       orderBy: { mailbox: { number: 'asc' } },
     });
 
+    const termDiscounts = await DiscountService.getCurrentTermDiscounts(accounts);
     const results: AuditResult[] = [];
 
     for (const account of accounts) {
@@ -351,7 +361,7 @@ export const AuditService = {
           minorRecipientCount: analysis.minorCount,
           hasBusinessRecipient: analysis.hasBusinessRecipient,
         });
-        expectedRate = breakdown.totalMonthly;
+        expectedRate = breakdown.totalMonthly - (termDiscounts.get(account.id)?.monthly ?? 0);
         discrepancy = Math.abs(parseFloat(account.currentRate.toString()) - expectedRate);
       }
 
@@ -498,6 +508,7 @@ export const AuditService = {
     }> = [];
 
     let accountsUpdated = 0;
+    const termDiscounts = await DiscountService.getCurrentTermDiscounts(accounts);
 
     for (const account of accounts) {
       const analysis = PricingService.analyzeRecipients(account.recipients);
@@ -509,7 +520,8 @@ export const AuditService = {
       });
 
       const currentRate = parseFloat(account.currentRate.toString());
-      const expectedRate = breakdown.totalMonthly;
+      // Keep the discount the account was given for this term
+      const expectedRate = breakdown.totalMonthly - (termDiscounts.get(account.id)?.monthly ?? 0);
       const discrepancy = Math.abs(currentRate - expectedRate);
 
       // Only consider updates where there's a significant difference
@@ -0,0 +1,583 @@
+import { addDays, differenceInDays, format } from 'date-fns';
+import type { AutoRenewalAttempt, AutoRenewalStatus, CardOnFile, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { AUDIT_LOG, AUTO_RENEWAL } from '@/constants/app';
+import { getPaymentGateway } from '@/lib/gateway';
+import { getEmailTransport } from '@/lib/email';
+import { renderSmsMessage } from '@/lib/sms';
+import { calculateNextRenewalDate, getBusinessDate, formatDateString } from '@/lib/utils/date';
+import { formatCurrency } from '@/lib/utils/currency';
+import { logger } from '@/lib/utils/logger';
+import { AuditLogService } from './audit-log.service';
+import { DrawerService } from './drawer.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+import { PricingService } from './pricing.service';
+import { SmsService } from './sms.service';
+import { StoreSettingsService } from './store-settings.service';
+import type {
+  AccountAutoRenewal,
+  AutoRenewalRunResult,
+  PaymentGateway,
+  SerializedAutoRenewalAttempt,
+  SerializedCardOnFile,
+} from '@/types/gateway';
+import type { SerializedInvoice } from '@/types/invoice';
+import type { SmsMessageType, SmsTemplateVariables } from '@/types/sms';
+import type { StoreSettings } from '@/types/store-settings';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const cardInclude = {
+  createdBy: { select: { id: true, username: true } },
+} satisfies Prisma.CardOnFileInclude;
+
+type CardWithCreator = Prisma.CardOnFileGetPayload<{ include: typeof cardInclude }>;
+
+/**
+ * Account shape needed to price, charge and notify an auto-renewal
+ */
+const candidateInclude = {
+  mailbox: { select: { number: true } },
+  cardOnFile: true,
+  recipients: {
+    where: { removedDate: null },
+    select: {
+      isPrimary: true,
+      recipientType: true,
+      birthdate: true,
+      contactCard: {
+        select: {
+          phoneNumbers: {
+            select: { e164Format: true, isMobile: true, isPrimary: true },
+          },
+          emailAddresses: {
+            select: { email: true, isPrimary: true },
+          },
+        },
+      },
+    },
+  },
+  invoices: {
+    where: { invoiceType: 'RENEWAL', status: { in: ['PENDING', 'PARTIAL'] } },
+    select: { id: true },
+  },
+  autoRenewalAttempts: {
+    select: { renewalDate: true, cardOnFileId: true, invoiceId: true },
+  },
+} satisfies Prisma.AccountInclude;
+
+type CandidateAccount = Prisma.AccountGetPayload<{ include: typeof candidateInclude }>;
+
+/**
+ * What decides whether an account is charged on a given day
+ */
+interface AutoRenewalEligibility {
+  status: CandidateAccount['status'];
+  autoRenew: boolean;
+  nextRenewalDate: Date;
+  cardOnFile: Pick<CardOnFile, 'id' | 'gateway'> | null;
+  invoices: Array<{ id: string }>;
+  autoRenewalAttempts: Array<Pick<AutoRenewalAttempt, 'renewalDate' | 'cardOnFileId' | 'invoiceId'>>;
+}
+
+/**
+ * Service for renewing accounts by charging the card kept on file with the payment gateway
+ */
+export const AutoRenewalService = {
+  /**
+   * Why an account is not charged today, or null if it should be.
+   * Each card is tried once per renewal date; a declined renewal is retried
+   * only after a different card is put on file.
+   */
+  getSkipReason(account: AutoRenewalEligibility, asOfDate: Date, gatewayName: string): string | null {
+    if (account.status !== 'ACTIVE') {
+      return 'Account is not active';
+    }
+
+    if (!account.autoRenew) {
+      return 'Auto-renew is off';
+    }
+
+    const card = account.cardOnFile;
+    if (!card) {
+      return 'No card on file';
+    }
+
+    if (card.gateway !== gatewayName) {
+      return 'Card is on file with a different gateway';
+    }
+
+    if (differenceInDays(account.nextRenewalDate, asOfDate) > AUTO_RENEWAL.DAYS_BEFORE) {
+      return 'Renewal is not due yet';
+    }
+
+    const renewalDate = formatDateString(account.nextRenewalDate);
+    const attempts = account.autoRenewalAttempts.filter(
+      (attempt) => formatDateString(attempt.renewalDate) === renewalDate
+    );
+
+    if (attempts.some((attempt) => attempt.cardOnFileId === card.id)) {
+      return 'Already attempted with this card';
+    }
+
+    // An open renewal started at the counter is left for staff to finish
+    const ownInvoiceIds = new Set(attempts.map((attempt) => attempt.invoiceId));
+    if (account.invoices.some((invoice) => !ownInvoiceIds.has(invoice.id))) {
+      return 'A renewal invoice is already open';
+    }
+
+    return null;
+  },
+
+  /**
+   * Charge every auto-renew account whose renewal date is within AUTO_RENEWAL.DAYS_BEFORE days.
+   * Charges are dated with the store's business day, like payments taken at the counter.
+   */
+  async runScheduled(asOfDate: Date = new Date(getBusinessDate())): Promise<AutoRenewalRunResult> {
+    const gateway = getPaymentGateway();
+    const result: AutoRenewalRunResult = {
+      asOfDate: formatDateString(asOfDate),
+      accountsEvaluated: 0,
+      renewed: 0,
+      declined: 0,
+      failed: 0,
+      skipped: 0,
+    };
+
+    // Payments can't be dated on a closed day, so nothing is charged
+    if (await DrawerService.isDayClosed(asOfDate)) {
+      logger.warn({ asOfDate: result.asOfDate }, 'Auto-renewal skipped: business day is closed');
+      return result;
+    }
+
+    const [accounts, settings] = await Promise.all([
+      prisma.account.findMany({
+        where: {
+          status: 'ACTIVE',
+          autoRenew: true,
+          cardOnFile: { isNot: null },
+          nextRenewalDate: { lte: addDays(asOfDate, AUTO_RENEWAL.DAYS_BEFORE) },
+        },
+        include: candidateInclude,
+      }),
+      StoreSettingsService.getSettings(),
+    ]);
+
+    result.accountsEvaluated = accounts.length;
+
+    for (const account of accounts) {
+      if (this.getSkipReason(account, asOfDate, gateway.name)) {
+        result.skipped += 1;
+        continue;
+      }
+
+      try {
+        const status = await this.renewAccount(account, asOfDate, gateway, settings);
+        if (status === 'APPROVED') result.renewed += 1;
+        else if (status === 'DECLINED') result.declined += 1;
+        else if (status === 'FAILED') result.failed += 1;
+        else result.skipped += 1;
+      } catch (error) {
+        logger.error({ err: error, accountId: account.id }, 'Auto-renewal failed');
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Bill the coming term and charge the card on file for it.
+   * Returns null when there is nothing to charge.
+   */
+  async renewAccount(
+    account: CandidateAccount,
+    asOfDate: Date,
+    gateway: PaymentGateway,
+    settings: StoreSettings
+  ): Promise<AutoRenewalStatus | null> {
+    const card = account.cardOnFile;
+    if (!card) return null;
+
+    const auditContext = AuditLogService.getSystemContext(null, 'Auto-renewal');
+    const periodStart = account.nextRenewalDate;
+    const periodEnd = calculateNextRenewalDate(periodStart, account.renewalPeriod);
+
+    // A renewal whose earlier card was declined keeps its invoice
+    const openInvoiceIds = account.invoices.map((invoice) => invoice.id);
+    const previous = account.autoRenewalAttempts.find(
+      (attempt) => attempt.invoiceId !== null && openInvoiceIds.includes(attempt.invoiceId)
+    );
+
+    let invoice: SerializedInvoice | null;
+    if (previous?.invoiceId) {
+      invoice = await InvoiceService.getInvoice(previous.invoiceId);
+    } else {
+      invoice = await this.createRenewalInvoice(account, asOfDate, periodEnd, card.createdById);
+      if (invoice) {
+        await AuditLogService.logChange(auditContext, AUDIT_LOG.ENTITY_TYPES.INVOICE, invoice.id, null, invoice);
+      }
+    }
+
+    if (!invoice) {
+      logger.info({ accountId: account.id }, 'Auto-renewal skipped: nothing to charge');
+      return null;
+    }
+
+    // Account credit settled the invoice, which renewed the account
+    if (invoice.balanceDue <= 0) {
+      logger.info({ accountId: account.id, invoiceId: invoice.id }, 'Auto-renewal paid from account credit');
+      return null;
+    }
+
+    const amount = invoice.balanceDue;
+    const charge = await gateway.charge({
+      token: card.token,
+      amount,
+      description: `Mailbox #${account.mailbox.number} renewal (Invoice #${invoice.invoiceNumber})`,
+      idempotencyKey: `auto-renewal-${invoice.id}-${card.id}`,
+    });
+
+    const attempt = {
+      accountId: account.id,
+      renewalDate: periodStart,
+      cardOnFileId: card.id,
+      cardLast4: card.last4,
+      amount,
+      invoiceId: invoice.id,
+    };
+
+    if (!charge.approved) {
+      await prisma.autoRenewalAttempt.create({
+        data: { ...attempt, status: 'DECLINED', declineReason: charge.declineReason },
+      });
+      await this.notify(account, 'AUTO_RENEWAL_DECLINED', settings, {
+        date: format(periodStart, 'MMM d, yyyy'),
+        cardLast4: card.last4,
+      });
+      return 'DECLINED';
+    }
+
+    try {
+      const { payment } = await PaymentService.createPayment(
+        {
+          accountId: account.id,
+          invoiceId: invoice.id,
+          amount,
+          paymentDate: formatDateString(asOfDate),
+          paymentMethod: 'CARD',
+          periodStart: formatDateString(periodStart),
+          periodEnd: formatDateString(periodEnd),
+          notes: `Auto-renewal, card ending ${card.last4}`,
+          isRenewal: true,
+          renewalPeriod: account.renewalPeriod,
+          newRate: InvoiceService.getRenewalMonthlyRate(invoice),
+          gatewayTransactionId: charge.transactionId,
+        },
+        card.createdById
+      );
+      await AuditLogService.logChange(auditContext, AUDIT_LOG.ENTITY_TYPES.PAYMENT, payment.id, null, payment);
+
+      await prisma.autoRenewalAttempt.create({
+        data: { ...attempt, status: 'APPROVED', paymentId: payment.id, transactionId: charge.transactionId },
+      });
+    } catch (error) {
+      // The card was charged - keep the transaction id so staff can record or refund it
+      logger.error({ err: error, accountId: account.id, transactionId: charge.transactionId }, 'Auto-renewal charge not recorded');
+      await prisma.autoRenewalAttempt.create({
+        data: {
+          ...attempt,
+          status: 'FAILED',
+          transactionId: charge.transactionId,
+          declineReason: error instanceof Error ? error.message : 'Payment could not be recorded',
+        },
+      });
+      return 'FAILED';
+    }
+
+    await this.notify(account, 'AUTO_RENEWAL_SUCCESS', settings, {
+      date: format(periodEnd, 'MMM d, yyyy'),
+      amount: formatCurrency(amount),
+      cardLast4: card.last4,
+    });
+    return 'APPROVED';
+  },
+
+  /**
+   * Create the RENEWAL invoice for the account's next term at today's rates,
+   * the same way the counter does. Account credit is applied to it, and a term
+   * the credit covers in full is renewed without a charge.
+   */
+  async createRenewalInvoice(
+    account: CandidateAccount,
+    asOfDate: Date,
+    periodEnd: Date,
+    userId: string
+  ): Promise<SerializedInvoice> {
+    const rates = await PricingService.getRatesForDate(asOfDate);
+    if (!rates) {
+      throw new Error('No pricing rates configured');
+    }
+
+    const recipientAnalysis = PricingService.analyzeRecipients(account.recipients);
+    const priceBreakdown = PricingService.calculatePriceBreakdown(rates, {
+      renewalPeriod: account.renewalPeriod,
+      adultRecipientCount: recipientAnalysis.adultCount,
+      minorRecipientCount: recipientAnalysis.minorCount,
+      hasBusinessRecipient: recipientAnalysis.hasBusinessRecipient,
+    });
+
+    return InvoiceService.createInvoiceFromBreakdown(
+      account.id,
+      'RENEWAL',
+      priceBreakdown,
+      {
+        invoiceDate: asOfDate,
+        periodStart: account.nextRenewalDate,
+        periodEnd,
+        renewalPeriod: account.renewalPeriod,
+      },
+      {
+        baseRateMonthly: priceBreakdown.baseRate / priceBreakdown.periodMonths,
+        businessFeeMonthly: Number(rates.businessAccountFee),
+        rate4thAdult: Number(rates.rate4thAdult),
+        rate5thAdult: Number(rates.rate5thAdult),
+        rate6thAdult: Number(rates.rate6thAdult),
+        rate7thAdult: Number(rates.rate7thAdult),
+        minorFeeMonthly: Number(rates.minorRecipientFee),
+      },
+      recipientAnalysis,
+      userId,
+      { overdueFees: PricingService.getOverdueFees(rates, account, asOfDate) }
+    );
+  },
+
+  /**
+   * Tell the customer how the renewal went, by text and email where they have opted in
+   */
+  async notify(
+    account: CandidateAccount,
+    messageType: Extract<SmsMessageType, 'AUTO_RENEWAL_SUCCESS' | 'AUTO_RENEWAL_DECLINED'>,
+    settings: StoreSettings,
+    vars: Omit<SmsTemplateVariables, 'box' | 'branchPhone'>
+  ): Promise<void> {
+    const body = renderSmsMessage(messageType, {
+      ...vars,
+      box: account.mailbox.number,
+      branchPhone: settings.phone,
+    });
+
+    const phone = account.smsEnabled ? SmsService.resolvePhone(account) : null;
+    if (phone) {
+      await SmsService.sendMessage({
+        accountId: account.id,
+        messageType,
+        to: phone,
+        body,
+        referenceDate: account.nextRenewalDate,
+      });
+    }
+
+    const holder = account.recipients.find((r) => r.isPrimary);
+    const emails = holder?.contactCard?.emailAddresses ?? [];
+    const email = (emails.find((e) => e.isPrimary) ?? emails[0])?.email;
+    if (!account.emailEnabled || !email) return;
+
+    try {
+      const transport = await getEmailTransport();
+      await transport.send({
+        from: `"${settings.name.replace(/"/g, '')}" <${settings.email}>`,
+        to: email,
+        replyTo: settings.email,
+        subject:
+          messageType === 'AUTO_RENEWAL_SUCCESS'
+            ? `Mailbox #${account.mailbox.number} renewed`
+            : `Mailbox #${account.mailbox.number} renewal payment declined`,
+        html: `<p>${body}</p>`,
+        attachments: [],
+      });
+    } catch (error) {
+      logger.error({ err: error, accountId: account.id }, 'Auto-renewal email failed');
+    }
+  },
+
+  /**
+   * Get an account's auto-renew setting, card on file and recent attempts
+   */
+  async getAccountAutoRenewal(accountId: string): Promise<AccountAutoRenewal | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: {
+        autoRenew: true,
+        cardOnFile: { include: cardInclude },
+        autoRenewalAttempts: {
+          orderBy: { attemptedAt: 'desc' },
+          take: AUTO_RENEWAL.HISTORY_LIMIT,
+        },
+      },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    return {
+      autoRenew: account.autoRenew,
+      card: account.cardOnFile ? this.serializeCard(account.cardOnFile) : null,
+      attempts: account.autoRenewalAttempts.map((attempt) => this.serializeAttempt(attempt)),
+    };
+  },
+
+  /**
+   * Vault a card with the gateway and keep its token on file, replacing any earlier card
+   */
+  async storeCard(accountId: string, sourceToken: string, userId: string): Promise<SerializedCardOnFile | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      include: { mailbox: { select: { number: true } }, cardOnFile: true },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    if (account.status === 'CLOSED') {
+      throw new Error('Cannot store a card for a closed account');
+    }
+
+    const gateway = getPaymentGateway();
+    const stored = await gateway.storeCard(sourceToken, {
+      accountId,
+      description: `Mailbox #${account.mailbox.number}`,
+    });
+
+    // A new row gives the replacement card its own retry of a declined renewal
+    const card = await prisma.$transaction(async (tx) => {
+      if (account.cardOnFile) {
+        await tx.cardOnFile.delete({ where: { id: account.cardOnFile.id } });
+      }
+      return tx.cardOnFile.create({
+        data: {
+          accountId,
+          gateway: gateway.name,
+          token: stored.token,
+          brand: stored.brand,
+          last4: stored.last4,
+          expMonth: stored.expMonth,
+          expYear: stored.expYear,
+          createdById: userId,
+        },
+        include: cardInclude,
+      });
+    });
+
+    if (account.cardOnFile) {
+      await this.removeFromGateway(account.cardOnFile);
+    }
+
+    return this.serializeCard(card);
+  },
+
+  /**
+   * Remove the card on file, which also turns auto-renew off
+   */
+  async removeCard(accountId: string): Promise<SerializedCardOnFile | null> {
+    const card = await prisma.cardOnFile.findUnique({
+      where: { accountId },
+      include: cardInclude,
+    });
+
+    if (!card) {
+      return null;
+    }
+
+    await prisma.$transaction([
+      prisma.cardOnFile.delete({ where: { id: card.id } }),
+      prisma.account.update({ where: { id: accountId }, data: { autoRenew: false } }),
+    ]);
+
+    await this.removeFromGateway(card);
+    return this.serializeCard(card);
+  },
+
+  /**
+   * Ask the gateway to forget a card. Failures are logged - the token is already gone from our records.
+   */
+  async removeFromGateway(card: CardOnFile): Promise<void> {
+    try {
+      const gateway = getPaymentGateway();
+      if (card.gateway !== gateway.name) return;
+
+      await gateway.removeCard(card.token);
+    } catch (error) {
+      logger.warn({ err: error, accountId: card.accountId }, 'Could not remove card from payment gateway');
+    }
+  },
+
+  /**
+   * Turn auto-renew on or off. Turning it on needs a card on file.
+   */
+  async setAutoRenew(accountId: string, autoRenew: boolean): Promise<{ before: boolean; after: boolean } | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { autoRenew: true, status: true, cardOnFile: { select: { id: true } } },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    if (autoRenew && !account.cardOnFile) {
+      throw new Error('A card must be on file to turn on auto-renew');
+    }
+
+    if (autoRenew && account.status === 'CLOSED') {
+      throw new Error('Cannot turn on auto-renew for a closed account');
+    }
+
+    await prisma.account.update({ where: { id: accountId }, data: { autoRenew } });
+    return { before: account.autoRenew, after: autoRenew };
+  },
+
+  /**
+   * Serialize a card on file for API response. The gateway token is never returned.
+   */
+  serializeCard(card: CardWithCreator): SerializedCardOnFile {
+    return {
+      id: card.id,
+      accountId: card.accountId,
+      gateway: card.gateway,
+      brand: card.brand,
+      last4: card.last4,
+      expMonth: card.expMonth,
+      expYear: card.expYear,
+      createdBy: card.createdBy,
+      createdAt: card.createdAt.toISOString(),
+    };
+  },
+
+  /**
+   * Serialize an auto-renewal attempt for API response
+   */
+  serializeAttempt(attempt: AutoRenewalAttempt): SerializedAutoRenewalAttempt {
+    return {
+      id: attempt.id,
+      accountId: attempt.accountId,
+      renewalDate: formatDateString(attempt.renewalDate),
+      status: attempt.status,
+      amount: decimalToNumber(attempt.amount),
+      cardLast4: attempt.cardLast4,
+      invoiceId: attempt.invoiceId,
+      paymentId: attempt.paymentId,
+      transactionId: attempt.transactionId,
+      declineReason: attempt.declineReason,
+      attemptedAt: attempt.attemptedAt.toISOString(),
+    };
+  },
+};
@@ -0,0 +1,243 @@
+import { prisma } from '@/lib/db/prisma';
+import { roundCurrency } from '@/lib/utils/currency';
+import type { CreditAction, Prisma } from '@prisma/client';
+import type { AccountCredit, SerializedCreditTransaction } from '@/types/credit';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const transactionInclude = {
+  invoice: { select: { invoiceNumber: true } },
+  recordedBy: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.CreditTransactionInclude;
+
+type TransactionWithDetails = Prisma.CreditTransactionGetPayload<{
+  include: typeof transactionInclude;
+}>;
+
+/**
+ * Service for the account credit ledger: overpayments in, invoice credits out
+ */
+export const CreditService = {
+  /**
+   * How much has been paid (or credited) beyond an invoice's total
+   */
+  getOverpayment(invoice: { totalAmount: number; paidAmount: number; creditApplied: number }): number {
+    return roundCurrency(
+      Math.max(0, invoice.paidAmount + invoice.creditApplied - invoice.totalAmount)
+    );
+  },
+
+  /**
+   * How much available credit can go toward an invoice's remaining balance
+   */
+  getApplicableCredit(
+    balance: number,
+    invoice: { totalAmount: number; paidAmount: number; creditApplied: number }
+  ): number {
+    const remaining = invoice.totalAmount - invoice.paidAmount - invoice.creditApplied;
+    return roundCurrency(Math.max(0, Math.min(balance, remaining)));
+  },
+
+  /**
+   * Add a signed entry to the ledger and move the account's running balance with it
+   */
+  async record(
+    entry: {
+      accountId: string;
+      action: CreditAction;
+      amount: number;
+      paymentId?: string | null;
+      invoiceId?: string | null;
+      notes?: string | null;
+    },
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const account = await tx.account.update({
+      where: { id: entry.accountId },
+      data: { creditBalance: { increment: entry.amount } },
+      select: { creditBalance: true },
+    });
+
+    await tx.creditTransaction.create({
+      data: {
+        accountId: entry.accountId,
+        action: entry.action,
+        amount: entry.amount,
+        balanceAfter: account.creditBalance,
+        paymentId: entry.paymentId ?? null,
+        invoiceId: entry.invoiceId ?? null,
+        notes: entry.notes ?? null,
+        recordedById: userId,
+      },
+    });
+  },
+
+  /**
+   * Keep the credit from an invoice's overpayment in step with its payments.
+   * Called after a payment, void, refund or fee waiver changes what the invoice is owed;
+   * records the difference as new credit or a reversal of earlier credit.
+   * Returns the change in credit (negative when credit was reversed).
+   */
+  async syncInvoiceOverpayment(
+    invoiceId: string,
+    paymentId: string | null,
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      select: {
+        accountId: true,
+        totalAmount: true,
+        paidAmount: true,
+        creditApplied: true,
+        account: { select: { creditBalance: true } },
+        creditTransactions: {
+          where: { action: { in: ['OVERPAYMENT', 'REVERSED'] } },
+          select: { amount: true },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return 0;
+    }
+
+    const overpayment = this.getOverpayment({
+      totalAmount: decimalToNumber(invoice.totalAmount),
+      paidAmount: decimalToNumber(invoice.paidAmount),
+      creditApplied: decimalToNumber(invoice.creditApplied),
+    });
+    const alreadyCredited = invoice.creditTransactions.reduce(
+      (sum, t) => sum + decimalToNumber(t.amount),
+      0
+    );
+    let change = roundCurrency(overpayment - alreadyCredited);
+
+    // Credit already spent on later invoices can't be taken back
+    if (change < 0) {
+      change = -Math.min(-change, decimalToNumber(invoice.account.creditBalance));
+    }
+
+    if (change === 0) {
+      return 0;
+    }
+
+    await this.record(
+      {
+        accountId: invoice.accountId,
+        action: change > 0 ? 'OVERPAYMENT' : 'REVERSED',
+        amount: change,
+        paymentId,
+        invoiceId,
+      },
+      userId,
+      tx
+    );
+
+    return change;
+  },
+
+  /**
+   * Put available account credit toward an invoice. Updates the invoice's
+   * credit applied but not its status - the caller recalculates that.
+   * Returns the amount applied.
+   */
+  async applyToInvoice(
+    invoiceId: string,
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      select: {
+        accountId: true,
+        totalAmount: true,
+        paidAmount: true,
+        creditApplied: true,
+        account: { select: { creditBalance: true } },
+      },
+    });
+
+    if (!invoice) {
+      return 0;
+    }
+
+    const amount = this.getApplicableCredit(decimalToNumber(invoice.account.creditBalance), {
+      totalAmount: decimalToNumber(invoice.totalAmount),
+      paidAmount: decimalToNumber(invoice.paidAmount),
+      creditApplied: decimalToNumber(invoice.creditApplied),
+    });
+
+    if (amount <= 0) {
+      return 0;
+    }
+
+    await tx.invoice.update({
+      where: { id: invoiceId },
+      data: { creditApplied: { increment: amount } },
+    });
+
+    await this.record(
+      { accountId: invoice.accountId, action: 'APPLIED', amount: -amount, invoiceId },
+      userId,
+      tx
+    );
+
+    return amount;
+  },
+
+  /**
+   * Get an account's credit balance and its ledger history
+   */
+  async getAccountCredit(accountId: string): Promise<AccountCredit | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: {
+        id: true,
+        creditBalance: true,
+        creditTransactions: {
+          include: transactionInclude,
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    return {
+      accountId: account.id,
+      balance: decimalToNumber(account.creditBalance),
+      transactions: account.creditTransactions.map((t) => this.serializeTransaction(t)),
+    };
+  },
+
+  /**
+   * Serialize ledger entry for API response
+   */
+  serializeTransaction(transaction: TransactionWithDetails): SerializedCreditTransaction {
+    return {
+      id: transaction.id,
+      accountId: transaction.accountId,
+      action: transaction.action,
+      amount: decimalToNumber(transaction.amount),
+      balanceAfter: decimalToNumber(transaction.balanceAfter),
+      paymentId: transaction.paymentId,
+      invoiceId: transaction.invoiceId,
+      invoiceNumber: transaction.invoice?.invoiceNumber ?? null,
+      notes: transaction.notes,
+      recordedBy: transaction.recordedBy,
+      createdAt: transaction.createdAt.toISOString(),
+    };
+  },
+};
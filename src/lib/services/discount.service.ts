@@ -0,0 +1,312 @@
+import type { Prisma, RenewalPeriod } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import type {
+  AppliedDiscount,
+  DiscountContext,
+  DiscountInput,
+  DiscountRules,
+  SerializedDiscount,
+} from '@/types/discount';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const discountInclude = {
+  _count: { select: { redemptions: true } },
+} satisfies Prisma.DiscountInclude;
+
+type DiscountWithUsage = Prisma.DiscountGetPayload<{ include: typeof discountInclude }>;
+
+/**
+ * Map validated input onto discount columns
+ */
+function toDiscountData(input: DiscountInput): Omit<Prisma.DiscountUncheckedCreateInput, 'createdById'> {
+  return {
+    code: input.code.toUpperCase(),
+    name: input.name,
+    description: input.description ?? null,
+    discountType: input.discountType,
+    value: input.value,
+    newAccountsOnly: input.newAccountsOnly,
+    renewalPeriods: input.renewalPeriods,
+    startDate: input.startDate ? new Date(input.startDate) : null,
+    endDate: input.endDate ? new Date(input.endDate) : null,
+    maxUses: input.maxUses ?? null,
+    maxUsesPerAccount: input.maxUsesPerAccount ?? null,
+    isActive: input.isActive,
+  };
+}
+
+/**
+ * Service for promotions and discount codes
+ */
+export const DiscountService = {
+  /**
+   * Why a discount can't be used in this context, or null if it can
+   */
+  getIneligibilityReason(rules: DiscountRules, context: DiscountContext): string | null {
+    const date = formatDateString(context.date);
+
+    if (!rules.isActive) {
+      return 'This discount is no longer active';
+    }
+
+    if (rules.startDate && date < formatDateString(rules.startDate)) {
+      return 'This discount has not started yet';
+    }
+
+    if (rules.endDate && date > formatDateString(rules.endDate)) {
+      return 'This discount has expired';
+    }
+
+    if (rules.newAccountsOnly && !context.isNewAccount) {
+      return 'This discount is only for new accounts';
+    }
+
+    if (rules.renewalPeriods.length > 0 && !rules.renewalPeriods.includes(context.renewalPeriod)) {
+      return 'This discount does not apply to the selected term';
+    }
+
+    if (rules.maxUses !== null && context.timesUsed >= rules.maxUses) {
+      return 'This discount has reached its usage limit';
+    }
+
+    if (rules.maxUsesPerAccount !== null && context.timesUsedByAccount >= rules.maxUsesPerAccount) {
+      return 'This account has already used this discount';
+    }
+
+    return null;
+  },
+
+  /**
+   * Amount a discount takes off a term total. Never more than the total itself.
+   */
+  calculateAmount(rules: Pick<DiscountRules, 'discountType' | 'value'>, termTotal: number): number {
+    const amount = rules.discountType === 'PERCENTAGE'
+      ? termTotal * (rules.value / 100)
+      : rules.value;
+    return roundCurrency(Math.max(0, Math.min(amount, termTotal)));
+  },
+
+  /**
+   * Look up a code and check it against the term it's being used for.
+   * Returns the discount to apply, or the reason it can't be used.
+   */
+  async checkCode(
+    code: string,
+    context: {
+      accountId: string | null;
+      isNewAccount: boolean;
+      renewalPeriod: RenewalPeriod;
+      date: Date;
+      termTotal: number;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<{ discount: AppliedDiscount | null; reason: string | null }> {
+    const discount = await tx.discount.findUnique({
+      where: { code: code.trim().toUpperCase() },
+      include: discountInclude,
+    });
+
+    if (!discount) {
+      return { discount: null, reason: 'Discount code not found' };
+    }
+
+    const timesUsedByAccount = context.accountId
+      ? await tx.discountRedemption.count({
+          where: { discountId: discount.id, accountId: context.accountId },
+        })
+      : 0;
+
+    const reason = this.getIneligibilityReason(
+      { ...discount, value: decimalToNumber(discount.value) },
+      {
+        isNewAccount: context.isNewAccount,
+        renewalPeriod: context.renewalPeriod,
+        date: context.date,
+        timesUsed: discount._count.redemptions,
+        timesUsedByAccount,
+      }
+    );
+    if (reason) {
+      return { discount: null, reason };
+    }
+
+    return {
+      discount: {
+        discountId: discount.id,
+        code: discount.code,
+        description: `Discount: ${discount.name} (${discount.code})`,
+        amount: this.calculateAmount(
+          { discountType: discount.discountType, value: decimalToNumber(discount.value) },
+          context.termTotal
+        ),
+      },
+      reason: null,
+    };
+  },
+
+  /**
+   * Record a discount's use on an invoice. The usage limits are counted again
+   * here, since other redemptions may have landed since the code was checked.
+   */
+  async redeem(
+    discount: AppliedDiscount,
+    accountId: string,
+    invoiceId: string,
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    // Touching the discount locks its row until commit, so concurrent redemptions count each other
+    const limits = await tx.discount.update({
+      where: { id: discount.discountId },
+      data: { updatedAt: new Date() },
+      select: { maxUses: true, maxUsesPerAccount: true },
+    });
+
+    if (limits.maxUses !== null) {
+      const timesUsed = await tx.discountRedemption.count({ where: { discountId: discount.discountId } });
+      if (timesUsed >= limits.maxUses) {
+        throw new Error('This discount has reached its usage limit');
+      }
+    }
+
+    if (limits.maxUsesPerAccount !== null) {
+      const timesUsedByAccount = await tx.discountRedemption.count({
+        where: { discountId: discount.discountId, accountId },
+      });
+      if (timesUsedByAccount >= limits.maxUsesPerAccount) {
+        throw new Error('This account has already used this discount');
+      }
+    }
+
+    await tx.discountRedemption.create({
+      data: {
+        discountId: discount.discountId,
+        accountId,
+        invoiceId,
+        amount: discount.amount,
+        redeemedById: userId,
+      },
+    });
+  },
+
+  /**
+   * Monthly discount each account is getting on its current term (the invoice
+   * ending on its next renewal date), keyed by account ID
+   */
+  async getCurrentTermDiscounts(
+    accounts: Array<{ id: string; nextRenewalDate: Date }>
+  ): Promise<Map<string, { code: string; monthly: number }>> {
+    const redemptions = await prisma.discountRedemption.findMany({
+      where: { accountId: { in: accounts.map((a) => a.id) } },
+      include: {
+        discount: { select: { code: true } },
+        invoice: { select: { periodEnd: true, periodMonths: true } },
+      },
+    });
+
+    const termEnds = new Map(accounts.map((a) => [a.id, formatDateString(a.nextRenewalDate)]));
+    const discounts = new Map<string, { code: string; monthly: number }>();
+
+    for (const redemption of redemptions) {
+      if (formatDateString(redemption.invoice.periodEnd) !== termEnds.get(redemption.accountId)) {
+        continue;
+      }
+      const monthly = decimalToNumber(redemption.amount) / Math.max(1, redemption.invoice.periodMonths);
+      const existing = discounts.get(redemption.accountId);
+      discounts.set(redemption.accountId, {
+        code: existing ? `${existing.code}, ${redemption.discount.code}` : redemption.discount.code,
+        monthly: (existing?.monthly ?? 0) + monthly,
+      });
+    }
+
+    return discounts;
+  },
+
+  /**
+   * List all discounts with how often each has been used
+   */
+  async getDiscounts(): Promise<SerializedDiscount[]> {
+    const discounts = await prisma.discount.findMany({
+      include: discountInclude,
+      orderBy: [{ isActive: 'desc' }, { code: 'asc' }],
+    });
+    return discounts.map((d) => this.serializeDiscount(d));
+  },
+
+  /**
+   * Get a discount by ID
+   */
+  async getDiscount(id: string): Promise<SerializedDiscount | null> {
+    const discount = await prisma.discount.findUnique({
+      where: { id },
+      include: discountInclude,
+    });
+    return discount ? this.serializeDiscount(discount) : null;
+  },
+
+  /**
+   * Create a discount
+   */
+  async createDiscount(input: DiscountInput, userId: string): Promise<SerializedDiscount> {
+    const existing = await prisma.discount.findUnique({ where: { code: input.code.toUpperCase() } });
+    if (existing) {
+      throw new Error('Discount code already exists');
+    }
+
+    const discount = await prisma.discount.create({
+      data: { ...toDiscountData(input), createdById: userId },
+      include: discountInclude,
+    });
+    return this.serializeDiscount(discount);
+  },
+
+  /**
+   * Update a discount. Past redemptions keep the amount they were given.
+   */
+  async updateDiscount(id: string, input: DiscountInput): Promise<SerializedDiscount> {
+    const clash = await prisma.discount.findFirst({
+      where: { code: input.code.toUpperCase(), id: { not: id } },
+    });
+    if (clash) {
+      throw new Error('Discount code already exists');
+    }
+
+    const discount = await prisma.discount.update({
+      where: { id },
+      data: toDiscountData(input),
+      include: discountInclude,
+    });
+    return this.serializeDiscount(discount);
+  },
+
+  /**
+   * Serialize discount for API response
+   */
+  serializeDiscount(discount: DiscountWithUsage): SerializedDiscount {
+    return {
+      id: discount.id,
+      code: discount.code,
+      name: discount.name,
+      description: discount.description,
+      discountType: discount.discountType,
+      value: decimalToNumber(discount.value),
+      newAccountsOnly: discount.newAccountsOnly,
+      renewalPeriods: discount.renewalPeriods,
+      startDate: discount.startDate ? formatDateString(discount.startDate) : null,
+      endDate: discount.endDate ? formatDateString(discount.endDate) : null,
+      maxUses: discount.maxUses,
+      maxUsesPerAccount: discount.maxUsesPerAccount,
+      isActive: discount.isActive,
+      timesUsed: discount._count.redemptions,
+      createdAt: discount.createdAt.toISOString(),
+    };
+  },
+};
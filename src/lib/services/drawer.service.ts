@@ -0,0 +1,253 @@
+import type { DrawerCloseout, PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { roundCurrency } from '@/lib/utils/currency';
+import { getBusinessDate, formatDateString } from '@/lib/utils/date';
+import type {
+  CloseDrawerInput,
+  DrawerDay,
+  DrawerPaymentInput,
+  DrawerSummary,
+  MethodTotals,
+  SerializedDrawerCloseout,
+} from '@/types/drawer';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'CHECK'];
+
+function emptyMethodTotals(): MethodTotals {
+  return {
+    CASH: { count: 0, total: 0 },
+    CARD: { count: 0, total: 0 },
+    CHECK: { count: 0, total: 0 },
+  };
+}
+
+const userSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+} satisfies Prisma.UserSelect;
+
+const closeoutInclude = {
+  closedBy: { select: userSelect },
+} satisfies Prisma.DrawerCloseoutInclude;
+
+type CloseoutWithUser = DrawerCloseout & {
+  closedBy: { id: string; username: string; firstName: string | null; lastName: string | null };
+};
+
+function formatUserName(user: { username: string; firstName: string | null; lastName: string | null }): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+}
+
+/**
+ * Service for closing out the cash drawer at the end of each business day
+ */
+export const DrawerService = {
+  /**
+   * Total a day's payments by method and by the staff member who recorded them.
+   * Voids and refunds are negative amounts, so they net out of their method's total.
+   */
+  summarizePayments(businessDate: string, payments: DrawerPaymentInput[]): DrawerSummary {
+    const byMethod = emptyMethodTotals();
+    const byStaff = new Map<string, DrawerSummary['byStaff'][number]>();
+    let paymentCount = 0;
+    let reversalCount = 0;
+    let reversalTotal = 0;
+
+    for (const payment of payments) {
+      const method = byMethod[payment.paymentMethod];
+      method.count += 1;
+      method.total = roundCurrency(method.total + payment.amount);
+
+      let staff = byStaff.get(payment.recordedBy.id);
+      if (!staff) {
+        staff = {
+          userId: payment.recordedBy.id,
+          name: payment.recordedBy.name,
+          byMethod: emptyMethodTotals(),
+          total: 0,
+        };
+        byStaff.set(payment.recordedBy.id, staff);
+      }
+      const staffMethod = staff.byMethod[payment.paymentMethod];
+      staffMethod.count += 1;
+      staffMethod.total = roundCurrency(staffMethod.total + payment.amount);
+      staff.total = roundCurrency(staff.total + payment.amount);
+
+      if (payment.paymentType === 'PAYMENT') {
+        paymentCount += 1;
+      } else {
+        reversalCount += 1;
+        reversalTotal = roundCurrency(reversalTotal - payment.amount);
+      }
+    }
+
+    return {
+      businessDate,
+      byMethod,
+      byStaff: Array.from(byStaff.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      paymentCount,
+      reversalCount,
+      reversalTotal,
+      total: roundCurrency(PAYMENT_METHODS.reduce((sum, m) => sum + byMethod[m].total, 0)),
+    };
+  },
+
+  /**
+   * Live totals for a business day from the payments recorded on it. Card-on-file
+   * charges settle through the payment gateway rather than the counter terminal,
+   * so they and card refunds of them are left out of the count.
+   */
+  async getSummary(businessDate: string): Promise<DrawerSummary> {
+    const payments = await prisma.payment.findMany({
+      where: {
+        paymentDate: new Date(businessDate),
+        gatewayTransactionId: null,
+        NOT: { paymentMethod: 'CARD', reversesPayment: { is: { gatewayTransactionId: { not: null } } } },
+      },
+      include: { recordedByUser: { select: userSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return this.summarizePayments(
+      businessDate,
+      payments.map((p) => ({
+        amount: decimalToNumber(p.amount),
+        paymentMethod: p.paymentMethod,
+        paymentType: p.paymentType,
+        recordedBy: { id: p.recordedByUser.id, name: formatUserName(p.recordedByUser) },
+      }))
+    );
+  },
+
+  /**
+   * A business day's drawer. Closed days report the totals captured at close.
+   */
+  async getDay(businessDate: string): Promise<DrawerDay> {
+    const closeout = await prisma.drawerCloseout.findUnique({
+      where: { businessDate: new Date(businessDate) },
+      include: closeoutInclude,
+    });
+
+    if (closeout) {
+      const serialized = this.serializeCloseout(closeout);
+      return { businessDate, summary: serialized.summary, closeout: serialized };
+    }
+
+    return { businessDate, summary: await this.getSummary(businessDate), closeout: null };
+  },
+
+  /**
+   * Most recent close-outs, newest first
+   */
+  async getCloseouts(limit: number = 30): Promise<SerializedDrawerCloseout[]> {
+    const closeouts = await prisma.drawerCloseout.findMany({
+      include: closeoutInclude,
+      orderBy: { businessDate: 'desc' },
+      take: limit,
+    });
+    return closeouts.map((c) => this.serializeCloseout(c));
+  },
+
+  /**
+   * Whether the business day has been closed out
+   */
+  async isDayClosed(date: Date, tx: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const closeout = await tx.drawerCloseout.findUnique({
+      where: { businessDate: new Date(formatDateString(date)) },
+      select: { id: true },
+    });
+    return closeout !== null;
+  },
+
+  /**
+   * Throw if payments can no longer be recorded against the given business day
+   */
+  async assertDayOpen(date: Date, tx: Prisma.TransactionClient = prisma): Promise<void> {
+    if (await this.isDayClosed(date, tx)) {
+      throw new Error('Payments cannot be recorded on a closed business day');
+    }
+  },
+
+  /**
+   * Record the counted cash and card batch against the day's expected totals
+   * and lock the day. A note is required when either count is off.
+   */
+  async closeDay(
+    businessDate: string,
+    input: CloseDrawerInput,
+    userId: string
+  ): Promise<SerializedDrawerCloseout> {
+    if (businessDate > getBusinessDate()) {
+      throw new Error('Cannot close a future business day');
+    }
+
+    const existing = await prisma.drawerCloseout.findUnique({
+      where: { businessDate: new Date(businessDate) },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new Error('Business day is already closed');
+    }
+
+    const summary = await this.getSummary(businessDate);
+    const cashVariance = roundCurrency(input.countedCash - summary.byMethod.CASH.total);
+    const cardVariance = roundCurrency(input.countedCard - summary.byMethod.CARD.total);
+    const varianceNote = input.varianceNote?.trim() || null;
+
+    if ((cashVariance !== 0 || cardVariance !== 0) && !varianceNote) {
+      throw new Error('A note is required when the drawer does not balance');
+    }
+
+    const closeout = await prisma.drawerCloseout.create({
+      data: {
+        businessDate: new Date(businessDate),
+        expectedCash: summary.byMethod.CASH.total,
+        countedCash: input.countedCash,
+        expectedCard: summary.byMethod.CARD.total,
+        countedCard: input.countedCard,
+        expectedCheck: summary.byMethod.CHECK.total,
+        varianceNote,
+        summary: summary as unknown as Prisma.InputJsonValue,
+        closedById: userId,
+      },
+      include: closeoutInclude,
+    });
+
+    return this.serializeCloseout(closeout);
+  },
+
+  /**
+   * Serialize a close-out for API response
+   */
+  serializeCloseout(closeout: CloseoutWithUser): SerializedDrawerCloseout {
+    const expectedCash = decimalToNumber(closeout.expectedCash);
+    const countedCash = decimalToNumber(closeout.countedCash);
+    const expectedCard = decimalToNumber(closeout.expectedCard);
+    const countedCard = decimalToNumber(closeout.countedCard);
+
+    return {
+      id: closeout.id,
+      businessDate: formatDateString(closeout.businessDate),
+      expectedCash,
+      countedCash,
+      cashVariance: roundCurrency(countedCash - expectedCash),
+      expectedCard,
+      countedCard,
+      cardVariance: roundCurrency(countedCard - expectedCard),
+      expectedCheck: decimalToNumber(closeout.expectedCheck),
+      varianceNote: closeout.varianceNote,
+      summary: closeout.summary as unknown as DrawerSummary,
+      closedBy: { id: closeout.closedBy.id, name: formatUserName(closeout.closedBy) },
+      closedAt: closeout.closedAt.toISOString(),
+    };
+  },
+};
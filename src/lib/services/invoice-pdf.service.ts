@@ -0,0 +1,625 @@
+import React from 'react';
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  Image,
+  StyleSheet,
+  renderToBuffer,
+} from '@react-pdf/renderer';
+import type { Style } from '@react-pdf/types';
+import { prisma } from '@/lib/db/prisma';
+import { COLORS, LOGO_PATH, formatStoreAddress } from '@/lib/pdf/branding';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_TYPE_LABELS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_TYPE_LABELS,
+  RENEWAL_PERIOD_LABELS,
+} from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import { formatDisplayDate } from '@/lib/utils/date';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+import { StoreSettingsService } from './store-settings.service';
+import type { StoreSettings } from '@/types/store-settings';
+import type { SerializedInvoice, BillingPdf } from '@/types/invoice';
+import type { PaymentWithDetails } from '@/types/payment';
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    paddingBottom: 70,
+    fontFamily: 'Roboto',
+    fontSize: 10,
+    lineHeight: 1.4,
+    color: COLORS.charcoal,
+  },
+  header: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'flex-start' as const,
+    marginBottom: 20,
+    borderBottomWidth: 2,
+    borderBottomColor: COLORS.red,
+    paddingBottom: 15,
+  },
+  logo: {
+    width: 150,
+    height: 22,
+    marginBottom: 8,
+  },
+  storeInfo: {
+    fontSize: 9,
+    color: COLORS.gray,
+  },
+  titleBlock: {
+    alignItems: 'flex-end' as const,
+  },
+  title: {
+    fontFamily: 'Roboto Slab',
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.red,
+    lineHeight: 1.2,
+    marginBottom: 4,
+  },
+  titleMeta: {
+    fontSize: 10,
+    color: COLORS.charcoal,
+  },
+  detailsRow: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    marginBottom: 20,
+  },
+  detailsColumn: {
+    width: '48%',
+  },
+  sectionLabel: {
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: COLORS.gray,
+    textTransform: 'uppercase' as const,
+    marginBottom: 4,
+  },
+  bold: {
+    fontWeight: 'bold',
+  },
+  detailLine: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+  },
+  detailLabel: {
+    color: COLORS.gray,
+  },
+  h2: {
+    fontFamily: 'Roboto Slab',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  tableRow: {
+    flexDirection: 'row' as const,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.lightGray,
+    minHeight: 22,
+    alignItems: 'center' as const,
+  },
+  tableHeader: {
+    backgroundColor: COLORS.lightGray,
+    fontWeight: 'bold',
+  },
+  cellWide: {
+    flex: 3,
+    padding: 5,
+  },
+  cell: {
+    flex: 1,
+    padding: 5,
+  },
+  cellRight: {
+    flex: 1,
+    padding: 5,
+    textAlign: 'right' as const,
+  },
+  totals: {
+    marginTop: 10,
+    marginLeft: 'auto' as const,
+    width: '45%',
+  },
+  totalLine: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    paddingVertical: 2,
+  },
+  balanceLine: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.charcoal,
+    marginTop: 4,
+    paddingTop: 4,
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  amountBox: {
+    marginVertical: 15,
+    padding: 12,
+    backgroundColor: COLORS.lightGray,
+    alignItems: 'center' as const,
+  },
+  amountLabel: {
+    fontSize: 9,
+    color: COLORS.gray,
+    textTransform: 'uppercase' as const,
+  },
+  amount: {
+    fontFamily: 'Roboto Slab',
+    fontSize: 22,
+    fontWeight: 'bold',
+    lineHeight: 1.3,
+  },
+  notes: {
+    marginTop: 15,
+    fontSize: 9,
+    color: COLORS.gray,
+  },
+  thanks: {
+    marginTop: 20,
+    textAlign: 'center' as const,
+    fontStyle: 'italic',
+  },
+  footer: {
+    position: 'absolute' as const,
+    bottom: 30,
+    left: 40,
+    right: 40,
+    textAlign: 'center' as const,
+    fontSize: 9,
+    color: COLORS.gray,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.lightGray,
+    paddingTop: 10,
+  },
+});
+
+/**
+ * Who the document is addressed to
+ */
+interface BillTo {
+  name: string | null;
+  mailboxNumber: number;
+  // Account credit still available after this document
+  creditBalance: number;
+}
+
+/**
+ * Load the mailbox number, primary recipient name and credit balance for an account
+ */
+async function getBillTo(accountId: string): Promise<BillTo | null> {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: {
+      creditBalance: true,
+      mailbox: { select: { number: true } },
+      recipients: {
+        where: { removedDate: null },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+        take: 1,
+      },
+    },
+  });
+
+  if (!account) {
+    return null;
+  }
+
+  const recipient = account.recipients[0];
+  return {
+    name: recipient ? formatRecipientName(recipient) : null,
+    mailboxNumber: account.mailbox.number,
+    creditBalance: Number(account.creditBalance),
+  };
+}
+
+/**
+ * Logo, store contact details and the document title
+ */
+function renderHeader(
+  store: StoreSettings,
+  title: string,
+  meta: string[]
+): React.ReactElement {
+  return React.createElement(
+    View,
+    { style: styles.header },
+    React.createElement(
+      View,
+      null,
+      React.createElement(Image, { style: styles.logo, src: LOGO_PATH }),
+      React.createElement(Text, { style: styles.storeInfo }, formatStoreAddress(store)),
+      React.createElement(Text, { style: styles.storeInfo }, `${store.phone} | ${store.email}`)
+    ),
+    React.createElement(
+      View,
+      { style: styles.titleBlock },
+      React.createElement(Text, { style: styles.title }, title),
+      ...meta.map((line, index) =>
+        React.createElement(Text, { key: index, style: styles.titleMeta }, line)
+      )
+    )
+  );
+}
+
+function renderFooter(store: StoreSettings): React.ReactElement {
+  return React.createElement(
+    View,
+    { style: styles.footer, fixed: true },
+    React.createElement(
+      Text,
+      null,
+      `${store.name} | ${formatStoreAddress(store)} | ${store.phone} | ${store.hours}`
+    )
+  );
+}
+
+function renderBillTo(billTo: BillTo): React.ReactElement {
+  return React.createElement(
+    View,
+    { style: styles.detailsColumn },
+    React.createElement(Text, { style: styles.sectionLabel }, 'Bill To'),
+    billTo.name ? React.createElement(Text, { style: styles.bold }, billTo.name) : null,
+    React.createElement(Text, null, `Mailbox #${billTo.mailboxNumber}`)
+  );
+}
+
+function renderDetailLine(label: string, value: string, key?: number): React.ReactElement {
+  return React.createElement(
+    View,
+    { key, style: styles.detailLine },
+    React.createElement(Text, { style: styles.detailLabel }, label),
+    React.createElement(Text, null, value)
+  );
+}
+
+function renderTableRow(
+  cells: { text: string; style: Style }[],
+  key: number | string,
+  isHeader = false
+): React.ReactElement {
+  return React.createElement(
+    View,
+    {
+      key,
+      style: [styles.tableRow, isHeader ? styles.tableHeader : {}] as Style[],
+    },
+    ...cells.map((cell, index) =>
+      React.createElement(Text, { key: index, style: cell.style }, cell.text)
+    )
+  );
+}
+
+/**
+ * Invoice document: line items, payments applied and balance due
+ */
+function InvoicePdfDocument({
+  invoice,
+  billTo,
+  store,
+}: {
+  invoice: SerializedInvoice;
+  billTo: BillTo;
+  store: StoreSettings;
+}): React.ReactElement {
+  const payments = invoice.payments ?? [];
+
+  return React.createElement(
+    Document,
+    { title: `Invoice #${invoice.invoiceNumber}` },
+    React.createElement(
+      Page,
+      { size: 'LETTER', style: styles.page },
+      renderHeader(store, 'INVOICE', [
+        `Invoice #${invoice.invoiceNumber}`,
+        formatDisplayDate(invoice.invoiceDate),
+      ]),
+      React.createElement(
+        View,
+        { style: styles.detailsRow },
+        renderBillTo(billTo),
+        React.createElement(
+          View,
+          { style: styles.detailsColumn },
+          React.createElement(Text, { style: styles.sectionLabel }, 'Details'),
+          renderDetailLine('Type', INVOICE_TYPE_LABELS[invoice.invoiceType]),
+          renderDetailLine('Term', RENEWAL_PERIOD_LABELS[invoice.renewalPeriod]),
+          renderDetailLine(
+            'Service Period',
+            `${formatDisplayDate(invoice.periodStart)} - ${formatDisplayDate(invoice.periodEnd)}`
+          ),
+          renderDetailLine('Status', INVOICE_STATUS_LABELS[invoice.status])
+        )
+      ),
+      // Line items
+      renderTableRow(
+        [
+          { text: 'Description', style: styles.cellWide },
+          { text: 'Months', style: styles.cellRight },
+          { text: 'Rate / Month', style: styles.cellRight },
+          { text: 'Amount', style: styles.cellRight },
+        ],
+        'header',
+        true
+      ),
+      ...invoice.lineItems.map((item) =>
+        renderTableRow(
+          [
+            {
+              text: item.quantity > 1 ? `${item.description} (x${item.quantity})` : item.description,
+              style: styles.cellWide,
+            },
+            { text: item.months.toString(), style: styles.cellRight },
+            { text: formatCurrency(item.unitPrice), style: styles.cellRight },
+            { text: formatCurrency(item.totalAmount), style: styles.cellRight },
+          ],
+          item.id
+        )
+      ),
+      // Totals
+      React.createElement(
+        View,
+        { style: styles.totals },
+        React.createElement(
+          View,
+          { style: styles.totalLine },
+          React.createElement(Text, null, 'Subtotal'),
+          React.createElement(Text, null, formatCurrency(invoice.subtotal))
+        ),
+        React.createElement(
+          View,
+          { style: styles.totalLine },
+          React.createElement(Text, { style: styles.bold }, 'Total'),
+          React.createElement(Text, { style: styles.bold }, formatCurrency(invoice.totalAmount))
+        ),
+        React.createElement(
+          View,
+          { style: styles.totalLine },
+          React.createElement(Text, null, 'Payments Applied'),
+          React.createElement(Text, null, `-${formatCurrency(invoice.paidAmount)}`)
+        ),
+        invoice.creditApplied > 0
+          ? React.createElement(
+              View,
+              { style: styles.totalLine },
+              React.createElement(Text, null, 'Account Credit Applied'),
+              React.createElement(Text, null, `-${formatCurrency(invoice.creditApplied)}`)
+            )
+          : null,
+        invoice.writtenOffAmount !== null
+          ? React.createElement(
+              View,
+              { style: styles.totalLine },
+              React.createElement(Text, null, 'Written Off'),
+              React.createElement(Text, null, `-${formatCurrency(invoice.writtenOffAmount)}`)
+            )
+          : null,
+        React.createElement(
+          View,
+          { style: styles.balanceLine },
+          React.createElement(Text, null, 'Balance Due'),
+          React.createElement(Text, null, formatCurrency(invoice.balanceDue))
+        )
+      ),
+      // Payments applied
+      payments.length > 0
+        ? React.createElement(
+            View,
+            { wrap: false },
+            React.createElement(Text, { style: styles.h2 }, 'Payments'),
+            renderTableRow(
+              [
+                { text: 'Date', style: styles.cell },
+                { text: 'Method', style: styles.cell },
+                { text: 'Amount', style: styles.cellRight },
+              ],
+              'header',
+              true
+            ),
+            ...payments.map((payment) =>
+              renderTableRow(
+                [
+                  { text: formatDisplayDate(payment.paymentDate), style: styles.cell },
+                  {
+                    text: [
+                      PAYMENT_METHOD_LABELS[payment.paymentMethod as keyof typeof PAYMENT_METHOD_LABELS] ?? payment.paymentMethod,
+                      payment.paymentType !== 'PAYMENT' ? `(${PAYMENT_TYPE_LABELS[payment.paymentType]})` : null,
+                    ].filter(Boolean).join(' '),
+                    style: styles.cell,
+                  },
+                  { text: formatCurrency(payment.amount), style: styles.cellRight },
+                ],
+                payment.id
+              )
+            )
+          )
+        : null,
+      invoice.feesWaivedAmount !== null
+        ? React.createElement(
+            Text,
+            { style: styles.notes },
+            `Late / reinstatement fees of ${formatCurrency(invoice.feesWaivedAmount)} waived`
+          )
+        : null,
+      billTo.creditBalance > 0
+        ? React.createElement(
+            Text,
+            { style: styles.notes },
+            `Account credit available: ${formatCurrency(billTo.creditBalance)} (applied to your next renewal)`
+          )
+        : null,
+      invoice.notes
+        ? React.createElement(Text, { style: styles.notes }, `Notes: ${invoice.notes}`)
+        : null,
+      React.createElement(Text, { style: styles.thanks }, `Thank you for choosing ${store.name}!`),
+      renderFooter(store)
+    )
+  );
+}
+
+/**
+ * Payment receipt: amount received, what it was applied to and what is left
+ */
+function ReceiptPdfDocument({
+  payment,
+  invoice,
+  billTo,
+  store,
+}: {
+  payment: PaymentWithDetails;
+  invoice: SerializedInvoice | null;
+  billTo: BillTo;
+  store: StoreSettings;
+}): React.ReactElement {
+  const receiptNumber = payment.id.slice(0, 8).toUpperCase();
+  const methodLabel = PAYMENT_METHOD_LABELS[payment.paymentMethod];
+  const recordedBy = payment.recordedByUser.firstName ?? payment.recordedByUser.username;
+  const isReversal = payment.paymentType !== 'PAYMENT';
+  const typeLabel = PAYMENT_TYPE_LABELS[payment.paymentType];
+
+  const details: [string, string][] = [
+    ['Payment Method', methodLabel],
+    ['Service Period', `${formatDisplayDate(payment.periodStart)} - ${formatDisplayDate(payment.periodEnd)}`],
+    [isReversal ? 'Approved By' : 'Received By', recordedBy],
+  ];
+  if (payment.reason) {
+    details.push(['Reason', payment.reason]);
+  }
+  if (invoice) {
+    details.push(
+      ['Applied To', `Invoice #${invoice.invoiceNumber}`],
+      ['Invoice Total', formatCurrency(invoice.totalAmount)],
+      ['Total Paid', formatCurrency(invoice.paidAmount)],
+      ['Balance Due', formatCurrency(invoice.balanceDue)]
+    );
+  }
+
+  return React.createElement(
+    Document,
+    { title: `Receipt ${receiptNumber}` },
+    React.createElement(
+      Page,
+      { size: 'LETTER', style: styles.page },
+      renderHeader(store, isReversal ? `${typeLabel.toUpperCase()} RECEIPT` : 'RECEIPT', [
+        `Receipt #${receiptNumber}`,
+        formatDisplayDate(payment.paymentDate),
+      ]),
+      React.createElement(
+        View,
+        { style: styles.detailsRow },
+        renderBillTo(billTo),
+        React.createElement(
+          View,
+          { style: styles.detailsColumn },
+          React.createElement(Text, { style: styles.sectionLabel }, 'Payment'),
+          ...details.map(([label, value], index) => renderDetailLine(label, value, index))
+        )
+      ),
+      React.createElement(
+        View,
+        { style: styles.amountBox },
+        React.createElement(
+          Text,
+          { style: styles.amountLabel },
+          isReversal ? `Amount ${payment.paymentType === 'VOID' ? 'Voided' : 'Refunded'}` : 'Amount Received'
+        ),
+        React.createElement(Text, { style: styles.amount }, formatCurrency(Math.abs(payment.amount)))
+      ),
+      // What the payment covered
+      invoice
+        ? React.createElement(
+            View,
+            null,
+            renderTableRow(
+              [
+                { text: 'Description', style: styles.cellWide },
+                { text: 'Amount', style: styles.cellRight },
+              ],
+              'header',
+              true
+            ),
+            ...invoice.lineItems.map((item) =>
+              renderTableRow(
+                [
+                  { text: item.description, style: styles.cellWide },
+                  { text: formatCurrency(item.totalAmount), style: styles.cellRight },
+                ],
+                item.id
+              )
+            )
+          )
+        : null,
+      payment.notes
+        ? React.createElement(Text, { style: styles.notes }, `Notes: ${payment.notes}`)
+        : null,
+      React.createElement(Text, { style: styles.thanks }, `Thank you for choosing ${store.name}!`),
+      renderFooter(store)
+    )
+  );
+}
+
+/**
+ * Generate the branded PDF for an invoice
+ */
+export async function generateInvoicePdf(invoiceId: string): Promise<BillingPdf | null> {
+  const invoice = await InvoiceService.getInvoice(invoiceId);
+  if (!invoice) {
+    return null;
+  }
+
+  const [billTo, store] = await Promise.all([
+    getBillTo(invoice.accountId),
+    StoreSettingsService.getSettings(),
+  ]);
+
+  if (!billTo) {
+    return null;
+  }
+
+  const buffer = await renderToBuffer(InvoicePdfDocument({ invoice, billTo, store }));
+
+  return {
+    buffer: Buffer.from(buffer),
+    filename: `Invoice_${invoice.invoiceNumber}_Mailbox_${billTo.mailboxNumber}.pdf`,
+  };
+}
+
+/**
+ * Generate the branded receipt PDF for a payment
+ */
+export async function generatePaymentReceiptPdf(paymentId: string): Promise<BillingPdf | null> {
+  const payment = await PaymentService.getPaymentById(paymentId);
+  if (!payment) {
+    return null;
+  }
+
+  const [invoice, billTo, store] = await Promise.all([
+    payment.invoiceId ? InvoiceService.getInvoice(payment.invoiceId) : Promise.resolve(null),
+    getBillTo(payment.accountId),
+    StoreSettingsService.getSettings(),
+  ]);
+
+  if (!billTo) {
+    return null;
+  }
+
+  const buffer = await renderToBuffer(ReceiptPdfDocument({ payment, invoice, billTo, store }));
+
+  return {
+    buffer: Buffer.from(buffer),
+    filename: `Receipt_Mailbox_${billTo.mailboxNumber}_${payment.paymentDate}.pdf`,
+  };
+}
@@ -1,5 +1,16 @@
 import { prisma } from '@/lib/db/prisma';
-import type { Prisma, InvoiceType, InvoiceStatus, RenewalPeriod } from '@prisma/client';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { CreditService } from './credit.service';
+import { DiscountService } from './discount.service';
+import type {
+  Prisma,
+  InvoiceLineType,
+  InvoiceType,
+  InvoiceStatus,
+  PaymentType,
+  RenewalPeriod,
+} from '@prisma/client';
 import type {
   InvoiceWithDetails,
   SerializedInvoice,
@@ -7,8 +18,11 @@ import type {
   SerializedInvoicePayment,
   CreateInvoiceInput,
   CreateInvoiceLineItemInput,
+  FeeWaiverInput,
 } from '@/types/invoice';
-import type { PriceBreakdown } from '@/types/pricing';
+import type { OverdueFee, PriceBreakdown } from '@/types/pricing';
+import type { AppliedDiscount } from '@/types/discount';
+import type { ProrationLine } from '@/types/proration';
 
 /**
  * Convert Prisma Decimal to number
@@ -18,18 +32,18 @@ function decimalToNumber(decimal: Prisma.Decimal): number {
 }
 
 /**
- * Format date to YYYY-MM-DD string
- */
-function formatDateString(date: Date): string {
-  return date.toISOString().split('T')[0] ?? date.toISOString();
-}
-
-/**
- * Determine invoice status based on paid amount
+ * Determine invoice status based on the amount covered (payments plus any
+ * account credit applied). A written-off invoice stays written off unless it
+ * ends up paid in full anyway.
  */
-function calculateInvoiceStatus(totalAmount: number, paidAmount: number): InvoiceStatus {
-  if (paidAmount <= 0) return 'PENDING';
-  if (paidAmount >= totalAmount) return 'PAID';
+function calculateInvoiceStatus(
+  totalAmount: number,
+  coveredAmount: number,
+  writtenOff: boolean = false
+): InvoiceStatus {
+  if (coveredAmount >= totalAmount && coveredAmount > 0) return 'PAID';
+  if (writtenOff) return 'WRITTEN_OFF';
+  if (coveredAmount <= 0) return 'PENDING';
   return 'PARTIAL';
 }
 
@@ -42,19 +56,20 @@ export const InvoiceService = {
    */
   async createInvoice(
     input: CreateInvoiceInput,
-    userId: string | null
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
   ): Promise<SerializedInvoice> {
     // Calculate totals
     const lineItemsWithTotals = input.lineItems.map((item, index) => ({
       ...item,
-      totalAmount: item.unitPrice * item.months * (item.quantity ?? 1),
+      totalAmount: item.amount ?? item.unitPrice * item.months * (item.quantity ?? 1),
       sortOrder: item.sortOrder ?? index,
     }));
 
     const subtotal = lineItemsWithTotals.reduce((sum, item) => sum + item.totalAmount, 0);
     const totalAmount = subtotal;
 
-    const invoice = await prisma.invoice.create({
+    const invoice = await tx.invoice.create({
       data: {
         accountId: input.accountId,
         invoiceDate: input.invoiceDate,
@@ -69,6 +84,12 @@ export const InvoiceService = {
         status: 'PENDING',
         createdById: userId,
         notes: input.notes ?? null,
+        ...(input.feeWaiver && {
+          feesWaivedAmount: input.feeWaiver.amount,
+          feesWaivedAt: new Date(),
+          feesWaivedById: input.feeWaiver.waivedById,
+          feeWaiverReason: input.feeWaiver.reason,
+        }),
         lineItems: {
           create: lineItemsWithTotals.map((item) => ({
             lineType: item.lineType,
@@ -100,7 +121,9 @@ export const InvoiceService = {
   },
 
   /**
-   * Create an invoice from a PriceBreakdown
+   * Create an invoice from a PriceBreakdown, redeem its discount and draw down
+   * account credit. Runs in its own transaction unless one is passed in (e.g. to
+   * also record the payment it is created for).
    */
   async createInvoiceFromBreakdown(
     accountId: string,
@@ -126,8 +149,31 @@ export const InvoiceService = {
       minorCount: number;
       hasBusinessRecipient: boolean;
     },
-    userId: string | null
+    userId: string | null,
+    options: {
+      keyDeposit?: number;
+      overdueFees?: OverdueFee[];
+      feeWaiver?: FeeWaiverInput | undefined;
+      discount?: AppliedDiscount | undefined;
+    } = {},
+    tx?: Prisma.TransactionClient
   ): Promise<SerializedInvoice> {
+    if (!tx) {
+      return prisma.$transaction((client) =>
+        this.createInvoiceFromBreakdown(
+          accountId,
+          invoiceType,
+          breakdown,
+          periodInfo,
+          rates,
+          recipientCounts,
+          userId,
+          options,
+          client
+        )
+      );
+    }
+
     const lineItems: CreateInvoiceLineItemInput[] = [];
     const months = breakdown.periodMonths;
 
@@ -185,7 +231,46 @@ export const InvoiceService = {
       });
     }
 
-    return this.createInvoice(
+    // Refundable key deposit, charged once with the first invoice
+    if (options.keyDeposit && options.keyDeposit > 0) {
+      lineItems.push({
+        lineType: 'KEY_DEPOSIT',
+        description: 'Key Deposit (refundable)',
+        unitPrice: options.keyDeposit,
+        months: 1,
+        sortOrder: 20,
+      });
+    }
+
+    // Promotion or standing discount, as a negative line against the term
+    if (options.discount && options.discount.amount > 0) {
+      lineItems.push({
+        lineType: 'DISCOUNT',
+        description: options.discount.description,
+        unitPrice: -options.discount.amount,
+        months: 1,
+        sortOrder: 15,
+      });
+    }
+
+    // Late / reinstatement fees, unless a manager waived them up front
+    const overdueFees = options.overdueFees ?? [];
+    const waivedAmount = options.feeWaiver
+      ? overdueFees.reduce((sum, fee) => sum + fee.amount, 0)
+      : 0;
+    if (!options.feeWaiver) {
+      overdueFees.forEach((fee, i) => {
+        lineItems.push({
+          lineType: fee.lineType,
+          description: fee.description,
+          unitPrice: fee.amount,
+          months: 1,
+          sortOrder: 30 + i,
+        });
+      });
+    }
+
+    const invoice = await this.createInvoice(
       {
         accountId,
         invoiceDate: periodInfo.invoiceDate,
@@ -195,42 +280,39 @@ export const InvoiceService = {
         periodEnd: periodInfo.periodEnd,
         periodMonths: months,
         lineItems,
+        ...(options.feeWaiver && waivedAmount > 0 && {
+          feeWaiver: { ...options.feeWaiver, amount: waivedAmount },
+        }),
       },
-      userId
+      userId,
+      tx
     );
+
+    if (options.discount && options.discount.amount > 0) {
+      await DiscountService.redeem(options.discount, accountId, invoice.id, userId, tx);
+    }
+
+    // Renewals draw down any credit left over from earlier overpayments
+    return invoiceType === 'RENEWAL' ? this.applyAccountCredit(invoice, userId, tx) : invoice;
   },
 
   /**
-   * Create a prorated invoice when mid-term changes increase the rate
-   * This creates itemized line items for each fee that was added
+   * Create a prorated invoice when mid-term changes increase the rate.
+   * Each added fee gets its own line, priced for the days left in the term.
    */
   async createProrationInvoice(
     accountId: string,
-    _periodStart: Date,
     periodEnd: Date,
     renewalPeriod: RenewalPeriod,
-    addedFees: Array<{
-      lineType: CreateInvoiceLineItemInput['lineType'];
-      description: string;
-      monthlyRate: number;
-    }>,
-    userId: string | null
+    lines: ProrationLine[],
+    daysRemaining: number,
+    userId: string | null,
+    tx?: Prisma.TransactionClient
   ): Promise<SerializedInvoice> {
-    // Calculate prorated months remaining
     const now = new Date();
-    const msPerDay = 1000 * 60 * 60 * 24;
-    const daysRemaining = Math.max(0, Math.ceil((periodEnd.getTime() - now.getTime()) / msPerDay));
-    const proratedMonths = Math.round((daysRemaining / 30) * 100) / 100; // Round to 2 decimal places
-
-    const lineItems: CreateInvoiceLineItemInput[] = addedFees.map((fee, index) => ({
-      lineType: fee.lineType,
-      description: `${fee.description} (Prorated)`,
-      unitPrice: fee.monthlyRate,
-      months: proratedMonths,
-      sortOrder: index,
-    }));
+    const months = lines[0]?.months ?? 0;
 
-    return this.createInvoice(
+    const invoice = await this.createInvoice(
       {
         accountId,
         invoiceDate: now,
@@ -238,12 +320,262 @@ export const InvoiceService = {
         renewalPeriod,
         periodStart: now,
         periodEnd,
-        periodMonths: proratedMonths,
-        lineItems,
+        periodMonths: Math.max(1, Math.ceil(months)),
+        lineItems: lines.map((line, index) => ({
+          lineType: line.lineType,
+          description: `${line.description} (Prorated)`,
+          unitPrice: line.monthlyRate,
+          months: line.months,
+          amount: line.amount,
+          sortOrder: index,
+        })),
         notes: `Prorated charges for ${daysRemaining} days remaining in term`,
       },
-      userId
+      userId,
+      tx
+    );
+
+    return this.applyAccountCredit(invoice, userId, tx);
+  },
+
+  /**
+   * Add further prorated charges to an open proration invoice for the same term.
+   * Runs in its own transaction unless one is passed in.
+   */
+  async addProrationLines(
+    invoiceId: string,
+    lines: ProrationLine[],
+    daysRemaining: number,
+    tx?: Prisma.TransactionClient
+  ): Promise<SerializedInvoice> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.addProrationLines(invoiceId, lines, daysRemaining, client));
+    }
+
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { _count: { select: { lineItems: true } } },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const amount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    await tx.invoiceLineItem.createMany({
+      data: lines.map((line, index) => ({
+        invoiceId,
+        lineType: line.lineType,
+        description: `${line.description} (Prorated, ${daysRemaining} days)`,
+        unitPrice: line.monthlyRate,
+        months: line.months,
+        totalAmount: line.amount,
+        sortOrder: invoice._count.lineItems + index,
+      })),
+    });
+
+    await tx.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        subtotal: { increment: amount },
+        totalAmount: { increment: amount },
+      },
+    });
+
+    return this.updateInvoicePayment(invoiceId, tx);
+  },
+
+  /**
+   * Create a standalone invoice for a one-time fee, such as a returned check fee.
+   * Pass a transaction to bill the fee as part of a larger change.
+   */
+  async createFeeInvoice(
+    account: { id: string; renewalPeriod: RenewalPeriod },
+    fee: { lineType: InvoiceLineType; description: string; amount: number },
+    userId: string | null,
+    tx?: Prisma.TransactionClient
+  ): Promise<SerializedInvoice> {
+    const now = new Date();
+
+    const invoice = await this.createInvoice(
+      {
+        accountId: account.id,
+        invoiceDate: now,
+        invoiceType: 'FEE',
+        renewalPeriod: account.renewalPeriod,
+        periodStart: now,
+        periodEnd: now,
+        periodMonths: 1,
+        lineItems: [
+          { lineType: fee.lineType, description: fee.description, unitPrice: fee.amount, months: 1 },
+        ],
+      },
+      userId,
+      tx
     );
+
+    return this.applyAccountCredit(invoice, userId, tx);
+  },
+
+  /**
+   * Put the account's available credit toward a newly created invoice.
+   * A renewal the credit pays in full is applied to the account.
+   * Runs in its own transaction unless one is passed in.
+   */
+  async applyAccountCredit(
+    invoice: SerializedInvoice,
+    userId: string | null,
+    tx?: Prisma.TransactionClient
+  ): Promise<SerializedInvoice> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.applyAccountCredit(invoice, userId, client));
+    }
+
+    const applied = await CreditService.applyToInvoice(invoice.id, userId, tx);
+    if (applied <= 0) {
+      return invoice;
+    }
+
+    const updated = await this.updateInvoicePayment(invoice.id, tx);
+    if (updated.invoiceType === 'RENEWAL' && updated.status === 'PAID') {
+      await this.applyRenewal(updated, userId, tx);
+    }
+    return updated;
+  },
+
+  /**
+   * Monthly rate a renewal invoice sets for the new term. Late and
+   * reinstatement fees are one-time charges, not part of it.
+   */
+  getRenewalMonthlyRate(
+    invoice: Pick<SerializedInvoice, 'totalAmount' | 'periodMonths' | 'lineItems'>
+  ): number {
+    const oneTimeFees = invoice.lineItems
+      .filter((item) => item.lineType === 'LATE_FEE' || item.lineType === 'REINSTATEMENT_FEE')
+      .reduce((sum, item) => sum + item.totalAmount, 0);
+    return roundCurrency((invoice.totalAmount - oneTimeFees) / invoice.periodMonths);
+  },
+
+  /**
+   * Move the account onto the term a paid RENEWAL invoice covers, releasing a
+   * hold the way a renewal payment does. Used when account credit settles the
+   * invoice with no payment. Returns false if the account is already on that
+   * term or a later one. Terms are compared by start date because a plan change
+   * can end before the current term does.
+   */
+  async applyRenewal(
+    invoice: SerializedInvoice,
+    userId: string | null,
+    tx: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const account = await tx.account.findUnique({
+      where: { id: invoice.accountId },
+      include: { mailbox: true },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const periodStart = new Date(invoice.periodStart);
+    const periodEnd = new Date(invoice.periodEnd);
+    const alreadyApplied =
+      account.startDate.getTime() > periodStart.getTime() ||
+      (account.startDate.getTime() === periodStart.getTime() &&
+        account.nextRenewalDate.getTime() === periodEnd.getTime());
+    if (alreadyApplied) {
+      return false;
+    }
+
+    const wasOnHold = account.status === 'HOLD';
+    await tx.account.update({
+      where: { id: account.id },
+      data: {
+        renewalPeriod: invoice.renewalPeriod,
+        currentRate: this.getRenewalMonthlyRate(invoice),
+        startDate: periodStart,
+        nextRenewalDate: periodEnd,
+        ...(wasOnHold && { status: 'ACTIVE' as const }),
+      },
+    });
+
+    if (wasOnHold) {
+      const mailboxToStatus = account.mailbox.status === 'HOLD' ? 'ACTIVE' : account.mailbox.status;
+      if (mailboxToStatus !== account.mailbox.status) {
+        await tx.mailbox.update({
+          where: { id: account.mailboxId },
+          data: { status: mailboxToStatus },
+        });
+      }
+      await tx.accountStatusChange.create({
+        data: {
+          accountId: account.id,
+          fromStatus: 'HOLD',
+          toStatus: 'ACTIVE',
+          mailboxFromStatus: account.mailbox.status,
+          mailboxToStatus,
+          reason: 'Renewal paid from account credit',
+          changedById: userId,
+        },
+      });
+    }
+
+    return true;
+  },
+
+  /**
+   * Waive the late and reinstatement fees on an unpaid invoice. The fee lines are
+   * removed and the waived amount, manager and reason are recorded on the invoice.
+   * Anything already paid beyond the reduced total becomes account credit.
+   */
+  async waiveFees(
+    invoiceId: string,
+    waiver: FeeWaiverInput
+  ): Promise<SerializedInvoice> {
+    return prisma.$transaction(async (tx) => {
+      const invoice = await tx.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+          lineItems: { where: { lineType: { in: ['LATE_FEE', 'REINSTATEMENT_FEE'] } } },
+        },
+      });
+
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+
+      if (invoice.status !== 'PENDING' && invoice.status !== 'PARTIAL') {
+        throw new Error('Fees can only be waived on unpaid invoices');
+      }
+
+      const amount = invoice.lineItems.reduce(
+        (sum, item) => sum + decimalToNumber(item.totalAmount),
+        0
+      );
+      if (amount <= 0) {
+        throw new Error('Invoice has no fees to waive');
+      }
+
+      await tx.invoiceLineItem.deleteMany({
+        where: { id: { in: invoice.lineItems.map((item) => item.id) } },
+      });
+
+      await tx.invoice.update({
+        where: { id: invoiceId },
+        data: {
+          subtotal: { decrement: amount },
+          totalAmount: { decrement: amount },
+          feesWaivedAmount: amount + (invoice.feesWaivedAmount ? decimalToNumber(invoice.feesWaivedAmount) : 0),
+          feesWaivedAt: new Date(),
+          feesWaivedById: waiver.waivedById,
+          feeWaiverReason: waiver.reason,
+        },
+      });
+
+      await CreditService.syncInvoiceOverpayment(invoiceId, null, waiver.waivedById, tx);
+      return this.updateInvoicePayment(invoiceId, tx);
+    });
   },
 
   /**
@@ -325,11 +657,15 @@ export const InvoiceService = {
   },
 
   /**
-   * Update invoice paid amount and status after a payment is linked
+   * Update invoice paid amount and status after a payment is linked,
+   * voided or refunded (reversal entries are negative, so they net out)
    */
-  async updateInvoicePayment(invoiceId: string): Promise<SerializedInvoice> {
+  async updateInvoicePayment(
+    invoiceId: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<SerializedInvoice> {
     // Calculate total paid from linked payments
-    const payments = await prisma.payment.findMany({
+    const payments = await tx.payment.findMany({
       where: { invoiceId },
       select: { amount: true },
     });
@@ -340,9 +676,9 @@ export const InvoiceService = {
     );
 
     // Get invoice total
-    const invoice = await prisma.invoice.findUnique({
+    const invoice = await tx.invoice.findUnique({
       where: { id: invoiceId },
-      select: { totalAmount: true },
+      select: { totalAmount: true, creditApplied: true, writtenOffAt: true },
     });
 
     if (!invoice) {
@@ -350,10 +686,14 @@ export const InvoiceService = {
     }
 
     const totalAmount = decimalToNumber(invoice.totalAmount);
-    const status = calculateInvoiceStatus(totalAmount, paidAmount);
+    const status = calculateInvoiceStatus(
+      totalAmount,
+      paidAmount + decimalToNumber(invoice.creditApplied),
+      invoice.writtenOffAt !== null
+    );
 
     // Update invoice
-    const updatedInvoice = await prisma.invoice.update({
+    const updatedInvoice = await tx.invoice.update({
       where: { id: invoiceId },
       data: { paidAmount, status },
       include: {
@@ -409,6 +749,7 @@ export const InvoiceService = {
   serializeInvoice(invoice: InvoiceWithDetails): SerializedInvoice {
     const totalAmount = decimalToNumber(invoice.totalAmount);
     const paidAmount = decimalToNumber(invoice.paidAmount);
+    const creditApplied = decimalToNumber(invoice.creditApplied);
 
     return {
       id: invoice.id,
@@ -424,7 +765,16 @@ export const InvoiceService = {
       subtotal: decimalToNumber(invoice.subtotal),
       totalAmount,
       paidAmount,
-      balanceDue: Math.max(0, totalAmount - paidAmount),
+      creditApplied,
+      // Nothing is collectible on a written-off invoice
+      balanceDue:
+        invoice.status === 'WRITTEN_OFF' ? 0 : Math.max(0, totalAmount - paidAmount - creditApplied),
+      writtenOffAmount: invoice.writtenOffAmount ? decimalToNumber(invoice.writtenOffAmount) : null,
+      writtenOffAt: invoice.writtenOffAt?.toISOString() ?? null,
+      writeOffReason: invoice.writeOffReason,
+      feesWaivedAmount: invoice.feesWaivedAmount ? decimalToNumber(invoice.feesWaivedAmount) : null,
+      feesWaivedAt: invoice.feesWaivedAt?.toISOString() ?? null,
+      feeWaiverReason: invoice.feeWaiverReason,
       createdById: invoice.createdById,
       notes: invoice.notes,
       createdAt: invoice.createdAt.toISOString(),
@@ -470,6 +820,7 @@ export const InvoiceService = {
     amount: Prisma.Decimal;
     paymentDate: Date;
     paymentMethod: string;
+    paymentType: PaymentType;
     notes: string | null;
     recordedByUser: {
       id: string;
@@ -483,6 +834,7 @@ export const InvoiceService = {
       amount: decimalToNumber(payment.amount),
       paymentDate: formatDateString(payment.paymentDate),
       paymentMethod: payment.paymentMethod,
+      paymentType: payment.paymentType,
       notes: payment.notes,
       recordedBy: payment.recordedByUser,
     };
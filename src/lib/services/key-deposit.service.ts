@@ -0,0 +1,320 @@
+import { prisma } from '@/lib/db/prisma';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { roundCurrency } from '@/lib/utils/currency';
+import type { KeyDepositAction, Prisma } from '@prisma/client';
+import type {
+  AccountKeyDeposit,
+  KeyDepositStatus,
+  OutstandingKeyDeposit,
+  OutstandingKeyDepositReport,
+  SerializedKeyDepositTransaction,
+  SettleKeyDepositInput,
+} from '@/types/key-deposit';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const transactionInclude = {
+  recordedBy: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.KeyDepositTransactionInclude;
+
+type TransactionWithUser = Prisma.KeyDepositTransactionGetPayload<{
+  include: typeof transactionInclude;
+}>;
+
+/**
+ * Held deposits on accounts that are open or awaiting settlement
+ */
+const heldDepositWhere = {
+  depositPaid: { gt: 0 },
+  depositReturned: false,
+  depositForfeited: false,
+} satisfies Prisma.AccountWhereInput;
+
+/**
+ * Service for collecting, refunding and forfeiting key deposits
+ */
+export const KeyDepositService = {
+  /**
+   * Where an account's deposit stands. `depositPaid` is only set once the
+   * deposit has actually been collected.
+   */
+  getStatus(account: {
+    depositPaid: number;
+    depositReturned: boolean;
+    depositForfeited: boolean;
+  }): KeyDepositStatus {
+    if (account.depositReturned) return 'REFUNDED';
+    if (account.depositForfeited) return 'FORFEITED';
+    return account.depositPaid > 0 ? 'HELD' : 'NONE';
+  },
+
+  /**
+   * Record the deposit as collected once the invoice carrying it is paid in full.
+   * Does nothing if the invoice has no deposit line or it is already collected.
+   */
+  async collectFromInvoice(
+    invoiceId: string,
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        lineItems: { where: { lineType: 'KEY_DEPOSIT' } },
+        keyDepositTransactions: {
+          where: { action: { in: ['COLLECTED', 'REVERSED'] } },
+          select: { action: true },
+        },
+      },
+    });
+
+    if (!invoice || invoice.status !== 'PAID' || this.isCollected(invoice.keyDepositTransactions)) {
+      return false;
+    }
+
+    const amount = roundCurrency(
+      invoice.lineItems.reduce((sum, item) => sum + decimalToNumber(item.totalAmount), 0)
+    );
+    if (amount <= 0) {
+      return false;
+    }
+
+    await tx.keyDepositTransaction.create({
+      data: {
+        accountId: invoice.accountId,
+        action: 'COLLECTED',
+        amount,
+        invoiceId,
+        recordedById: userId,
+      },
+    });
+
+    await tx.account.update({
+      where: { id: invoice.accountId },
+      data: { depositPaid: amount, depositReturned: false, depositForfeited: false },
+    });
+
+    return true;
+  },
+
+  /**
+   * Take back a collection once the invoice carrying the deposit is no longer paid,
+   * e.g. after the payment is voided, refunded or its check returned. A deposit
+   * already refunded or forfeited is left as it was settled.
+   */
+  async reverseCollection(
+    invoiceId: string,
+    userId: string | null,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        account: { select: { depositPaid: true, depositReturned: true, depositForfeited: true } },
+        keyDepositTransactions: {
+          where: { action: { in: ['COLLECTED', 'REVERSED'] } },
+          orderBy: { createdAt: 'desc' },
+          select: { action: true, amount: true },
+        },
+      },
+    });
+
+    if (!invoice || invoice.status === 'PAID' || !this.isCollected(invoice.keyDepositTransactions)) {
+      return false;
+    }
+
+    const account = { ...invoice.account, depositPaid: decimalToNumber(invoice.account.depositPaid) };
+    if (this.getStatus(account) !== 'HELD') {
+      return false;
+    }
+
+    const collected = invoice.keyDepositTransactions.find((t) => t.action === 'COLLECTED');
+
+    await tx.keyDepositTransaction.create({
+      data: {
+        accountId: invoice.accountId,
+        action: 'REVERSED',
+        amount: collected ? decimalToNumber(collected.amount) : account.depositPaid,
+        invoiceId,
+        recordedById: userId,
+      },
+    });
+
+    await tx.account.update({
+      where: { id: invoice.accountId },
+      data: { depositPaid: 0 },
+    });
+
+    return true;
+  },
+
+  /**
+   * Whether an invoice's deposit is currently collected: every reversal
+   * undoes one collection
+   */
+  isCollected(transactions: Array<{ action: KeyDepositAction }>): boolean {
+    const collected = transactions.filter((t) => t.action === 'COLLECTED').length;
+    const reversed = transactions.filter((t) => t.action === 'REVERSED').length;
+    return collected > reversed;
+  },
+
+  /**
+   * Refund or forfeit the deposit on a closed account. Runs in its own
+   * transaction unless one is passed in (e.g. as part of closing the account).
+   */
+  async settleDeposit(
+    accountId: string,
+    input: SettleKeyDepositInput,
+    userId: string | null,
+    tx?: Prisma.TransactionClient
+  ): Promise<SerializedKeyDepositTransaction> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.settleDeposit(accountId, input, userId, client));
+    }
+
+    const account = await tx.account.findUnique({ where: { id: accountId } });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    if (account.status !== 'CLOSED') {
+      throw new Error('Deposits can only be settled once the account is closed');
+    }
+
+    const amount = decimalToNumber(account.depositPaid);
+    const status = this.getStatus({ ...account, depositPaid: amount });
+    if (status !== 'HELD') {
+      throw new Error('No key deposit is held for this account');
+    }
+
+    if (input.action === 'REFUND' && !input.paymentMethod) {
+      throw new Error('Refund method is required');
+    }
+
+    const transaction = await tx.keyDepositTransaction.create({
+      data: {
+        accountId,
+        action: input.action === 'REFUND' ? 'REFUNDED' : 'FORFEITED',
+        amount,
+        paymentMethod: input.action === 'REFUND' ? input.paymentMethod ?? null : null,
+        notes: input.notes ?? null,
+        recordedById: userId,
+      },
+      include: transactionInclude,
+    });
+
+    await tx.account.update({
+      where: { id: accountId },
+      data: input.action === 'REFUND' ? { depositReturned: true } : { depositForfeited: true },
+    });
+
+    return this.serializeTransaction(transaction);
+  },
+
+  /**
+   * Get an account's deposit and its ledger history
+   */
+  async getAccountDeposit(accountId: string): Promise<AccountKeyDeposit | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: {
+        id: true,
+        depositPaid: true,
+        depositReturned: true,
+        depositForfeited: true,
+        keyDepositTransactions: {
+          include: transactionInclude,
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const amount = decimalToNumber(account.depositPaid);
+
+    return {
+      accountId: account.id,
+      amount,
+      status: this.getStatus({ ...account, depositPaid: amount }),
+      transactions: account.keyDepositTransactions.map((t) => this.serializeTransaction(t)),
+    };
+  },
+
+  /**
+   * Deposits currently held, closed accounts first since they are owed a settlement
+   */
+  async getOutstandingDeposits(): Promise<OutstandingKeyDepositReport> {
+    const accounts = await prisma.account.findMany({
+      where: heldDepositWhere,
+      include: {
+        mailbox: { select: { number: true } },
+        recipients: {
+          where: { removedDate: null },
+          orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+          take: 1,
+        },
+        keyDepositTransactions: {
+          where: { action: 'COLLECTED' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+      orderBy: [{ closedAt: { sort: 'asc', nulls: 'last' } }, { mailbox: { number: 'asc' } }],
+    });
+
+    const deposits: OutstandingKeyDeposit[] = accounts.map((account) => {
+      const recipient = account.recipients[0];
+      const collected = account.keyDepositTransactions[0];
+      return {
+        accountId: account.id,
+        mailboxNumber: account.mailbox.number,
+        accountName: recipient ? formatRecipientName(recipient) : 'Unknown',
+        accountStatus: account.status,
+        amount: decimalToNumber(account.depositPaid),
+        collectedAt: collected ? collected.createdAt.toISOString() : null,
+        closedAt: account.closedAt?.toISOString() ?? null,
+      };
+    });
+
+    const awaitingSettlement = deposits.filter((d) => d.accountStatus === 'CLOSED');
+
+    return {
+      deposits,
+      totalCount: deposits.length,
+      totalHeld: roundCurrency(deposits.reduce((sum, d) => sum + d.amount, 0)),
+      awaitingSettlementCount: awaitingSettlement.length,
+      awaitingSettlementAmount: roundCurrency(
+        awaitingSettlement.reduce((sum, d) => sum + d.amount, 0)
+      ),
+    };
+  },
+
+  /**
+   * Serialize ledger entry for API response
+   */
+  serializeTransaction(transaction: TransactionWithUser): SerializedKeyDepositTransaction {
+    return {
+      id: transaction.id,
+      accountId: transaction.accountId,
+      action: transaction.action,
+      amount: decimalToNumber(transaction.amount),
+      paymentMethod: transaction.paymentMethod,
+      invoiceId: transaction.invoiceId,
+      notes: transaction.notes,
+      recordedBy: transaction.recordedBy,
+      createdAt: transaction.createdAt.toISOString(),
+    };
+  },
+};
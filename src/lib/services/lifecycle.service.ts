@@ -0,0 +1,450 @@
+import { addDays, subDays, subMinutes } from 'date-fns';
+import type { AccountStatus, MailboxStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { RENEWAL, LIFECYCLE, AUDIT_LOG, ACCOUNT_CLOSURE } from '@/constants/app';
+import { CLOSURE_REASONS } from '@/constants/status';
+import {
+  getToday,
+  getDaysOverdue,
+  shouldPlaceOnHold,
+  shouldCloseAccount,
+  formatDateString,
+} from '@/lib/utils/date';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { logger } from '@/lib/utils/logger';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { AccountClosureService } from '@/lib/services/account-closure.service';
+import type {
+  LifecycleTransition,
+  LifecyclePreview,
+  SerializedLifecycleRun,
+  LifecycleRunWithTransitions,
+  RunLifecycleOptions,
+} from '@/types/lifecycle';
+import type { AuditContext } from '@/types/audit-log';
+import type { CloseAccountResult } from '@/types/account-closure';
+
+/**
+ * Closure reason recorded when the engine closes an account
+ */
+const NON_PAYMENT_REASON: (typeof CLOSURE_REASONS)[number] = 'Non-Payment';
+
+/**
+ * Account shape needed to evaluate a lifecycle transition
+ */
+const candidateInclude = {
+  mailbox: { select: { id: true, number: true, status: true } },
+  recipients: {
+    where: { removedDate: null },
+    select: {
+      isPrimary: true,
+      recipientType: true,
+      firstName: true,
+      middleName: true,
+      lastName: true,
+      personAlias: true,
+      businessName: true,
+      businessAlias: true,
+    },
+  },
+} satisfies Prisma.AccountInclude;
+
+type CandidateAccount = Prisma.AccountGetPayload<{ include: typeof candidateInclude }>;
+
+const runInclude = {
+  triggeredBy: { select: { id: true, username: true } },
+} satisfies Prisma.LifecycleRunInclude;
+
+type RunWithUser = Prisma.LifecycleRunGetPayload<{ include: typeof runInclude }>;
+
+/**
+ * Get the mailbox status that should accompany an account status.
+ * A held account keeps its box but mail is held; a closed account releases the box.
+ */
+function getMailboxStatusFor(
+  accountStatus: AccountStatus,
+  currentMailboxStatus: MailboxStatus
+): MailboxStatus {
+  if (accountStatus === 'CLOSED') return 'AVAILABLE';
+  if (accountStatus === 'HOLD' && currentMailboxStatus === 'ACTIVE') return 'HOLD';
+  return currentMailboxStatus;
+}
+
+/**
+ * Service for the nightly overdue → HOLD → CLOSED account lifecycle
+ */
+export const LifecycleService = {
+  /**
+   * Decide which status an account should move to, or null if it stays put.
+   * Follows the escalation timeline in the business rules:
+   * HOLD after RENEWAL.HOLD_DAYS_AFTER_OVERDUE, CLOSED after RENEWAL.CLOSE_DAYS_AFTER_OVERDUE.
+   */
+  evaluateTransition(
+    account: { status: AccountStatus; nextRenewalDate: Date },
+    asOfDate: Date
+  ): { toStatus: AccountStatus; daysOverdue: number; reason: string } | null {
+    if (account.status === 'CLOSED') return null;
+
+    const daysOverdue = getDaysOverdue(account.nextRenewalDate, asOfDate);
+
+    if (shouldCloseAccount(account.nextRenewalDate, asOfDate)) {
+      return {
+        toStatus: 'CLOSED',
+        daysOverdue,
+        reason: `${NON_PAYMENT_REASON}: ${daysOverdue} days past renewal (closes after ${RENEWAL.CLOSE_DAYS_AFTER_OVERDUE})`,
+      };
+    }
+
+    if (account.status === 'ACTIVE' && shouldPlaceOnHold(account.nextRenewalDate, asOfDate)) {
+      return {
+        toStatus: 'HOLD',
+        daysOverdue,
+        reason: `Overdue: ${daysOverdue} days past renewal (hold after ${RENEWAL.HOLD_DAYS_AFTER_OVERDUE})`,
+      };
+    }
+
+    return null;
+  },
+
+  /**
+   * Get the as-of date the next scheduled run will use.
+   * The job runs shortly after midnight, so tonight's run evaluates tomorrow's date.
+   */
+  getNextRunDate(): Date {
+    return addDays(getToday(), 1);
+  },
+
+  /**
+   * Find accounts that are overdue enough to be considered and plan their transitions
+   */
+  async planTransitions(asOfDate: Date): Promise<LifecyclePreview> {
+    // Only accounts past the hold threshold can possibly transition
+    const holdCutoff = subDays(asOfDate, RENEWAL.HOLD_DAYS_AFTER_OVERDUE);
+
+    const candidates = await prisma.account.findMany({
+      where: {
+        status: { in: ['ACTIVE', 'HOLD'] },
+        nextRenewalDate: { lte: holdCutoff },
+      },
+      include: candidateInclude,
+      orderBy: { mailbox: { number: 'asc' } },
+    });
+
+    const transitions: LifecycleTransition[] = [];
+
+    for (const account of candidates) {
+      const decision = this.evaluateTransition(account, asOfDate);
+      if (!decision) continue;
+      transitions.push(this.buildTransition(account, decision));
+    }
+
+    return {
+      asOfDate: formatDateString(asOfDate),
+      accountsEvaluated: candidates.length,
+      transitions,
+    };
+  },
+
+  /**
+   * Dry run - report what a run on the given date would change without writing anything
+   */
+  async previewRun(asOfDate?: Date): Promise<LifecyclePreview> {
+    return this.planTransitions(asOfDate ?? this.getNextRunDate());
+  },
+
+  /**
+   * Execute a lifecycle run: apply every planned transition and record it
+   */
+  async runLifecycle(options: RunLifecycleOptions): Promise<SerializedLifecycleRun> {
+    const asOfDate = options.asOfDate ?? getToday();
+    const auditContext = options.auditContext ?? AuditLogService.getSystemContext();
+
+    // Release runs left RUNNING by a crashed process so they don't block forever
+    await prisma.lifecycleRun.updateMany({
+      where: {
+        status: 'RUNNING',
+        startedAt: { lt: subMinutes(new Date(), LIFECYCLE.STALE_RUN_MINUTES) },
+      },
+      data: { status: 'FAILED', errorMessage: 'Run did not finish', finishedAt: new Date() },
+    });
+
+    const inProgress = await prisma.lifecycleRun.findFirst({
+      where: { status: 'RUNNING' },
+    });
+    if (inProgress) {
+      throw new Error('A lifecycle run is already in progress');
+    }
+
+    const run = await prisma.lifecycleRun.create({
+      data: {
+        trigger: options.trigger,
+        asOfDate,
+        triggeredById: options.userId ?? null,
+      },
+    });
+
+    try {
+      const plan = await this.planTransitions(asOfDate);
+      let accountsHeld = 0;
+      let accountsClosed = 0;
+      let accountsFailed = 0;
+
+      for (const transition of plan.transitions) {
+        try {
+          if (transition.toStatus === 'CLOSED') {
+            const closure = await this.closeForNonPayment(transition, run.id, options.userId ?? null);
+            if (!closure) continue;
+            await this.logTransition(transition, auditContext);
+            await AccountClosureService.logClosure(auditContext, closure);
+            accountsClosed++;
+            continue;
+          }
+
+          const applied = await this.applyTransition(transition, run.id, options.userId ?? null);
+          if (!applied) continue;
+          await this.logTransition(transition, auditContext);
+          if (transition.toStatus === 'HOLD') accountsHeld++;
+        } catch (error) {
+          // One bad account must not stop the rest of the run
+          accountsFailed++;
+          logger.error(
+            { err: error, accountId: transition.accountId, runId: run.id },
+            'Lifecycle transition failed'
+          );
+        }
+      }
+
+      const finished = await prisma.lifecycleRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'COMPLETED',
+          accountsEvaluated: plan.accountsEvaluated,
+          accountsHeld,
+          accountsClosed,
+          accountsFailed,
+          finishedAt: new Date(),
+        },
+        include: runInclude,
+      });
+
+      logger.info(
+        { runId: run.id, accountsHeld, accountsClosed, accountsFailed },
+        'Lifecycle run completed'
+      );
+
+      return this.serializeRun(finished);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await prisma.lifecycleRun.update({
+        where: { id: run.id },
+        data: { status: 'FAILED', errorMessage: message, finishedAt: new Date() },
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Close an overdue account the same way staff would: unpaid invoices are written
+   * off, recipients removed and the closure notice generated before the mailbox is
+   * released. The key deposit stays held until a manager settles it.
+   * Returns null if the account changed since planning and was skipped.
+   */
+  async closeForNonPayment(
+    transition: LifecycleTransition,
+    runId: string,
+    userId: string | null
+  ): Promise<CloseAccountResult | null> {
+    try {
+      return await AccountClosureService.closeAccount(
+        transition.accountId,
+        {
+          reason: NON_PAYMENT_REASON,
+          writeOffUnpaid: true,
+          noticeDeliveryMethod: LIFECYCLE.CLOSURE_NOTICE_DELIVERY,
+        },
+        userId,
+        {
+          expectedStatus: transition.fromStatus,
+          lifecycleRunId: runId,
+          daysOverdue: transition.daysOverdue,
+          statusChangeReason: transition.reason,
+        }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === ACCOUNT_CLOSURE.STATUS_CHANGED_ERROR) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Apply a single hold transition: account status, mailbox status and the transition record.
+   * Returns false if the account changed since planning and was skipped.
+   */
+  async applyTransition(
+    transition: LifecycleTransition,
+    runId: string,
+    userId: string | null
+  ): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      // Re-check inside the transaction in case a payment landed since planning
+      const current = await tx.account.findUnique({
+        where: { id: transition.accountId },
+        select: { status: true },
+      });
+      if (!current || current.status !== transition.fromStatus) {
+        return false;
+      }
+
+      await tx.account.update({
+        where: { id: transition.accountId },
+        data: { status: transition.toStatus },
+      });
+
+      if (transition.mailboxToStatus !== transition.mailboxFromStatus) {
+        await tx.mailbox.update({
+          where: { id: transition.mailboxId },
+          data: { status: transition.mailboxToStatus },
+        });
+      }
+
+      await tx.accountStatusChange.create({
+        data: {
+          accountId: transition.accountId,
+          lifecycleRunId: runId,
+          fromStatus: transition.fromStatus,
+          toStatus: transition.toStatus,
+          mailboxFromStatus: transition.mailboxFromStatus,
+          mailboxToStatus: transition.mailboxToStatus,
+          reason: transition.reason,
+          daysOverdue: transition.daysOverdue,
+          changedById: userId,
+        },
+      });
+
+      return true;
+    });
+  },
+
+  /**
+   * Record an applied transition in the audit trail
+   */
+  async logTransition(transition: LifecycleTransition, auditContext: AuditContext): Promise<void> {
+    await AuditLogService.log(auditContext, {
+      action: 'UPDATE',
+      entityType: AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+      entityId: transition.accountId,
+      changes: {
+        status: { before: transition.fromStatus, after: transition.toStatus },
+        ...(transition.toStatus === 'CLOSED' && {
+          closureReason: { before: null, after: NON_PAYMENT_REASON },
+        }),
+      },
+    });
+
+    if (transition.mailboxToStatus !== transition.mailboxFromStatus) {
+      await AuditLogService.log(auditContext, {
+        action: 'UPDATE',
+        entityType: AUDIT_LOG.ENTITY_TYPES.MAILBOX,
+        entityId: transition.mailboxId,
+        changes: {
+          status: { before: transition.mailboxFromStatus, after: transition.mailboxToStatus },
+        },
+      });
+    }
+  },
+
+  /**
+   * Get recent lifecycle runs, newest first
+   */
+  async getRuns(limit: number = LIFECYCLE.RUN_HISTORY_LIMIT): Promise<SerializedLifecycleRun[]> {
+    const runs = await prisma.lifecycleRun.findMany({
+      include: runInclude,
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return runs.map((run) => this.serializeRun(run));
+  },
+
+  /**
+   * Get a single run with every transition it applied
+   */
+  async getRunById(id: string): Promise<LifecycleRunWithTransitions | null> {
+    const run = await prisma.lifecycleRun.findUnique({
+      where: { id },
+      include: {
+        ...runInclude,
+        statusChanges: {
+          include: {
+            account: { select: { mailbox: { select: { number: true } } } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!run) return null;
+
+    return {
+      ...this.serializeRun(run),
+      transitions: run.statusChanges.map((change) => ({
+        id: change.id,
+        accountId: change.accountId,
+        mailboxNumber: change.account.mailbox.number,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        mailboxFromStatus: change.mailboxFromStatus,
+        mailboxToStatus: change.mailboxToStatus,
+        reason: change.reason,
+        daysOverdue: change.daysOverdue,
+        createdAt: change.createdAt.toISOString(),
+      })),
+    };
+  },
+
+  /**
+   * Build a planned transition from a candidate account
+   */
+  buildTransition(
+    account: CandidateAccount,
+    decision: { toStatus: AccountStatus; daysOverdue: number; reason: string }
+  ): LifecycleTransition {
+    const primary = account.recipients.find((r) => r.isPrimary) ?? account.recipients[0];
+
+    return {
+      accountId: account.id,
+      mailboxId: account.mailbox.id,
+      mailboxNumber: account.mailbox.number,
+      accountName: primary ? formatRecipientName(primary) : 'Unknown',
+      nextRenewalDate: formatDateString(account.nextRenewalDate),
+      daysOverdue: decision.daysOverdue,
+      fromStatus: account.status,
+      toStatus: decision.toStatus,
+      mailboxFromStatus: account.mailbox.status,
+      mailboxToStatus: getMailboxStatusFor(decision.toStatus, account.mailbox.status),
+      reason: decision.reason,
+    };
+  },
+
+  /**
+   * Serialize a lifecycle run for API response
+   */
+  serializeRun(run: RunWithUser): SerializedLifecycleRun {
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      status: run.status,
+      asOfDate: formatDateString(run.asOfDate),
+      accountsEvaluated: run.accountsEvaluated,
+      accountsHeld: run.accountsHeld,
+      accountsClosed: run.accountsClosed,
+      accountsFailed: run.accountsFailed,
+      errorMessage: run.errorMessage,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt?.toISOString() ?? null,
+      triggeredBy: run.triggeredBy,
+    };
+  },
+};
@@ -0,0 +1,382 @@
+import type { Prisma, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { AUDIT_LOG, MEMO } from '@/constants/app';
+import { ACCOUNT_STATUS_LABELS, PAYMENT_METHOD_LABELS } from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import type { AuditContext } from '@/types/audit-log';
+import type { CreateMemoInput, UpdateMemoInput } from '@/lib/validations/memo';
+import type {
+  SerializedMemo,
+  SerializedMemoRevision,
+  TimelineEvent,
+} from '@/types/memo';
+
+const userSelect = { select: { id: true, username: true } } as const;
+
+const memoInclude = {
+  createdBy: userSelect,
+  updatedBy: userSelect,
+  deletedBy: userSelect,
+  _count: { select: { revisions: true } },
+} satisfies Prisma.MemoInclude;
+
+type MemoWithRelations = Prisma.MemoGetPayload<{ include: typeof memoInclude }>;
+
+interface MemoEditor {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Service for account memos and the combined account timeline
+ */
+export const MemoService = {
+  /**
+   * Why a user can't make a change to a memo, or null if they can.
+   * Any staff member can pin; only the author or a manager can change the content.
+   */
+  getEditBlocker(
+    memo: { createdById: string; deletedAt: Date | string | null },
+    input: UpdateMemoInput,
+    user: MemoEditor
+  ): string | null {
+    if (memo.deletedAt) {
+      return 'Cannot edit a deleted memo';
+    }
+
+    if (input.content !== undefined && user.role !== 'MANAGER' && user.id !== memo.createdById) {
+      return 'Only the author or a manager can edit a memo';
+    }
+
+    return null;
+  },
+
+  /**
+   * Why a user can't delete a memo, or null if they can. Only managers delete memos.
+   */
+  getDeleteBlocker(memo: { deletedAt: Date | string | null }, user: MemoEditor): string | null {
+    if (user.role !== 'MANAGER') {
+      return 'Only managers can delete memos';
+    }
+
+    if (memo.deletedAt) {
+      return 'Memo is already deleted';
+    }
+
+    return null;
+  },
+
+  /**
+   * Get memos for an account - pinned first, then newest first
+   */
+  async getAccountMemos(accountId: string, includeDeleted = false): Promise<SerializedMemo[]> {
+    const memos = await prisma.memo.findMany({
+      where: {
+        accountId,
+        ...(includeDeleted ? {} : { deletedAt: null }),
+      },
+      include: memoInclude,
+      orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return memos.map((memo) => this.serializeMemo(memo));
+  },
+
+  /**
+   * Get a memo that belongs to the given account
+   */
+  async getMemo(accountId: string, memoId: string): Promise<SerializedMemo | null> {
+    const memo = await prisma.memo.findFirst({
+      where: { id: memoId, accountId },
+      include: memoInclude,
+    });
+
+    return memo ? this.serializeMemo(memo) : null;
+  },
+
+  /**
+   * Create a memo on an account
+   */
+  async createMemo(
+    accountId: string,
+    input: CreateMemoInput,
+    userId: string,
+    auditContext: AuditContext
+  ): Promise<SerializedMemo> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { id: true },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const memo = await prisma.memo.create({
+      data: {
+        accountId,
+        content: input.content,
+        isPinned: input.isPinned,
+        createdById: userId,
+      },
+      include: memoInclude,
+    });
+
+    await AuditLogService.logChange(
+      auditContext,
+      AUDIT_LOG.ENTITY_TYPES.MEMO,
+      memo.id,
+      null,
+      this.toAuditRecord(memo)
+    );
+
+    return this.serializeMemo(memo);
+  },
+
+  /**
+   * Edit memo content and/or pin state
+   * The previous content is kept as a revision whenever the content changes
+   */
+  async updateMemo(
+    accountId: string,
+    memoId: string,
+    input: UpdateMemoInput,
+    user: MemoEditor,
+    auditContext: AuditContext
+  ): Promise<SerializedMemo> {
+    const existing = await prisma.memo.findFirst({
+      where: { id: memoId, accountId },
+      include: memoInclude,
+    });
+
+    if (!existing) {
+      throw new Error('Memo not found');
+    }
+
+    const blocker = this.getEditBlocker(existing, input, user);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    const contentChanged = input.content !== undefined && input.content !== existing.content;
+
+    const data: Prisma.MemoUncheckedUpdateInput = {};
+    if (contentChanged && input.content !== undefined) {
+      data.content = input.content;
+      data.updatedById = user.id;
+    }
+    if (input.isPinned !== undefined) {
+      data.isPinned = input.isPinned;
+    }
+
+    const memo = await prisma.$transaction(async (tx) => {
+      if (contentChanged) {
+        await tx.memoRevision.create({
+          data: {
+            memoId,
+            content: existing.content,
+            editedById: user.id,
+          },
+        });
+      }
+
+      return tx.memo.update({
+        where: { id: memoId },
+        data,
+        include: memoInclude,
+      });
+    });
+
+    await AuditLogService.logChange(
+      auditContext,
+      AUDIT_LOG.ENTITY_TYPES.MEMO,
+      memoId,
+      this.toAuditRecord(existing),
+      this.toAuditRecord(memo)
+    );
+
+    return this.serializeMemo(memo);
+  },
+
+  /**
+   * Soft delete a memo - the content is kept for the audit trail
+   */
+  async deleteMemo(
+    accountId: string,
+    memoId: string,
+    user: MemoEditor,
+    auditContext: AuditContext
+  ): Promise<SerializedMemo> {
+    const existing = await prisma.memo.findFirst({
+      where: { id: memoId, accountId },
+      include: memoInclude,
+    });
+
+    if (!existing) {
+      throw new Error('Memo not found');
+    }
+
+    const blocker = this.getDeleteBlocker(existing, user);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    const memo = await prisma.memo.update({
+      where: { id: memoId },
+      data: {
+        deletedAt: new Date(),
+        deletedById: user.id,
+        isPinned: false,
+      },
+      include: memoInclude,
+    });
+
+    await AuditLogService.logChange(
+      auditContext,
+      AUDIT_LOG.ENTITY_TYPES.MEMO,
+      memoId,
+      this.toAuditRecord(existing),
+      this.toAuditRecord(memo)
+    );
+
+    return this.serializeMemo(memo);
+  },
+
+  /**
+   * Get the edit history of a memo, newest first
+   */
+  async getMemoRevisions(accountId: string, memoId: string): Promise<SerializedMemoRevision[] | null> {
+    const memo = await prisma.memo.findFirst({
+      where: { id: memoId, accountId },
+      select: { id: true },
+    });
+
+    if (!memo) {
+      return null;
+    }
+
+    const revisions = await prisma.memoRevision.findMany({
+      where: { memoId },
+      include: { editedBy: userSelect },
+      orderBy: { editedAt: 'desc' },
+    });
+
+    return revisions.map((revision) => ({
+      id: revision.id,
+      memoId: revision.memoId,
+      content: revision.content,
+      editedAt: revision.editedAt.toISOString(),
+      editedBy: revision.editedBy,
+    }));
+  },
+
+  /**
+   * Combined activity timeline for an account: memos, payments, notices and status changes
+   */
+  async getAccountTimeline(accountId: string): Promise<TimelineEvent[]> {
+    const take = MEMO.TIMELINE_LIMIT;
+
+    const [memos, payments, notices, statusChanges] = await Promise.all([
+      prisma.memo.findMany({
+        where: { accountId, deletedAt: null },
+        include: { createdBy: userSelect },
+        orderBy: { createdAt: 'desc' },
+        take,
+      }),
+      prisma.payment.findMany({
+        where: { accountId },
+        include: { recordedByUser: userSelect },
+        orderBy: { createdAt: 'desc' },
+        take,
+      }),
+      prisma.noticeHistory.findMany({
+        where: { accountId },
+        include: {
+          noticeType: { select: { name: true } },
+          generatedBy: userSelect,
+        },
+        orderBy: { generatedAt: 'desc' },
+        take,
+      }),
+      prisma.accountStatusChange.findMany({
+        where: { accountId },
+        include: { changedBy: userSelect },
+        orderBy: { createdAt: 'desc' },
+        take,
+      }),
+    ]);
+
+    const events: TimelineEvent[] = [
+      ...memos.map((memo): TimelineEvent => ({
+        id: memo.id,
+        type: 'MEMO',
+        occurredAt: memo.createdAt.toISOString(),
+        title: memo.isPinned ? 'Pinned memo' : 'Memo',
+        description: memo.content,
+        userName: memo.createdBy.username,
+      })),
+      ...payments.map((payment): TimelineEvent => ({
+        id: payment.id,
+        type: 'PAYMENT',
+        occurredAt: payment.createdAt.toISOString(),
+        title: `${formatCurrency(payment.amount.toString())} ${PAYMENT_METHOD_LABELS[payment.paymentMethod]} payment`,
+        description: payment.notes,
+        userName: payment.recordedByUser.username,
+      })),
+      ...notices.map((notice): TimelineEvent => ({
+        id: notice.id,
+        type: 'NOTICE',
+        occurredAt: notice.generatedAt.toISOString(),
+        title: `${notice.noticeType.name} notice`,
+        description: notice.renderedSubject,
+        userName: notice.generatedBy?.username ?? null,
+      })),
+      ...statusChanges.map((change): TimelineEvent => ({
+        id: change.id,
+        type: 'STATUS_CHANGE',
+        occurredAt: change.createdAt.toISOString(),
+        title: `Status changed from ${ACCOUNT_STATUS_LABELS[change.fromStatus]} to ${ACCOUNT_STATUS_LABELS[change.toStatus]}`,
+        description: change.reason,
+        userName: change.changedBy?.username ?? (change.lifecycleRunId ? AUDIT_LOG.SYSTEM_USER_NAME : null),
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+      })),
+    ];
+
+    return events
+      .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+      .slice(0, take);
+  },
+
+  /**
+   * Flat memo record for audit diffs
+   */
+  toAuditRecord(memo: MemoWithRelations): object {
+    return {
+      accountId: memo.accountId,
+      content: memo.content,
+      isPinned: memo.isPinned,
+      deletedAt: memo.deletedAt,
+    };
+  },
+
+  /**
+   * Serialize memo for API response
+   */
+  serializeMemo(memo: MemoWithRelations): SerializedMemo {
+    return {
+      id: memo.id,
+      accountId: memo.accountId,
+      content: memo.content,
+      isPinned: memo.isPinned,
+      createdAt: memo.createdAt.toISOString(),
+      updatedAt: memo.updatedAt.toISOString(),
+      createdBy: memo.createdBy,
+      updatedBy: memo.updatedBy,
+      deletedAt: memo.deletedAt?.toISOString() ?? null,
+      deletedBy: memo.deletedBy,
+      revisionCount: memo._count.revisions,
+    };
+  },
+};
@@ -0,0 +1,157 @@
+import { prisma } from '@/lib/db/prisma';
+import { EMAIL } from '@/constants/app';
+import { getEmailTransport } from '@/lib/email';
+import { logger } from '@/lib/utils/logger';
+import { generateNoticePdfFromHistory } from './notice-pdf.service';
+import { StoreSettingsService } from './store-settings.service';
+import type { EmailMessage } from '@/types/email';
+import type { NoticeEmailResult } from '@/types/notice';
+
+const TRANSIENT_ERROR_CODES: readonly string[] = EMAIL.TRANSIENT_ERROR_CODES;
+
+/**
+ * Whether a send failure is worth retrying.
+ * Connection problems and 4xx SMTP replies are temporary; authentication
+ * failures, rejected recipients and 5xx replies will not fix themselves.
+ */
+export function isTransientEmailError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { code, responseCode } = error as { code?: unknown; responseCode?: unknown };
+
+  if (typeof responseCode === 'number') {
+    return responseCode >= 400 && responseCode < 500;
+  }
+
+  return typeof code === 'string' && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Delay before the next attempt - doubles after each failure, capped
+ */
+export function getRetryDelayMs(failedAttempt: number): number {
+  const delay = EMAIL.RETRY_BASE_DELAY_MS * 2 ** Math.max(failedAttempt - 1, 0);
+  return Math.min(delay, EMAIL.RETRY_MAX_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function markFailed(
+  noticeHistoryId: string,
+  errorMessage: string,
+  attempts: number
+): Promise<NoticeEmailResult> {
+  await prisma.noticeHistory.update({
+    where: { id: noticeHistoryId },
+    data: { status: 'FAILED', errorMessage },
+  });
+
+  return { noticeHistoryId, success: false, attempts, error: errorMessage };
+}
+
+/**
+ * Build the email for a notice: rendered HTML body with the notice PDF attached
+ */
+async function buildNoticeEmail(noticeHistoryId: string): Promise<EmailMessage | null> {
+  const [notice, settings] = await Promise.all([
+    prisma.noticeHistory.findUnique({
+      where: { id: noticeHistoryId },
+      include: {
+        noticeType: { select: { name: true } },
+        account: { select: { mailbox: { select: { number: true } } } },
+      },
+    }),
+    StoreSettingsService.getSettings(),
+  ]);
+
+  if (!notice?.emailAddress) {
+    return null;
+  }
+
+  const pdf = await generateNoticePdfFromHistory(noticeHistoryId);
+  const dateStr = notice.generatedAt.toISOString().split('T')[0];
+  const filename = `${notice.noticeType.name.replace(/\s+/g, '_')}_Mailbox_${notice.account.mailbox.number}_${dateStr}.pdf`;
+
+  return {
+    from: `"${settings.name.replace(/"/g, '')}" <${settings.email}>`,
+    to: notice.emailAddress,
+    replyTo: settings.email,
+    subject: notice.renderedSubject ?? notice.noticeType.name,
+    html: notice.renderedContent,
+    attachments: pdf
+      ? [{ filename, content: pdf, contentType: 'application/pdf' }]
+      : [],
+  };
+}
+
+/**
+ * Email a generated notice and record the outcome on its history row.
+ * Transient failures are retried with exponential backoff before the
+ * notice is marked FAILED; a successful send marks it SENT.
+ */
+export async function sendNoticeEmail(noticeHistoryId: string): Promise<NoticeEmailResult> {
+  const notice = await prisma.noticeHistory.findUnique({
+    where: { id: noticeHistoryId },
+    select: { deliveryMethod: true },
+  });
+
+  if (!notice) {
+    throw new Error('Notice not found');
+  }
+
+  if (notice.deliveryMethod === 'PRINT') {
+    throw new Error('Notice is not set up for email delivery');
+  }
+
+  let message: EmailMessage | null;
+  try {
+    message = await buildNoticeEmail(noticeHistoryId);
+  } catch (error) {
+    logger.error({ err: error, noticeHistoryId }, 'Failed to build notice email');
+    return markFailed(
+      noticeHistoryId,
+      `Could not build email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      0
+    );
+  }
+
+  if (!message) {
+    return markFailed(noticeHistoryId, 'No email address on file', 0);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let transportName: string;
+    let messageId: string;
+
+    try {
+      const transport = await getEmailTransport();
+      transportName = transport.name;
+      ({ messageId } = await transport.send(message));
+    } catch (error) {
+      if (!isTransientEmailError(error) || attempt === EMAIL.MAX_SEND_ATTEMPTS) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error({ err: error, noticeHistoryId, attempt }, 'Notice email failed');
+        return markFailed(
+          noticeHistoryId,
+          attempt > 1 ? `${errorMessage} (after ${attempt} attempts)` : errorMessage,
+          attempt
+        );
+      }
+
+      const delay = getRetryDelayMs(attempt);
+      logger.warn({ err: error, noticeHistoryId, attempt, delay }, 'Notice email failed, retrying');
+      await sleep(delay);
+      continue;
+    }
+
+    await prisma.noticeHistory.update({
+      where: { id: noticeHistoryId },
+      data: { status: 'SENT', sentAt: new Date(), errorMessage: null },
+    });
+
+    logger.info({ noticeHistoryId, transport: transportName, messageId, attempt }, 'Notice email sent');
+    return { noticeHistoryId, success: true, attempts: attempt, messageId };
+  }
+}
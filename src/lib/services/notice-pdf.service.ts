@@ -1,5 +1,4 @@
 import React from 'react';
-import path from 'path';
 import {
   Document,
   Page,
@@ -8,56 +7,9 @@ import {
   Image,
   StyleSheet,
   renderToBuffer,
-  Font,
 } from '@react-pdf/renderer';
 import type { Style } from '@react-pdf/types';
-
-// Font paths (relative to project root)
-const FONTS_PATH = path.join(process.cwd(), 'public/fonts');
-
-// Register Roboto font for body text (PostNet official font)
-Font.register({
-  family: 'Roboto',
-  fonts: [
-    {
-      src: path.join(FONTS_PATH, 'Roboto-Regular.ttf'),
-      fontWeight: 400,
-    },
-    {
-      src: path.join(FONTS_PATH, 'Roboto-Bold.ttf'),
-      fontWeight: 700,
-    },
-    {
-      src: path.join(FONTS_PATH, 'Roboto-Italic.ttf'),
-      fontWeight: 400,
-      fontStyle: 'italic',
-    },
-    {
-      src: path.join(FONTS_PATH, 'Roboto-BoldItalic.ttf'),
-      fontWeight: 700,
-      fontStyle: 'italic',
-    },
-  ],
-});
-
-// Register Roboto Slab font for headings (PostNet official heading font)
-Font.register({
-  family: 'Roboto Slab',
-  src: path.join(FONTS_PATH, 'RobotoSlab-Bold.ttf'),
-  fontWeight: 700,
-});
-
-// PostNet logo path (relative to project root)
-const LOGO_PATH = path.join(process.cwd(), 'public/images/postnet-logo.png');
-
-// PostNet brand colors (official from postnet.com)
-const COLORS = {
-  red: '#D11532', // Official PostNet red from logo
-  charcoal: '#2D2D2D',
-  gray: '#6B7280',
-  lightGray: '#F3F4F6',
-  white: '#FFFFFF',
-};
+import { COLORS, LOGO_PATH, formatStoreAddress } from '@/lib/pdf/branding';
 
 // Define styles for the PDF document
 const styles = StyleSheet.create({
@@ -564,13 +516,7 @@ export async function generateNoticePdfFromHistory(
     notice.noticeType.template;
 
   // Format address from parts
-  const formattedAddress = [
-    storeSettings.street1,
-    storeSettings.street2,
-    `${storeSettings.city} ${storeSettings.zip}`,
-  ]
-    .filter(Boolean)
-    .join(', ');
+  const formattedAddress = formatStoreAddress(storeSettings);
 
   return generateNoticePdf(
     markdown,
@@ -9,6 +9,7 @@ import {
   renderNoticeTemplate,
   renderSubject,
 } from './notice-template.service';
+import { sendNoticeEmail } from './notice-email.service';
 import type {
   CreateNoticeTypeInput,
   UpdateNoticeTypeInput,
@@ -210,17 +211,18 @@ async function generateNoticeForAccount(
   noticeTypeId: string,
   accountId: string,
   deliveryMethod: NoticeDeliveryMethod,
-  userId: string,
+  userId: string | null,
   recipientId?: string
 ): Promise<NoticeGenerationResult> {
   try {
-    // Fetch account with mailbox and ALL recipients (needed for recipientsMissingId)
+    // Fetch account with mailbox and ALL recipients (needed for recipientsMissingId).
+    // A named recipient is found even once removed, e.g. by the closure that sends the notice.
     const account = await prisma.account.findUnique({
       where: { id: accountId },
       include: {
         mailbox: true,
         recipients: {
-          where: { removedDate: null },
+          where: recipientId ? { OR: [{ removedDate: null }, { id: recipientId }] } : { removedDate: null },
           include: {
             contactCard: {
               include: {
@@ -340,12 +342,21 @@ async function generateNoticeForAccount(
       },
     });
 
-    return {
+    const result: NoticeGenerationResult = {
       accountId,
       mailboxNumber: account.mailbox.number,
       success: true,
       noticeHistoryId: noticeHistory.id,
     };
+
+    // Email deliveries go out right away; the notice stays generated either way
+    if (deliveryMethod !== 'PRINT') {
+      const email = await sendNoticeEmail(noticeHistory.id);
+      result.emailStatus = email.success ? 'SENT' : 'FAILED';
+      if (email.error) result.emailError = email.error;
+    }
+
+    return result;
   } catch (error) {
     return {
       accountId,
@@ -388,6 +399,36 @@ export async function generateNotices(
   };
 }
 
+/**
+ * Generate a system notice for one account by type code, e.g. the closure notice.
+ * Missing default types are seeded first so the notice works on a fresh install.
+ */
+export async function generateNoticeByCode(
+  code: NoticeTypeCode,
+  accountId: string,
+  deliveryMethod: NoticeDeliveryMethod,
+  userId: string | null,
+  recipientId?: string
+): Promise<NoticeGenerationResult> {
+  let noticeType = await prisma.noticeType.findUnique({ where: { code } });
+
+  if (!noticeType) {
+    await seedDefaultNoticeTypes(userId ?? undefined);
+    noticeType = await prisma.noticeType.findUnique({ where: { code } });
+  }
+
+  if (!noticeType || !noticeType.isActive) {
+    return {
+      accountId,
+      mailboxNumber: 0,
+      success: false,
+      error: 'Notice type not available',
+    };
+  }
+
+  return generateNoticeForAccount(noticeType.id, accountId, deliveryMethod, userId, recipientId);
+}
+
 /**
  * Preview a notice template with sample data
  */
@@ -1,10 +1,21 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
-import type { Prisma, PaymentMethod } from '@prisma/client';
-import type { PaymentListQuery } from '@/lib/validations/payment';
+import { roundCurrency } from '@/lib/utils/currency';
+import { getBusinessDate, formatDateString } from '@/lib/utils/date';
+import { InvoiceService } from './invoice.service';
+import { CreditService } from './credit.service';
+import { DrawerService } from './drawer.service';
+import { KeyDepositService } from './key-deposit.service';
+import type { InvoiceStatus, PaymentMethod, PaymentType } from '@prisma/client';
+import type { PaymentListQuery, PaymentSummaryQuery } from '@/lib/validations/payment';
 import type {
   PaymentWithDetails,
   CreatePaymentInput,
   CreatePaymentResult,
+  PaymentSummary,
+  RenewalSnapshot,
+  ReversePaymentInput,
+  ReversePaymentResult,
 } from '@/types/payment';
 
 /**
@@ -14,12 +25,27 @@ function decimalToNumber(decimal: Prisma.Decimal): number {
   return parseFloat(decimal.toString());
 }
 
-/**
- * Format date to YYYY-MM-DD string
- */
-function formatDateString(date: Date): string {
-  return date.toISOString().split('T')[0] ?? date.toISOString();
-}
+const paymentInclude = {
+  recordedByUser: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  account: {
+    select: {
+      id: true,
+      mailbox: {
+        select: { number: true },
+      },
+    },
+  },
+  reversals: {
+    select: { amount: true },
+  },
+} satisfies Prisma.PaymentInclude;
 
 /**
  * Service for managing payments
@@ -37,7 +63,7 @@ export const PaymentService = {
       totalPages: number;
     };
   }> {
-    const { accountId, startDate, endDate, paymentMethod, page, limit, sortField, sortOrder } = query;
+    const { accountId, startDate, endDate, paymentMethod, paymentType, page, limit, sortField, sortOrder } = query;
     const skip = (page - 1) * limit;
 
     const where: Prisma.PaymentWhereInput = {};
@@ -60,27 +86,14 @@ export const PaymentService = {
       where.paymentMethod = paymentMethod;
     }
 
+    if (paymentType) {
+      where.paymentType = paymentType;
+    }
+
     const [payments, total] = await Promise.all([
       prisma.payment.findMany({
         where,
-        include: {
-          recordedByUser: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-          account: {
-            select: {
-              id: true,
-              mailbox: {
-                select: { number: true },
-              },
-            },
-          },
-        },
+        include: paymentInclude,
         orderBy: { [sortField]: sortOrder },
         skip,
         take: limit,
@@ -105,24 +118,7 @@ export const PaymentService = {
   async getPaymentById(id: string): Promise<PaymentWithDetails | null> {
     const payment = await prisma.payment.findUnique({
       where: { id },
-      include: {
-        recordedByUser: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-        account: {
-          select: {
-            id: true,
-            mailbox: {
-              select: { number: true },
-            },
-          },
-        },
-      },
+      include: paymentInclude,
     });
 
     return payment ? this.serializePayment(payment) : null;
@@ -132,153 +128,458 @@ export const PaymentService = {
    * Create a new payment and activate mailbox when fully paid
    * If isRenewal is true, also updates the account's term data
    */
-  async createPayment(input: CreatePaymentInput, userId: string): Promise<CreatePaymentResult> {
-    return prisma.$transaction(async (tx) => {
-      // Get the account with mailbox info
-      let account = await tx.account.findUnique({
-        where: { id: input.accountId },
-        include: { mailbox: true },
-      });
+  async createPayment(
+    input: CreatePaymentInput,
+    userId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<CreatePaymentResult> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.createPayment(input, userId, client));
+    }
 
-      if (!account) {
-        throw new Error('Account not found');
-      }
+    // Get the account with mailbox info
+    let account = await tx.account.findUnique({
+      where: { id: input.accountId },
+      include: { mailbox: true },
+    });
 
-      // Check if this is the first payment
-      const existingPaymentCount = await tx.payment.count({
-        where: { accountId: input.accountId },
-      });
+    if (!account) {
+      throw new Error('Account not found');
+    }
 
-      const isFirstPayment = existingPaymentCount === 0;
+    await DrawerService.assertDayOpen(new Date(input.paymentDate), tx);
 
-      // For renewals, we'll process the renewal AFTER checking if fully paid
-      let renewalProcessed = false;
-      const isRenewalPayment = input.isRenewal && input.renewalPeriod && input.newRate !== undefined;
+    // Check if this is the first payment
+    const existingPaymentCount = await tx.payment.count({
+      where: { accountId: input.accountId, paymentType: 'PAYMENT' },
+    });
 
-      // Create the payment
-      const payment = await tx.payment.create({
-        data: {
+    const isFirstPayment = existingPaymentCount === 0;
+
+    // For renewals, we'll process the renewal AFTER checking if fully paid
+    let renewalProcessed = false;
+    const isRenewalPayment = input.isRenewal && input.renewalPeriod && input.newRate !== undefined;
+
+    // Create the payment
+    const payment = await tx.payment.create({
+      data: {
+        accountId: input.accountId,
+        invoiceId: input.invoiceId ?? null,
+        amount: input.amount,
+        paymentDate: new Date(input.paymentDate),
+        paymentMethod: input.paymentMethod as PaymentMethod,
+        periodStart: new Date(input.periodStart),
+        periodEnd: new Date(input.periodEnd),
+        notes: input.notes ?? null,
+        recordedBy: userId,
+        ...(input.paymentMethod === 'CHECK' && {
+          checkNumber: input.checkNumber ?? null,
+          checkBank: input.checkBank ?? null,
+          checkDate: input.checkDate ? new Date(input.checkDate) : null,
+        }),
+        gatewayTransactionId: input.gatewayTransactionId ?? null,
+      },
+      include: paymentInclude,
+    });
+
+    // Check if mailbox should be activated (only if RESERVED and fully paid)
+    let mailboxActivated = false;
+    if (account.mailbox.status === 'RESERVED') {
+      // Calculate total charge for the term
+      const months = this.getTermMonths(account.renewalPeriod);
+      const totalCharge = decimalToNumber(account.currentRate) * months;
+
+      // Get total payments including the one we just created
+      const allPayments = await tx.payment.findMany({
+        where: {
           accountId: input.accountId,
-          invoiceId: input.invoiceId ?? null,
-          amount: input.amount,
-          paymentDate: new Date(input.paymentDate),
-          paymentMethod: input.paymentMethod as PaymentMethod,
-          periodStart: new Date(input.periodStart),
-          periodEnd: new Date(input.periodEnd),
-          notes: input.notes ?? null,
-          recordedBy: userId,
-        },
-        include: {
-          recordedByUser: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-          account: {
-            select: {
-              id: true,
-              mailbox: {
-                select: { number: true },
-              },
-            },
-          },
+          periodStart: { gte: account.startDate },
+          periodEnd: { lte: account.nextRenewalDate },
         },
+        select: { amount: true },
       });
 
-      // Check if mailbox should be activated (only if RESERVED and fully paid)
-      let mailboxActivated = false;
-      if (account.mailbox.status === 'RESERVED') {
-        // Calculate total charge for the term
-        const months = this.getTermMonths(account.renewalPeriod);
-        const totalCharge = decimalToNumber(account.currentRate) * months;
-
-        // Get total payments including the one we just created
-        const allPayments = await tx.payment.findMany({
-          where: {
-            accountId: input.accountId,
-            periodStart: { gte: account.startDate },
-            periodEnd: { lte: account.nextRenewalDate },
-          },
-          select: { amount: true },
+      const totalPaid = allPayments.reduce(
+        (sum, p) => sum + decimalToNumber(p.amount),
+        0
+      );
+
+      // Activate if fully paid (balance due <= 0)
+      if (totalPaid >= totalCharge) {
+        await tx.mailbox.update({
+          where: { id: account.mailboxId },
+          data: { status: 'ACTIVE' },
         });
+        mailboxActivated = true;
+      }
+    }
 
-        const totalPaid = allPayments.reduce(
-          (sum, p) => sum + decimalToNumber(p.amount),
-          0
-        );
+    // Update invoice paid amount and status if linked
+    if (input.invoiceId) {
+      // Calculate total paid from linked payments
+      const invoicePayments = await tx.payment.findMany({
+        where: { invoiceId: input.invoiceId },
+        select: { amount: true },
+      });
 
-        // Activate if fully paid (balance due <= 0)
-        if (totalPaid >= totalCharge) {
-          await tx.mailbox.update({
-            where: { id: account.mailboxId },
-            data: { status: 'ACTIVE' },
-          });
-          mailboxActivated = true;
-        }
-      }
+      const paidAmount = invoicePayments.reduce(
+        (sum, p) => sum + decimalToNumber(p.amount),
+        0
+      );
 
-      // Update invoice paid amount and status if linked
-      if (input.invoiceId) {
-        // Calculate total paid from linked payments
-        const invoicePayments = await tx.payment.findMany({
-          where: { invoiceId: input.invoiceId },
-          select: { amount: true },
-        });
+      // Get invoice total
+      const invoice = await tx.invoice.findUnique({
+        where: { id: input.invoiceId },
+        select: { totalAmount: true, creditApplied: true, writtenOffAt: true },
+      });
 
-        const paidAmount = invoicePayments.reduce(
-          (sum, p) => sum + decimalToNumber(p.amount),
-          0
-        );
+      if (invoice) {
+        const totalAmount = decimalToNumber(invoice.totalAmount);
+        // Account credit already applied counts toward the invoice like a payment
+        const coveredAmount = paidAmount + decimalToNumber(invoice.creditApplied);
+        let status: InvoiceStatus = 'PENDING';
+        if (coveredAmount > 0 && coveredAmount < totalAmount) {
+          status = 'PARTIAL';
+        } else if (coveredAmount >= totalAmount) {
+          status = 'PAID';
+        }
+        // A late payment on a written-off invoice only counts once it covers the total
+        if (invoice.writtenOffAt && status !== 'PAID') {
+          status = 'WRITTEN_OFF';
+        }
 
-        // Get invoice total
-        const invoice = await tx.invoice.findUnique({
+        await tx.invoice.update({
           where: { id: input.invoiceId },
-          select: { totalAmount: true },
+          data: { paidAmount, status },
         });
 
-        if (invoice) {
-          const totalAmount = decimalToNumber(invoice.totalAmount);
-          let status: 'PENDING' | 'PARTIAL' | 'PAID' = 'PENDING';
-          if (paidAmount > 0 && paidAmount < totalAmount) {
-            status = 'PARTIAL';
-          } else if (paidAmount >= totalAmount) {
-            status = 'PAID';
-          }
+        // Anything paid beyond the invoice total becomes account credit
+        await CreditService.syncInvoiceOverpayment(input.invoiceId, payment.id, userId, tx);
+
+        // A paid new-account invoice means the key deposit is now held
+        if (status === 'PAID') {
+          await KeyDepositService.collectFromInvoice(input.invoiceId, userId, tx);
+        }
 
-          await tx.invoice.update({
-            where: { id: input.invoiceId },
-            data: { paidAmount, status },
+        // If invoice is now fully paid and this is a renewal, apply the renewal
+        if (status === 'PAID' && isRenewalPayment && input.renewalPeriod && input.newRate !== undefined) {
+          const wasOnHold = account.status === 'HOLD';
+          const renewalSnapshot: RenewalSnapshot = {
+            renewalPeriod: account.renewalPeriod,
+            currentRate: decimalToNumber(account.currentRate),
+            startDate: formatDateString(account.startDate),
+            nextRenewalDate: formatDateString(account.nextRenewalDate),
+            accountStatus: account.status,
+            mailboxStatus: account.mailbox.status,
+          };
+          account = await tx.account.update({
+            where: { id: input.accountId },
+            data: {
+              renewalPeriod: input.renewalPeriod,
+              currentRate: input.newRate,
+              startDate: new Date(input.periodStart),
+              nextRenewalDate: new Date(input.periodEnd),
+              // If account was HOLD, move back to ACTIVE
+              status: account.status === 'HOLD' ? 'ACTIVE' : account.status,
+            },
+            include: { mailbox: true },
           });
 
-          // If invoice is now fully paid and this is a renewal, apply the renewal
-          if (status === 'PAID' && isRenewalPayment && input.renewalPeriod && input.newRate !== undefined) {
-            account = await tx.account.update({
-              where: { id: input.accountId },
+          // Release the mailbox hold and record the reinstatement
+          if (wasOnHold) {
+            const mailboxToStatus = account.mailbox.status === 'HOLD' ? 'ACTIVE' : account.mailbox.status;
+            if (mailboxToStatus !== account.mailbox.status) {
+              await tx.mailbox.update({
+                where: { id: account.mailboxId },
+                data: { status: mailboxToStatus },
+              });
+            }
+            await tx.accountStatusChange.create({
               data: {
-                renewalPeriod: input.renewalPeriod,
-                currentRate: input.newRate,
-                startDate: new Date(input.periodStart),
-                nextRenewalDate: new Date(input.periodEnd),
-                // If account was HOLD, move back to ACTIVE
-                status: account.status === 'HOLD' ? 'ACTIVE' : account.status,
+                accountId: input.accountId,
+                fromStatus: 'HOLD',
+                toStatus: 'ACTIVE',
+                mailboxFromStatus: account.mailbox.status,
+                mailboxToStatus,
+                reason: 'Renewal payment received',
+                changedById: userId,
               },
-              include: { mailbox: true },
             });
-            renewalProcessed = true;
           }
+
+          // Keep the prior term so a void or refund can roll the renewal back
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: { renewalSnapshot: { ...renewalSnapshot } },
+          });
+          renewalProcessed = true;
         }
       }
+    }
 
-      return {
-        payment: this.serializePayment(payment),
-        isFirstPayment,
-        mailboxActivated,
-        renewalProcessed,
-      };
+    return {
+      payment: this.serializePayment(payment),
+      isFirstPayment,
+      mailboxActivated,
+      renewalProcessed,
+    };
+  },
+
+  /**
+   * Void or refund a payment. Nothing is deleted: a negative entry offsetting
+   * the original is recorded, the linked invoice is recomputed, and if that
+   * leaves the invoice unpaid any renewal it paid for is rolled back.
+   * Runs in its own transaction unless one is passed in.
+   */
+  async reversePayment(
+    paymentId: string,
+    input: ReversePaymentInput,
+    userId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<ReversePaymentResult> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.reversePayment(paymentId, input, userId, client));
+    }
+
+    const original = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: { reversals: { select: { amount: true } } },
+    });
+
+    if (!original) {
+      throw new Error('Payment not found');
+    }
+
+    if (original.paymentType !== 'PAYMENT') {
+      throw new Error('Only payments can be voided or refunded');
+    }
+
+    // Reversals are dated with the store's business day
+    const businessDate = new Date(getBusinessDate());
+    await DrawerService.assertDayOpen(businessDate, tx);
+
+    const amount = this.getReversalAmount(
+      {
+        amount: decimalToNumber(original.amount),
+        reversedAmount: this.sumReversals(original.reversals),
+      },
+      input
+    );
+
+    const reversal = await tx.payment.create({
+      data: {
+        accountId: original.accountId,
+        invoiceId: original.invoiceId,
+        amount: -amount,
+        paymentDate: businessDate,
+        paymentMethod: input.paymentMethod ?? original.paymentMethod,
+        paymentType: input.type,
+        periodStart: original.periodStart,
+        periodEnd: original.periodEnd,
+        recordedBy: userId,
+        reversesPaymentId: original.id,
+        reason: input.reason,
+      },
+      include: paymentInclude,
+    });
+
+    let invoiceStatus: ReversePaymentResult['invoiceStatus'] = null;
+    let renewalRolledBack = false;
+
+    if (original.invoiceId) {
+      const invoice = await InvoiceService.updateInvoicePayment(original.invoiceId, tx);
+      invoiceStatus = invoice.status;
+
+      // Take back any credit the reversed money had created
+      await CreditService.syncInvoiceOverpayment(original.invoiceId, reversal.id, userId, tx);
+
+      if (invoice.status !== 'PAID') {
+        // Money handed back no longer holds the key deposit it collected
+        await KeyDepositService.reverseCollection(original.invoiceId, userId, tx);
+        renewalRolledBack = await this.rollbackRenewal(original.invoiceId, input, userId, tx);
+      }
+    }
+
+    return {
+      reversal: this.serializePayment(reversal),
+      invoiceStatus,
+      renewalRolledBack,
+    };
+  },
+
+  /**
+   * Work out how much a void or refund takes off a payment.
+   * A void reverses whatever is left; a refund can't exceed it.
+   */
+  getReversalAmount(
+    payment: { amount: number; reversedAmount: number },
+    input: Pick<ReversePaymentInput, 'type' | 'amount'>
+  ): number {
+    const remaining = roundCurrency(payment.amount - payment.reversedAmount);
+
+    if (remaining <= 0) {
+      throw new Error('Payment has already been fully voided or refunded');
+    }
+
+    if (input.type === 'VOID') {
+      return remaining;
+    }
+
+    if (input.amount === undefined || input.amount <= 0) {
+      throw new Error('Refund amount must be positive');
+    }
+
+    const amount = roundCurrency(input.amount);
+    if (amount > remaining) {
+      throw new Error(`Refund cannot exceed the remaining ${remaining.toFixed(2)} on this payment`);
+    }
+
+    return amount;
+  },
+
+  /**
+   * Total voided/refunded against a payment, as a positive amount
+   */
+  sumReversals(reversals: { amount: Prisma.Decimal }[]): number {
+    return roundCurrency(reversals.reduce((sum, r) => sum - decimalToNumber(r.amount), 0));
+  },
+
+  /**
+   * Undo the renewal an invoice paid for, restoring the account's prior term.
+   * Skipped if a later renewal has already moved the account past that term.
+   */
+  async rollbackRenewal(
+    invoiceId: string,
+    input: ReversePaymentInput,
+    userId: string,
+    tx: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const renewalPayment = await tx.payment.findFirst({
+      where: { invoiceId, renewalSnapshot: { not: Prisma.DbNull } },
+      orderBy: { createdAt: 'desc' },
+      include: { account: { include: { mailbox: true } } },
+    });
+
+    if (!renewalPayment?.renewalSnapshot) {
+      return false;
+    }
+
+    const { account } = renewalPayment;
+    if (account.nextRenewalDate.getTime() !== renewalPayment.periodEnd.getTime()) {
+      return false;
+    }
+
+    const snapshot = renewalPayment.renewalSnapshot as unknown as RenewalSnapshot;
+    const restoreHold = snapshot.accountStatus === 'HOLD' && account.status === 'ACTIVE';
+
+    await tx.account.update({
+      where: { id: account.id },
+      data: {
+        renewalPeriod: snapshot.renewalPeriod,
+        currentRate: snapshot.currentRate,
+        startDate: new Date(snapshot.startDate),
+        nextRenewalDate: new Date(snapshot.nextRenewalDate),
+        ...(restoreHold && { status: 'HOLD' as const }),
+      },
     });
+
+    if (restoreHold) {
+      const mailboxToStatus =
+        snapshot.mailboxStatus === 'HOLD' && account.mailbox.status === 'ACTIVE'
+          ? 'HOLD'
+          : account.mailbox.status;
+      if (mailboxToStatus !== account.mailbox.status) {
+        await tx.mailbox.update({
+          where: { id: account.mailboxId },
+          data: { status: mailboxToStatus },
+        });
+      }
+      await tx.accountStatusChange.create({
+        data: {
+          accountId: account.id,
+          fromStatus: 'ACTIVE',
+          toStatus: 'HOLD',
+          mailboxFromStatus: account.mailbox.status,
+          mailboxToStatus,
+          reason: `Renewal payment ${input.type === 'VOID' ? 'voided' : 'refunded'}: ${input.reason}`,
+          changedById: userId,
+        },
+      });
+    }
+
+    await tx.payment.update({
+      where: { id: renewalPayment.id },
+      data: { renewalSnapshot: Prisma.DbNull },
+    });
+
+    return true;
+  },
+
+  /**
+   * Totals for a date range with voids and refunds broken out, for reporting
+   */
+  async getPaymentSummary(query: PaymentSummaryQuery): Promise<PaymentSummary> {
+    const where: Prisma.PaymentWhereInput = {};
+
+    if (query.startDate || query.endDate) {
+      where.paymentDate = {};
+      if (query.startDate) {
+        where.paymentDate.gte = new Date(query.startDate);
+      }
+      if (query.endDate) {
+        where.paymentDate.lte = new Date(query.endDate);
+      }
+    }
+
+    const groups = await prisma.payment.groupBy({
+      by: ['paymentType', 'paymentMethod'],
+      where,
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+
+    const summary: PaymentSummary = {
+      startDate: query.startDate ?? null,
+      endDate: query.endDate ?? null,
+      paymentCount: 0,
+      grossPayments: 0,
+      voidCount: 0,
+      voidedAmount: 0,
+      refundCount: 0,
+      refundedAmount: 0,
+      netAmount: 0,
+      byMethod: { CASH: 0, CARD: 0, CHECK: 0 },
+    };
+
+    for (const group of groups) {
+      const amount = group._sum.amount ? decimalToNumber(group._sum.amount) : 0;
+      const count = group._count._all;
+      const type: PaymentType = group.paymentType;
+
+      if (type === 'PAYMENT') {
+        summary.paymentCount += count;
+        summary.grossPayments += amount;
+      } else if (type === 'VOID') {
+        summary.voidCount += count;
+        summary.voidedAmount -= amount;
+      } else {
+        summary.refundCount += count;
+        summary.refundedAmount -= amount;
+      }
+
+      summary.netAmount += amount;
+      summary.byMethod[group.paymentMethod] += amount;
+    }
+
+    summary.grossPayments = roundCurrency(summary.grossPayments);
+    summary.voidedAmount = roundCurrency(summary.voidedAmount);
+    summary.refundedAmount = roundCurrency(summary.refundedAmount);
+    summary.netAmount = roundCurrency(summary.netAmount);
+    for (const method of Object.keys(summary.byMethod) as PaymentMethod[]) {
+      summary.byMethod[method] = roundCurrency(summary.byMethod[method]);
+    }
+
+    return summary;
   },
 
   /**
@@ -303,24 +604,7 @@ export const PaymentService = {
   async getAccountPayments(accountId: string): Promise<PaymentWithDetails[]> {
     const payments = await prisma.payment.findMany({
       where: { accountId },
-      include: {
-        recordedByUser: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-        account: {
-          select: {
-            id: true,
-            mailbox: {
-              select: { number: true },
-            },
-          },
-        },
-      },
+      include: paymentInclude,
       orderBy: { paymentDate: 'desc' },
     });
 
@@ -337,10 +621,18 @@ export const PaymentService = {
     amount: Prisma.Decimal;
     paymentDate: Date;
     paymentMethod: PaymentMethod;
+    paymentType: PaymentType;
     periodStart: Date;
     periodEnd: Date;
     notes: string | null;
     recordedBy: string;
+    reversesPaymentId: string | null;
+    reason: string | null;
+    checkNumber: string | null;
+    checkBank: string | null;
+    checkDate: Date | null;
+    checkReturnedAt: Date | null;
+    gatewayTransactionId: string | null;
     createdAt: Date;
     updatedAt: Date;
     recordedByUser: {
@@ -355,6 +647,7 @@ export const PaymentService = {
         number: number;
       };
     };
+    reversals?: { amount: Prisma.Decimal }[];
   }): PaymentWithDetails {
     return {
       id: payment.id,
@@ -363,14 +656,23 @@ export const PaymentService = {
       amount: decimalToNumber(payment.amount),
       paymentDate: formatDateString(payment.paymentDate),
       paymentMethod: payment.paymentMethod,
+      paymentType: payment.paymentType,
       periodStart: formatDateString(payment.periodStart),
       periodEnd: formatDateString(payment.periodEnd),
       notes: payment.notes,
       recordedBy: payment.recordedBy,
+      reversesPaymentId: payment.reversesPaymentId,
+      reason: payment.reason,
+      checkNumber: payment.checkNumber,
+      checkBank: payment.checkBank,
+      checkDate: payment.checkDate ? formatDateString(payment.checkDate) : null,
+      checkReturnedAt: payment.checkReturnedAt?.toISOString() ?? null,
+      gatewayTransactionId: payment.gatewayTransactionId,
       createdAt: payment.createdAt.toISOString(),
       updatedAt: payment.updatedAt.toISOString(),
       recordedByUser: payment.recordedByUser,
       account: payment.account,
+      reversedAmount: this.sumReversals(payment.reversals ?? []),
     };
   },
 };
@@ -0,0 +1,307 @@
+import type { Prisma, RenewalPeriod } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { PRICING } from '@/constants/app';
+import { roundCurrency } from '@/lib/utils/currency';
+import { calculateNextRenewalDate, formatDateString } from '@/lib/utils/date';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { CreditService } from './credit.service';
+import { InvoiceService } from './invoice.service';
+import { PricingService } from './pricing.service';
+import { ADDITIONAL_RECIPIENT_FEES, ProrationService } from './proration.service';
+import type { PriceConfig, RecipientAnalysis, RenewalPriceBreakdown } from '@/types/pricing';
+import type {
+  PlanChangeCheckInput,
+  PlanChangeLine,
+  PlanChangePreview,
+  PlanChangeResult,
+} from '@/types/plan-change';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+/**
+ * Build an invoice line, working out its amount the way the invoice will
+ */
+function line(
+  lineType: PlanChangeLine['lineType'],
+  description: string,
+  unitPrice: number,
+  months: number,
+  quantity: number = 1
+): PlanChangeLine {
+  return {
+    lineType,
+    description,
+    unitPrice,
+    quantity,
+    months,
+    amount: roundCurrency(unitPrice * months * quantity),
+  };
+}
+
+/**
+ * Service for switching an account to a different renewal period partway through a term
+ */
+export const PlanChangeService = {
+  /**
+   * Why an account can't change to the given plan right now, or null if it can
+   */
+  getChangeBlocker(account: PlanChangeCheckInput, renewalPeriod: RenewalPeriod): string | null {
+    if (account.status === 'CLOSED') {
+      return 'Closed accounts cannot change plans';
+    }
+
+    if (account.renewalPeriod === renewalPeriod) {
+      return 'The account is already on this plan';
+    }
+
+    if (account.hasUnpaidInvoice) {
+      return 'The account has an unpaid renewal invoice';
+    }
+
+    if (account.daysRemaining <= 0) {
+      return 'The current term has ended; renew the account instead';
+    }
+
+    return null;
+  },
+
+  /**
+   * Value of the days left on the current term
+   */
+  getUnusedCredit(termTotal: number, daysRemaining: number, termDays: number): number {
+    if (termDays <= 0 || daysRemaining <= 0) {
+      return 0;
+    }
+    return roundCurrency((termTotal * Math.min(daysRemaining, termDays)) / termDays);
+  },
+
+  /**
+   * Invoice lines for a renewal breakdown, including fees for minors who turn 18 during the term
+   */
+  buildLineItems(
+    rates: PriceConfig,
+    breakdown: RenewalPriceBreakdown,
+    analysis: RecipientAnalysis,
+    renewalPeriod: RenewalPeriod
+  ): PlanChangeLine[] {
+    const months = breakdown.periodMonths;
+    const lines: PlanChangeLine[] = [
+      line(
+        'BASE_RATE',
+        `Base Rate (${InvoiceService.formatPeriodLabel(renewalPeriod)})`,
+        roundCurrency(breakdown.baseRate / months),
+        months
+      ),
+    ];
+
+    if (breakdown.businessFee > 0) {
+      lines.push(line('BUSINESS_FEE', 'Business Account Fee', decimalToNumber(rates.businessAccountFee), months));
+    }
+
+    const additionalAdults = Math.min(
+      Math.max(0, analysis.adultCount - PRICING.INCLUDED_RECIPIENTS),
+      ADDITIONAL_RECIPIENT_FEES.length
+    );
+    for (const fee of ADDITIONAL_RECIPIENT_FEES.slice(0, additionalAdults)) {
+      const rate = decimalToNumber(rates[fee.rateField]);
+      if (rate > 0) {
+        lines.push(line(fee.lineType, fee.description, rate, months));
+      }
+    }
+
+    // Minors turning 18 are only charged the minor fee for the months before their birthday
+    const minorFeeMonthly = decimalToNumber(rates.minorRecipientFee);
+    if (breakdown.minorFees > 0 && minorFeeMonthly > 0) {
+      lines.push(
+        line(
+          'MINOR_FEE',
+          `Minor Recipient Fee${analysis.minorCount > 1 ? ` (${analysis.minorCount})` : ''}`,
+          minorFeeMonthly,
+          roundCurrency(breakdown.minorFees / minorFeeMonthly)
+        )
+      );
+    }
+
+    for (const transition of breakdown.minorTransitions) {
+      if (transition.additionalAdultFee > 0 && transition.monthsAsAdult > 0) {
+        lines.push(
+          line(
+            'MINOR_TRANSITION',
+            `Additional Adult Fee (${transition.recipientName}, 18 on ${formatDateString(transition.turnsAdultDate)})`,
+            roundCurrency(transition.additionalAdultFee / transition.monthsAsAdult),
+            transition.monthsAsAdult
+          )
+        );
+      }
+    }
+
+    return lines;
+  },
+
+  /**
+   * Compare the account's current term with the plan it would switch to today
+   */
+  async previewPlanChange(
+    accountId: string,
+    renewalPeriod: RenewalPeriod,
+    changeDate: Date = new Date()
+  ): Promise<PlanChangePreview | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      include: { recipients: { where: { removedDate: null } } },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const rates = await PricingService.getCurrentRates();
+    if (!rates) {
+      throw new Error('No pricing configuration found');
+    }
+
+    const unpaidInvoices = await prisma.invoice.count({
+      where: {
+        accountId,
+        invoiceType: { in: ['NEW_ACCOUNT', 'RENEWAL'] },
+        status: { in: ['PENDING', 'PARTIAL'] },
+      },
+    });
+
+    const term = ProrationService.getRemainingTerm(account, changeDate);
+    const currentRate = decimalToNumber(account.currentRate);
+    const currentTermTotal = roundCurrency(
+      currentRate * PRICING.PERIOD_MONTHS[account.renewalPeriod]
+    );
+
+    const breakdown = PricingService.calculateRenewalPriceBreakdown(
+      rates,
+      renewalPeriod,
+      account.recipients.map((r) => ({
+        id: r.id,
+        recipientType: r.recipientType,
+        name: formatRecipientName(r),
+        birthdate: r.birthdate,
+      })),
+      changeDate
+    );
+    const lineItems = this.buildLineItems(
+      rates,
+      breakdown,
+      PricingService.analyzeRecipients(account.recipients),
+      renewalPeriod
+    );
+    const termTotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+    const unusedCredit = this.getUnusedCredit(currentTermTotal, term.daysRemaining, term.termDays);
+    const creditBalance = decimalToNumber(account.creditBalance);
+
+    return {
+      accountId,
+      changeDate: formatDateString(changeDate),
+      current: {
+        renewalPeriod: account.renewalPeriod,
+        monthlyRate: currentRate,
+        termTotal: currentTermTotal,
+        periodStart: formatDateString(term.periodStart),
+        nextRenewalDate: formatDateString(account.nextRenewalDate),
+        daysRemaining: term.daysRemaining,
+        termDays: term.termDays,
+      },
+      proposed: {
+        renewalPeriod,
+        monthlyRate: roundCurrency(termTotal / breakdown.periodMonths),
+        termTotal,
+        periodStart: formatDateString(changeDate),
+        nextRenewalDate: formatDateString(calculateNextRenewalDate(changeDate, renewalPeriod)),
+      },
+      lineItems,
+      unusedCredit,
+      creditBalance,
+      amountDue: roundCurrency(Math.max(0, termTotal - unusedCredit - creditBalance)),
+      blocker: this.getChangeBlocker(
+        {
+          status: account.status,
+          renewalPeriod: account.renewalPeriod,
+          hasUnpaidInvoice: unpaidInvoices > 0,
+          daysRemaining: term.daysRemaining,
+        },
+        renewalPeriod
+      ),
+    };
+  },
+
+  /**
+   * Bill a new term on a different plan starting today. Unused time on the current
+   * term becomes account credit, which goes toward the new term's invoice. The
+   * account moves to the new plan once that invoice is settled, by credit or by
+   * a renewal payment.
+   */
+  async changePlan(
+    accountId: string,
+    renewalPeriod: RenewalPeriod,
+    userId: string
+  ): Promise<PlanChangeResult | null> {
+    const changeDate = new Date();
+    const preview = await this.previewPlanChange(accountId, renewalPeriod, changeDate);
+
+    if (!preview) {
+      return null;
+    }
+
+    if (preview.blocker) {
+      throw new Error(preview.blocker);
+    }
+
+    const fromLabel = InvoiceService.formatPeriodLabel(preview.current.renewalPeriod);
+    const toLabel = InvoiceService.formatPeriodLabel(renewalPeriod);
+
+    return prisma.$transaction(async (tx) => {
+      if (preview.unusedCredit > 0) {
+        await CreditService.record(
+          {
+            accountId,
+            action: 'PLAN_CHANGE',
+            amount: preview.unusedCredit,
+            notes: `Unused ${preview.current.daysRemaining} days of ${fromLabel} term`,
+          },
+          userId,
+          tx
+        );
+      }
+
+      const invoice = await InvoiceService.createInvoice(
+        {
+          accountId,
+          invoiceDate: changeDate,
+          invoiceType: 'RENEWAL',
+          renewalPeriod,
+          periodStart: changeDate,
+          periodEnd: new Date(preview.proposed.nextRenewalDate),
+          periodMonths: PRICING.PERIOD_MONTHS[renewalPeriod],
+          lineItems: preview.lineItems.map((item, index) => ({
+            lineType: item.lineType,
+            description: item.description,
+            unitPrice: item.unitPrice,
+            months: item.months,
+            quantity: item.quantity,
+            sortOrder: index,
+          })),
+          notes: `Plan changed from ${fromLabel} to ${toLabel}`,
+        },
+        userId,
+        tx
+      );
+
+      return {
+        preview,
+        invoice: await InvoiceService.applyAccountCredit(invoice, userId, tx),
+      };
+    });
+  },
+};
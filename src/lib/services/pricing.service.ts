@@ -12,6 +12,8 @@ import type {
   RenewalPriceBreakdown,
   MinorTransition,
   RecipientForRenewal,
+  OverdueFee,
+  OverdueFeeInput,
 } from '@/types/pricing';
 
 /**
@@ -244,6 +246,35 @@ export const PricingService = {
     };
   },
 
+  /**
+   * One-time fees a renewal paid on the given date carries: a late fee once the
+   * renewal date has passed, and a reinstatement fee when the account is on HOLD.
+   * Fees set to 0 in the rate configuration are not charged.
+   */
+  getOverdueFees(
+    rates: PriceConfig,
+    account: OverdueFeeInput,
+    asOf: Date = new Date()
+  ): OverdueFee[] {
+    const fees: OverdueFee[] = [];
+    const lateFee = decimalToNumber(rates.lateFee);
+    const reinstatementFee = decimalToNumber(rates.reinstatementFee);
+
+    // Compare calendar dates so paying on the renewal date itself is on time
+    const paidOn = asOf.toISOString().split('T')[0] ?? '';
+    const dueOn = account.nextRenewalDate.toISOString().split('T')[0] ?? '';
+
+    if (lateFee > 0 && paidOn > dueOn) {
+      fees.push({ lineType: 'LATE_FEE', description: 'Late Fee', amount: lateFee });
+    }
+
+    if (reinstatementFee > 0 && account.status === 'HOLD') {
+      fees.push({ lineType: 'REINSTATEMENT_FEE', description: 'Reinstatement Fee', amount: reinstatementFee });
+    }
+
+    return fees;
+  },
+
   /**
    * Analyze recipients to get counts for pricing calculation
    *
@@ -442,6 +473,9 @@ export const PricingService = {
       businessAccountFee: decimalToNumber(config.businessAccountFee),
       minorRecipientFee: decimalToNumber(config.minorRecipientFee),
       keyDeposit: decimalToNumber(config.keyDeposit),
+      lateFee: decimalToNumber(config.lateFee),
+      reinstatementFee: decimalToNumber(config.reinstatementFee),
+      returnedCheckFee: decimalToNumber(config.returnedCheckFee),
       createdById: config.createdById,
       notes: config.notes,
       createdAt: config.createdAt.toISOString(),
@@ -449,4 +483,4 @@ export const PricingService = {
   },
 };
 
-export type { PriceConfig, PriceBreakdown, PriceCalculationInput, RecipientAnalysis, RenewalPriceBreakdown, MinorTransition, RecipientForRenewal };
+export type { PriceConfig, PriceBreakdown, PriceCalculationInput, RecipientAnalysis, RenewalPriceBreakdown, MinorTransition, RecipientForRenewal, OverdueFee };
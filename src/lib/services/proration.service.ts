@@ -0,0 +1,308 @@
+import type { Prisma, RenewalPeriod } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { PRICING } from '@/constants/app';
+import { roundCurrency } from '@/lib/utils/currency';
+import { getTermDays, formatDateString } from '@/lib/utils/date';
+import { CreditService } from './credit.service';
+import { InvoiceService } from './invoice.service';
+import { PricingService } from './pricing.service';
+import type { PriceConfig, RecipientAnalysis } from '@/types/pricing';
+import type {
+  FeeChange,
+  ProrationLine,
+  ProrationPreview,
+  ProrationRecipient,
+  ProrationResult,
+  RecipientChangeInput,
+} from '@/types/proration';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Whole days from one date to another, ignoring the time of day
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (Date.parse(formatDateString(to)) - Date.parse(formatDateString(from))) / MS_PER_DAY
+  );
+}
+
+export const ADDITIONAL_RECIPIENT_FEES = [
+  { lineType: 'ADDITIONAL_RECIPIENT_4TH', description: '4th Recipient Fee', rateField: 'rate4thAdult' },
+  { lineType: 'ADDITIONAL_RECIPIENT_5TH', description: '5th Recipient Fee', rateField: 'rate5thAdult' },
+  { lineType: 'ADDITIONAL_RECIPIENT_6TH', description: '6th Recipient Fee', rateField: 'rate6thAdult' },
+  { lineType: 'ADDITIONAL_RECIPIENT_7TH', description: '7th Recipient Fee', rateField: 'rate7thAdult' },
+] as const;
+
+interface ProrationAccount {
+  id: string;
+  startDate: Date;
+  nextRenewalDate: Date;
+  renewalPeriod: RenewalPeriod;
+}
+
+/**
+ * Service for billing recipient changes made partway through a term
+ */
+export const ProrationService = {
+  /**
+   * Monthly fees a recipient change adds and removes
+   */
+  getFeeChanges(
+    rates: PriceConfig,
+    before: RecipientAnalysis,
+    after: RecipientAnalysis
+  ): { added: FeeChange[]; removed: FeeChange[] } {
+    const added: FeeChange[] = [];
+    const removed: FeeChange[] = [];
+
+    const businessFee: FeeChange = {
+      lineType: 'BUSINESS_FEE',
+      description: 'Business Account Fee',
+      monthlyRate: Number(rates.businessAccountFee),
+    };
+    if (!before.hasBusinessRecipient && after.hasBusinessRecipient) {
+      added.push(businessFee);
+    } else if (before.hasBusinessRecipient && !after.hasBusinessRecipient) {
+      removed.push(businessFee);
+    }
+
+    // Adults beyond the included recipients each have their own fee tier
+    const beforeAdditional = Math.max(0, before.adultCount - PRICING.INCLUDED_RECIPIENTS);
+    const afterAdditional = Math.max(0, after.adultCount - PRICING.INCLUDED_RECIPIENTS);
+    ADDITIONAL_RECIPIENT_FEES.forEach((fee, i) => {
+      const change: FeeChange = {
+        lineType: fee.lineType,
+        description: fee.description,
+        monthlyRate: Number(rates[fee.rateField]),
+      };
+      if (i >= beforeAdditional && i < afterAdditional) {
+        added.push(change);
+      } else if (i >= afterAdditional && i < beforeAdditional) {
+        removed.push(change);
+      }
+    });
+
+    const minorChange = after.minorCount - before.minorCount;
+    if (minorChange !== 0) {
+      const count = Math.abs(minorChange);
+      (minorChange > 0 ? added : removed).push({
+        lineType: 'MINOR_FEE',
+        description: `Minor Recipient Fee${count > 1 ? ` (${count})` : ''}`,
+        monthlyRate: Number(rates.minorRecipientFee) * count,
+      });
+    }
+
+    return { added, removed };
+  },
+
+  /**
+   * The current term and how many of its days are left on the change date
+   */
+  getRemainingTerm(
+    account: ProrationAccount,
+    changeDate: Date
+  ): { periodStart: Date; periodEnd: Date; daysRemaining: number; termDays: number } {
+    const periodEnd = account.nextRenewalDate;
+    const termStart = subDays(periodEnd, getTermDays(account.renewalPeriod));
+    const periodStart = termStart > account.startDate ? termStart : account.startDate;
+    const termDays = Math.max(1, daysBetween(periodStart, periodEnd));
+    const daysRemaining = Math.min(termDays, Math.max(0, daysBetween(changeDate, periodEnd)));
+
+    return { periodStart, periodEnd, daysRemaining, termDays };
+  },
+
+  /**
+   * Price fee changes for the share of the term still remaining
+   */
+  prorate(
+    fees: FeeChange[],
+    renewalPeriod: RenewalPeriod,
+    daysRemaining: number,
+    termDays: number
+  ): ProrationLine[] {
+    const months = roundCurrency(
+      (PRICING.PERIOD_MONTHS[renewalPeriod] * daysRemaining) / termDays
+    );
+    if (months <= 0) {
+      return [];
+    }
+
+    return fees
+      .filter((fee) => fee.monthlyRate > 0)
+      .map((fee) => ({ ...fee, months, amount: roundCurrency(fee.monthlyRate * months) }));
+  },
+
+  /**
+   * The recipients the account will have once a PATCH's recipient changes are applied
+   */
+  applyRecipientChanges(
+    current: ProrationRecipient[],
+    changes: RecipientChangeInput[]
+  ): ProrationRecipient[] {
+    const recipients = new Map(current.map((r, i) => [r.id ?? `current-${i}`, r]));
+
+    changes.forEach((change, i) => {
+      if (change.id && change._delete) {
+        recipients.delete(change.id);
+      } else if (change.id && recipients.has(change.id)) {
+        const existing = recipients.get(change.id);
+        recipients.set(change.id, {
+          id: change.id,
+          recipientType: change.recipientType ?? existing?.recipientType ?? 'PERSON',
+          birthdate: change.birthdate !== undefined
+            ? (change.birthdate ? new Date(change.birthdate) : null)
+            : existing?.birthdate ?? null,
+        });
+      } else if (change._isNew) {
+        const recipientType = change.recipientType ?? 'PERSON';
+        recipients.set(`new-${i}`, {
+          recipientType,
+          birthdate: recipientType === 'PERSON' && change.birthdate ? new Date(change.birthdate) : null,
+        });
+      }
+    });
+
+    return Array.from(recipients.values());
+  },
+
+  /**
+   * What a set of recipient changes would charge or credit, before they're saved
+   */
+  async previewRecipientChanges(
+    accountId: string,
+    changes: RecipientChangeInput[],
+    changeDate: Date = new Date()
+  ): Promise<ProrationPreview | null> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      include: { recipients: { where: { removedDate: null } } },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const rates = await PricingService.getRatesForDate(account.lastRenewalDate ?? account.startDate);
+    const before = PricingService.analyzeRecipients(account.recipients);
+    const after = PricingService.analyzeRecipients(
+      this.applyRecipientChanges(account.recipients, changes)
+    );
+
+    return this.buildPreview(account, rates, before, after, changeDate);
+  },
+
+  /**
+   * Bill a recipient change that has been saved. Added fees are charged for the
+   * days left in the term, on the term's open proration invoice if there is one.
+   * Removed fees become account credit, which goes toward that open invoice first.
+   * Charges, credit and its application are saved together.
+   */
+  async applyRecipientChange(
+    account: ProrationAccount,
+    rates: PriceConfig,
+    before: RecipientAnalysis,
+    after: RecipientAnalysis,
+    userId: string | null,
+    changeDate: Date = new Date()
+  ): Promise<ProrationResult> {
+    const preview = await this.buildPreview(account, rates, before, after, changeDate);
+    const openInvoice = await this.findOpenInvoice(account);
+    const invoiceBefore = openInvoice ? await InvoiceService.getInvoice(openInvoice.id) : null;
+
+    return prisma.$transaction(async (tx) => {
+      let invoice = null;
+
+      if (preview.charges.length > 0) {
+        if (openInvoice) {
+          invoice = await InvoiceService.addProrationLines(
+            openInvoice.id,
+            preview.charges,
+            preview.daysRemaining,
+            tx
+          );
+        } else {
+          invoice = await InvoiceService.createProrationInvoice(
+            account.id,
+            account.nextRenewalDate,
+            account.renewalPeriod,
+            preview.charges,
+            preview.daysRemaining,
+            userId,
+            tx
+          );
+        }
+      }
+
+      if (preview.creditTotal > 0) {
+        await CreditService.record(
+          {
+            accountId: account.id,
+            action: 'PRORATION',
+            amount: preview.creditTotal,
+            notes: `${preview.credits.map((c) => c.description).join(', ')} removed with ${preview.daysRemaining} days remaining in term`,
+          },
+          userId,
+          tx
+        );
+
+        const target = invoice ?? invoiceBefore;
+        if (target) {
+          invoice = await InvoiceService.applyAccountCredit(target, userId, tx);
+        }
+      }
+
+      return { invoice, invoiceBefore, creditIssued: preview.creditTotal };
+    });
+  },
+
+  /**
+   * Price a before/after recipient analysis against the rest of the term
+   */
+  async buildPreview(
+    account: ProrationAccount,
+    rates: PriceConfig | null,
+    before: RecipientAnalysis,
+    after: RecipientAnalysis,
+    changeDate: Date
+  ): Promise<ProrationPreview> {
+    const term = this.getRemainingTerm(account, changeDate);
+    const fees = rates ? this.getFeeChanges(rates, before, after) : { added: [], removed: [] };
+    const charges = this.prorate(fees.added, account.renewalPeriod, term.daysRemaining, term.termDays);
+    const credits = this.prorate(fees.removed, account.renewalPeriod, term.daysRemaining, term.termDays);
+    const openInvoice = charges.length > 0 ? await this.findOpenInvoice(account) : null;
+
+    return {
+      changeDate: formatDateString(changeDate),
+      periodStart: formatDateString(term.periodStart),
+      periodEnd: formatDateString(term.periodEnd),
+      daysRemaining: term.daysRemaining,
+      termDays: term.termDays,
+      charges,
+      credits,
+      chargeTotal: roundCurrency(charges.reduce((sum, c) => sum + c.amount, 0)),
+      creditTotal: roundCurrency(credits.reduce((sum, c) => sum + c.amount, 0)),
+      openInvoiceNumber: openInvoice?.invoiceNumber ?? null,
+    };
+  },
+
+  /**
+   * The unpaid proration invoice for the account's current term, if any
+   */
+  async findOpenInvoice(
+    account: ProrationAccount,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<{ id: string; invoiceNumber: number } | null> {
+    return tx.invoice.findFirst({
+      where: {
+        accountId: account.id,
+        invoiceType: 'PRORATION',
+        status: { in: ['PENDING', 'PARTIAL'] },
+        periodEnd: account.nextRenewalDate,
+      },
+      select: { id: true, invoiceNumber: true },
+      orderBy: { invoiceDate: 'desc' },
+    });
+  },
+};
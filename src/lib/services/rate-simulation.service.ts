@@ -0,0 +1,244 @@
+import { Prisma, type RenewalPeriod } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { PRICING, RATE_SIMULATION } from '@/constants/app';
+import { PricingService } from '@/lib/services/pricing.service';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { escapeCsv } from '@/lib/utils/csv';
+import type { SimulatePricingInput } from '@/lib/validations/pricing';
+import type {
+  PriceConfig,
+  RateSimulationAccount,
+  RateSimulationAccountInput,
+  RateSimulationPeriodSummary,
+  RateSimulationResult,
+} from '@/types/pricing';
+
+const RENEWAL_PERIODS: RenewalPeriod[] = ['THREE_MONTH', 'SIX_MONTH', 'TWELVE_MONTH'];
+
+/**
+ * Service for previewing what proposed rates would do to renewal revenue
+ */
+export const RateSimulationService = {
+  /**
+   * Proposed rates as an unsaved rate configuration, period rates derived from
+   * the monthly base rate the same way saving them does
+   */
+  buildProposedRates(input: SimulatePricingInput): PriceConfig {
+    const decimal = (value: number): Prisma.Decimal => new Prisma.Decimal(value);
+    return {
+      id: 'proposed',
+      startDate: new Date(input.startDate),
+      endDate: null,
+      baseRate3mo: decimal(input.baseMonthlyRate * PRICING.PERIOD_MONTHS.THREE_MONTH),
+      baseRate6mo: decimal(input.baseMonthlyRate * PRICING.PERIOD_MONTHS.SIX_MONTH),
+      baseRate12mo: decimal(input.baseMonthlyRate * PRICING.PERIOD_MONTHS.TWELVE_MONTH),
+      rate4thAdult: decimal(input.rate4thAdult),
+      rate5thAdult: decimal(input.rate5thAdult),
+      rate6thAdult: decimal(input.rate6thAdult),
+      rate7thAdult: decimal(input.rate7thAdult),
+      businessAccountFee: decimal(input.businessAccountFee),
+      minorRecipientFee: decimal(input.minorRecipientFee),
+      keyDeposit: decimal(input.keyDeposit),
+      lateFee: decimal(input.lateFee),
+      reinstatementFee: decimal(input.reinstatementFee),
+      returnedCheckFee: decimal(input.returnedCheckFee),
+      createdById: null,
+      notes: input.notes ?? null,
+      createdAt: new Date(),
+    };
+  },
+
+  /**
+   * Rates in effect on a date from the saved history (newest first), falling back
+   * to the most recent rate that had started
+   */
+  getRatesForDate(history: PriceConfig[], date: Date): PriceConfig | null {
+    const day = formatDateString(date);
+    const started = history.filter((rate) => formatDateString(rate.startDate) <= day);
+    return (
+      started.find((rate) => !rate.endDate || formatDateString(rate.endDate) >= day) ??
+      started[0] ??
+      null
+    );
+  },
+
+  /**
+   * Price each account's next renewal at saved and proposed rates. Renewals before
+   * the proposed start date keep their saved price.
+   */
+  simulate(
+    accounts: RateSimulationAccountInput[],
+    history: PriceConfig[],
+    proposed: PriceConfig
+  ): RateSimulationResult {
+    const startDate = formatDateString(proposed.startDate);
+
+    const results: RateSimulationAccount[] = accounts.map((account) => {
+      const currentRates = this.getRatesForDate(history, account.renewalDate);
+      if (!currentRates) {
+        throw new Error('No pricing configuration found');
+      }
+
+      const affected = formatDateString(account.renewalDate) >= startDate;
+      const price = (rates: PriceConfig): number =>
+        roundCurrency(
+          PricingService.calculateRenewalPriceBreakdown(
+            rates,
+            account.renewalPeriod,
+            account.recipients,
+            account.renewalDate
+          ).adjustedTotalForPeriod
+        );
+
+      const currentPrice = price(currentRates);
+      const proposedPrice = affected ? price(proposed) : currentPrice;
+      const delta = roundCurrency(proposedPrice - currentPrice);
+
+      return {
+        accountId: account.accountId,
+        mailboxNumber: account.mailboxNumber,
+        accountName: account.accountName,
+        accountStatus: account.accountStatus,
+        renewalPeriod: account.renewalPeriod,
+        nextRenewalDate: formatDateString(account.renewalDate),
+        currentPrice,
+        proposedPrice,
+        delta,
+        deltaPercent: currentPrice > 0 ? Math.round((delta / currentPrice) * 1000) / 10 : null,
+        affected,
+      };
+    });
+
+    const sumOf = (items: RateSimulationAccount[], pick: (item: RateSimulationAccount) => number): number =>
+      roundCurrency(items.reduce((sum, item) => sum + pick(item), 0));
+
+    const byRenewalPeriod: RateSimulationPeriodSummary[] = RENEWAL_PERIODS.map((renewalPeriod) => {
+      const inPeriod = results.filter((r) => r.renewalPeriod === renewalPeriod);
+      return {
+        renewalPeriod,
+        accountCount: inPeriod.length,
+        affectedCount: inPeriod.filter((r) => r.affected).length,
+        currentRevenue: sumOf(inPeriod, (r) => r.currentPrice),
+        proposedRevenue: sumOf(inPeriod, (r) => r.proposedPrice),
+        delta: sumOf(inPeriod, (r) => r.delta),
+      };
+    });
+
+    const topIncreases = results
+      .filter((r) => r.delta > 0)
+      .sort((a, b) => b.delta - a.delta || a.mailboxNumber - b.mailboxNumber)
+      .slice(0, RATE_SIMULATION.TOP_INCREASES);
+
+    return {
+      startDate,
+      accountCount: results.length,
+      affectedCount: results.filter((r) => r.affected).length,
+      increasedCount: results.filter((r) => r.delta > 0).length,
+      decreasedCount: results.filter((r) => r.delta < 0).length,
+      currentRevenue: sumOf(results, (r) => r.currentPrice),
+      proposedRevenue: sumOf(results, (r) => r.proposedPrice),
+      totalDelta: sumOf(results, (r) => r.delta),
+      byRenewalPeriod,
+      topIncreases,
+      accounts: results.sort((a, b) => a.mailboxNumber - b.mailboxNumber),
+    };
+  },
+
+  /**
+   * Run every ACTIVE and HOLD account through the proposed rates at its next renewal
+   */
+  async simulateProposedRates(input: SimulatePricingInput): Promise<RateSimulationResult> {
+    const [accounts, history] = await Promise.all([
+      prisma.account.findMany({
+        where: { status: { in: ['ACTIVE', 'HOLD'] } },
+        include: {
+          mailbox: { select: { number: true } },
+          recipients: {
+            where: { removedDate: null },
+            orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+          },
+        },
+      }),
+      prisma.rateHistory.findMany({ orderBy: { startDate: 'desc' } }),
+    ]);
+
+    const today = new Date();
+
+    return this.simulate(
+      accounts.map((account) => {
+        const primary = account.recipients[0];
+        return {
+          accountId: account.id,
+          mailboxNumber: account.mailbox.number,
+          accountName: primary ? formatRecipientName(primary) : 'Unknown',
+          accountStatus: account.status,
+          renewalPeriod: account.renewalPeriod,
+          // HOLD accounts are already past due and renew whenever they pay
+          renewalDate: account.nextRenewalDate > today ? account.nextRenewalDate : today,
+          recipients: account.recipients.map((r) => ({
+            id: r.id,
+            recipientType: r.recipientType as 'PERSON' | 'BUSINESS',
+            name: formatRecipientName(r),
+            birthdate: r.birthdate,
+          })),
+        };
+      }),
+      history,
+      this.buildProposedRates(input)
+    );
+  },
+
+  /**
+   * Per-account simulation as CSV, largest increases first
+   */
+  formatCsv(result: RateSimulationResult): string {
+    const header = [
+      'Mailbox',
+      'Account',
+      'Status',
+      'Renewal Period',
+      'Next Renewal',
+      'Current Price',
+      'Proposed Price',
+      'Change',
+      'Change %',
+      'Affected',
+    ];
+
+    const rows = [...result.accounts]
+      .sort((a, b) => b.delta - a.delta || a.mailboxNumber - b.mailboxNumber)
+      .map((account) => [
+        String(account.mailboxNumber),
+        account.accountName,
+        account.accountStatus,
+        account.renewalPeriod,
+        account.nextRenewalDate,
+        account.currentPrice.toFixed(2),
+        account.proposedPrice.toFixed(2),
+        account.delta.toFixed(2),
+        account.deltaPercent !== null ? account.deltaPercent.toFixed(1) : '',
+        account.affected ? 'Yes' : 'No',
+      ]);
+
+    const totals = [
+      'Total',
+      '',
+      '',
+      '',
+      '',
+      result.currentRevenue.toFixed(2),
+      result.proposedRevenue.toFixed(2),
+      result.totalDelta.toFixed(2),
+      '',
+      String(result.affectedCount),
+    ];
+
+    const content = [header, ...rows, totals]
+      .map((row) => row.map(escapeCsv).join(','))
+      .join('\r\n');
+
+    return `${content}\r\n`;
+  },
+};
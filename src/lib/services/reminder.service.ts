@@ -0,0 +1,384 @@
+import { addYears, differenceInDays, format } from 'date-fns';
+import type { AccountStatus, Prisma, ReminderType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { RENEWAL, VERIFICATION, REMINDERS, AUDIT_LOG } from '@/constants/app';
+import { WORK_QUEUE_CATEGORIES } from '@/constants/status';
+import { getToday, formatDateString } from '@/lib/utils/date';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import type { AuditContext } from '@/types/audit-log';
+import type {
+  PlannedReminder,
+  WorkQueue,
+  WorkQueueCategory,
+  WorkQueueItem,
+  ReminderGenerationResult,
+} from '@/types/reminder';
+
+/**
+ * Format a date for reminder messages
+ */
+function formatMessageDate(date: Date): string {
+  return format(date, 'MMM d, yyyy');
+}
+
+/**
+ * Whether a date falls between today and the end of a reminder window
+ */
+function isWithinWindow(date: Date, asOfDate: Date, days: number): boolean {
+  const daysUntil = differenceInDays(date, asOfDate);
+  return daysUntil >= 0 && daysUntil <= days;
+}
+
+function isSameDate(a: Date | null | undefined, b: Date): boolean {
+  return a !== null && a !== undefined && formatDateString(a) === formatDateString(b);
+}
+
+const recipientSelect = {
+  id: true,
+  recipientType: true,
+  firstName: true,
+  middleName: true,
+  lastName: true,
+  personAlias: true,
+  businessName: true,
+  businessAlias: true,
+  birthdate: true,
+  idExpirationDate: true,
+  validUntilDate: true,
+  removedDate: true,
+} satisfies Prisma.RecipientSelect;
+
+/**
+ * Account shape needed to plan reminders
+ */
+const planningInclude = {
+  mailbox: { select: { number: true } },
+  recipients: {
+    where: { removedDate: null },
+    select: recipientSelect,
+  },
+} satisfies Prisma.AccountInclude;
+
+type PlanningAccount = Prisma.AccountGetPayload<{ include: typeof planningInclude }>;
+
+const openReminderInclude = {
+  account: {
+    select: {
+      id: true,
+      status: true,
+      nextRenewalDate: true,
+      mailbox: { select: { number: true } },
+    },
+  },
+  recipient: { select: recipientSelect },
+} satisfies Prisma.ReminderInclude;
+
+type OpenReminder = Prisma.ReminderGetPayload<{ include: typeof openReminderInclude }>;
+
+/**
+ * Key used to de-duplicate reminders per account/recipient
+ */
+function reminderKey(reminder: {
+  type: ReminderType;
+  accountId: string | null;
+  recipientId: string | null;
+  triggerDate: Date;
+}): string {
+  return [
+    reminder.type,
+    reminder.accountId ?? '',
+    reminder.recipientId ?? '',
+    formatDateString(reminder.triggerDate),
+  ].join(':');
+}
+
+/**
+ * Service for generated reminders and the dashboard work queue
+ */
+export const ReminderService = {
+  /**
+   * Decide which reminders an account and its recipients need as of a date.
+   * Renewal reminders use RENEWAL.REMINDER_DAYS_BEFORE; verification reminders use the VERIFICATION windows.
+   */
+  planAccountReminders(account: PlanningAccount, asOfDate: Date): PlannedReminder[] {
+    if (account.status === 'CLOSED') return [];
+
+    const box = account.mailbox.number;
+    const planned: PlannedReminder[] = [];
+    const daysUntilRenewal = differenceInDays(account.nextRenewalDate, asOfDate);
+    const renewalDate = formatMessageDate(account.nextRenewalDate);
+
+    if (daysUntilRenewal < 0) {
+      planned.push({
+        type: 'OVERDUE',
+        accountId: account.id,
+        recipientId: null,
+        triggerDate: account.nextRenewalDate,
+        message: `Mailbox #${box} payment was due ${renewalDate}`,
+      });
+    } else if (daysUntilRenewal <= RENEWAL.REMINDER_DAYS_BEFORE) {
+      planned.push({
+        type: 'RENEWAL',
+        accountId: account.id,
+        recipientId: null,
+        triggerDate: account.nextRenewalDate,
+        message: `Mailbox #${box} renewal is due ${renewalDate}`,
+      });
+    }
+
+    for (const recipient of account.recipients) {
+      const name = formatRecipientName(recipient);
+
+      if (recipient.recipientType === 'PERSON' && recipient.birthdate) {
+        const eighteenthBirthday = addYears(recipient.birthdate, 18);
+        if (isWithinWindow(eighteenthBirthday, asOfDate, VERIFICATION.DAYS_BEFORE_18TH_BIRTHDAY)) {
+          planned.push({
+            type: 'AGE_18',
+            accountId: account.id,
+            recipientId: recipient.id,
+            triggerDate: eighteenthBirthday,
+            message: `${name} on mailbox #${box} turns 18 on ${formatMessageDate(eighteenthBirthday)} - new ID, proof of residence and Form 1583 required`,
+          });
+        }
+      }
+
+      if (
+        recipient.idExpirationDate &&
+        isWithinWindow(recipient.idExpirationDate, asOfDate, VERIFICATION.DAYS_BEFORE_ID_EXPIRY)
+      ) {
+        planned.push({
+          type: 'ID_EXPIRY',
+          accountId: account.id,
+          recipientId: recipient.id,
+          triggerDate: recipient.idExpirationDate,
+          message: `ID for ${name} on mailbox #${box} expires on ${formatMessageDate(recipient.idExpirationDate)}`,
+        });
+      }
+
+      if (
+        recipient.recipientType === 'BUSINESS' &&
+        recipient.validUntilDate &&
+        isWithinWindow(recipient.validUntilDate, asOfDate, VERIFICATION.DAYS_BEFORE_BUSINESS_EXPIRY)
+      ) {
+        planned.push({
+          type: 'BUSINESS_EXPIRY',
+          accountId: account.id,
+          recipientId: recipient.id,
+          triggerDate: recipient.validUntilDate,
+          message: `Business registration for ${name} on mailbox #${box} expires on ${formatMessageDate(recipient.validUntilDate)}`,
+        });
+      }
+    }
+
+    return planned;
+  },
+
+  /**
+   * Whether an open generated reminder no longer applies -
+   * the account was renewed or closed, or the recipient's date changed or they were removed
+   */
+  isReminderResolved(reminder: OpenReminder, asOfDate: Date): boolean {
+    if (reminder.type === 'CUSTOM') return false;
+
+    const { account, recipient } = reminder;
+    if (!account || account.status === 'CLOSED') return true;
+
+    switch (reminder.type) {
+      case 'RENEWAL':
+        // Past the due date it is replaced by an OVERDUE reminder
+        return !isSameDate(account.nextRenewalDate, reminder.triggerDate) ||
+          differenceInDays(reminder.triggerDate, asOfDate) < 0;
+      case 'OVERDUE':
+        return !isSameDate(account.nextRenewalDate, reminder.triggerDate);
+      case 'AGE_18':
+        return !recipient || recipient.removedDate !== null || !recipient.birthdate ||
+          !isSameDate(addYears(recipient.birthdate, 18), reminder.triggerDate);
+      case 'ID_EXPIRY':
+        return !recipient || recipient.removedDate !== null ||
+          !isSameDate(recipient.idExpirationDate, reminder.triggerDate);
+      case 'BUSINESS_EXPIRY':
+        return !recipient || recipient.removedDate !== null ||
+          !isSameDate(recipient.validUntilDate, reminder.triggerDate);
+      default:
+        return false;
+    }
+  },
+
+  /**
+   * Get the work queue category for a reminder, following the priority table in docs/07-notifications.md
+   */
+  getCategory(
+    type: ReminderType,
+    accountStatus: AccountStatus | null,
+    triggerDate: Date,
+    asOfDate: Date
+  ): WorkQueueCategory {
+    switch (type) {
+      case 'OVERDUE':
+        return accountStatus === 'HOLD' ? 'HOLD' : 'OVERDUE';
+      case 'RENEWAL':
+        return differenceInDays(triggerDate, asOfDate) <= RENEWAL.DUE_DAYS
+          ? 'RENEWAL_DUE'
+          : 'RENEWAL_UPCOMING';
+      default:
+        return type;
+    }
+  },
+
+  /**
+   * Create any missing reminders and resolve the ones that no longer apply.
+   * Reminders are de-duplicated by type, account, recipient and trigger date,
+   * so a reminder that was dismissed is not created again.
+   */
+  async generateReminders(asOfDate: Date = getToday()): Promise<ReminderGenerationResult> {
+    const accounts = await prisma.account.findMany({
+      where: { status: { not: 'CLOSED' } },
+      include: planningInclude,
+    });
+
+    const planned = accounts.flatMap((account) => this.planAccountReminders(account, asOfDate));
+
+    const triggerDates = Array.from(new Set(planned.map((p) => formatDateString(p.triggerDate))));
+    const existing = planned.length > 0
+      ? await prisma.reminder.findMany({
+          where: {
+            type: { not: 'CUSTOM' },
+            triggerDate: { in: triggerDates.map((date) => new Date(date)) },
+          },
+          select: { type: true, accountId: true, recipientId: true, triggerDate: true },
+        })
+      : [];
+
+    const existingKeys = new Set(existing.map(reminderKey));
+    const toCreate = planned.filter((p) => !existingKeys.has(reminderKey(p)));
+
+    if (toCreate.length > 0) {
+      await prisma.reminder.createMany({
+        data: toCreate.map((p) => ({
+          type: p.type,
+          accountId: p.accountId,
+          recipientId: p.recipientId,
+          triggerDate: p.triggerDate,
+          message: p.message,
+        })),
+      });
+    }
+
+    const open = await prisma.reminder.findMany({
+      where: { isDismissed: false, type: { not: 'CUSTOM' } },
+      include: openReminderInclude,
+    });
+
+    const resolvedIds = open
+      .filter((reminder) => this.isReminderResolved(reminder, asOfDate))
+      .map((reminder) => reminder.id);
+
+    if (resolvedIds.length > 0) {
+      // No dismissedBy - resolved by the generator rather than a staff member
+      await prisma.reminder.updateMany({
+        where: { id: { in: resolvedIds } },
+        data: { isDismissed: true, dismissedAt: new Date() },
+      });
+    }
+
+    return {
+      asOfDate: formatDateString(asOfDate),
+      created: toCreate.length,
+      resolved: resolvedIds.length,
+    };
+  },
+
+  /**
+   * Get open reminders ordered by priority, then by trigger date
+   */
+  async getWorkQueue(asOfDate: Date = getToday()): Promise<WorkQueue> {
+    const reminders = await prisma.reminder.findMany({
+      where: { isDismissed: false },
+      include: openReminderInclude,
+      orderBy: { triggerDate: 'asc' },
+    });
+
+    const items = reminders
+      .map((reminder) => this.serializeWorkQueueItem(reminder, asOfDate))
+      .sort((a, b) =>
+        WORK_QUEUE_CATEGORIES[a.category].rank - WORK_QUEUE_CATEGORIES[b.category].rank ||
+        a.triggerDate.localeCompare(b.triggerDate)
+      );
+
+    const counts = { HIGH: 0, MEDIUM: 0, LOW: 0 };
+    items.forEach((item) => {
+      counts[item.priority] += 1;
+    });
+
+    return {
+      items: items.slice(0, REMINDERS.WORK_QUEUE_LIMIT),
+      totalItems: items.length,
+      counts,
+    };
+  },
+
+  /**
+   * Dismiss a reminder so it drops off the work queue
+   */
+  async dismissReminder(id: string, userId: string, auditContext: AuditContext): Promise<void> {
+    const reminder = await prisma.reminder.findUnique({ where: { id } });
+
+    if (!reminder) {
+      throw new Error('Reminder not found');
+    }
+
+    if (reminder.isDismissed) {
+      throw new Error('Reminder is already dismissed');
+    }
+
+    const updated = await prisma.reminder.update({
+      where: { id },
+      data: {
+        isDismissed: true,
+        dismissedBy: userId,
+        dismissedAt: new Date(),
+      },
+    });
+
+    await AuditLogService.logChange(
+      auditContext,
+      AUDIT_LOG.ENTITY_TYPES.REMINDER,
+      id,
+      reminder,
+      updated
+    );
+  },
+
+  /**
+   * Serialize a reminder for the work queue
+   */
+  serializeWorkQueueItem(reminder: OpenReminder, asOfDate: Date): WorkQueueItem {
+    const category = this.getCategory(
+      reminder.type,
+      reminder.account?.status ?? null,
+      reminder.triggerDate,
+      asOfDate
+    );
+
+    return {
+      id: reminder.id,
+      type: reminder.type,
+      category,
+      priority: WORK_QUEUE_CATEGORIES[category].priority,
+      triggerDate: formatDateString(reminder.triggerDate),
+      message: reminder.message,
+      account: reminder.account
+        ? {
+            id: reminder.account.id,
+            status: reminder.account.status,
+            mailboxNumber: reminder.account.mailbox.number,
+          }
+        : null,
+      recipient: reminder.recipient
+        ? { id: reminder.recipient.id, name: formatRecipientName(reminder.recipient) }
+        : null,
+      createdAt: reminder.createdAt.toISOString(),
+    };
+  },
+};
@@ -0,0 +1,135 @@
+import { prisma } from '@/lib/db/prisma';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+import { PricingService } from './pricing.service';
+import type { PaymentMethod, PaymentType, Prisma } from '@prisma/client';
+import type { ReturnedCheckInput, ReturnedCheckResult } from '@/types/payment';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+/**
+ * Service for checks the bank returns unpaid
+ */
+export const ReturnedCheckService = {
+  /**
+   * Why a payment can't be marked as a returned check, or null if it can
+   */
+  getReturnBlocker(payment: {
+    paymentMethod: PaymentMethod;
+    paymentType: PaymentType;
+    checkReturnedAt: Date | string | null;
+  }): string | null {
+    if (payment.paymentType !== 'PAYMENT' || payment.paymentMethod !== 'CHECK') {
+      return 'Only check payments can be marked as returned';
+    }
+
+    if (payment.checkReturnedAt) {
+      return 'Check has already been marked as returned';
+    }
+
+    return null;
+  },
+
+  /**
+   * Void a check the bank returned, reopening its invoice and rolling back any
+   * renewal it paid for. The returned check fee is billed on its own invoice,
+   * the account is flagged so later checks need a manager, and optionally put on HOLD.
+   */
+  async markReturned(
+    paymentId: string,
+    input: ReturnedCheckInput,
+    userId: string
+  ): Promise<ReturnedCheckResult | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { account: { include: { mailbox: true } } },
+    });
+
+    if (!payment) {
+      return null;
+    }
+
+    const blocker = this.getReturnBlocker(payment);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    const checkLabel = payment.checkNumber ? `Check #${payment.checkNumber}` : 'Check';
+    const rates = await PricingService.getCurrentRates();
+    const fee = rates ? decimalToNumber(rates.returnedCheckFee) : 0;
+
+    // The void, the flag / hold and the fee succeed or fail together
+    return prisma.$transaction(async (tx) => {
+      const reversed = await PaymentService.reversePayment(
+        paymentId,
+        { type: 'VOID', reason: `Returned check: ${input.reason}` },
+        userId,
+        tx
+      );
+
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: { checkReturnedAt: new Date() },
+      });
+
+      // The rollback may already have put a reinstated account back on HOLD
+      const account = await tx.account.findUniqueOrThrow({
+        where: { id: payment.accountId },
+        include: { mailbox: true },
+      });
+
+      const placedOnHold = input.placeOnHold && account.status === 'ACTIVE';
+
+      await tx.account.update({
+        where: { id: account.id },
+        data: {
+          checkApprovalRequired: true,
+          ...(placedOnHold && { status: 'HOLD' as const }),
+        },
+      });
+
+      if (placedOnHold) {
+        const mailboxToStatus = account.mailbox.status === 'ACTIVE' ? 'HOLD' : account.mailbox.status;
+        if (mailboxToStatus !== account.mailbox.status) {
+          await tx.mailbox.update({
+            where: { id: account.mailboxId },
+            data: { status: mailboxToStatus },
+          });
+        }
+
+        await tx.accountStatusChange.create({
+          data: {
+            accountId: account.id,
+            fromStatus: 'ACTIVE',
+            toStatus: 'HOLD',
+            mailboxFromStatus: account.mailbox.status,
+            mailboxToStatus,
+            reason: `${checkLabel} returned: ${input.reason}`,
+            changedById: userId,
+          },
+        });
+      }
+
+      const feeInvoice =
+        fee > 0
+          ? await InvoiceService.createFeeInvoice(
+              payment.account,
+              {
+                lineType: 'RETURNED_CHECK_FEE',
+                description: `Returned Check Fee (${checkLabel})`,
+                amount: fee,
+              },
+              userId,
+              tx
+            )
+          : null;
+
+      return { ...reversed, feeInvoice, placedOnHold };
+    });
+  },
+};
@@ -0,0 +1,298 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { REVENUE_RECOGNITION } from '@/constants/app';
+import { roundCurrency } from '@/lib/utils/currency';
+import { formatDateString } from '@/lib/utils/date';
+import { escapeCsv } from '@/lib/utils/csv';
+import type {
+  RevenueInvoiceInput,
+  RevenueInvoiceSchedule,
+  RevenueRecognitionReport,
+  RevenueScheduleMonth,
+} from '@/types/revenue';
+
+/**
+ * Convert Prisma Decimal to number
+ */
+function decimalToNumber(decimal: Prisma.Decimal): number {
+  return parseFloat(decimal.toString());
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * First day of a YYYY-MM month, as stored dates are (UTC midnight)
+ */
+function monthStart(month: string): Date {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year ?? 1970, (monthIndex ?? 1) - 1, 1));
+}
+
+function nextMonthStart(month: string): Date {
+  const start = monthStart(month);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+function sum(values: number[]): number {
+  return roundCurrency(values.reduce((total, value) => total + value, 0));
+}
+
+/**
+ * Service for spreading invoiced revenue over the service period it pays for
+ */
+export const RevenueRecognitionService = {
+  /**
+   * Every YYYY-MM month from `from` to `to`, inclusive
+   */
+  listMonths(from: string, to: string): string[] {
+    const months: string[] = [];
+    for (let start = monthStart(from); start <= monthStart(to); ) {
+      months.push(start.toISOString().slice(0, 7));
+      start = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    }
+    return months;
+  },
+
+  /**
+   * The last DEFAULT_MONTHS months, ending with the current one
+   */
+  getDefaultRange(today: Date = new Date()): { from: string; to: string } {
+    const to = new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1));
+    const from = new Date(
+      Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - (REVENUE_RECOGNITION.DEFAULT_MONTHS - 1), 1)
+    );
+    return { from: from.toISOString().slice(0, 7), to: to.toISOString().slice(0, 7) };
+  },
+
+  /**
+   * Share of an invoice still counted before a date. Once the invoice is written
+   * off, the written-off share is neither billed nor earned, so what was earned
+   * on it is taken back in the write-off month.
+   */
+  collectibleShare(invoice: RevenueInvoiceInput, before: Date): number {
+    return invoice.writtenOffAt && invoice.writtenOffAt < before ? 1 - invoice.writtenOffShare : 1;
+  },
+
+  /**
+   * How much of an invoice is billed before a date
+   */
+  billedBefore(invoice: RevenueInvoiceInput, before: Date): number {
+    if (invoice.invoiceDate >= before) return 0;
+    return roundCurrency(invoice.amount * this.collectibleShare(invoice, before));
+  },
+
+  /**
+   * How much of an invoice is earned before a date. One-time fees are earned when
+   * billed; the rest accrues evenly per day from periodStart up to periodEnd (the
+   * next renewal date), and nothing is earned before the invoice exists - a late
+   * invoice catches up when it is billed.
+   */
+  earnedBefore(invoice: RevenueInvoiceInput, before: Date): number {
+    if (invoice.invoiceDate >= before) return 0;
+
+    const periodAmount = invoice.amount - invoice.oneTimeAmount;
+    const totalDays = Math.round((invoice.periodEnd.getTime() - invoice.periodStart.getTime()) / DAY_MS);
+    let earned: number;
+    if (totalDays <= 0) {
+      earned = invoice.periodStart < before ? periodAmount : 0;
+    } else {
+      const elapsed = Math.round((before.getTime() - invoice.periodStart.getTime()) / DAY_MS);
+      const days = Math.min(Math.max(elapsed, 0), totalDays);
+      earned = (periodAmount * days) / totalDays;
+    }
+
+    return roundCurrency((invoice.oneTimeAmount + earned) * this.collectibleShare(invoice, before));
+  },
+
+  /**
+   * Billed, earned and deferred revenue per month, and each invoice's share of it
+   */
+  buildSchedule(
+    invoices: RevenueInvoiceInput[],
+    from: string,
+    to: string
+  ): { report: RevenueRecognitionReport; invoices: RevenueInvoiceSchedule[] } {
+    const monthList = this.listMonths(from, to);
+    // Month boundaries: start of the range, then the end of each month
+    const boundaries = [monthStart(from), ...monthList.map((month) => nextMonthStart(month))];
+
+    const billed = monthList.map(() => 0);
+    const earned = monthList.map(() => 0);
+    const deferred = boundaries.map(() => 0);
+    const schedules: RevenueInvoiceSchedule[] = [];
+
+    for (const invoice of invoices) {
+      const cumulativeEarned = boundaries.map((boundary) => this.earnedBefore(invoice, boundary));
+      const cumulativeBilled = boundaries.map((boundary) => this.billedBefore(invoice, boundary));
+
+      const earnedByMonth = monthList.map((_, i) =>
+        roundCurrency((cumulativeEarned[i + 1] ?? 0) - (cumulativeEarned[i] ?? 0))
+      );
+      monthList.forEach((_, i) => {
+        billed[i] = roundCurrency((billed[i] ?? 0) + (cumulativeBilled[i + 1] ?? 0) - (cumulativeBilled[i] ?? 0));
+        earned[i] = roundCurrency((earned[i] ?? 0) + (earnedByMonth[i] ?? 0));
+      });
+      boundaries.forEach((_, j) => {
+        deferred[j] = roundCurrency((deferred[j] ?? 0) + (cumulativeBilled[j] ?? 0) - (cumulativeEarned[j] ?? 0));
+      });
+
+      const deferredAtStart = roundCurrency((cumulativeBilled[0] ?? 0) - (cumulativeEarned[0] ?? 0));
+      const deferredAtEnd = roundCurrency(
+        (cumulativeBilled[boundaries.length - 1] ?? 0) - (cumulativeEarned[boundaries.length - 1] ?? 0)
+      );
+
+      // Invoices fully earned before the range add nothing to it
+      if (deferredAtStart === 0 && deferredAtEnd === 0 && earnedByMonth.every((value) => value === 0)) {
+        continue;
+      }
+
+      schedules.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceType: invoice.invoiceType,
+        mailboxNumber: invoice.mailboxNumber,
+        invoiceDate: formatDateString(invoice.invoiceDate),
+        periodStart: formatDateString(invoice.periodStart),
+        periodEnd: formatDateString(invoice.periodEnd),
+        amount: invoice.amount,
+        earnedByMonth,
+        deferredAtEnd,
+      });
+    }
+
+    const months: RevenueScheduleMonth[] = monthList.map((month, i) => ({
+      month,
+      billed: billed[i] ?? 0,
+      earned: earned[i] ?? 0,
+      deferredBalance: deferred[i + 1] ?? 0,
+    }));
+
+    return {
+      report: {
+        from,
+        to,
+        openingDeferred: deferred[0] ?? 0,
+        months,
+        totalBilled: sum(billed),
+        totalEarned: sum(earned),
+        closingDeferred: deferred[deferred.length - 1] ?? 0,
+      },
+      invoices: schedules.sort((a, b) => a.invoiceNumber - b.invoiceNumber),
+    };
+  },
+
+  /**
+   * Invoices billed by the end of the range whose service period reaches into it
+   * or that were billed during it
+   */
+  async getInvoices(from: string, to: string): Promise<RevenueInvoiceInput[]> {
+    const rangeStart = monthStart(from);
+    const rangeEnd = nextMonthStart(to);
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        invoiceDate: { lt: rangeEnd },
+        OR: [{ periodEnd: { gt: rangeStart } }, { invoiceDate: { gte: rangeStart } }],
+      },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        invoiceType: true,
+        invoiceDate: true,
+        periodStart: true,
+        periodEnd: true,
+        totalAmount: true,
+        writtenOffAmount: true,
+        writtenOffAt: true,
+        account: { select: { mailbox: { select: { number: true } } } },
+        lineItems: {
+          where: { lineType: { in: ['KEY_DEPOSIT', ...REVENUE_RECOGNITION.ONE_TIME_LINE_TYPES] } },
+          select: { lineType: true, totalAmount: true },
+        },
+      },
+      orderBy: { invoiceNumber: 'asc' },
+    });
+
+    return invoices.map((invoice) => {
+      const totalAmount = decimalToNumber(invoice.totalAmount);
+      const lineTotal = (match: (lineType: string) => boolean): number =>
+        invoice.lineItems
+          .filter((item) => match(item.lineType))
+          .reduce((total, item) => total + decimalToNumber(item.totalAmount), 0);
+      const writtenOffAmount = invoice.writtenOffAmount ? decimalToNumber(invoice.writtenOffAmount) : 0;
+
+      return {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceType: invoice.invoiceType,
+        invoiceDate: invoice.invoiceDate,
+        periodStart: invoice.periodStart,
+        periodEnd: invoice.periodEnd,
+        mailboxNumber: invoice.account.mailbox.number,
+        amount: roundCurrency(totalAmount - lineTotal((lineType) => lineType === 'KEY_DEPOSIT')),
+        oneTimeAmount: roundCurrency(lineTotal((lineType) => lineType !== 'KEY_DEPOSIT')),
+        // The unpaid balance is written off across the invoice's lines in proportion
+        writtenOffShare: totalAmount > 0 ? Math.min(writtenOffAmount / totalAmount, 1) : 0,
+        writtenOffAt: invoice.writtenOffAt,
+      };
+    });
+  },
+
+  /**
+   * Earned vs deferred revenue per month
+   */
+  async getReport(from: string, to: string): Promise<RevenueRecognitionReport> {
+    const invoices = await this.getInvoices(from, to);
+    return this.buildSchedule(invoices, from, to).report;
+  },
+
+  /**
+   * Per-invoice recognition schedule as CSV for the accountant
+   */
+  async exportScheduleCsv(from: string, to: string): Promise<{ filename: string; content: string }> {
+    const invoices = await this.getInvoices(from, to);
+    const { report, invoices: schedules } = this.buildSchedule(invoices, from, to);
+
+    const header = [
+      'Invoice',
+      'Type',
+      'Mailbox',
+      'Invoice Date',
+      'Period Start',
+      'Period End',
+      'Amount',
+      ...report.months.map((m) => `Earned ${m.month}`),
+      `Deferred at ${to}`,
+    ];
+
+    const rows = schedules.map((schedule) => [
+      String(schedule.invoiceNumber),
+      schedule.invoiceType,
+      String(schedule.mailboxNumber),
+      schedule.invoiceDate,
+      schedule.periodStart,
+      schedule.periodEnd,
+      schedule.amount.toFixed(2),
+      ...schedule.earnedByMonth.map((value) => value.toFixed(2)),
+      schedule.deferredAtEnd.toFixed(2),
+    ]);
+
+    const totals = [
+      'Total',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      ...report.months.map((m) => m.earned.toFixed(2)),
+      report.closingDeferred.toFixed(2),
+    ];
+
+    const content = [header, ...rows, totals]
+      .map((row) => row.map(escapeCsv).join(','))
+      .join('\r\n');
+
+    return { filename: `revenue-schedule-${from}-to-${to}.csv`, content: `${content}\r\n` };
+  },
+};
@@ -0,0 +1,509 @@
+import { differenceInDays, format } from 'date-fns';
+import type { Prisma, SmsLog, SmsStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { SMS, AUDIT_LOG } from '@/constants/app';
+import { getToday, formatDateString } from '@/lib/utils/date';
+import { toE164, isValidE164 } from '@/lib/utils/phone-format';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { logger } from '@/lib/utils/logger';
+import { getSmsProvider, renderSmsMessage, renderSmsHelpReply } from '@/lib/sms';
+import { ReminderService } from '@/lib/services/reminder.service';
+import { StoreSettingsService } from '@/lib/services/store-settings.service';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import type { PlannedReminder } from '@/types/reminder';
+import type {
+  SmsMessageType,
+  SmsHistoryEntry,
+  SendSmsInput,
+  SmsDispatchResult,
+  SerializedSmsLog,
+  SmsKeyword,
+  SmsStatusCallback,
+  InboundSms,
+  RecordSmsConsentInput,
+  AccountSmsHistory,
+} from '@/types/sms';
+
+/**
+ * Messages that nag about the same renewal - limited by
+ * SMS.MAX_REMINDERS_PER_RENEWAL and spaced by SMS.MIN_DAYS_BETWEEN_REMINDERS
+ */
+const RENEWAL_REMINDER_TYPES: SmsMessageType[] = ['RENEWAL_REMINDER', 'PAYMENT_OVERDUE'];
+
+/**
+ * How far along the delivery pipeline each status is - callbacks can arrive
+ * out of order, so a status never moves backwards
+ */
+const STATUS_RANK: Record<SmsStatus, number> = {
+  QUEUED: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  FAILED: 2,
+};
+
+/**
+ * Provider delivery statuses (Twilio's vocabulary) mapped to SmsStatus
+ */
+const PROVIDER_STATUS_MAP: Record<string, SmsStatus> = {
+  accepted: 'QUEUED',
+  scheduled: 'QUEUED',
+  queued: 'QUEUED',
+  sending: 'SENT',
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'DELIVERED',
+  undelivered: 'FAILED',
+  failed: 'FAILED',
+  canceled: 'FAILED',
+};
+
+/**
+ * Where to find the number we text for an account
+ */
+interface PhoneSource {
+  smsPhone: string | null;
+  recipients: Array<{
+    isPrimary: boolean;
+    contactCard: {
+      phoneNumbers: Array<{ e164Format: string; isMobile: boolean; isPrimary: boolean }>;
+    } | null;
+  }>;
+}
+
+const phoneSourceInclude = {
+  recipients: {
+    where: { removedDate: null, isPrimary: true },
+    select: {
+      isPrimary: true,
+      contactCard: {
+        select: {
+          phoneNumbers: {
+            select: { e164Format: true, isMobile: true, isPrimary: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.AccountInclude;
+
+/**
+ * Account shape needed to decide which messages to send
+ */
+const dispatchInclude = {
+  mailbox: { select: { number: true } },
+  recipients: {
+    where: { removedDate: null },
+    select: {
+      id: true,
+      isPrimary: true,
+      recipientType: true,
+      firstName: true,
+      middleName: true,
+      lastName: true,
+      personAlias: true,
+      businessName: true,
+      businessAlias: true,
+      birthdate: true,
+      idExpirationDate: true,
+      validUntilDate: true,
+      removedDate: true,
+      contactCard: {
+        select: {
+          phoneNumbers: {
+            select: { e164Format: true, isMobile: true, isPrimary: true },
+          },
+        },
+      },
+    },
+  },
+  smsLogs: {
+    where: { status: { not: 'FAILED' } },
+    select: { messageType: true, referenceDate: true, status: true, createdAt: true },
+  },
+} satisfies Prisma.AccountInclude;
+
+type DispatchAccount = Prisma.AccountGetPayload<{ include: typeof dispatchInclude }>;
+
+/**
+ * Service for sending SMS notifications and tracking their delivery
+ */
+export const SmsService = {
+  /**
+   * Map a planned reminder to the SMS event that announces it
+   */
+  getMessageType(reminder: PlannedReminder, accountStatus: DispatchAccount['status']): SmsMessageType | null {
+    switch (reminder.type) {
+      case 'RENEWAL':
+        return 'RENEWAL_REMINDER';
+      case 'OVERDUE':
+        return accountStatus === 'HOLD' ? 'HOLD_WARNING' : 'PAYMENT_OVERDUE';
+      case 'ID_EXPIRY':
+        return 'ID_EXPIRING';
+      case 'AGE_18':
+        return 'TURNING_18';
+      case 'BUSINESS_EXPIRY':
+        return 'BUSINESS_EXPIRING';
+      default:
+        return null;
+    }
+  },
+
+  /**
+   * Check the send limits for a message. Returns the reason it must not be sent, or null.
+   * Each event is sent once per reference date; renewal reminders are additionally
+   * capped per renewal and spaced apart.
+   */
+  getSendBlockReason(
+    messageType: SmsMessageType,
+    referenceDate: Date | null,
+    history: SmsHistoryEntry[],
+    now: Date
+  ): string | null {
+    const delivered = history.filter((entry) => entry.status !== 'FAILED');
+    const reference = referenceDate ? formatDateString(referenceDate) : null;
+    const isRenewalReminder = RENEWAL_REMINDER_TYPES.includes(messageType);
+
+    const sameEvent = delivered.filter(
+      (entry) =>
+        entry.messageType === messageType &&
+        (entry.referenceDate ? formatDateString(entry.referenceDate) : null) === reference
+    );
+    const limit = isRenewalReminder ? SMS.MAX_REMINDERS_PER_RENEWAL : 1;
+    if (sameEvent.length >= limit) {
+      return 'Already sent for this event';
+    }
+
+    if (isRenewalReminder) {
+      const recent = delivered.some(
+        (entry) =>
+          RENEWAL_REMINDER_TYPES.includes(entry.messageType as SmsMessageType) &&
+          differenceInDays(now, entry.createdAt) < SMS.MIN_DAYS_BETWEEN_REMINDERS
+      );
+      if (recent) {
+        return `A reminder was sent within the last ${SMS.MIN_DAYS_BETWEEN_REMINDERS} days`;
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Get the number to text for an account: the SMS phone on the account,
+   * otherwise the account holder's primary mobile number
+   */
+  resolvePhone(account: PhoneSource): string | null {
+    if (account.smsPhone) {
+      const phone = toE164(account.smsPhone);
+      return isValidE164(phone) ? phone : null;
+    }
+
+    const holder = account.recipients.find((r) => r.isPrimary);
+    const mobiles = (holder?.contactCard?.phoneNumbers ?? []).filter((p) => p.isMobile);
+    const mobile = mobiles.find((p) => p.isPrimary) ?? mobiles[0];
+    return mobile?.e164Format ?? null;
+  },
+
+  /**
+   * Send a single message, recording it in SmsLog as QUEUED → SENT/DELIVERED or FAILED
+   */
+  async sendMessage(input: SendSmsInput): Promise<SerializedSmsLog> {
+    const log = await prisma.smsLog.create({
+      data: {
+        accountId: input.accountId,
+        messageType: input.messageType,
+        recipientPhone: input.to,
+        messageBody: input.body,
+        referenceDate: input.referenceDate,
+        status: 'QUEUED',
+      },
+    });
+
+    try {
+      const result = await getSmsProvider().send(input.to, input.body);
+      const now = new Date();
+      const updated = await prisma.smsLog.update({
+        where: { id: log.id },
+        data: {
+          twilioSid: result.providerMessageId,
+          status: result.status,
+          sentAt: now,
+          statusUpdated: now,
+        },
+      });
+      return this.serializeLog(updated);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ err: error, smsLogId: log.id }, 'SMS send failed');
+      const updated = await prisma.smsLog.update({
+        where: { id: log.id },
+        data: {
+          status: 'FAILED',
+          errorMessage: message,
+          statusUpdated: new Date(),
+        },
+      });
+      return this.serializeLog(updated);
+    }
+  },
+
+  /**
+   * Send every SMS event that is due for opted-in accounts
+   */
+  async dispatchScheduled(asOfDate: Date = getToday()): Promise<SmsDispatchResult> {
+    const [accounts, settings] = await Promise.all([
+      prisma.account.findMany({
+        where: { smsEnabled: true, status: { not: 'CLOSED' } },
+        include: dispatchInclude,
+      }),
+      StoreSettingsService.getSettings(),
+    ]);
+
+    const result: SmsDispatchResult = {
+      asOfDate: formatDateString(asOfDate),
+      accountsEvaluated: accounts.length,
+      sent: 0,
+      failed: 0,
+      skipped: 0,
+    };
+
+    for (const account of accounts) {
+      const planned = ReminderService.planAccountReminders(account, asOfDate);
+      if (planned.length === 0) continue;
+
+      const phone = this.resolvePhone(account);
+      const history: SmsHistoryEntry[] = [...account.smsLogs];
+
+      for (const reminder of planned) {
+        const messageType = this.getMessageType(reminder, account.status);
+        if (!messageType) continue;
+
+        if (!phone || this.getSendBlockReason(messageType, reminder.triggerDate, history, new Date())) {
+          result.skipped += 1;
+          continue;
+        }
+
+        const recipient = account.recipients.find((r) => r.id === reminder.recipientId);
+        const body = renderSmsMessage(messageType, {
+          box: account.mailbox.number,
+          date: format(reminder.triggerDate, 'MMM d, yyyy'),
+          branchPhone: settings.phone,
+          ...(recipient ? { businessName: formatRecipientName(recipient) } : {}),
+        });
+
+        const log = await this.sendMessage({
+          accountId: account.id,
+          messageType,
+          to: phone,
+          body,
+          referenceDate: reminder.triggerDate,
+        });
+
+        if (log.status === 'FAILED') {
+          result.failed += 1;
+        } else {
+          result.sent += 1;
+          history.push({
+            messageType,
+            referenceDate: reminder.triggerDate,
+            status: log.status,
+            createdAt: new Date(log.createdAt),
+          });
+        }
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Map a provider delivery status to SmsStatus, or null if it is not one we track
+   */
+  mapProviderStatus(status: string): SmsStatus | null {
+    return PROVIDER_STATUS_MAP[status.toLowerCase()] ?? null;
+  },
+
+  /**
+   * Apply a delivery status callback to its SmsLog.
+   * Returns false when the message is unknown or the update would move the status backwards.
+   */
+  async applyStatusCallback(callback: SmsStatusCallback): Promise<boolean> {
+    const status = this.mapProviderStatus(callback.status);
+    if (!status) return false;
+
+    const log = await prisma.smsLog.findFirst({
+      where: { twilioSid: callback.messageSid },
+    });
+
+    if (!log) {
+      logger.warn({ messageSid: callback.messageSid }, 'SMS status callback for unknown message');
+      return false;
+    }
+
+    // DELIVERED and FAILED are final
+    if (STATUS_RANK[status] <= STATUS_RANK[log.status]) {
+      return false;
+    }
+
+    await prisma.smsLog.update({
+      where: { id: log.id },
+      data: {
+        status,
+        statusUpdated: new Date(),
+        ...(status === 'FAILED'
+          ? { errorMessage: callback.errorCode ? `Provider error ${callback.errorCode}` : 'Delivery failed' }
+          : {}),
+      },
+    });
+
+    return true;
+  },
+
+  /**
+   * Recognise an opt-out/opt-in/help keyword in an inbound message
+   */
+  parseKeyword(body: string): SmsKeyword | null {
+    const word = body.trim().split(/\s+/)[0]?.replace(/[^a-z]/gi, '').toUpperCase() ?? '';
+    if ((SMS.STOP_KEYWORDS as readonly string[]).includes(word)) return 'STOP';
+    if ((SMS.START_KEYWORDS as readonly string[]).includes(word)) return 'START';
+    if ((SMS.HELP_KEYWORDS as readonly string[]).includes(word)) return 'HELP';
+    return null;
+  },
+
+  /**
+   * Record an SMS opt-in or opt-out
+   */
+  async recordConsent(
+    input: RecordSmsConsentInput,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await tx.smsConsentChange.create({
+      data: {
+        accountId: input.accountId,
+        smsEnabled: input.smsEnabled,
+        source: input.source,
+        keyword: input.keyword ?? null,
+        phone: input.phone ?? null,
+        messageSid: input.messageSid ?? null,
+        changedById: input.changedById ?? null,
+      },
+    });
+  },
+
+  /**
+   * Handle a message texted to the store number.
+   * STOP/START flip smsEnabled on every account that texts this number; HELP gets a reply.
+   * Returns the reply to send back, if any.
+   */
+  async handleInboundMessage(message: InboundSms): Promise<string | null> {
+    const keyword = this.parseKeyword(message.body);
+    if (!keyword) return null;
+
+    if (keyword === 'HELP') {
+      const settings = await StoreSettingsService.getSettings();
+      return renderSmsHelpReply(settings.name, settings.phone);
+    }
+
+    const from = toE164(message.from);
+    const smsEnabled = keyword === 'START';
+
+    const candidates = await prisma.account.findMany({
+      where: {
+        OR: [
+          { smsPhone: { not: null } },
+          { recipients: { some: { isPrimary: true, contactCard: { phoneNumbers: { some: { e164Format: from } } } } } },
+        ],
+      },
+      include: phoneSourceInclude,
+    });
+
+    const accounts = candidates.filter((account) => this.resolvePhone(account) === from);
+    const auditContext = AuditLogService.getSystemContext(null, `SMS ${keyword}`);
+    let accountsUpdated = 0;
+
+    for (const account of accounts) {
+      if (account.smsEnabled === smsEnabled) continue;
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const result = await tx.account.update({
+          where: { id: account.id },
+          data: { smsEnabled },
+        });
+        await this.recordConsent(
+          {
+            accountId: account.id,
+            smsEnabled,
+            source: 'INBOUND_KEYWORD',
+            keyword: message.body.trim().toUpperCase(),
+            phone: from,
+            messageSid: message.messageSid,
+          },
+          tx
+        );
+        return result;
+      });
+
+      await AuditLogService.logChange(
+        auditContext,
+        AUDIT_LOG.ENTITY_TYPES.ACCOUNT,
+        account.id,
+        { smsEnabled: account.smsEnabled },
+        { smsEnabled: updated.smsEnabled }
+      );
+      accountsUpdated += 1;
+    }
+
+    logger.info({ keyword, accountsUpdated }, 'Inbound SMS keyword processed');
+    return null;
+  },
+
+  /**
+   * Get messages sent to an account and its opt-in/opt-out history, newest first
+   */
+  async getAccountHistory(accountId: string): Promise<AccountSmsHistory> {
+    const [logs, consentChanges] = await Promise.all([
+      prisma.smsLog.findMany({
+        where: { accountId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.smsConsentChange.findMany({
+        where: { accountId },
+        include: { changedBy: { select: { id: true, username: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      messages: logs.map((log) => this.serializeLog(log)),
+      consentChanges: consentChanges.map((change) => ({
+        id: change.id,
+        accountId: change.accountId,
+        smsEnabled: change.smsEnabled,
+        source: change.source,
+        keyword: change.keyword,
+        phone: change.phone,
+        changedBy: change.changedBy,
+        createdAt: change.createdAt.toISOString(),
+      })),
+    };
+  },
+
+  /**
+   * Serialize SMS log for API response
+   */
+  serializeLog(log: SmsLog): SerializedSmsLog {
+    return {
+      id: log.id,
+      accountId: log.accountId,
+      messageType: log.messageType,
+      recipientPhone: log.recipientPhone,
+      messageBody: log.messageBody,
+      twilioSid: log.twilioSid,
+      status: log.status,
+      errorMessage: log.errorMessage,
+      referenceDate: log.referenceDate ? formatDateString(log.referenceDate) : null,
+      sentAt: log.sentAt?.toISOString() ?? null,
+      statusUpdated: log.statusUpdated?.toISOString() ?? null,
+      createdAt: log.createdAt.toISOString(),
+    };
+  },
+};
@@ -1,5 +1,5 @@
 import { prisma } from '@/lib/db/prisma';
-import { STORE } from '@/constants/app';
+import { ACCOUNT_CLOSURE, STORE } from '@/constants/app';
 import type {
   StoreSettings,
   SerializedStoreSettings,
@@ -45,6 +45,12 @@ export const StoreSettingsService = {
       phone: STORE.PHONE,
       email: STORE.EMAIL,
       hours: STORE.HOURS,
+      smtpHost: null,
+      smtpPort: null,
+      smtpSecure: false,
+      smtpUser: null,
+      smtpPassword: null,
+      reopenWindowDays: ACCOUNT_CLOSURE.DEFAULT_REOPEN_WINDOW_DAYS,
       updatedById: null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -79,6 +85,12 @@ export const StoreSettingsService = {
       phone: STORE.PHONE,
       email: STORE.EMAIL,
       hours: STORE.HOURS,
+      smtpHost: null,
+      smtpPort: null,
+      smtpSecure: false,
+      smtpUser: null,
+      smtpPasswordSet: false,
+      reopenWindowDays: ACCOUNT_CLOSURE.DEFAULT_REOPEN_WINDOW_DAYS,
       updatedById: null,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -97,22 +109,25 @@ export const StoreSettingsService = {
       orderBy: { createdAt: 'asc' },
     });
 
+    // A blank SMTP password keeps the stored one
+    const { smtpPassword, reopenWindowDays, ...fields } = input;
+    const data = {
+      ...fields,
+      ...(smtpPassword ? { smtpPassword } : {}),
+      ...(reopenWindowDays !== undefined ? { reopenWindowDays } : {}),
+      updatedById: userId,
+    };
+
     let result: StoreSettings;
 
     if (existing) {
       result = await prisma.storeSettings.update({
         where: { id: existing.id },
-        data: {
-          ...input,
-          updatedById: userId,
-        },
+        data,
       });
     } else {
       result = await prisma.storeSettings.create({
-        data: {
-          ...input,
-          updatedById: userId,
-        },
+        data,
       });
     }
 
@@ -148,6 +163,12 @@ export const StoreSettingsService = {
       phone: settings.phone,
       email: settings.email,
       hours: settings.hours,
+      smtpHost: settings.smtpHost,
+      smtpPort: settings.smtpPort,
+      smtpSecure: settings.smtpSecure,
+      smtpUser: settings.smtpUser,
+      smtpPasswordSet: !!settings.smtpPassword,
+      reopenWindowDays: settings.reopenWindowDays,
       updatedById: settings.updatedById,
       createdAt: settings.createdAt.toISOString(),
       updatedAt: settings.updatedAt.toISOString(),
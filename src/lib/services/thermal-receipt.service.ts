@@ -0,0 +1,301 @@
+import { prisma } from '@/lib/db/prisma';
+import { LIFECYCLE } from '@/constants/app';
+import { PAYMENT_METHOD_LABELS, PAYMENT_TYPE_LABELS } from '@/constants/status';
+import { renderReceiptEscPos, renderReceiptText } from '@/lib/receipt/escpos';
+import { formatCurrency } from '@/lib/utils/currency';
+import { formatDisplayDate, formatDateString } from '@/lib/utils/date';
+import { formatRecipientName } from '@/lib/utils/recipient';
+import { DrawerService } from './drawer.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+import { StoreSettingsService } from './store-settings.service';
+import type { StoreSettings } from '@/types/store-settings';
+import type { MethodTotals } from '@/types/drawer';
+import type {
+  PaymentReceiptData,
+  ReceiptLine,
+  ReceiptStore,
+  ThermalReceipt,
+  ZReportData,
+} from '@/types/receipt';
+
+function formatMonths(months: number): string {
+  return Number.isInteger(months) ? months.toString() : months.toFixed(2);
+}
+
+function formatVariance(amount: number): string {
+  return amount > 0 ? `+${formatCurrency(amount)}` : formatCurrency(amount);
+}
+
+function getReceiptStore(store: StoreSettings): ReceiptStore {
+  return {
+    name: store.name,
+    addressLines: [store.street1, store.street2, `${store.city} ${store.zip}`].filter(
+      (line): line is string => !!line
+    ),
+    phone: store.phone,
+    hours: store.hours,
+  };
+}
+
+function methodRows(byMethod: MethodTotals, indent: string = ''): ReceiptLine[] {
+  return (Object.keys(PAYMENT_METHOD_LABELS) as (keyof MethodTotals)[])
+    .filter((method) => byMethod[method].count > 0)
+    .map((method) => ({
+      kind: 'row',
+      left: `${indent}${PAYMENT_METHOD_LABELS[method]} (${byMethod[method].count})`,
+      right: formatCurrency(byMethod[method].total),
+    }));
+}
+
+/**
+ * Gather everything printed on a payment receipt
+ */
+export async function getPaymentReceiptData(paymentId: string): Promise<PaymentReceiptData | null> {
+  const payment = await PaymentService.getPaymentById(paymentId);
+  if (!payment) {
+    return null;
+  }
+
+  const [account, invoice, store] = await Promise.all([
+    prisma.account.findUnique({
+      where: { id: payment.accountId },
+      select: {
+        nextRenewalDate: true,
+        mailbox: { select: { number: true } },
+        recipients: {
+          where: { removedDate: null },
+          orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+          take: 1,
+        },
+      },
+    }),
+    payment.invoiceId ? InvoiceService.getInvoice(payment.invoiceId) : Promise.resolve(null),
+    StoreSettingsService.getSettings(),
+  ]);
+
+  if (!account) {
+    return null;
+  }
+
+  const recipient = account.recipients[0];
+
+  return {
+    store: getReceiptStore(store),
+    receiptNumber: payment.id.slice(0, 8).toUpperCase(),
+    paymentDate: payment.paymentDate,
+    paymentMethod: payment.paymentMethod,
+    paymentType: payment.paymentType,
+    checkNumber: payment.checkNumber,
+    amount: Math.abs(payment.amount),
+    recordedBy: payment.recordedByUser.firstName ?? payment.recordedByUser.username,
+    mailboxNumber: account.mailbox.number,
+    recipientName: recipient ? formatRecipientName(recipient) : null,
+    nextRenewalDate: formatDateString(account.nextRenewalDate),
+    invoice: invoice
+      ? {
+          invoiceNumber: invoice.invoiceNumber,
+          totalAmount: invoice.totalAmount,
+          paidAmount: invoice.paidAmount,
+          balanceDue: invoice.balanceDue,
+          lineItems: invoice.lineItems.map((item) => ({
+            description: item.description,
+            unitPrice: item.unitPrice,
+            months: item.months,
+            totalAmount: item.totalAmount,
+          })),
+        }
+      : null,
+    notes: payment.notes,
+    reason: payment.reason,
+  };
+}
+
+/**
+ * Lay out a payment receipt for the counter printer
+ */
+export function buildPaymentReceiptLines(data: PaymentReceiptData): ReceiptLine[] {
+  const methodLabel =
+    PAYMENT_METHOD_LABELS[data.paymentMethod as keyof typeof PAYMENT_METHOD_LABELS] ?? data.paymentMethod;
+  const typeLabel =
+    PAYMENT_TYPE_LABELS[data.paymentType as keyof typeof PAYMENT_TYPE_LABELS] ?? data.paymentType;
+  const amountLabel =
+    data.paymentType === 'VOID' ? 'Voided' : data.paymentType === 'REFUND' ? 'Refunded' : 'Paid';
+
+  const lines: ReceiptLine[] = [
+    { kind: 'text', text: data.store.name, align: 'center', bold: true, large: true },
+    ...data.store.addressLines.map((text): ReceiptLine => ({ kind: 'text', text, align: 'center' })),
+    { kind: 'text', text: data.store.phone, align: 'center' },
+    { kind: 'divider' },
+    { kind: 'text', text: `${typeLabel.toUpperCase()} RECEIPT`, align: 'center', bold: true },
+    { kind: 'row', left: formatDisplayDate(data.paymentDate), right: `Receipt #${data.receiptNumber}` },
+    { kind: 'row', left: 'Mailbox', right: `#${data.mailboxNumber}`, bold: true },
+  ];
+
+  if (data.recipientName) {
+    lines.push({ kind: 'text', text: data.recipientName });
+  }
+
+  lines.push({ kind: 'divider' });
+
+  if (data.invoice) {
+    lines.push({ kind: 'text', text: `Invoice #${data.invoice.invoiceNumber}` });
+    for (const item of data.invoice.lineItems) {
+      lines.push(
+        { kind: 'row', left: item.description, right: formatCurrency(item.totalAmount) },
+        { kind: 'text', text: `  ${formatCurrency(item.unitPrice)} x ${formatMonths(item.months)} mo` }
+      );
+    }
+    lines.push(
+      { kind: 'divider' },
+      { kind: 'row', left: 'Invoice Total', right: formatCurrency(data.invoice.totalAmount) }
+    );
+  }
+
+  lines.push({ kind: 'row', left: `${amountLabel} (${methodLabel})`, right: formatCurrency(data.amount), bold: true });
+
+  if (data.checkNumber) {
+    lines.push({ kind: 'text', text: `  Check #${data.checkNumber}` });
+  }
+
+  if (data.invoice) {
+    lines.push({ kind: 'row', left: 'Balance Due', right: formatCurrency(data.invoice.balanceDue), bold: true });
+  }
+
+  lines.push(
+    { kind: 'divider' },
+    { kind: 'row', left: 'Next Renewal', right: formatDisplayDate(data.nextRenewalDate), bold: true }
+  );
+
+  if (data.reason) {
+    lines.push({ kind: 'text', text: `Reason: ${data.reason}` });
+  }
+
+  if (data.notes) {
+    lines.push({ kind: 'text', text: data.notes });
+  }
+
+  lines.push(
+    { kind: 'feed' },
+    { kind: 'text', text: `Received by ${data.recordedBy}`, align: 'center' },
+    { kind: 'text', text: `Thank you for choosing ${data.store.name}!`, align: 'center' },
+    { kind: 'text', text: data.store.hours, align: 'center' }
+  );
+
+  return lines;
+}
+
+/**
+ * Render a payment receipt as ESC/POS bytes and as a plain-text preview.
+ * The drawer kick is opt-in so reprints don't pop the till.
+ */
+export async function generateThermalReceipt(
+  paymentId: string,
+  options: { openCashDrawer?: boolean } = {}
+): Promise<ThermalReceipt | null> {
+  const data = await getPaymentReceiptData(paymentId);
+  if (!data) {
+    return null;
+  }
+
+  const lines = buildPaymentReceiptLines(data);
+
+  return {
+    escpos: renderReceiptEscPos(lines, { openCashDrawer: options.openCashDrawer ?? false }),
+    text: renderReceiptText(lines),
+  };
+}
+
+/**
+ * Lay out the end-of-day Z-report: the day's takings by method and by staff
+ * member, and once the drawer is closed, the counted totals and variances
+ */
+export function buildZReportLines(data: ZReportData): ReceiptLine[] {
+  const { summary, closeout } = data.day;
+
+  const lines: ReceiptLine[] = [
+    { kind: 'text', text: data.store.name, align: 'center', bold: true, large: true },
+    { kind: 'divider' },
+    {
+      kind: 'text',
+      text: closeout ? 'Z-REPORT' : 'DRAWER REPORT (NOT CLOSED)',
+      align: 'center',
+      bold: true,
+    },
+    { kind: 'row', left: 'Business Date', right: formatDisplayDate(data.day.businessDate) },
+    { kind: 'row', left: 'Printed', right: data.printedAt },
+    { kind: 'divider' },
+    { kind: 'text', text: 'TAKINGS BY METHOD', bold: true },
+    ...methodRows(summary.byMethod),
+    { kind: 'row', left: 'Payments', right: summary.paymentCount.toString() },
+  ];
+
+  if (summary.reversalCount > 0) {
+    lines.push({
+      kind: 'row',
+      left: `Voids/Refunds (${summary.reversalCount})`,
+      right: formatCurrency(-summary.reversalTotal),
+    });
+  }
+
+  lines.push(
+    { kind: 'row', left: 'Net Total', right: formatCurrency(summary.total), bold: true },
+    { kind: 'divider' },
+    { kind: 'text', text: 'TAKINGS BY STAFF', bold: true }
+  );
+
+  for (const staff of summary.byStaff) {
+    lines.push(
+      { kind: 'row', left: staff.name, right: formatCurrency(staff.total), bold: true },
+      ...methodRows(staff.byMethod, '  ')
+    );
+  }
+
+  if (closeout) {
+    lines.push(
+      { kind: 'divider' },
+      { kind: 'text', text: 'DRAWER COUNT', bold: true },
+      { kind: 'row', left: 'Cash Expected', right: formatCurrency(closeout.expectedCash) },
+      { kind: 'row', left: 'Cash Counted', right: formatCurrency(closeout.countedCash) },
+      { kind: 'row', left: 'Cash Variance', right: formatVariance(closeout.cashVariance), bold: true },
+      { kind: 'row', left: 'Card Expected', right: formatCurrency(closeout.expectedCard) },
+      { kind: 'row', left: 'Card Batch', right: formatCurrency(closeout.countedCard) },
+      { kind: 'row', left: 'Card Variance', right: formatVariance(closeout.cardVariance), bold: true },
+      { kind: 'row', left: 'Checks', right: formatCurrency(closeout.expectedCheck) }
+    );
+
+    if (closeout.varianceNote) {
+      lines.push({ kind: 'text', text: `Note: ${closeout.varianceNote}` });
+    }
+
+    lines.push(
+      { kind: 'feed' },
+      { kind: 'text', text: `Closed by ${closeout.closedBy.name}`, align: 'center' }
+    );
+  }
+
+  lines.push({ kind: 'feed' });
+
+  return lines;
+}
+
+/**
+ * Render a business day's Z-report as ESC/POS bytes and as a plain-text preview
+ */
+export async function generateZReport(businessDate: string): Promise<ThermalReceipt> {
+  const [day, store] = await Promise.all([
+    DrawerService.getDay(businessDate),
+    StoreSettingsService.getSettings(),
+  ]);
+
+  const lines = buildZReportLines({
+    store: getReceiptStore(store),
+    day,
+    printedAt: new Date().toLocaleString('en-US', { timeZone: LIFECYCLE.TIMEZONE }),
+  });
+
+  return {
+    escpos: renderReceiptEscPos(lines, { openCashDrawer: false }),
+    text: renderReceiptText(lines),
+  };
+}
@@ -0,0 +1,60 @@
+import { SMS } from '@/constants/app';
+import { createTwilioSmsProvider } from './twilio.provider';
+import { createStubSmsProvider } from './stub.provider';
+import type { SmsProvider } from '@/types/sms';
+
+export { renderSmsMessage, renderSmsHelpReply, SMS_TEMPLATES } from './templates';
+export { createTwilioSmsProvider, createStubSmsProvider };
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Get the configured SMS provider.
+ * SMS_PROVIDER selects "twilio", "file" or "console"; without it, Twilio is used
+ * when credentials are present and the console stub otherwise.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (provider) return provider;
+
+  const accountSid = process.env.TWILIO_ACCOUNT_SID ?? '';
+  const authToken = process.env.TWILIO_AUTH_TOKEN ?? '';
+  const fromNumber = process.env.TWILIO_PHONE_NUMBER ?? '';
+  const choice = process.env.SMS_PROVIDER || (accountSid ? 'twilio' : 'console');
+
+  switch (choice) {
+    case 'twilio':
+      if (!accountSid || !authToken || !fromNumber) {
+        throw new Error('Twilio SMS provider requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER');
+      }
+      provider = createTwilioSmsProvider({
+        accountSid,
+        authToken,
+        fromNumber,
+        statusCallbackUrl: getSmsWebhookUrl() ?? undefined,
+      });
+      break;
+    case 'file':
+      provider = createStubSmsProvider(process.env.SMS_OUTBOX_FILE || SMS.DEFAULT_OUTBOX_FILE);
+      break;
+    default:
+      provider = createStubSmsProvider();
+  }
+
+  return provider;
+}
+
+/**
+ * Public URL of the SMS webhook, as the provider sees it (used for callbacks and signature checks)
+ */
+export function getSmsWebhookUrl(): string | null {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl) return null;
+  return `${appUrl.replace(/\/$/, '')}${SMS.WEBHOOK_PATH}`;
+}
+
+/**
+ * Replace the provider (tests)
+ */
+export function setSmsProvider(next: SmsProvider | null): void {
+  provider = next;
+}
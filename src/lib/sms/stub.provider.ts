@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { logger } from '@/lib/utils/logger';
+import type { SmsProvider, SmsSendResult } from '@/types/sms';
+
+/**
+ * Stand-in provider for development and tests.
+ * Appends each message as a JSON line to an outbox file, or logs it when no file is given.
+ * Messages are reported as delivered immediately since there is no carrier to wait on.
+ * Webhook calls are accepted only in development.
+ */
+export function createStubSmsProvider(outboxFile?: string): SmsProvider {
+  return {
+    name: outboxFile ? 'file' : 'console',
+
+    async send(to: string, body: string): Promise<SmsSendResult> {
+      const providerMessageId = `stub-${randomUUID()}`;
+
+      if (outboxFile) {
+        await mkdir(path.dirname(outboxFile), { recursive: true });
+        const entry = { id: providerMessageId, to, body, sentAt: new Date().toISOString() };
+        await appendFile(outboxFile, `${JSON.stringify(entry)}\n`, 'utf8');
+      } else {
+        logger.info({ providerMessageId, body }, 'SMS (stub) sent');
+      }
+
+      return { providerMessageId, status: 'DELIVERED' };
+    },
+
+    // Nothing signs stub callbacks, so they are only simulated in development;
+    // anywhere else an unsigned request could flip any customer's opt-in
+    verifyWebhook(): boolean {
+      return process.env.NODE_ENV === 'development';
+    },
+  };
+}
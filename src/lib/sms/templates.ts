@@ -0,0 +1,37 @@
+import type { SmsMessageType, SmsTemplateVariables } from '@/types/sms';
+
+/**
+ * Message templates from docs/07-notifications.md
+ */
+export const SMS_TEMPLATES: Record<SmsMessageType, (vars: SmsTemplateVariables) => string> = {
+  RENEWAL_REMINDER: ({ box, date, branchPhone }) =>
+    `Your PostNet mailbox #${box} renewal is due on ${date ?? ''}. Please visit us to renew. Questions? Call ${branchPhone ?? ''}.`,
+  PAYMENT_OVERDUE: ({ box, date }) =>
+    `Your PostNet mailbox #${box} payment was due ${date ?? ''}. Please pay promptly to avoid service interruption.`,
+  HOLD_WARNING: ({ box, branchPhone }) =>
+    `NOTICE: Your PostNet mailbox #${box} is now on hold due to non-payment. Mail is being held. Please contact us at ${branchPhone ?? ''}.`,
+  ID_EXPIRING: ({ box, date }) =>
+    `The ID on file for your PostNet mailbox #${box} expires on ${date ?? ''}. Please bring a current ID on your next visit.`,
+  TURNING_18: ({ box }) =>
+    `A recipient on your PostNet mailbox #${box} is turning 18 soon. New documentation (ID, proof of residence, Form 1583) is required to continue their mail service.`,
+  BUSINESS_EXPIRING: ({ box, date, businessName }) =>
+    `The business registration for ${businessName ?? ''} on your PostNet mailbox #${box} expires on ${date ?? ''}. Please bring updated registration on your next visit.`,
+  AUTO_RENEWAL_SUCCESS: ({ box, amount, cardLast4, date }) =>
+    `Your PostNet mailbox #${box} has been renewed through ${date ?? ''}. ${amount ?? ''} was charged to your card ending ${cardLast4 ?? ''}. Thank you!`,
+  AUTO_RENEWAL_DECLINED: ({ box, cardLast4, date, branchPhone }) =>
+    `We could not auto-renew your PostNet mailbox #${box}: the card ending ${cardLast4 ?? ''} was declined. Please renew by ${date ?? ''} or call us at ${branchPhone ?? ''}.`,
+};
+
+/**
+ * Render the text for an SMS event
+ */
+export function renderSmsMessage(type: SmsMessageType, vars: SmsTemplateVariables): string {
+  return SMS_TEMPLATES[type](vars);
+}
+
+/**
+ * Reply to an inbound HELP keyword
+ */
+export function renderSmsHelpReply(storeName: string, branchPhone: string): string {
+  return `${storeName} mailbox notifications. For help call ${branchPhone}. Reply STOP to unsubscribe, START to resubscribe.`;
+}
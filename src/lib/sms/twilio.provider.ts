@@ -0,0 +1,41 @@
+import twilio from 'twilio';
+import type { SmsProvider, SmsSendResult, SmsWebhookRequest } from '@/types/sms';
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  // Public URL Twilio posts delivery updates to
+  statusCallbackUrl?: string | undefined;
+}
+
+/**
+ * SMS provider backed by the Twilio Messages API
+ */
+export function createTwilioSmsProvider(config: TwilioConfig): SmsProvider {
+  const client = twilio(config.accountSid, config.authToken);
+
+  return {
+    name: 'twilio',
+
+    async send(to: string, body: string): Promise<SmsSendResult> {
+      const message = await client.messages.create({
+        to,
+        from: config.fromNumber,
+        body,
+        ...(config.statusCallbackUrl ? { statusCallback: config.statusCallbackUrl } : {}),
+      });
+
+      // Twilio accepts the message and reports delivery later via the status callback
+      return {
+        providerMessageId: message.sid,
+        status: message.status === 'delivered' ? 'DELIVERED' : 'SENT',
+      };
+    },
+
+    verifyWebhook({ signature, url, params }: SmsWebhookRequest): boolean {
+      if (!signature) return false;
+      return twilio.validateRequest(config.authToken, signature, url, params);
+    },
+  };
+}
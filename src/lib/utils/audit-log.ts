@@ -0,0 +1,115 @@
+import { format } from 'date-fns';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '@/constants/status';
+import { formatCurrency } from '@/lib/utils/currency';
+import { formatForDisplay } from '@/lib/utils/phone-format';
+import type { AuditFieldChange, SerializedAuditLogEntry } from '@/types/audit-log';
+
+// Field names that don't read well when split from camelCase
+const FIELD_LABELS: Record<string, string> = {
+  idType: 'ID type',
+  idStateCountry: 'ID state/country',
+  idExpirationDate: 'ID expiration date',
+  idVerifiedDate: 'ID verified date',
+  idVerifiedBy: 'ID verified by',
+  e164Format: 'Phone number',
+  smsEnabled: 'SMS notifications',
+  emailEnabled: 'Email notifications',
+  passwordHash: 'Password',
+  mailboxId: 'Mailbox',
+  accountId: 'Account',
+  invoiceId: 'Invoice',
+  noticeTypeId: 'Notice type',
+  recordedBy: 'Recorded by',
+  baseRate3mo: '3 month base rate',
+  baseRate6mo: '6 month base rate',
+  baseRate12mo: '12 month base rate',
+  rate4thAdult: '4th adult rate',
+  rate5thAdult: '5th adult rate',
+  rate6thAdult: '6th adult rate',
+  rate7thAdult: '7th adult rate',
+};
+
+// Money fields are shown as currency
+const CURRENCY_FIELD_PATTERN = /(rate|amount|fee|deposit|price|subtotal|total)$/i;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}T00:00:00\.000Z$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Get a readable label for a field name, e.g. "nextRenewalDate" -> "Next renewal date"
+ */
+export function formatFieldName(field: string): string {
+  const override = FIELD_LABELS[field];
+  if (override) return override;
+
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Format a recorded value for display
+ */
+export function formatAuditValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'empty';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+
+  if (typeof value === 'number') {
+    return CURRENCY_FIELD_PATTERN.test(field) ? formatCurrency(value) : String(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((v) => formatAuditValue(field, v)).join(', ') : 'none';
+  }
+
+  if (typeof value === 'string') {
+    // Date-only columns are stored as UTC midnight - show the calendar date
+    if (DATE_ONLY_PATTERN.test(value)) {
+      const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+      return format(new Date(year ?? 0, (month ?? 1) - 1, day ?? 1), 'MMM d, yyyy');
+    }
+    if (DATE_TIME_PATTERN.test(value)) {
+      return format(new Date(value), 'MMM d, yyyy h:mm a');
+    }
+    if (field === 'e164Format') {
+      return formatForDisplay(value);
+    }
+    // Enum values like THREE_MONTH -> Three Month
+    if (/^[A-Z][A-Z0-9_]*$/.test(value)) {
+      return value
+        .toLowerCase()
+        .split('_')
+        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+        .join(' ');
+    }
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Describe a single field change in plain language
+ */
+export function describeFieldChange(field: string, change: AuditFieldChange): string {
+  const label = formatFieldName(field);
+
+  if (change.before === '[REDACTED]' || change.after === '[REDACTED]') {
+    return `${label} changed`;
+  }
+
+  const before = formatAuditValue(field, change.before);
+  const after = formatAuditValue(field, change.after);
+
+  if (before === 'empty') return `${label} set to ${after}`;
+  if (after === 'empty') return `${label} cleared (was ${before})`;
+  return `${label} changed from ${before} to ${after}`;
+}
+
+/**
+ * Summarize an entry in one line, e.g. "Updated recipient Ana Cruz"
+ */
+export function describeAuditEntry(entry: SerializedAuditLogEntry): string {
+  const action = AUDIT_ACTION_LABELS[entry.action];
+  const entity = AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType;
+  return entry.entityLabel ? `${action} ${entity} ${entry.entityLabel}` : `${action} ${entity}`;
+}
@@ -0,0 +1,6 @@
+/**
+ * Quote a CSV cell when it contains a comma, quote or line break
+ */
+export function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -33,3 +33,10 @@ export function isValidAmount(value: number | string): boolean {
   const num = typeof value === 'string' ? parseFloat(value) : value;
   return !isNaN(num) && num > 0;
 }
+
+/**
+ * Round an amount to whole cents
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -8,7 +8,7 @@ import {
   parseISO,
   startOfDay,
 } from 'date-fns';
-import { RENEWAL, VERIFICATION } from '@/constants/app';
+import { LIFECYCLE, RENEWAL, VERIFICATION } from '@/constants/app';
 import { RenewalPeriod } from '@prisma/client';
 
 /**
@@ -18,6 +18,19 @@ export function getToday(): Date {
   return startOfDay(new Date());
 }
 
+/**
+ * The store's business date (YYYY-MM-DD) at a moment, in the store timezone.
+ * The drawer day lock and dated reversals follow the store's calendar, not the server's UTC date.
+ */
+export function getBusinessDate(at: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: LIFECYCLE.TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
 /**
  * Calculate age in years from a birthdate
  */
@@ -106,24 +119,31 @@ export function isBusinessRegExpiringSoon(validUntilDate: Date): boolean {
 }
 
 /**
- * Calculate the next renewal date based on payment date and period
+ * Number of days in a term, including the 12-month plan's bonus month
  */
-export function calculateNextRenewalDate(
-  paymentDate: Date,
-  period: RenewalPeriod
-): Date {
+export function getTermDays(period: RenewalPeriod): number {
   switch (period) {
     case 'THREE_MONTH':
-      return addDays(paymentDate, RENEWAL.THREE_MONTH_DAYS);
+      return RENEWAL.THREE_MONTH_DAYS;
     case 'SIX_MONTH':
-      return addDays(paymentDate, RENEWAL.SIX_MONTH_DAYS);
+      return RENEWAL.SIX_MONTH_DAYS;
     case 'TWELVE_MONTH':
-      return addDays(paymentDate, RENEWAL.TWELVE_MONTH_DAYS);
+      return RENEWAL.TWELVE_MONTH_DAYS;
     default:
       throw new Error(`Unknown renewal period: ${String(period)}`);
   }
 }
 
+/**
+ * Calculate the next renewal date based on payment date and period
+ */
+export function calculateNextRenewalDate(
+  paymentDate: Date,
+  period: RenewalPeriod
+): Date {
+  return addDays(paymentDate, getTermDays(period));
+}
+
 /**
  * Get the payment status based on days until renewal
  */
@@ -139,22 +159,26 @@ export function getPaymentStatus(
   return 'CURRENT';
 }
 
+/**
+ * Get the number of days an account is past its renewal date
+ * Returns 0 or a negative number when not yet overdue
+ */
+export function getDaysOverdue(nextRenewalDate: Date, asOf: Date = getToday()): number {
+  return differenceInDays(asOf, nextRenewalDate);
+}
+
 /**
  * Check if account should be placed on hold
  */
-export function shouldPlaceOnHold(nextRenewalDate: Date): boolean {
-  const today = getToday();
-  const daysOverdue = differenceInDays(today, nextRenewalDate);
-  return daysOverdue >= RENEWAL.HOLD_DAYS_AFTER_OVERDUE;
+export function shouldPlaceOnHold(nextRenewalDate: Date, asOf: Date = getToday()): boolean {
+  return getDaysOverdue(nextRenewalDate, asOf) >= RENEWAL.HOLD_DAYS_AFTER_OVERDUE;
 }
 
 /**
  * Check if account should be closed
  */
-export function shouldCloseAccount(nextRenewalDate: Date): boolean {
-  const today = getToday();
-  const daysOverdue = differenceInDays(today, nextRenewalDate);
-  return daysOverdue >= RENEWAL.CLOSE_DAYS_AFTER_OVERDUE;
+export function shouldCloseAccount(nextRenewalDate: Date, asOf: Date = getToday()): boolean {
+  return getDaysOverdue(nextRenewalDate, asOf) >= RENEWAL.CLOSE_DAYS_AFTER_OVERDUE;
 }
 
 /**
@@ -173,6 +197,13 @@ export function formatInputDate(date: Date | string): string {
   return format(d, 'yyyy-MM-dd');
 }
 
+/**
+ * Format a stored calendar date as its UTC date (YYYY-MM-DD)
+ */
+export function formatDateString(date: Date): string {
+  return date.toISOString().split('T')[0] ?? date.toISOString();
+}
+
 /**
  * Get days until a date (positive if future, negative if past)
  */
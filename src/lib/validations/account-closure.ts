@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { CLOSURE_REASONS } from '@/constants/status';
+import { settleKeyDepositSchema } from './key-deposit';
+
+/**
+ * Schema for closing an account
+ */
+export const closeAccountSchema = z.object({
+  reason: z.enum(CLOSURE_REASONS, { message: 'Please select a closure reason' }),
+  notes: z.string().trim().max(500, 'Notes cannot exceed 500 characters').optional(),
+  writeOffUnpaid: z.boolean().optional().default(false),
+  deposit: settleKeyDepositSchema.optional(),
+  noticeDeliveryMethod: z.enum(['PRINT', 'EMAIL', 'BOTH']).optional().default('PRINT'),
+});
+
+export type CloseAccountSchemaInput = z.infer<typeof closeAccountSchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const exportRangeObject = z.object({
+  startDate: dateString,
+  endDate: dateString,
+});
+
+const startBeforeEnd = {
+  message: 'Start date must be on or before end date',
+  path: ['endDate'],
+};
+
+/**
+ * Schema for previewing an accounting export
+ */
+export const accountingExportRangeSchema = exportRangeObject.refine(
+  (data) => data.startDate <= data.endDate,
+  startBeforeEnd
+);
+
+/**
+ * Schema for creating an accounting export batch
+ */
+export const createAccountingExportSchema = exportRangeObject
+  .extend({
+    format: z.enum(['IIF', 'CSV']),
+  })
+  .refine((data) => data.startDate <= data.endDate, startBeforeEnd);
+
+export type CreateAccountingExportSchemaInput = z.infer<typeof createAccountingExportSchema>;
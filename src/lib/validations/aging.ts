@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the aging report query
+ */
+export const agingReportQuerySchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Schema for audit log query params
+ */
+export const auditLogQuerySchema = z.object({
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  // Expands to the account plus its recipients, contact details, invoices, payments and notices
+  accountId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE']).optional(),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(25),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Schema for turning auto-renew on or off
+ */
+export const updateAutoRenewSchema = z.object({
+  autoRenew: z.boolean(),
+});
+
+export type UpdateAutoRenewInput = z.infer<typeof updateAutoRenewSchema>;
+
+/**
+ * Schema for putting a card on file. Only the token the gateway or card
+ * terminal issued is accepted - anything shaped like a card number is refused.
+ */
+export const storeCardSchema = z.object({
+  sourceToken: z
+    .string()
+    .trim()
+    .min(1, 'Card token is required')
+    .max(255, 'Card token cannot exceed 255 characters')
+    .refine((value) => !/^[\d\s-]{12,}$/.test(value), {
+      message: 'Enter the token from the card terminal, not the card number',
+    }),
+});
+
+export type StoreCardInput = z.infer<typeof storeCardSchema>;
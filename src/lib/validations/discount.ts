@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .optional();
+
+/**
+ * Schema for creating or updating a discount
+ */
+export const discountSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(2, 'Code must be at least 2 characters')
+      .max(30, 'Code cannot exceed 30 characters')
+      .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores')
+      .transform((val) => val.toUpperCase()),
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters'),
+    description: z.string().trim().max(500, 'Description cannot exceed 500 characters').optional(),
+    discountType: z.enum(['PERCENTAGE', 'FIXED'], { message: 'Discount type must be PERCENTAGE or FIXED' }),
+    value: z.number().positive('Value must be positive').max(10000, 'Value exceeds maximum'),
+    newAccountsOnly: z.boolean().default(false),
+    renewalPeriods: z.array(z.enum(['THREE_MONTH', 'SIX_MONTH', 'TWELVE_MONTH'])).default([]),
+    startDate: optionalDate,
+    endDate: optionalDate,
+    maxUses: z.number().int().positive('Usage limit must be at least 1').optional(),
+    maxUsesPerAccount: z.number().int().positive('Usage limit must be at least 1').optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.discountType !== 'PERCENTAGE' || data.value <= 100, {
+    message: 'Percentage cannot exceed 100',
+    path: ['value'],
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  });
+
+export type DiscountSchemaInput = z.infer<typeof discountSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+/**
+ * Business day in a drawer route path
+ */
+export const businessDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+/**
+ * Schema for closing out a business day's drawer
+ */
+export const closeDrawerSchema = z.object({
+  countedCash: z.number().nonnegative('Counted cash cannot be negative'),
+  countedCard: z.number().nonnegative('Card batch total cannot be negative'),
+  varianceNote: z.string().trim().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+export type CloseDrawerSchemaInput = z.infer<typeof closeDrawerSchema>;
+
+/**
+ * Schema for Z-report query params
+ */
+export const zReportQuerySchema = z.object({
+  format: z.enum(['escpos', 'text']).default('escpos'),
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+/**
+ * Schema for waiving an invoice's late and reinstatement fees
+ */
+export const waiveFeesSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason cannot exceed 500 characters').optional(),
+});
+
+export type WaiveFeesSchemaInput = z.infer<typeof waiveFeesSchema>;
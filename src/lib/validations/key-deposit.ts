@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Schema for refunding or forfeiting a key deposit
+ */
+export const settleKeyDepositSchema = z
+  .object({
+    action: z.enum(['REFUND', 'FORFEIT']),
+    paymentMethod: z.enum(['CASH', 'CARD', 'CHECK']).optional(),
+    notes: z.string().trim().max(500, 'Notes cannot exceed 500 characters').optional(),
+  })
+  .refine((data) => data.action !== 'REFUND' || data.paymentMethod !== undefined, {
+    message: 'Refund method is required',
+    path: ['paymentMethod'],
+  });
+
+export type SettleKeyDepositSchemaInput = z.infer<typeof settleKeyDepositSchema>;
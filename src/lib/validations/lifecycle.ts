@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+const asOfDateField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const lifecyclePreviewQuerySchema = z.object({
+  asOf: asOfDateField.optional(),
+});
+
+export type LifecyclePreviewQuery = z.infer<typeof lifecyclePreviewQuerySchema>;
+
+export const runLifecycleSchema = z.object({
+  // Defaults to today when omitted
+  asOfDate: asOfDateField.optional(),
+});
+
+export type RunLifecycleInput = z.infer<typeof runLifecycleSchema>;
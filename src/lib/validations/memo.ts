@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { MEMO } from '@/constants/app';
+
+const memoContentField = z
+  .string()
+  .trim()
+  .min(1, 'Memo content is required')
+  .max(MEMO.MAX_LENGTH, `Memo must be ${MEMO.MAX_LENGTH} characters or less`);
+
+export const createMemoSchema = z.object({
+  content: memoContentField,
+  isPinned: z.boolean().optional().default(false),
+});
+
+export type CreateMemoInput = z.infer<typeof createMemoSchema>;
+
+export const updateMemoSchema = z
+  .object({
+    content: memoContentField.optional(),
+    isPinned: z.boolean().optional(),
+  })
+  .refine((data) => data.content !== undefined || data.isPinned !== undefined, {
+    message: 'Provide content or isPinned to update',
+  });
+
+export type UpdateMemoInput = z.infer<typeof updateMemoSchema>;
+
+export const memoListQuerySchema = z.object({
+  // Managers can review deleted memos
+  includeDeleted: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+export type MemoListQuery = z.infer<typeof memoListQuerySchema>;
@@ -25,7 +25,31 @@ export const createPaymentSchema = z.object({
   isRenewal: z.boolean().optional(),
   renewalPeriod: z.enum(['THREE_MONTH', 'SIX_MONTH', 'TWELVE_MONTH']).optional(),
   newRate: z.number().nonnegative().optional(),
-});
+  // Manager waiver of the renewal's late / reinstatement fees
+  waiveFees: z.boolean().optional(),
+  feeWaiverReason: z.string().trim().max(500, 'Reason cannot exceed 500 characters').optional(),
+  // Promotion code for a renewal invoice created with this payment
+  discountCode: z.string().trim().max(30, 'Code cannot exceed 30 characters').optional(),
+  // Check details, required when paying by check
+  checkNumber: z.string().trim().max(20, 'Check number cannot exceed 20 characters').optional(),
+  checkBank: z.string().trim().max(100, 'Bank cannot exceed 100 characters').optional(),
+  checkDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+})
+  .refine((data) => data.paymentMethod !== 'CHECK' || !!data.checkNumber, {
+    message: 'Check number is required for check payments',
+    path: ['checkNumber'],
+  })
+  .refine((data) => data.paymentMethod !== 'CHECK' || !!data.checkBank, {
+    message: 'Bank is required for check payments',
+    path: ['checkBank'],
+  })
+  .refine((data) => data.paymentMethod !== 'CHECK' || !!data.checkDate, {
+    message: 'Check date is required for check payments',
+    path: ['checkDate'],
+  });
 
 export type CreatePaymentSchemaInput = z.infer<typeof createPaymentSchema>;
 
@@ -43,6 +67,7 @@ export const paymentListQuerySchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/)
     .optional(),
   paymentMethod: z.enum(['CASH', 'CARD', 'CHECK']).optional(),
+  paymentType: z.enum(['PAYMENT', 'VOID', 'REFUND']).optional(),
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(20),
   sortField: z.enum(['paymentDate', 'amount', 'createdAt']).default('paymentDate'),
@@ -50,3 +75,74 @@ export const paymentListQuerySchema = z.object({
 });
 
 export type PaymentListQuery = z.infer<typeof paymentListQuerySchema>;
+
+/**
+ * Schema for payment summary query params
+ */
+export const paymentSummaryQuerySchema = z.object({
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+export type PaymentSummaryQuery = z.infer<typeof paymentSummaryQuerySchema>;
+
+const reversalReasonSchema = z
+  .string()
+  .trim()
+  .min(1, 'A reason is required')
+  .max(500, 'Reason cannot exceed 500 characters');
+
+/**
+ * Schema for voiding a payment
+ */
+export const voidPaymentSchema = z.object({
+  reason: reversalReasonSchema,
+});
+
+export type VoidPaymentSchemaInput = z.infer<typeof voidPaymentSchema>;
+
+/**
+ * Schema for refunding part or all of a payment
+ */
+export const refundPaymentSchema = z.object({
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(10000, 'Amount exceeds maximum'),
+  // How the refund was paid out; defaults to the original method
+  paymentMethod: z.enum(['CASH', 'CARD', 'CHECK']).optional(),
+  reason: reversalReasonSchema,
+});
+
+export type RefundPaymentSchemaInput = z.infer<typeof refundPaymentSchema>;
+
+/**
+ * Schema for marking a check payment as returned by the bank
+ */
+export const returnedCheckSchema = z.object({
+  reason: reversalReasonSchema,
+  // Put the account on HOLD until the balance is settled
+  placeOnHold: z.boolean().default(false),
+});
+
+export type ReturnedCheckSchemaInput = z.infer<typeof returnedCheckSchema>;
+
+/**
+ * Schema for thermal receipt query params
+ */
+export const thermalReceiptQuerySchema = z.object({
+  format: z.enum(['escpos', 'text']).default('escpos'),
+  // Kick the cash drawer after printing (first print of a cash payment)
+  openDrawer: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export type ThermalReceiptQuery = z.infer<typeof thermalReceiptQuerySchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+/**
+ * Schema for switching an account to a different renewal period
+ */
+export const planChangeSchema = z.object({
+  renewalPeriod: z.enum(['THREE_MONTH', 'SIX_MONTH', 'TWELVE_MONTH'], {
+    message: 'Invalid renewal period',
+  }),
+});
+
+export type PlanChangeSchemaInput = z.infer<typeof planChangeSchema>;
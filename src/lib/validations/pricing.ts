@@ -40,6 +40,21 @@ export const createPricingSchema = z.object({
     .number()
     .min(PRICING.MIN_RATE, 'Deposit must be non-negative')
     .max(PRICING.MAX_RATE, `Deposit cannot exceed ${PRICING.MAX_RATE}`),
+  lateFee: z
+    .number()
+    .min(PRICING.MIN_RATE, 'Fee must be non-negative')
+    .max(PRICING.MAX_RATE, `Fee cannot exceed ${PRICING.MAX_RATE}`)
+    .default(PRICING.DEFAULT_LATE_FEE),
+  reinstatementFee: z
+    .number()
+    .min(PRICING.MIN_RATE, 'Fee must be non-negative')
+    .max(PRICING.MAX_RATE, `Fee cannot exceed ${PRICING.MAX_RATE}`)
+    .default(PRICING.DEFAULT_REINSTATEMENT_FEE),
+  returnedCheckFee: z
+    .number()
+    .min(PRICING.MIN_RATE, 'Fee must be non-negative')
+    .max(PRICING.MAX_RATE, `Fee cannot exceed ${PRICING.MAX_RATE}`)
+    .default(PRICING.DEFAULT_RETURNED_CHECK_FEE),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
@@ -52,6 +67,13 @@ export const updatePricingSchema = createPricingSchema;
 
 export type UpdatePricingInput = z.infer<typeof updatePricingSchema>;
 
+/**
+ * Schema for simulating proposed pricing before it is saved (same fields as create)
+ */
+export const simulatePricingSchema = createPricingSchema;
+
+export type SimulatePricingInput = z.infer<typeof simulatePricingSchema>;
+
 /**
  * Schema for price calculation input
  */
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * Schema for previewing what recipient changes will bill.
+ * Takes the same recipient entries as the account PATCH.
+ */
+export const prorationPreviewSchema = z.object({
+  recipients: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        recipientType: z.enum(['PERSON', 'BUSINESS']).optional(),
+        birthdate: z.string().nullable().optional(),
+        _delete: z.boolean().optional(),
+        _isNew: z.boolean().optional(),
+      })
+    )
+    .min(1, 'At least one recipient change is required'),
+});
+
+export type ProrationPreviewSchemaInput = z.infer<typeof prorationPreviewSchema>;
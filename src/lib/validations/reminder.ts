@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const generateRemindersSchema = z.object({
+  // Defaults to today when omitted
+  asOfDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+});
+
+export type GenerateRemindersInput = z.infer<typeof generateRemindersSchema>;
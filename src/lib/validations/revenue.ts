@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { REVENUE_RECOGNITION } from '@/constants/app';
+
+const monthString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
+function monthsBetween(from: string, to: string): number {
+  const [fromYear = 0, fromMonth = 0] = from.split('-').map(Number);
+  const [toYear = 0, toMonth = 0] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+}
+
+/**
+ * Schema for the revenue recognition report range
+ */
+export const revenueRangeSchema = z
+  .object({
+    from: monthString,
+    to: monthString,
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'From month must be on or before to month',
+    path: ['to'],
+  })
+  .refine((data) => monthsBetween(data.from, data.to) <= REVENUE_RECOGNITION.MAX_MONTHS, {
+    message: `Range cannot exceed ${REVENUE_RECOGNITION.MAX_MONTHS} months`,
+    path: ['to'],
+  });
+
+export type RevenueRangeSchemaInput = z.infer<typeof revenueRangeSchema>;
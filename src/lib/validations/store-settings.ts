@@ -35,6 +35,39 @@ export const updateStoreSettingsSchema = z.object({
     .string()
     .min(1, 'Store hours are required')
     .max(200, 'Store hours cannot exceed 200 characters'),
+  smtpHost: z
+    .string()
+    .max(255, 'SMTP host cannot exceed 255 characters')
+    .nullable()
+    .optional()
+    .transform((val) => val?.trim() || null),
+  smtpPort: z
+    .number()
+    .int('SMTP port must be a whole number')
+    .min(1, 'SMTP port must be between 1 and 65535')
+    .max(65535, 'SMTP port must be between 1 and 65535')
+    .nullable()
+    .optional()
+    .transform((val) => val ?? null),
+  smtpSecure: z.boolean().optional().default(false),
+  smtpUser: z
+    .string()
+    .max(255, 'SMTP username cannot exceed 255 characters')
+    .nullable()
+    .optional()
+    .transform((val) => val || null),
+  // Blank keeps the stored password
+  smtpPassword: z
+    .string()
+    .max(255, 'SMTP password cannot exceed 255 characters')
+    .optional()
+    .transform((val) => val || undefined),
+  reopenWindowDays: z
+    .number()
+    .int('Reopen window must be a whole number of days')
+    .min(0, 'Reopen window cannot be negative')
+    .max(365, 'Reopen window cannot exceed 365 days')
+    .optional(),
 });
 
 export type UpdateStoreSettingsInput = z.infer<typeof updateStoreSettingsSchema>;
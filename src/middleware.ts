@@ -7,17 +7,18 @@ export default withAuth({
 });
 
 export const config = {
-  // Protect all routes except login, api/auth, api/health, and static files
+  // Protect all routes except login, api/auth, api/health, the SMS webhook, and static files
   matcher: [
     /*
      * Match all request paths except:
      * - login (login page)
      * - api/auth (NextAuth.js routes)
      * - api/health (health check endpoint)
+     * - api/sms/webhook (provider callbacks, verified by signature)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
-    '/((?!login|api/auth|api/health|_next/static|_next/image|favicon.ico).*)',
+    '/((?!login|api/auth|api/health|api/sms/webhook|_next/static|_next/image|favicon.ico).*)',
   ],
 };
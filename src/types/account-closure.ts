@@ -0,0 +1,101 @@
+import type { AccountStatus, MailboxStatus, NoticeDeliveryMethod } from '@prisma/client';
+import type { KeyDepositStatus, SerializedKeyDepositTransaction, SettleKeyDepositInput } from './key-deposit';
+import type { NoticeGenerationResult } from './notice';
+
+/**
+ * An invoice that still has a balance when the account is closed
+ */
+export interface UnpaidInvoiceSummary {
+  id: string;
+  invoiceNumber: number;
+  invoiceDate: string;
+  totalAmount: number;
+  paidAmount: number;
+  balanceDue: number;
+}
+
+/**
+ * What closing an account will involve, shown before staff confirm
+ */
+export interface AccountClosurePreview {
+  accountId: string;
+  status: AccountStatus;
+  unpaidInvoices: UnpaidInvoiceSummary[];
+  unpaidTotal: number;
+  deposit: {
+    status: KeyDepositStatus;
+    amount: number;
+  };
+  activeRecipientCount: number;
+}
+
+/**
+ * Input for closing an account
+ */
+export interface CloseAccountInput {
+  reason: string;
+  notes?: string | undefined;
+  // Manager override: write off unpaid balances instead of blocking the closure
+  writeOffUnpaid: boolean;
+  // Settle a held key deposit as part of the closure (manager only)
+  deposit?: SettleKeyDepositInput | undefined;
+  noticeDeliveryMethod: NoticeDeliveryMethod;
+}
+
+/**
+ * How a closure made by the lifecycle run is checked and recorded
+ */
+export interface CloseAccountOptions {
+  // Skip the closure if the account has since moved out of this status
+  expectedStatus?: AccountStatus | undefined;
+  lifecycleRunId?: string | undefined;
+  daysOverdue?: number | undefined;
+  // Reason on the status change; defaults to the closure reason and notes
+  statusChangeReason?: string | undefined;
+}
+
+/**
+ * Outcome of closing an account
+ */
+export interface CloseAccountResult {
+  accountId: string;
+  closedAt: string;
+  writtenOffInvoices: UnpaidInvoiceSummary[];
+  writtenOffTotal: number;
+  deposit: SerializedKeyDepositTransaction | null;
+  recipientsRemoved: number;
+  removedRecipientIds: string[];
+  notice: NoticeGenerationResult;
+}
+
+/**
+ * Whether a closed account can still be reopened
+ */
+export interface ReopenEligibility {
+  eligible: boolean;
+  // Why the account can't be reopened, when it can't
+  reason: string | null;
+  reopenDeadline: string | null;
+}
+
+/**
+ * Account state needed to decide whether it can be reopened
+ */
+export interface ReopenCheckInput {
+  status: AccountStatus;
+  closedAt: Date | null;
+  mailboxStatus: MailboxStatus;
+  // Another account has since been opened on the same mailbox
+  mailboxReassigned: boolean;
+}
+
+/**
+ * Outcome of reopening an account
+ */
+export interface ReopenAccountResult {
+  accountId: string;
+  status: AccountStatus;
+  mailboxStatus: MailboxStatus;
+  recipientsRestored: number;
+  restoredRecipientIds: string[];
+}
@@ -0,0 +1,157 @@
+import type {
+  AccountingExportFormat,
+  CreditAction,
+  InvoiceLineType,
+  KeyDepositAction,
+  PaymentMethod,
+  PaymentType,
+} from '@prisma/client';
+
+/**
+ * What a journal entry was built from. Each source is posted once.
+ */
+export type JournalSourceType =
+  | 'INVOICE'
+  | 'INVOICE_CHARGE'
+  | 'PAYMENT'
+  | 'CREDIT'
+  | 'KEY_DEPOSIT'
+  | 'WRITE_OFF'
+  | 'FEE_WAIVER';
+
+/**
+ * One side of a journal entry. Exactly one of debit and credit is non-zero.
+ */
+export interface JournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+  customer: string | null;
+  memo: string;
+}
+
+/**
+ * A balanced journal entry for one invoice, payment or deposit movement
+ */
+export interface JournalEntry {
+  sourceType: JournalSourceType;
+  sourceId: string;
+  date: string;
+  docNumber: string;
+  memo: string;
+  lines: JournalLine[];
+}
+
+/**
+ * Invoice as it is posted to revenue
+ */
+export interface InvoicePostingInput {
+  id: string;
+  invoiceNumber: number;
+  invoiceDate: Date;
+  mailboxNumber: number;
+  lineItems: Array<{ lineType: InvoiceLineType; description: string; totalAmount: number }>;
+}
+
+/**
+ * Line added to an invoice after the invoice was exported
+ */
+export interface InvoiceChargePostingInput {
+  id: string;
+  invoiceNumber: number;
+  lineType: InvoiceLineType;
+  description: string;
+  totalAmount: number;
+  createdAt: Date;
+  mailboxNumber: number;
+}
+
+/**
+ * Payment, void or refund as it is posted against receivables
+ */
+export interface PaymentPostingInput {
+  id: string;
+  amount: number; // negative for voids and refunds
+  paymentDate: Date;
+  paymentMethod: PaymentMethod;
+  paymentType: PaymentType;
+  mailboxNumber: number;
+  invoiceNumber: number | null;
+}
+
+/**
+ * Account credit ledger row
+ */
+export interface CreditPostingInput {
+  id: string;
+  action: CreditAction;
+  amount: number; // negative when credit is used or taken back
+  createdAt: Date;
+  mailboxNumber: number;
+  invoiceNumber: number | null;
+}
+
+/**
+ * Key deposit refund or forfeiture
+ */
+export interface KeyDepositPostingInput {
+  id: string;
+  action: KeyDepositAction;
+  amount: number;
+  paymentMethod: PaymentMethod | null;
+  createdAt: Date;
+  mailboxNumber: number;
+}
+
+/**
+ * Unpaid balance written off, or late fees waived, on an invoice
+ */
+export interface InvoiceAdjustmentPostingInput {
+  invoiceId: string;
+  invoiceNumber: number;
+  amount: number;
+  date: Date;
+  mailboxNumber: number;
+  reason: string | null;
+}
+
+/**
+ * Date range to export
+ */
+export interface AccountingExportRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Input for creating an export batch
+ */
+export interface CreateAccountingExportInput extends AccountingExportRange {
+  format: AccountingExportFormat;
+}
+
+/**
+ * What an export of the range would contain
+ */
+export interface AccountingExportPreview extends AccountingExportRange {
+  counts: Record<JournalSourceType, number>;
+  entryCount: number;
+  totalDebits: number;
+  // Entries in the range that earlier batches already posted
+  alreadyExported: number;
+}
+
+/**
+ * Serialized export batch for API responses
+ */
+export interface SerializedAccountingExport {
+  id: string;
+  format: AccountingExportFormat;
+  startDate: string;
+  endDate: string;
+  entryCount: number;
+  totalDebits: number;
+  filename: string;
+  createdBy: { id: string; username: string };
+  createdAt: string;
+}
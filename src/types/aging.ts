@@ -0,0 +1,58 @@
+import type { AccountStatus, InvoiceStatus } from '@prisma/client';
+import type { AGING_BUCKETS } from '@/constants/status';
+
+/**
+ * How long an open balance has been outstanding
+ */
+export type AgingBucket = keyof typeof AGING_BUCKETS;
+
+export type AgingBucketTotals = Record<AgingBucket, number>;
+
+/**
+ * An open invoice placed in its aging bucket
+ */
+export interface AgingInvoiceInput {
+  id: string;
+  invoiceNumber: number;
+  invoiceDate: Date;
+  status: InvoiceStatus;
+  accountId: string;
+  mailboxNumber: number;
+  accountName: string;
+  accountStatus: AccountStatus;
+  balanceDue: number;
+}
+
+export interface AgingInvoice {
+  id: string;
+  invoiceNumber: number;
+  invoiceDate: string;
+  status: InvoiceStatus;
+  daysOutstanding: number;
+  bucket: AgingBucket;
+  balanceDue: number;
+}
+
+/**
+ * An account's open balance split into aging buckets
+ */
+export interface AgingAccount {
+  accountId: string;
+  mailboxNumber: number;
+  accountName: string;
+  accountStatus: AccountStatus;
+  buckets: AgingBucketTotals;
+  total: number;
+  invoices: AgingInvoice[];
+}
+
+/**
+ * Accounts receivable aging as of a date, oldest balances first
+ */
+export interface AgingReport {
+  asOf: string;
+  buckets: AgingBucketTotals;
+  total: number;
+  invoiceCount: number;
+  accounts: AgingAccount[];
+}
@@ -0,0 +1,52 @@
+import type { AuditAction } from '@prisma/client';
+
+/**
+ * A single field change recorded in an audit log entry
+ */
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Field-level before/after diff stored in AuditLog.changes
+ */
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+/**
+ * Who made a change and from where
+ */
+export interface AuditContext {
+  userId: string | null;
+  userName: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Input for writing an audit log entry
+ */
+export interface CreateAuditLogInput {
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  changes: AuditChanges | null;
+}
+
+/**
+ * Serialized audit log entry for API responses
+ */
+export interface SerializedAuditLogEntry {
+  id: string;
+  userId: string | null;
+  userName: string;
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  // Human-readable name of the entity (recipient name, mailbox number...) when known
+  entityLabel: string | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
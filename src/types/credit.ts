@@ -0,0 +1,33 @@
+import type { CreditAction } from '@prisma/client';
+
+/**
+ * Serialized credit ledger entry for API responses.
+ * Amounts are signed: overpayments add credit, applications and reversals use it up.
+ */
+export interface SerializedCreditTransaction {
+  id: string;
+  accountId: string;
+  action: CreditAction;
+  amount: number;
+  balanceAfter: number;
+  paymentId: string | null;
+  invoiceId: string | null;
+  invoiceNumber: number | null;
+  notes: string | null;
+  recordedBy: {
+    id: string;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  createdAt: string;
+}
+
+/**
+ * An account's credit balance with its ledger history
+ */
+export interface AccountCredit {
+  accountId: string;
+  balance: number;
+  transactions: SerializedCreditTransaction[];
+}
@@ -0,0 +1,77 @@
+import type { DiscountType, RenewalPeriod } from '@prisma/client';
+
+/**
+ * Serialized discount for API responses
+ */
+export interface SerializedDiscount {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  discountType: DiscountType;
+  value: number;
+  newAccountsOnly: boolean;
+  renewalPeriods: RenewalPeriod[];
+  startDate: string | null;
+  endDate: string | null;
+  maxUses: number | null;
+  maxUsesPerAccount: number | null;
+  isActive: boolean;
+  timesUsed: number;
+  createdAt: string;
+}
+
+/**
+ * Input for creating or updating a discount
+ */
+export interface DiscountInput {
+  code: string;
+  name: string;
+  description?: string | undefined;
+  discountType: DiscountType;
+  value: number;
+  newAccountsOnly: boolean;
+  renewalPeriods: RenewalPeriod[];
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  maxUses?: number | undefined;
+  maxUsesPerAccount?: number | undefined;
+  isActive: boolean;
+}
+
+/**
+ * The discount rules checked when a code is entered
+ */
+export interface DiscountRules {
+  discountType: DiscountType;
+  value: number;
+  newAccountsOnly: boolean;
+  renewalPeriods: RenewalPeriod[];
+  startDate: Date | null;
+  endDate: Date | null;
+  maxUses: number | null;
+  maxUsesPerAccount: number | null;
+  isActive: boolean;
+}
+
+/**
+ * What a code is being used for
+ */
+export interface DiscountContext {
+  isNewAccount: boolean;
+  renewalPeriod: RenewalPeriod;
+  date: Date;
+  // Redemptions so far, across all accounts and by this account
+  timesUsed: number;
+  timesUsedByAccount: number;
+}
+
+/**
+ * A discount that checked out, with the amount it takes off the term total
+ */
+export interface AppliedDiscount {
+  discountId: string;
+  code: string;
+  description: string;
+  amount: number;
+}
@@ -0,0 +1,82 @@
+import type { PaymentMethod, PaymentType } from '@prisma/client';
+
+/**
+ * Number and net amount of payments taken one way
+ */
+export interface MethodTotal {
+  count: number;
+  total: number;
+}
+
+export type MethodTotals = Record<PaymentMethod, MethodTotal>;
+
+/**
+ * What one staff member took over the business day
+ */
+export interface StaffDrawerTotals {
+  userId: string;
+  name: string;
+  byMethod: MethodTotals;
+  total: number;
+}
+
+/**
+ * Payments for a business day totalled by method and by who recorded them.
+ * Voids and refunds are netted into the totals.
+ */
+export interface DrawerSummary {
+  businessDate: string;
+  byMethod: MethodTotals;
+  byStaff: StaffDrawerTotals[];
+  paymentCount: number;
+  reversalCount: number;
+  reversalTotal: number; // voided and refunded, as a positive amount
+  total: number;
+}
+
+/**
+ * A payment as it counts toward the drawer
+ */
+export interface DrawerPaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  paymentType: PaymentType;
+  recordedBy: { id: string; name: string };
+}
+
+/**
+ * Serialized close-out for API responses
+ */
+export interface SerializedDrawerCloseout {
+  id: string;
+  businessDate: string;
+  expectedCash: number;
+  countedCash: number;
+  cashVariance: number;
+  expectedCard: number;
+  countedCard: number;
+  cardVariance: number;
+  expectedCheck: number;
+  varianceNote: string | null;
+  summary: DrawerSummary;
+  closedBy: { id: string; name: string };
+  closedAt: string;
+}
+
+/**
+ * A business day's drawer: live totals, and the close-out once it's closed
+ */
+export interface DrawerDay {
+  businessDate: string;
+  summary: DrawerSummary;
+  closeout: SerializedDrawerCloseout | null;
+}
+
+/**
+ * What staff counted when closing the drawer
+ */
+export interface CloseDrawerInput {
+  countedCash: number;
+  countedCard: number;
+  varianceNote?: string | undefined;
+}
@@ -0,0 +1,35 @@
+/**
+ * A file attached to an outgoing email
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * An outgoing email message
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * What a transport reports after accepting a message
+ */
+export interface EmailSendResult {
+  messageId: string;
+}
+
+/**
+ * A way of delivering email (SMTP server or local outbox)
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
@@ -0,0 +1,103 @@
+import type { AutoRenewalStatus } from '@prisma/client';
+
+/**
+ * Card details the gateway reports after vaulting a card. Only the token
+ * and display details are kept - never the card number.
+ */
+export interface StoredCard {
+  token: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+/**
+ * Who the card belongs to, as the gateway records it
+ */
+export interface GatewayCustomer {
+  accountId: string;
+  description: string;
+  email?: string | undefined;
+}
+
+/**
+ * A charge against a stored card
+ */
+export interface GatewayChargeInput {
+  token: string;
+  amount: number;
+  description: string;
+  // The same key always refers to the same charge, so a retried run can't bill twice
+  idempotencyKey: string;
+}
+
+/**
+ * Outcome of a charge. Declines are a normal result, not an error.
+ */
+export type GatewayChargeResult =
+  | { approved: true; transactionId: string }
+  | { approved: false; declineCode: string; declineReason: string };
+
+/**
+ * A card processor that can vault cards and charge them later
+ */
+export interface PaymentGateway {
+  name: string;
+  storeCard(sourceToken: string, customer: GatewayCustomer): Promise<StoredCard>;
+  charge(input: GatewayChargeInput): Promise<GatewayChargeResult>;
+  removeCard(token: string): Promise<void>;
+}
+
+/**
+ * Serialized card on file for API responses
+ */
+export interface SerializedCardOnFile {
+  id: string;
+  accountId: string;
+  gateway: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  createdBy: { id: string; username: string };
+  createdAt: string;
+}
+
+/**
+ * An account's auto-renewal setting, card and recent attempts
+ */
+export interface AccountAutoRenewal {
+  autoRenew: boolean;
+  card: SerializedCardOnFile | null;
+  attempts: SerializedAutoRenewalAttempt[];
+}
+
+/**
+ * Serialized auto-renewal attempt for API responses
+ */
+export interface SerializedAutoRenewalAttempt {
+  id: string;
+  accountId: string;
+  renewalDate: string;
+  status: AutoRenewalStatus;
+  amount: number;
+  cardLast4: string;
+  invoiceId: string | null;
+  paymentId: string | null;
+  transactionId: string | null;
+  declineReason: string | null;
+  attemptedAt: string;
+}
+
+/**
+ * Result of a scheduled auto-renewal run
+ */
+export interface AutoRenewalRunResult {
+  asOfDate: string;
+  accountsEvaluated: number;
+  renewed: number;
+  declined: number;
+  failed: number;
+  skipped: number;
+}
@@ -6,6 +6,7 @@ import type {
   InvoiceLineType,
   RenewalPeriod,
   Payment,
+  PaymentType,
   User,
 } from '@prisma/client';
 
@@ -37,7 +38,17 @@ export interface SerializedInvoice {
   subtotal: number;
   totalAmount: number;
   paidAmount: number;
+  // Account credit put toward this invoice
+  creditApplied: number;
   balanceDue: number;
+  // Set when the unpaid balance was written off (e.g. on account closure)
+  writtenOffAmount: number | null;
+  writtenOffAt: string | null;
+  writeOffReason: string | null;
+  // Set when a manager waived the late / reinstatement fees
+  feesWaivedAmount: number | null;
+  feesWaivedAt: string | null;
+  feeWaiverReason: string | null;
   createdById: string | null;
   notes: string | null;
   createdAt: string;
@@ -75,6 +86,7 @@ export interface SerializedInvoicePayment {
   amount: number;
   paymentDate: string;
   paymentMethod: string;
+  paymentType: PaymentType;
   notes: string | null;
   recordedBy: {
     id: string;
@@ -93,6 +105,8 @@ export interface CreateInvoiceLineItemInput {
   quantity?: number | undefined;
   unitPrice: number;
   months: number;
+  // Line total when it was priced to the cent already (e.g. prorated fees)
+  amount?: number | undefined;
   sortOrder?: number | undefined;
 }
 
@@ -109,6 +123,24 @@ export interface CreateInvoiceInput {
   periodMonths: number;
   lineItems: CreateInvoiceLineItemInput[];
   notes?: string | undefined;
+  // Overdue fees waived before they were ever charged
+  feeWaiver?: FeeWaiverInput & { amount: number } | undefined;
+}
+
+/**
+ * Who waived an invoice's late / reinstatement fees, and why
+ */
+export interface FeeWaiverInput {
+  waivedById: string;
+  reason: string | null;
+}
+
+/**
+ * A rendered invoice or receipt PDF ready to return from an API route
+ */
+export interface BillingPdf {
+  buffer: Buffer;
+  filename: string;
 }
 
 /**
@@ -0,0 +1,70 @@
+import type { AccountStatus, KeyDepositAction, PaymentMethod } from '@prisma/client';
+
+/**
+ * Where an account's key deposit stands
+ */
+export type KeyDepositStatus = 'NONE' | 'HELD' | 'REFUNDED' | 'FORFEITED';
+
+/**
+ * Serialized key deposit ledger entry for API responses
+ */
+export interface SerializedKeyDepositTransaction {
+  id: string;
+  accountId: string;
+  action: KeyDepositAction;
+  amount: number;
+  paymentMethod: PaymentMethod | null;
+  invoiceId: string | null;
+  notes: string | null;
+  recordedBy: {
+    id: string;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  createdAt: string;
+}
+
+/**
+ * An account's key deposit with its ledger history
+ */
+export interface AccountKeyDeposit {
+  accountId: string;
+  amount: number;
+  status: KeyDepositStatus;
+  transactions: SerializedKeyDepositTransaction[];
+}
+
+/**
+ * Input for refunding or forfeiting a deposit when an account closes
+ */
+export interface SettleKeyDepositInput {
+  action: 'REFUND' | 'FORFEIT';
+  // How the refund was paid out (required for refunds)
+  paymentMethod?: PaymentMethod | undefined;
+  notes?: string | undefined;
+}
+
+/**
+ * A deposit the store is still holding
+ */
+export interface OutstandingKeyDeposit {
+  accountId: string;
+  mailboxNumber: number;
+  accountName: string;
+  accountStatus: AccountStatus;
+  amount: number;
+  collectedAt: string | null;
+  closedAt: string | null;
+}
+
+/**
+ * Report of deposits held, with closed accounts awaiting settlement called out
+ */
+export interface OutstandingKeyDepositReport {
+  deposits: OutstandingKeyDeposit[];
+  totalCount: number;
+  totalHeld: number;
+  awaitingSettlementCount: number;
+  awaitingSettlementAmount: number;
+}
@@ -0,0 +1,83 @@
+import type {
+  AccountStatus,
+  MailboxStatus,
+  LifecycleRunTrigger,
+  LifecycleRunStatus,
+} from '@prisma/client';
+import type { AuditContext } from '@/types/audit-log';
+
+/**
+ * A status transition the lifecycle engine has decided to apply to an account
+ */
+export interface LifecycleTransition {
+  accountId: string;
+  mailboxId: string;
+  mailboxNumber: number;
+  accountName: string;
+  nextRenewalDate: string;
+  daysOverdue: number;
+  fromStatus: AccountStatus;
+  toStatus: AccountStatus;
+  mailboxFromStatus: MailboxStatus;
+  mailboxToStatus: MailboxStatus;
+  reason: string;
+}
+
+/**
+ * Result of a dry run - what the next lifecycle run would change
+ */
+export interface LifecyclePreview {
+  asOfDate: string;
+  accountsEvaluated: number;
+  transitions: LifecycleTransition[];
+}
+
+/**
+ * Serialized lifecycle run for API responses
+ */
+export interface SerializedLifecycleRun {
+  id: string;
+  trigger: LifecycleRunTrigger;
+  status: LifecycleRunStatus;
+  asOfDate: string;
+  accountsEvaluated: number;
+  accountsHeld: number;
+  accountsClosed: number;
+  accountsFailed: number;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  triggeredBy: {
+    id: string;
+    username: string;
+  } | null;
+}
+
+/**
+ * Lifecycle run with the transitions it applied
+ */
+export interface LifecycleRunWithTransitions extends SerializedLifecycleRun {
+  transitions: Array<{
+    id: string;
+    accountId: string;
+    mailboxNumber: number;
+    fromStatus: AccountStatus;
+    toStatus: AccountStatus;
+    mailboxFromStatus: MailboxStatus | null;
+    mailboxToStatus: MailboxStatus | null;
+    reason: string;
+    daysOverdue: number | null;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Options for executing a lifecycle run
+ */
+export interface RunLifecycleOptions {
+  trigger: LifecycleRunTrigger;
+  asOfDate?: Date | undefined;
+  userId?: string | null | undefined;
+  // Who to record in the audit trail - defaults to the system user
+  auditContext?: AuditContext | undefined;
+}
@@ -0,0 +1,58 @@
+import type { AccountStatus } from '@prisma/client';
+
+/**
+ * User reference shown alongside memo activity
+ */
+export interface MemoUser {
+  id: string;
+  username: string;
+}
+
+/**
+ * Serialized memo for API responses
+ */
+export interface SerializedMemo {
+  id: string;
+  accountId: string;
+  content: string;
+  isPinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: MemoUser;
+  // Set once the memo has been edited after creation
+  updatedBy: MemoUser | null;
+  deletedAt: string | null;
+  deletedBy: MemoUser | null;
+  revisionCount: number;
+}
+
+/**
+ * A previous version of a memo's content
+ */
+export interface SerializedMemoRevision {
+  id: string;
+  memoId: string;
+  content: string;
+  editedAt: string;
+  editedBy: MemoUser;
+}
+
+/**
+ * Kinds of activity shown on the account timeline
+ */
+export type TimelineEventType = 'MEMO' | 'PAYMENT' | 'NOTICE' | 'STATUS_CHANGE';
+
+/**
+ * A single entry in the combined account timeline
+ */
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  occurredAt: string;
+  title: string;
+  description: string | null;
+  userName: string | null;
+  // Populated for STATUS_CHANGE events
+  fromStatus?: AccountStatus;
+  toStatus?: AccountStatus;
+}
@@ -215,6 +215,20 @@ export interface NoticeGenerationResult {
   success: boolean;
   noticeHistoryId?: string;
   error?: string;
+  // Set for EMAIL/BOTH deliveries: SENT or FAILED after the send attempt
+  emailStatus?: NoticeStatus;
+  emailError?: string;
+}
+
+/**
+ * Outcome of emailing a notice, after any retries
+ */
+export interface NoticeEmailResult {
+  noticeHistoryId: string;
+  success: boolean;
+  attempts: number;
+  messageId?: string;
+  error?: string;
 }
 
 /**
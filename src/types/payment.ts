@@ -1,4 +1,12 @@
-import type { PaymentMethod } from '@prisma/client';
+import type {
+  AccountStatus,
+  InvoiceStatus,
+  MailboxStatus,
+  PaymentMethod,
+  PaymentType,
+  RenewalPeriod,
+} from '@prisma/client';
+import type { SerializedInvoice } from './invoice';
 
 /**
  * Serialized payment for API responses
@@ -10,10 +18,18 @@ export interface SerializedPayment {
   amount: number;
   paymentDate: string;
   paymentMethod: PaymentMethod;
+  paymentType: PaymentType;
   periodStart: string;
   periodEnd: string;
   notes: string | null;
   recordedBy: string;
+  reversesPaymentId: string | null;
+  reason: string | null;
+  checkNumber: string | null;
+  checkBank: string | null;
+  checkDate: string | null;
+  checkReturnedAt: string | null;
+  gatewayTransactionId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,6 +60,8 @@ export interface PaymentAccountInfo {
 export interface PaymentWithDetails extends SerializedPayment {
   recordedByUser: PaymentRecordedByUser;
   account?: PaymentAccountInfo | undefined;
+  // Total voided/refunded against this payment (positive amount)
+  reversedAmount: number;
 }
 
 /**
@@ -62,6 +80,11 @@ export interface CreatePaymentInput {
   isRenewal?: boolean | undefined;
   renewalPeriod?: 'THREE_MONTH' | 'SIX_MONTH' | 'TWELVE_MONTH' | undefined;
   newRate?: number | undefined;
+  checkNumber?: string | undefined;
+  checkBank?: string | undefined;
+  checkDate?: string | undefined;
+  // Set when a stored card was charged through the payment gateway
+  gatewayTransactionId?: string | undefined;
 }
 
 /**
@@ -74,6 +97,71 @@ export interface CreatePaymentResult {
   renewalProcessed: boolean;
 }
 
+/**
+ * Account term data captured before a payment applied a renewal
+ */
+export interface RenewalSnapshot {
+  renewalPeriod: RenewalPeriod;
+  currentRate: number;
+  startDate: string;
+  nextRenewalDate: string;
+  accountStatus: AccountStatus;
+  mailboxStatus: MailboxStatus;
+}
+
+/**
+ * Input for voiding or refunding a payment
+ */
+export interface ReversePaymentInput {
+  type: 'VOID' | 'REFUND';
+  // Refund amount; a void always reverses whatever is left of the payment
+  amount?: number | undefined;
+  // How a refund was paid out; defaults to the original payment method
+  paymentMethod?: PaymentMethod | undefined;
+  reason: string;
+}
+
+/**
+ * Result of voiding or refunding a payment
+ */
+export interface ReversePaymentResult {
+  reversal: PaymentWithDetails;
+  invoiceStatus: InvoiceStatus | null;
+  renewalRolledBack: boolean;
+}
+
+/**
+ * Input for marking a check payment as returned by the bank
+ */
+export interface ReturnedCheckInput {
+  reason: string;
+  placeOnHold: boolean;
+}
+
+/**
+ * Result of marking a check as returned
+ */
+export interface ReturnedCheckResult extends ReversePaymentResult {
+  feeInvoice: SerializedInvoice | null;
+  placedOnHold: boolean;
+}
+
+/**
+ * Payment totals for a date range, with voids and refunds broken out
+ */
+export interface PaymentSummary {
+  startDate: string | null;
+  endDate: string | null;
+  paymentCount: number;
+  grossPayments: number;
+  voidCount: number;
+  voidedAmount: number;
+  refundCount: number;
+  refundedAmount: number;
+  netAmount: number;
+  byMethod: Record<PaymentMethod, number>;
+}
+
 /**
  * Paginated payment list response
  */
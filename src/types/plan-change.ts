@@ -0,0 +1,58 @@
+import type { InvoiceLineType, RenewalPeriod } from '@prisma/client';
+import type { SerializedInvoice } from './invoice';
+
+/**
+ * One side of a plan change comparison
+ */
+export interface PlanSummary {
+  renewalPeriod: RenewalPeriod;
+  monthlyRate: number;
+  termTotal: number;
+  periodStart: string;
+  nextRenewalDate: string;
+}
+
+/**
+ * A line on the new term's invoice
+ */
+export interface PlanChangeLine {
+  lineType: InvoiceLineType;
+  description: string;
+  unitPrice: number;
+  quantity: number;
+  months: number;
+  amount: number;
+}
+
+/**
+ * Before/after comparison for switching an account to a different renewal period
+ */
+export interface PlanChangePreview {
+  accountId: string;
+  changeDate: string;
+  current: PlanSummary & { daysRemaining: number; termDays: number };
+  proposed: PlanSummary;
+  lineItems: PlanChangeLine[];
+  unusedCredit: number; // value of the current term's remaining days
+  creditBalance: number; // credit already on the account
+  amountDue: number;
+  blocker: string | null; // why the change can't be made, if it can't
+}
+
+/**
+ * What the current account state allows for a plan change
+ */
+export interface PlanChangeCheckInput {
+  status: string;
+  renewalPeriod: RenewalPeriod;
+  hasUnpaidInvoice: boolean;
+  daysRemaining: number;
+}
+
+/**
+ * Result of changing an account's plan
+ */
+export interface PlanChangeResult {
+  preview: PlanChangePreview;
+  invoice: SerializedInvoice;
+}
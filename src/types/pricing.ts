@@ -1,5 +1,5 @@
 import type { Decimal } from '@prisma/client/runtime/library';
-import type { RenewalPeriod } from '@prisma/client';
+import type { AccountStatus, RenewalPeriod } from '@prisma/client';
 
 /**
  * Price configuration from RateHistory model
@@ -18,6 +18,9 @@ export interface PriceConfig {
   businessAccountFee: Decimal;
   minorRecipientFee: Decimal;
   keyDeposit: Decimal;
+  lateFee: Decimal;
+  reinstatementFee: Decimal;
+  returnedCheckFee: Decimal;
   createdById: string | null;
   notes: string | null;
   createdAt: Date;
@@ -53,6 +56,23 @@ export interface PriceBreakdown {
   periodMonths: number;
 }
 
+/**
+ * One-time fee added to a renewal that is paid late or reinstates a HOLD account
+ */
+export interface OverdueFee {
+  lineType: 'LATE_FEE' | 'REINSTATEMENT_FEE';
+  description: string;
+  amount: number;
+}
+
+/**
+ * Account fields that decide which overdue fees a renewal carries
+ */
+export interface OverdueFeeInput {
+  status: AccountStatus;
+  nextRenewalDate: Date;
+}
+
 /**
  * Input for creating a new price configuration
  */
@@ -66,6 +86,9 @@ export interface CreatePriceConfigInput {
   businessAccountFee: number;
   minorRecipientFee: number;
   keyDeposit: number;
+  lateFee: number;
+  reinstatementFee: number;
+  returnedCheckFee: number;
   notes?: string;
 }
 
@@ -86,6 +109,9 @@ export interface SerializedPriceConfig {
   businessAccountFee: number;
   minorRecipientFee: number;
   keyDeposit: number;
+  lateFee: number;
+  reinstatementFee: number;
+  returnedCheckFee: number;
   createdById: string | null;
   notes: string | null;
   createdAt: string;
@@ -140,3 +166,65 @@ export interface RecipientForRenewal {
   name: string;
   birthdate: Date | null;
 }
+
+/**
+ * An account ready to be priced at its next renewal
+ */
+export interface RateSimulationAccountInput {
+  accountId: string;
+  mailboxNumber: number;
+  accountName: string;
+  accountStatus: AccountStatus;
+  renewalPeriod: RenewalPeriod;
+  /** Date the renewal is priced on: the renewal date, or today if it has passed */
+  renewalDate: Date;
+  recipients: RecipientForRenewal[];
+}
+
+/**
+ * An account's next renewal priced at the rates in effect and at proposed rates
+ */
+export interface RateSimulationAccount {
+  accountId: string;
+  mailboxNumber: number;
+  accountName: string;
+  accountStatus: AccountStatus;
+  renewalPeriod: RenewalPeriod;
+  nextRenewalDate: string;
+  currentPrice: number;
+  proposedPrice: number;
+  delta: number;
+  /** Change as a percentage of the current price (null when the current price is 0) */
+  deltaPercent: number | null;
+  /** False when the account renews before the proposed rates start */
+  affected: boolean;
+}
+
+/**
+ * Accounts and revenue at next renewal for one renewal period
+ */
+export interface RateSimulationPeriodSummary {
+  renewalPeriod: RenewalPeriod;
+  accountCount: number;
+  affectedCount: number;
+  currentRevenue: number;
+  proposedRevenue: number;
+  delta: number;
+}
+
+/**
+ * What-if result for proposed rates across ACTIVE and HOLD accounts
+ */
+export interface RateSimulationResult {
+  startDate: string;
+  accountCount: number;
+  affectedCount: number;
+  increasedCount: number;
+  decreasedCount: number;
+  currentRevenue: number;
+  proposedRevenue: number;
+  totalDelta: number;
+  byRenewalPeriod: RateSimulationPeriodSummary[];
+  topIncreases: RateSimulationAccount[];
+  accounts: RateSimulationAccount[];
+}
@@ -0,0 +1,64 @@
+import type { InvoiceLineType, RecipientType } from '@prisma/client';
+import type { SerializedInvoice } from './invoice';
+
+/**
+ * A monthly fee that a recipient change adds to or removes from the account
+ */
+export interface FeeChange {
+  lineType: InvoiceLineType;
+  description: string;
+  monthlyRate: number;
+}
+
+/**
+ * A fee change priced for the days left in the term
+ */
+export interface ProrationLine extends FeeChange {
+  months: number; // fraction of the term's months still remaining
+  amount: number;
+}
+
+/**
+ * What a recipient change will charge or credit for the rest of the term
+ */
+export interface ProrationPreview {
+  changeDate: string;
+  periodStart: string;
+  periodEnd: string;
+  daysRemaining: number;
+  termDays: number;
+  charges: ProrationLine[];
+  credits: ProrationLine[];
+  chargeTotal: number;
+  creditTotal: number;
+  openInvoiceNumber: number | null; // open proration invoice the charges will be added to
+}
+
+/**
+ * A recipient as it counts toward fees
+ */
+export interface ProrationRecipient {
+  id?: string | undefined;
+  recipientType: RecipientType;
+  birthdate: Date | null;
+}
+
+/**
+ * A recipient change as sent to the account PATCH
+ */
+export interface RecipientChangeInput {
+  id?: string | undefined;
+  recipientType?: RecipientType | undefined;
+  birthdate?: string | null | undefined;
+  _delete?: boolean | undefined;
+  _isNew?: boolean | undefined;
+}
+
+/**
+ * What applying a recipient change billed
+ */
+export interface ProrationResult {
+  invoice: SerializedInvoice | null;
+  invoiceBefore: SerializedInvoice | null; // the open invoice as it was before charges or credit were added
+  creditIssued: number;
+}
@@ -0,0 +1,71 @@
+/**
+ * Receipt printer types
+ */
+
+import type { DrawerDay } from './drawer';
+
+export type ReceiptAlign = 'left' | 'center' | 'right';
+
+/**
+ * One logical line of a counter receipt, independent of the output format
+ */
+export type ReceiptLine =
+  | { kind: 'text'; text: string; align?: ReceiptAlign; bold?: boolean; large?: boolean }
+  // Label on the left, value flush right
+  | { kind: 'row'; left: string; right: string; bold?: boolean }
+  | { kind: 'divider' }
+  | { kind: 'feed' };
+
+/**
+ * Store header and footer details printed on receipts
+ */
+export interface ReceiptStore {
+  name: string;
+  addressLines: string[];
+  phone: string;
+  hours: string;
+}
+
+/**
+ * Everything printed on a payment receipt
+ */
+export interface PaymentReceiptData {
+  store: ReceiptStore;
+  receiptNumber: string;
+  paymentDate: string;
+  paymentMethod: string;
+  paymentType: string;
+  checkNumber: string | null;
+  // Reversals print as positive amounts; the type says which way money moved
+  amount: number;
+  recordedBy: string;
+  mailboxNumber: number;
+  recipientName: string | null;
+  nextRenewalDate: string;
+  invoice: {
+    invoiceNumber: number;
+    totalAmount: number;
+    paidAmount: number;
+    balanceDue: number;
+    lineItems: { description: string; unitPrice: number; months: number; totalAmount: number }[];
+  } | null;
+  notes: string | null;
+  reason: string | null;
+}
+
+/**
+ * Everything printed on an end-of-day Z-report
+ */
+export interface ZReportData {
+  store: ReceiptStore;
+  day: DrawerDay;
+  printedAt: string;
+}
+
+/**
+ * A rendered thermal receipt in both output formats
+ */
+export interface ThermalReceipt {
+  escpos: Buffer;
+  text: string;
+}
@@ -0,0 +1,60 @@
+import type { AccountStatus, ReminderType } from '@prisma/client';
+import type { WORK_QUEUE_CATEGORIES } from '@/constants/status';
+
+/**
+ * Where a reminder sits in the dashboard work queue
+ */
+export type WorkQueueCategory = keyof typeof WORK_QUEUE_CATEGORIES;
+
+export type ReminderPriority = (typeof WORK_QUEUE_CATEGORIES)[WorkQueueCategory]['priority'];
+
+/**
+ * A reminder the generator has decided should exist
+ */
+export interface PlannedReminder {
+  type: ReminderType;
+  accountId: string;
+  recipientId: string | null;
+  triggerDate: Date;
+  message: string;
+}
+
+/**
+ * A single open reminder in the dashboard work queue
+ */
+export interface WorkQueueItem {
+  id: string;
+  type: ReminderType;
+  category: WorkQueueCategory;
+  priority: ReminderPriority;
+  triggerDate: string;
+  message: string;
+  account: {
+    id: string;
+    status: AccountStatus;
+    mailboxNumber: number;
+  } | null;
+  recipient: {
+    id: string;
+    name: string;
+  } | null;
+  createdAt: string;
+}
+
+/**
+ * Prioritized open reminders with totals per priority
+ */
+export interface WorkQueue {
+  items: WorkQueueItem[];
+  totalItems: number;
+  counts: Record<ReminderPriority, number>;
+}
+
+/**
+ * Result of a reminder generation run
+ */
+export interface ReminderGenerationResult {
+  asOfDate: string;
+  created: number;
+  resolved: number;
+}
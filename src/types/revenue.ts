@@ -0,0 +1,60 @@
+import type { InvoiceType } from '@prisma/client';
+
+/**
+ * An invoice as it is spread over its service period
+ */
+export interface RevenueInvoiceInput {
+  id: string;
+  invoiceNumber: number;
+  invoiceType: InvoiceType;
+  invoiceDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  mailboxNumber: number;
+  // Invoice total less refundable key deposits, which are never revenue
+  amount: number;
+  // Part of amount from one-time fees, earned when billed rather than over the period
+  oneTimeAmount: number;
+  // Share of the invoice written off as uncollectible (0-1), taken back when written off
+  writtenOffShare: number;
+  writtenOffAt: Date | null;
+}
+
+/**
+ * Billed, earned and deferred revenue for one month
+ */
+export interface RevenueScheduleMonth {
+  month: string; // YYYY-MM
+  billed: number;
+  earned: number;
+  deferredBalance: number; // billed but not yet earned at month end
+}
+
+/**
+ * How much of one invoice is earned in each month of the report
+ */
+export interface RevenueInvoiceSchedule {
+  invoiceId: string;
+  invoiceNumber: number;
+  invoiceType: InvoiceType;
+  mailboxNumber: number;
+  invoiceDate: string;
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+  earnedByMonth: number[]; // aligned with RevenueRecognitionReport.months
+  deferredAtEnd: number;
+}
+
+/**
+ * Revenue recognition for a range of months
+ */
+export interface RevenueRecognitionReport {
+  from: string;
+  to: string;
+  openingDeferred: number;
+  months: RevenueScheduleMonth[];
+  totalBilled: number;
+  totalEarned: number;
+  closingDeferred: number;
+}
@@ -0,0 +1,163 @@
+import type { SmsConsentSource, SmsStatus } from '@prisma/client';
+
+/**
+ * The SMS events in docs/07-notifications.md
+ */
+export type SmsMessageType =
+  | 'RENEWAL_REMINDER'
+  | 'PAYMENT_OVERDUE'
+  | 'HOLD_WARNING'
+  | 'ID_EXPIRING'
+  | 'TURNING_18'
+  | 'BUSINESS_EXPIRING'
+  | 'AUTO_RENEWAL_SUCCESS'
+  | 'AUTO_RENEWAL_DECLINED';
+
+/**
+ * Values substituted into SMS templates
+ */
+export interface SmsTemplateVariables {
+  box: number;
+  date?: string;
+  branchPhone?: string;
+  businessName?: string;
+  amount?: string;
+  cardLast4?: string;
+}
+
+/**
+ * What a provider reports after accepting a message
+ */
+export interface SmsSendResult {
+  providerMessageId: string;
+  status: Extract<SmsStatus, 'SENT' | 'DELIVERED'>;
+}
+
+/**
+ * An incoming webhook request to check against the provider's signature
+ */
+export interface SmsWebhookRequest {
+  signature: string | null;
+  url: string;
+  params: Record<string, string>;
+}
+
+/**
+ * A gateway that can deliver text messages
+ */
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+  verifyWebhook(request: SmsWebhookRequest): boolean;
+}
+
+/**
+ * Keywords customers can text back
+ */
+export type SmsKeyword = 'STOP' | 'START' | 'HELP';
+
+/**
+ * Delivery status update reported by the provider
+ */
+export interface SmsStatusCallback {
+  messageSid: string;
+  status: string;
+  errorCode: string | null;
+}
+
+/**
+ * Message a customer texted to the store number
+ */
+export interface InboundSms {
+  from: string;
+  body: string;
+  messageSid: string | null;
+}
+
+/**
+ * Input for recording an SMS opt-in or opt-out
+ */
+export interface RecordSmsConsentInput {
+  accountId: string;
+  smsEnabled: boolean;
+  source: SmsConsentSource;
+  keyword?: string | null;
+  phone?: string | null;
+  messageSid?: string | null;
+  changedById?: string | null;
+}
+
+/**
+ * Input for sending a single SMS
+ */
+export interface SendSmsInput {
+  accountId: string;
+  messageType: SmsMessageType;
+  to: string;
+  body: string;
+  referenceDate: Date | null;
+}
+
+/**
+ * A previously sent message, as needed to apply send limits
+ */
+export interface SmsHistoryEntry {
+  messageType: string;
+  referenceDate: Date | null;
+  status: SmsStatus;
+  createdAt: Date;
+}
+
+/**
+ * Result of a scheduled SMS dispatch
+ */
+export interface SmsDispatchResult {
+  asOfDate: string;
+  accountsEvaluated: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Serialized SMS log for API responses
+ */
+export interface SerializedSmsLog {
+  id: string;
+  accountId: string;
+  messageType: string;
+  recipientPhone: string;
+  messageBody: string;
+  twilioSid: string | null;
+  status: SmsStatus;
+  errorMessage: string | null;
+  referenceDate: string | null;
+  sentAt: string | null;
+  statusUpdated: string | null;
+  createdAt: string;
+}
+
+/**
+ * Serialized opt-in/opt-out record for API responses
+ */
+export interface SerializedSmsConsentChange {
+  id: string;
+  accountId: string;
+  smsEnabled: boolean;
+  source: SmsConsentSource;
+  keyword: string | null;
+  phone: string | null;
+  changedBy: {
+    id: string;
+    username: string;
+  } | null;
+  createdAt: string;
+}
+
+/**
+ * SMS messages and consent history for an account
+ */
+export interface AccountSmsHistory {
+  messages: SerializedSmsLog[];
+  consentChanges: SerializedSmsConsentChange[];
+}
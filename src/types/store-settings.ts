@@ -15,6 +15,12 @@ export interface StoreSettings {
   phone: string;
   email: string;
   hours: string;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  smtpSecure: boolean;
+  smtpUser: string | null;
+  smtpPassword: string | null;
+  reopenWindowDays: number;
   updatedById: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -33,6 +39,13 @@ export interface SerializedStoreSettings {
   phone: string;
   email: string;
   hours: string;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  smtpSecure: boolean;
+  smtpUser: string | null;
+  // The password itself is never sent to the browser
+  smtpPasswordSet: boolean;
+  reopenWindowDays: number;
   updatedById: string | null;
   createdAt: string;
   updatedAt: string;
@@ -54,4 +67,11 @@ export interface UpdateStoreSettingsInput {
   phone: string;
   email: string;
   hours: string;
+  smtpHost?: string | null;
+  smtpPort?: number | null;
+  smtpSecure?: boolean;
+  smtpUser?: string | null;
+  // Omitted to keep the stored password
+  smtpPassword?: string | undefined;
+  reopenWindowDays?: number | undefined;
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderReceiptEscPos,
+  renderReceiptText,
+  toPrinterText,
+  wrapText,
+} from '@/lib/receipt/escpos';
+import type { ReceiptLine } from '@/types/receipt';
+
+const lines: ReceiptLine[] = [
+  { kind: 'text', text: 'PostNet', align: 'center', bold: true, large: true },
+  { kind: 'divider' },
+  { kind: 'row', left: 'Mailbox', right: '#123', bold: true },
+];
+
+describe('ESC/POS receipt rendering', () => {
+  describe('toPrinterText', () => {
+    it('strips accents and replaces other non-ASCII characters', () => {
+      expect(toPrinterText('Señora Cruz — Dededo')).toBe('Senora Cruz ? Dededo');
+    });
+  });
+
+  describe('wrapText', () => {
+    it('wraps on word boundaries', () => {
+      expect(wrapText('Base Rate (12 Month) renewal', 12)).toEqual(['Base Rate', '(12 Month)', 'renewal']);
+    });
+
+    it('hard-breaks words longer than a line', () => {
+      expect(wrapText('ABCDEFGHIJ', 4)).toEqual(['ABCD', 'EFGH', 'IJ']);
+    });
+  });
+
+  describe('renderReceiptText', () => {
+    it('lays out rows and dividers at the paper width', () => {
+      const text = renderReceiptText(lines, { columns: 20 });
+      expect(text.split('\n')).toEqual([
+        '      PostNet',
+        '-'.repeat(20),
+        'Mailbox         #123',
+        '',
+      ]);
+    });
+
+    it('puts the value on its own line when the label fills the row', () => {
+      const text = renderReceiptText(
+        [{ kind: 'row', left: 'Additional Recipient Fee', right: '$15.00' }],
+        { columns: 20 }
+      );
+      expect(text).toBe('Additional Recipient\nFee           $15.00\n');
+    });
+  });
+
+  describe('renderReceiptEscPos', () => {
+    it('initializes the printer and ends with a cut', () => {
+      const bytes = renderReceiptEscPos(lines, { columns: 20 });
+      expect(Array.from(bytes.subarray(0, 2))).toEqual([0x1b, 0x40]);
+      expect(Array.from(bytes.subarray(-4))).toEqual([0x1d, 0x56, 66, 0]);
+      expect(bytes.includes(Buffer.from('Mailbox         #123\n', 'ascii'))).toBe(true);
+    });
+
+    it('only kicks the cash drawer when asked', () => {
+      const drawerKick = Buffer.from([0x1b, 0x70, 0, 25, 250]);
+      expect(renderReceiptEscPos(lines).includes(drawerKick)).toBe(false);
+      expect(renderReceiptEscPos(lines, { openCashDrawer: true }).includes(drawerKick)).toBe(true);
+    });
+  });
+});
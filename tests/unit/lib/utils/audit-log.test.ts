@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatFieldName,
+  formatAuditValue,
+  describeFieldChange,
+  describeAuditEntry,
+} from '@/lib/utils/audit-log';
+import type { SerializedAuditLogEntry } from '@/types/audit-log';
+
+describe('Audit Log Utilities', () => {
+  describe('formatFieldName', () => {
+    it('splits camelCase field names', () => {
+      expect(formatFieldName('nextRenewalDate')).toBe('Next renewal date');
+    });
+
+    it('uses overrides for abbreviations', () => {
+      expect(formatFieldName('idExpirationDate')).toBe('ID expiration date');
+    });
+  });
+
+  describe('formatAuditValue', () => {
+    it('shows date-only values as calendar dates', () => {
+      expect(formatAuditValue('idExpirationDate', '2027-01-31T00:00:00.000Z')).toBe('Jan 31, 2027');
+    });
+
+    it('shows money fields as currency', () => {
+      expect(formatAuditValue('currentRate', 17)).toBe('$17.00');
+    });
+
+    it('shows enum values as words', () => {
+      expect(formatAuditValue('renewalPeriod', 'TWELVE_MONTH')).toBe('Twelve Month');
+    });
+
+    it('shows empty values', () => {
+      expect(formatAuditValue('personAlias', null)).toBe('empty');
+    });
+  });
+
+  describe('describeFieldChange', () => {
+    it('describes a changed value', () => {
+      expect(
+        describeFieldChange('idExpirationDate', {
+          before: '2025-01-31T00:00:00.000Z',
+          after: '2027-01-31T00:00:00.000Z',
+        })
+      ).toBe('ID expiration date changed from Jan 31, 2025 to Jan 31, 2027');
+    });
+
+    it('describes a value being set and cleared', () => {
+      expect(describeFieldChange('personAlias', { before: null, after: 'Bobby' })).toBe(
+        'Person alias set to Bobby'
+      );
+      expect(describeFieldChange('personAlias', { before: 'Bobby', after: null })).toBe(
+        'Person alias cleared (was Bobby)'
+      );
+    });
+
+    it('does not reveal redacted values', () => {
+      expect(
+        describeFieldChange('passwordHash', { before: '[REDACTED]', after: '[REDACTED]' })
+      ).toBe('Password changed');
+    });
+  });
+
+  describe('describeAuditEntry', () => {
+    it('includes the entity label when known', () => {
+      const entry = {
+        action: 'UPDATE',
+        entityType: 'Recipient',
+        entityLabel: 'Ana Cruz',
+      } as SerializedAuditLogEntry;
+
+      expect(describeAuditEntry(entry)).toBe('Updated recipient Ana Cruz');
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsv } from '@/lib/utils/csv';
+
+describe('CSV Utilities', () => {
+  describe('escapeCsv', () => {
+    it('leaves plain cells as they are', () => {
+      expect(escapeCsv('Mailbox 120')).toBe('Mailbox 120');
+    });
+
+    it('quotes cells with commas, quotes or line breaks', () => {
+      expect(escapeCsv('Smith, John')).toBe('"Smith, John"');
+      expect(escapeCsv('Say "hi"')).toBe('"Say ""hi"""');
+      expect(escapeCsv('Line one\nLine two')).toBe('"Line one\nLine two"');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { formatDateString, getBusinessDate } from '@/lib/utils/date';
+
+describe('Date Utilities', () => {
+  describe('getBusinessDate', () => {
+    it('uses the store calendar once the UTC date lags behind it', () => {
+      // 9am in Guam (UTC+10) is still the previous evening in UTC
+      expect(getBusinessDate(new Date('2025-06-01T23:00:00Z'))).toBe('2025-06-02');
+    });
+
+    it('matches the UTC date while both are on the same day', () => {
+      expect(getBusinessDate(new Date('2025-06-02T05:00:00Z'))).toBe('2025-06-02');
+    });
+  });
+
+  describe('formatDateString', () => {
+    it('formats the UTC calendar date a stored date was saved as', () => {
+      expect(formatDateString(new Date('2025-06-01T23:00:00Z'))).toBe('2025-06-01');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  account: { findUnique: vi.fn(), update: vi.fn() },
+  invoice: { findMany: vi.fn(), update: vi.fn() },
+  mailbox: { update: vi.fn() },
+  accountStatusChange: { create: vi.fn() },
+  recipient: { findMany: vi.fn(), updateMany: vi.fn() },
+  $transaction: vi.fn(),
+}));
+const notices = vi.hoisted(() => ({ generateNoticeByCode: vi.fn() }));
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: db }));
+vi.mock('@/lib/services/notice.service', () => notices);
+
+import { AccountClosureService } from '@/lib/services/account-closure.service';
+import type { ReopenCheckInput } from '@/types/account-closure';
+
+describe('AccountClosureService', () => {
+  describe('getReopenBlocker', () => {
+    const closedAt = new Date('2026-03-01T10:00:00Z');
+    const closed: ReopenCheckInput = {
+      status: 'CLOSED',
+      closedAt,
+      mailboxStatus: 'AVAILABLE',
+      mailboxReassigned: false,
+    };
+
+    it('allows reopening within the window while the mailbox is free', () => {
+      expect(
+        AccountClosureService.getReopenBlocker(closed, 30, new Date('2026-03-31T09:00:00Z'))
+      ).toBeNull();
+    });
+
+    it('blocks reopening once the window has passed', () => {
+      expect(
+        AccountClosureService.getReopenBlocker(closed, 30, new Date('2026-03-31T11:00:00Z'))
+      ).toBe('The reopen window for this account has passed');
+    });
+
+    it('blocks reopening when the mailbox has been given to someone else', () => {
+      const now = new Date('2026-03-05T10:00:00Z');
+      expect(
+        AccountClosureService.getReopenBlocker({ ...closed, mailboxReassigned: true }, 30, now)
+      ).toBe('The mailbox has been reassigned');
+      expect(
+        AccountClosureService.getReopenBlocker({ ...closed, mailboxStatus: 'RESERVED' }, 30, now)
+      ).toBe('The mailbox has been reassigned');
+    });
+
+    it('only reopens closed accounts', () => {
+      expect(
+        AccountClosureService.getReopenBlocker({ ...closed, status: 'ACTIVE', closedAt: null }, 30)
+      ).toBe('Only closed accounts can be reopened');
+    });
+  });
+
+  describe('closeAccount', () => {
+    const input = { reason: 'Moved Away', writeOffUnpaid: false, noticeDeliveryMethod: 'PRINT' as const };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+      db.account.findUnique.mockResolvedValue({
+        id: 'acc-1',
+        status: 'ACTIVE',
+        mailbox: { id: 'mb-1', status: 'ACTIVE' },
+      });
+      db.invoice.findMany.mockResolvedValue([]);
+      db.recipient.findMany.mockResolvedValue([{ id: 'rcp-primary' }, { id: 'rcp-2' }]);
+    });
+
+    it('removes recipients with the closure and addresses the notice to the primary', async () => {
+      notices.generateNoticeByCode.mockResolvedValue({ accountId: 'acc-1', mailboxNumber: 120, success: true });
+
+      const result = await AccountClosureService.closeAccount('acc-1', input, 'user-1');
+
+      expect(db.recipient.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['rcp-primary', 'rcp-2'] } },
+        data: { removedDate: expect.any(Date), removalReason: 'Account closed' },
+      });
+      expect(notices.generateNoticeByCode).toHaveBeenCalledWith(
+        'CLOSURE_NOTICE',
+        'acc-1',
+        'PRINT',
+        'user-1',
+        'rcp-primary'
+      );
+      expect(result.removedRecipientIds).toEqual(['rcp-primary', 'rcp-2']);
+    });
+
+    it('keeps the account closed when the notice fails', async () => {
+      notices.generateNoticeByCode.mockRejectedValue(new Error('Template missing'));
+
+      const result = await AccountClosureService.closeAccount('acc-1', input, 'user-1');
+
+      expect(result.recipientsRemoved).toBe(2);
+      expect(result.notice).toMatchObject({ success: false, error: 'Template missing' });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingExportService } from '@/lib/services/accounting-export.service';
+import type { JournalEntry } from '@/types/accounting';
+
+function isBalanced(entry: JournalEntry): boolean {
+  const debits = entry.lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = entry.lines.reduce((sum, line) => sum + line.credit, 0);
+  return Math.abs(debits - credits) < 0.005;
+}
+
+describe('AccountingExportService', () => {
+  describe('buildInvoiceEntry', () => {
+    const invoice = {
+      id: 'inv-1',
+      invoiceNumber: 1001,
+      invoiceDate: new Date('2025-06-01'),
+      mailboxNumber: 120,
+      lineItems: [
+        { lineType: 'BASE_RATE' as const, description: 'Base Rate (3 Months)', totalAmount: 90 },
+        { lineType: 'BUSINESS_FEE' as const, description: 'Business Fee', totalAmount: 15 },
+        { lineType: 'DISCOUNT' as const, description: 'Discount (SPRING10)', totalAmount: -10 },
+      ],
+    };
+
+    it('debits receivables and credits revenue by line type', () => {
+      const entry = AccountingExportService.buildInvoiceEntry(invoice);
+
+      expect(entry?.lines).toEqual([
+        { account: 'Accounts Receivable', debit: 95, credit: 0, customer: 'Mailbox 120', memo: 'Invoice #1001' },
+        { account: 'Mailbox Rental Income', debit: 0, credit: 90, customer: 'Mailbox 120', memo: 'Base Rate (3 Months)' },
+        { account: 'Mailbox Rental Income:Business Fees', debit: 0, credit: 15, customer: 'Mailbox 120', memo: 'Business Fee' },
+        { account: 'Discounts Given', debit: 10, credit: 0, customer: 'Mailbox 120', memo: 'Discount (SPRING10)' },
+      ]);
+      expect(entry && isBalanced(entry)).toBe(true);
+    });
+
+    it('skips an invoice with nothing on it', () => {
+      expect(AccountingExportService.buildInvoiceEntry({ ...invoice, lineItems: [] })).toBeNull();
+    });
+  });
+
+  describe('buildPaymentEntry', () => {
+    const payment = {
+      id: 'pay-1',
+      amount: 95,
+      paymentDate: new Date('2025-06-02'),
+      paymentMethod: 'CASH' as const,
+      paymentType: 'PAYMENT' as const,
+      mailboxNumber: 120,
+      invoiceNumber: 1001,
+    };
+
+    it('moves a payment from receivables to undeposited funds', () => {
+      const entry = AccountingExportService.buildPaymentEntry(payment);
+
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Undeposited Funds', 95, 0],
+        ['Accounts Receivable', 0, 95],
+      ]);
+      expect(entry?.docNumber).toBe('INV-1001');
+    });
+
+    it('reverses the posting for a refund', () => {
+      const entry = AccountingExportService.buildPaymentEntry({ ...payment, amount: -40, paymentType: 'REFUND' });
+
+      expect(entry?.memo).toBe('Refund (Cash)');
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Undeposited Funds', 0, 40],
+        ['Accounts Receivable', 40, 0],
+      ]);
+    });
+  });
+
+  describe('buildInvoiceChargeEntry', () => {
+    it('posts a prorated charge added after the invoice was exported', () => {
+      const entry = AccountingExportService.buildInvoiceChargeEntry({
+        id: 'line-9',
+        invoiceNumber: 1002,
+        lineType: 'ADDITIONAL_RECIPIENT_4TH',
+        description: '4th Recipient (Prorated, 45 days)',
+        totalAmount: 7.5,
+        createdAt: new Date('2025-06-05T15:00:00Z'),
+        mailboxNumber: 120,
+      });
+
+      expect(entry).toMatchObject({ sourceType: 'INVOICE_CHARGE', sourceId: 'line-9', docNumber: 'INV-1002' });
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Accounts Receivable', 7.5, 0],
+        ['Mailbox Rental Income:Additional Recipients', 0, 7.5],
+      ]);
+    });
+  });
+
+  describe('buildCreditEntry', () => {
+    const transaction = {
+      id: 'credit-1',
+      action: 'OVERPAYMENT' as const,
+      amount: 20,
+      createdAt: new Date('2025-06-02T10:00:00Z'),
+      mailboxNumber: 120,
+      invoiceNumber: 1001,
+    };
+
+    it('moves an overpayment out of receivables into customer credit', () => {
+      const entry = AccountingExportService.buildCreditEntry(transaction);
+
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Accounts Receivable', 20, 0],
+        ['Customer Credits', 0, 20],
+      ]);
+    });
+
+    it('moves applied credit back against the invoice it paid', () => {
+      const entry = AccountingExportService.buildCreditEntry({ ...transaction, action: 'APPLIED', amount: -20 });
+
+      expect(entry?.memo).toBe('Credit applied (Invoice #1001)');
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Accounts Receivable', 0, 20],
+        ['Customer Credits', 20, 0],
+      ]);
+    });
+
+    it('issues proration and plan change credit from the credits account', () => {
+      const entry = AccountingExportService.buildCreditEntry({
+        ...transaction,
+        action: 'PLAN_CHANGE',
+        amount: 45,
+        invoiceNumber: null,
+      });
+
+      expect(entry?.docNumber).toBe('');
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Credits Issued', 45, 0],
+        ['Customer Credits', 0, 45],
+      ]);
+    });
+  });
+
+  describe('buildKeyDepositEntry', () => {
+    const transaction = {
+      id: 'kd-1',
+      action: 'FORFEITED' as const,
+      amount: 5,
+      paymentMethod: null,
+      createdAt: new Date('2025-06-03T10:00:00Z'),
+      mailboxNumber: 120,
+    };
+
+    it('moves a forfeited deposit from the liability to income', () => {
+      const entry = AccountingExportService.buildKeyDepositEntry(transaction);
+
+      expect(entry?.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+        ['Key Deposits Held', 5, 0],
+        ['Forfeited Key Deposits', 0, 5],
+      ]);
+    });
+
+    it('leaves collection to the invoice that billed the deposit', () => {
+      expect(AccountingExportService.buildKeyDepositEntry({ ...transaction, action: 'COLLECTED' })).toBeNull();
+    });
+  });
+
+  describe('formatIif', () => {
+    it('writes one general journal transaction per entry', () => {
+      const entry = AccountingExportService.buildPaymentEntry({
+        id: 'pay-1',
+        amount: 95,
+        paymentDate: new Date('2025-06-02'),
+        paymentMethod: 'CARD',
+        paymentType: 'PAYMENT',
+        mailboxNumber: 120,
+        invoiceNumber: null,
+      });
+      const rows = AccountingExportService.formatIif(entry ? [entry] : []).trimEnd().split('\r\n');
+
+      expect(rows.slice(3)).toEqual([
+        'TRNS\t\tGENERAL JOURNAL\t06/02/2025\tUndeposited Funds\tMailbox 120\t95.00\t\tPayment (Card)',
+        'SPL\t\tGENERAL JOURNAL\t06/02/2025\tAccounts Receivable\tMailbox 120\t-95.00\t\tPayment (Card)',
+        'ENDTRNS',
+      ]);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('quotes cells containing commas', () => {
+      const entry = AccountingExportService.buildWriteOffEntry({
+        invoiceId: 'inv-1',
+        invoiceNumber: 1001,
+        amount: 30,
+        date: new Date('2025-06-04T00:00:00Z'),
+        mailboxNumber: 120,
+        reason: 'Closed, unpaid',
+      });
+      const rows = AccountingExportService.formatCsv(entry ? [entry] : []).trimEnd().split('\r\n');
+
+      expect(rows).toEqual([
+        'Date,Journal No.,Doc No.,Account,Debit,Credit,Name,Memo',
+        '2025-06-04,1,INV-1001,Bad Debt,30.00,,Mailbox 120,"Written off: Closed, unpaid"',
+        '2025-06-04,1,INV-1001,Accounts Receivable,,30.00,Mailbox 120,"Written off: Closed, unpaid"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { AgingService } from '@/lib/services/aging.service';
+import type { AgingInvoiceInput } from '@/types/aging';
+
+function invoice(overrides: Partial<AgingInvoiceInput>): AgingInvoiceInput {
+  return {
+    id: 'inv-1',
+    invoiceNumber: 1001,
+    invoiceDate: new Date('2025-06-01'),
+    status: 'PENDING',
+    accountId: 'acc-1',
+    mailboxNumber: 120,
+    accountName: 'Jane Doe',
+    accountStatus: 'ACTIVE',
+    balanceDue: 100,
+    ...overrides,
+  };
+}
+
+describe('AgingService', () => {
+  describe('getBucket', () => {
+    it.each([
+      [-5, 'CURRENT'],
+      [0, 'CURRENT'],
+      [1, 'DAYS_1_30'],
+      [30, 'DAYS_1_30'],
+      [31, 'DAYS_31_60'],
+      [60, 'DAYS_31_60'],
+      [61, 'DAYS_61_90'],
+      [90, 'DAYS_61_90'],
+      [91, 'OVER_90'],
+      [400, 'OVER_90'],
+    ])('puts %i days in %s', (days, bucket) => {
+      expect(AgingService.getBucket(days)).toBe(bucket);
+    });
+  });
+
+  describe('buildReport', () => {
+    const asOf = new Date(2025, 8, 1); // Sep 1, 2025 local
+
+    it('buckets balances by account and totals them', () => {
+      const report = AgingService.buildReport(
+        [
+          invoice({ id: 'a', invoiceDate: new Date('2025-09-01'), balanceDue: 50 }),
+          invoice({ id: 'b', invoiceDate: new Date('2025-08-15'), balanceDue: 25.5 }),
+          invoice({ id: 'c', invoiceDate: new Date('2025-05-01'), balanceDue: 80, accountId: 'acc-2', mailboxNumber: 7 }),
+        ],
+        asOf
+      );
+
+      expect(report.asOf).toBe('2025-09-01');
+      expect(report.buckets).toEqual({
+        CURRENT: 50,
+        DAYS_1_30: 25.5,
+        DAYS_31_60: 0,
+        DAYS_61_90: 0,
+        OVER_90: 80,
+      });
+      expect(report.total).toBe(155.5);
+      expect(report.invoiceCount).toBe(3);
+      // Oldest balance first
+      expect(report.accounts.map((a) => a.accountId)).toEqual(['acc-2', 'acc-1']);
+      expect(report.accounts[1]?.total).toBe(75.5);
+      expect(report.accounts[1]?.invoices.map((i) => i.daysOutstanding)).toEqual([17, 0]);
+    });
+
+    it('skips invoices with nothing left to collect', () => {
+      const report = AgingService.buildReport([invoice({ balanceDue: 0 })], asOf);
+
+      expect(report.accounts).toEqual([]);
+      expect(report.total).toBe(0);
+    });
+
+    it('never reports a negative age', () => {
+      const report = AgingService.buildReport([invoice({ invoiceDate: new Date('2025-09-02') })], asOf);
+
+      expect(report.accounts[0]?.invoices[0]?.daysOutstanding).toBe(0);
+    });
+  });
+
+  describe('getReport', () => {
+    it('refuses a past as-of date, since balances are only known as of today', async () => {
+      await expect(AgingService.getReport(new Date(2020, 0, 1))).rejects.toThrow(
+        'Aging can only be reported as of today or a later date'
+      );
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('writes one row per invoice with the balance in its bucket column', () => {
+      const report = AgingService.buildReport(
+        [invoice({ accountName: 'Smith, "Jr"', invoiceDate: new Date('2025-07-01') })],
+        new Date(2025, 8, 1)
+      );
+
+      const lines = AgingService.formatCsv(report).trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe(
+        'Mailbox,Account,Account Status,Invoice,Invoice Date,Days Outstanding,Current,1-30 Days,31-60 Days,61-90 Days,90+ Days,Total'
+      );
+      expect(lines[1]).toBe('120,"Smith, ""Jr""",ACTIVE,1001,2025-07-01,62,,,,100.00,,100.00');
+      expect(lines[2]).toBe('Total,,,,,,0.00,0.00,0.00,100.00,0.00,100.00');
+    });
+  });
+});
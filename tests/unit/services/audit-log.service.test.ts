@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { AuditLogService } from '@/lib/services/audit-log.service';
+
+describe('AuditLogService', () => {
+  describe('diff', () => {
+    it('records only the fields that changed', () => {
+      const changes = AuditLogService.diff(
+        { id: 'r1', firstName: 'Ana', idExpirationDate: new Date('2025-01-31'), updatedAt: new Date('2025-01-01') },
+        { id: 'r1', firstName: 'Ana', idExpirationDate: new Date('2027-01-31'), updatedAt: new Date('2025-02-01') }
+      );
+
+      expect(changes).toEqual({
+        idExpirationDate: {
+          before: '2025-01-31T00:00:00.000Z',
+          after: '2027-01-31T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('returns null when nothing changed', () => {
+      const changes = AuditLogService.diff(
+        { currentRate: new Prisma.Decimal('17.00') },
+        { currentRate: new Prisma.Decimal('17') }
+      );
+
+      expect(changes).toBeNull();
+    });
+
+    it('treats a missing before as a create', () => {
+      const changes = AuditLogService.diff(null, { id: 'a1', status: 'ACTIVE', notes: null });
+
+      expect(changes).toEqual({ status: { before: null, after: 'ACTIVE' } });
+    });
+
+    it('redacts password hashes', () => {
+      const changes = AuditLogService.diff({ passwordHash: 'old-hash' }, { passwordHash: 'new-hash' });
+
+      expect(changes).toEqual({ passwordHash: { before: '[REDACTED]', after: '[REDACTED]' } });
+    });
+
+    it('skips nested relations', () => {
+      const changes = AuditLogService.diff(
+        { status: 'ACTIVE', mailbox: { number: 101 } },
+        { status: 'ACTIVE', mailbox: { number: 102 } }
+      );
+
+      expect(changes).toBeNull();
+    });
+  });
+});
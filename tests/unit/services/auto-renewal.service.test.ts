@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AutoRenewalService } from '@/lib/services/auto-renewal.service';
+import {
+  createStubPaymentGateway,
+  getPaymentGateway,
+  isLivePaymentGatewayConfigured,
+  setPaymentGateway,
+} from '@/lib/gateway';
+
+describe('AutoRenewalService', () => {
+  describe('getSkipReason', () => {
+    const asOfDate = new Date('2025-06-01');
+    const account = {
+      status: 'ACTIVE' as const,
+      autoRenew: true,
+      nextRenewalDate: new Date('2025-06-03'),
+      cardOnFile: { id: 'card-1', gateway: 'stub' },
+      invoices: [],
+      autoRenewalAttempts: [],
+    };
+
+    it('charges an auto-renew account whose renewal is due', () => {
+      expect(AutoRenewalService.getSkipReason(account, asOfDate, 'stub')).toBeNull();
+    });
+
+    it('skips accounts without auto-renew or a card', () => {
+      expect(AutoRenewalService.getSkipReason({ ...account, autoRenew: false }, asOfDate, 'stub')).toBe(
+        'Auto-renew is off'
+      );
+      expect(AutoRenewalService.getSkipReason({ ...account, cardOnFile: null }, asOfDate, 'stub')).toBe(
+        'No card on file'
+      );
+    });
+
+    it('waits until the renewal is within the charge window', () => {
+      expect(
+        AutoRenewalService.getSkipReason({ ...account, nextRenewalDate: new Date('2025-06-10') }, asOfDate, 'stub')
+      ).toBe('Renewal is not due yet');
+    });
+
+    it('skips cards stored with another gateway', () => {
+      expect(AutoRenewalService.getSkipReason(account, asOfDate, 'stripe')).toBe(
+        'Card is on file with a different gateway'
+      );
+    });
+
+    it('tries each card once per renewal date', () => {
+      const declined = {
+        renewalDate: new Date('2025-06-03'),
+        cardOnFileId: 'card-1',
+        invoiceId: 'inv-1',
+      };
+      const withAttempt = { ...account, invoices: [{ id: 'inv-1' }], autoRenewalAttempts: [declined] };
+
+      expect(AutoRenewalService.getSkipReason(withAttempt, asOfDate, 'stub')).toBe(
+        'Already attempted with this card'
+      );
+      // A replacement card retries against the same invoice
+      expect(
+        AutoRenewalService.getSkipReason(
+          { ...withAttempt, cardOnFile: { id: 'card-2', gateway: 'stub' } },
+          asOfDate,
+          'stub'
+        )
+      ).toBeNull();
+    });
+
+    it('leaves renewals opened at the counter to staff', () => {
+      expect(AutoRenewalService.getSkipReason({ ...account, invoices: [{ id: 'inv-9' }] }, asOfDate, 'stub')).toBe(
+        'A renewal invoice is already open'
+      );
+    });
+  });
+
+  describe('stub gateway', () => {
+    const gateway = createStubPaymentGateway();
+    const customer = { accountId: 'acc-1', description: 'Mailbox #120' };
+
+    it('stores only a token and the card display details', async () => {
+      const card = await gateway.storeCard('tok_visa_4242', customer);
+      expect(card).toMatchObject({ token: 'stub_card_visa_4242', brand: 'visa', last4: '4242' });
+    });
+
+    it('rejects anything that is not a card token', async () => {
+      await expect(gateway.storeCard('4242424242424242', customer)).rejects.toThrow('Invalid card token');
+    });
+
+    it('approves charges with a transaction id derived from the idempotency key', async () => {
+      const input = { token: 'stub_card_visa_4242', amount: 90, description: 'Renewal', idempotencyKey: 'key-1' };
+      const first = await gateway.charge(input);
+      const second = await gateway.charge(input);
+      expect(first).toEqual({ approved: true, transactionId: 'stub_txn_key-1' });
+      expect(second).toEqual(first);
+    });
+
+    it('declines the decline test cards', async () => {
+      const result = await gateway.charge({
+        token: 'stub_card_visa_9995',
+        amount: 90,
+        description: 'Renewal',
+        idempotencyKey: 'key-2',
+      });
+      expect(result).toEqual({ approved: false, declineCode: 'insufficient_funds', declineReason: 'Insufficient funds' });
+    });
+  });
+
+  describe('getPaymentGateway', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      setPaymentGateway(null);
+    });
+
+    it('refuses to fall back to the stub when nothing is configured', () => {
+      vi.stubEnv('PAYMENT_GATEWAY', '');
+      vi.stubEnv('STRIPE_SECRET_KEY', '');
+
+      expect(() => getPaymentGateway()).toThrow('No payment gateway is configured');
+      expect(isLivePaymentGatewayConfigured()).toBe(false);
+    });
+
+    it('uses the stub only when asked for outside production', () => {
+      vi.stubEnv('PAYMENT_GATEWAY', 'stub');
+      vi.stubEnv('STRIPE_SECRET_KEY', '');
+
+      expect(getPaymentGateway().name).toBe('stub');
+      expect(isLivePaymentGatewayConfigured()).toBe(false);
+
+      setPaymentGateway(null);
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(() => getPaymentGateway()).toThrow('cannot be used in production');
+    });
+
+    it('uses Stripe when a secret key is set', () => {
+      vi.stubEnv('PAYMENT_GATEWAY', '');
+      vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_123');
+
+      expect(getPaymentGateway().name).toBe('stripe');
+      expect(isLivePaymentGatewayConfigured()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { CreditService } from '@/lib/services/credit.service';
+
+describe('CreditService', () => {
+  describe('getOverpayment', () => {
+    it('returns nothing when the invoice is not fully covered', () => {
+      expect(
+        CreditService.getOverpayment({ totalAmount: 120, paidAmount: 100, creditApplied: 0 })
+      ).toBe(0);
+    });
+
+    it('returns the amount paid beyond the total', () => {
+      expect(
+        CreditService.getOverpayment({ totalAmount: 120, paidAmount: 150, creditApplied: 0 })
+      ).toBe(30);
+    });
+
+    it('counts credit already applied toward the total', () => {
+      expect(
+        CreditService.getOverpayment({ totalAmount: 120, paidAmount: 100, creditApplied: 25.5 })
+      ).toBe(5.5);
+    });
+  });
+
+  describe('getApplicableCredit', () => {
+    const invoice = { totalAmount: 120, paidAmount: 20, creditApplied: 0 };
+
+    it('applies the whole balance when it is less than what is owed', () => {
+      expect(CreditService.getApplicableCredit(40, invoice)).toBe(40);
+    });
+
+    it('applies only what is owed when the balance is larger', () => {
+      expect(CreditService.getApplicableCredit(500, invoice)).toBe(100);
+    });
+
+    it('applies nothing to an invoice that is already covered', () => {
+      expect(
+        CreditService.getApplicableCredit(50, { totalAmount: 120, paidAmount: 100, creditApplied: 20 })
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import { DiscountService } from '@/lib/services/discount.service';
+import type { AppliedDiscount, DiscountContext, DiscountRules } from '@/types/discount';
+
+const rules: DiscountRules = {
+  discountType: 'PERCENTAGE',
+  value: 10,
+  newAccountsOnly: false,
+  renewalPeriods: [],
+  startDate: null,
+  endDate: null,
+  maxUses: null,
+  maxUsesPerAccount: null,
+  isActive: true,
+};
+
+const context: DiscountContext = {
+  isNewAccount: false,
+  renewalPeriod: 'SIX_MONTH',
+  date: new Date('2025-06-15'),
+  timesUsed: 0,
+  timesUsedByAccount: 0,
+};
+
+describe('DiscountService', () => {
+  describe('getIneligibilityReason', () => {
+    it('allows a discount with no restrictions', () => {
+      expect(DiscountService.getIneligibilityReason(rules, context)).toBeNull();
+    });
+
+    it('rejects an inactive discount', () => {
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, isActive: false }, context)
+      ).toBe('This discount is no longer active');
+    });
+
+    it('rejects use outside the promotion dates', () => {
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, startDate: new Date('2025-07-01') }, context)
+      ).toBe('This discount has not started yet');
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, endDate: new Date('2025-06-14') }, context)
+      ).toBe('This discount has expired');
+    });
+
+    it('allows use on the last day of the promotion', () => {
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, endDate: new Date('2025-06-15') }, context)
+      ).toBeNull();
+    });
+
+    it('limits new-account discounts to new accounts', () => {
+      const newOnly = { ...rules, newAccountsOnly: true };
+      expect(DiscountService.getIneligibilityReason(newOnly, context)).toBe(
+        'This discount is only for new accounts'
+      );
+      expect(
+        DiscountService.getIneligibilityReason(newOnly, { ...context, isNewAccount: true })
+      ).toBeNull();
+    });
+
+    it('limits term-specific discounts to those terms', () => {
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, renewalPeriods: ['TWELVE_MONTH'] }, context)
+      ).toBe('This discount does not apply to the selected term');
+    });
+
+    it('enforces total and per-account usage limits', () => {
+      expect(
+        DiscountService.getIneligibilityReason({ ...rules, maxUses: 5 }, { ...context, timesUsed: 5 })
+      ).toBe('This discount has reached its usage limit');
+      expect(
+        DiscountService.getIneligibilityReason(
+          { ...rules, maxUsesPerAccount: 1 },
+          { ...context, timesUsedByAccount: 1 }
+        )
+      ).toBe('This account has already used this discount');
+    });
+  });
+
+  describe('calculateAmount', () => {
+    it('takes a percentage off the term total', () => {
+      expect(DiscountService.calculateAmount({ discountType: 'PERCENTAGE', value: 15 }, 180)).toBe(27);
+    });
+
+    it('takes a fixed amount off the term total', () => {
+      expect(DiscountService.calculateAmount({ discountType: 'FIXED', value: 25 }, 180)).toBe(25);
+    });
+
+    it('never takes off more than the term total', () => {
+      expect(DiscountService.calculateAmount({ discountType: 'FIXED', value: 250 }, 180)).toBe(180);
+    });
+  });
+
+  describe('redeem', () => {
+    interface MockTx {
+      discount: { update: Mock };
+      discountRedemption: { count: Mock; create: Mock };
+    }
+
+    const applied: AppliedDiscount = { discountId: 'd1', code: 'SPRING', description: 'Spring promo', amount: 18 };
+
+    function mockTx(limits: { maxUses: number | null; maxUsesPerAccount: number | null }, counts: number[]): MockTx {
+      const count = vi.fn();
+      counts.forEach((value) => count.mockResolvedValueOnce(value));
+      return {
+        discount: { update: vi.fn().mockResolvedValue(limits) },
+        discountRedemption: { count, create: vi.fn().mockResolvedValue({}) },
+      };
+    }
+
+    it('records the redemption while under the limits', async () => {
+      const tx = mockTx({ maxUses: 10, maxUsesPerAccount: 1 }, [9, 0]);
+
+      await DiscountService.redeem(applied, 'a1', 'inv1', 'u1', tx as unknown as Prisma.TransactionClient);
+
+      expect(tx.discount.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'd1' } }));
+      expect(tx.discountRedemption.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses a redemption once the total limit has been used up since the code was checked', async () => {
+      const tx = mockTx({ maxUses: 10, maxUsesPerAccount: null }, [10]);
+
+      await expect(DiscountService.redeem(applied, 'a1', 'inv1', 'u1', tx as unknown as Prisma.TransactionClient)).rejects.toThrow(
+        'This discount has reached its usage limit'
+      );
+      expect(tx.discountRedemption.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a second redemption by the same account', async () => {
+      const tx = mockTx({ maxUses: null, maxUsesPerAccount: 1 }, [1]);
+
+      await expect(DiscountService.redeem(applied, 'a1', 'inv1', 'u1', tx as unknown as Prisma.TransactionClient)).rejects.toThrow(
+        'This account has already used this discount'
+      );
+      expect(tx.discountRedemption.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  payment: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: db }));
+
+import { DrawerService } from '@/lib/services/drawer.service';
+import type { DrawerPaymentInput } from '@/types/drawer';
+
+const alice = { id: 'user-a', name: 'Alice Santos' };
+const ben = { id: 'user-b', name: 'Ben Cruz' };
+
+describe('DrawerService', () => {
+  describe('summarizePayments', () => {
+    const payments: DrawerPaymentInput[] = [
+      { amount: 51, paymentMethod: 'CASH', paymentType: 'PAYMENT', recordedBy: alice },
+      { amount: 102, paymentMethod: 'CARD', paymentType: 'PAYMENT', recordedBy: alice },
+      { amount: 75.5, paymentMethod: 'CASH', paymentType: 'PAYMENT', recordedBy: ben },
+      { amount: 40, paymentMethod: 'CHECK', paymentType: 'PAYMENT', recordedBy: ben },
+      { amount: -20.25, paymentMethod: 'CASH', paymentType: 'REFUND', recordedBy: ben },
+    ];
+
+    it('totals payments by method with reversals netted out', () => {
+      const summary = DrawerService.summarizePayments('2025-06-02', payments);
+
+      expect(summary.byMethod).toEqual({
+        CASH: { count: 3, total: 106.25 },
+        CARD: { count: 1, total: 102 },
+        CHECK: { count: 1, total: 40 },
+      });
+      expect(summary.paymentCount).toBe(4);
+      expect(summary.reversalCount).toBe(1);
+      expect(summary.reversalTotal).toBe(20.25);
+      expect(summary.total).toBe(248.25);
+    });
+
+    it('totals each staff member separately', () => {
+      const summary = DrawerService.summarizePayments('2025-06-02', payments);
+
+      expect(summary.byStaff.map((s) => [s.name, s.total])).toEqual([
+        ['Alice Santos', 153],
+        ['Ben Cruz', 95.25],
+      ]);
+      expect(summary.byStaff[1]?.byMethod.CASH).toEqual({ count: 2, total: 55.25 });
+    });
+
+    it('returns zero totals for a day with no payments', () => {
+      const summary = DrawerService.summarizePayments('2025-06-02', []);
+
+      expect(summary.total).toBe(0);
+      expect(summary.byStaff).toEqual([]);
+      expect(summary.byMethod.CASH).toEqual({ count: 0, total: 0 });
+    });
+  });
+
+  describe('getSummary', () => {
+    it('leaves card-on-file charges and card refunds of them out of the drawer', async () => {
+      db.payment.findMany.mockResolvedValue([]);
+
+      await DrawerService.getSummary('2025-06-02');
+
+      expect(db.payment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            paymentDate: new Date('2025-06-02'),
+            gatewayTransactionId: null,
+            NOT: { paymentMethod: 'CARD', reversesPayment: { is: { gatewayTransactionId: { not: null } } } },
+          },
+        })
+      );
+    });
+  });
+});
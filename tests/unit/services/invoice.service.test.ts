@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import type { SerializedInvoice, SerializedInvoiceLineItem } from '@/types/invoice';
+
+function lineItem(lineType: SerializedInvoiceLineItem['lineType'], totalAmount: number): SerializedInvoiceLineItem {
+  return {
+    id: `line-${lineType}`,
+    invoiceId: 'inv-1',
+    lineType,
+    description: lineType,
+    quantity: 1,
+    unitPrice: totalAmount,
+    months: 1,
+    totalAmount,
+    sortOrder: 0,
+  };
+}
+
+const renewalInvoice = {
+  id: 'inv-1',
+  accountId: 'acc-1',
+  invoiceType: 'RENEWAL',
+  status: 'PAID',
+  renewalPeriod: 'SIX_MONTH',
+  periodStart: '2025-06-01',
+  periodEnd: '2025-12-01',
+  periodMonths: 6,
+  totalAmount: 112,
+  lineItems: [lineItem('BASE_RATE', 102), lineItem('LATE_FEE', 10)],
+} as SerializedInvoice;
+
+interface MockTx {
+  account: { findUnique: Mock; update: Mock };
+  mailbox: { update: Mock };
+  accountStatusChange: { create: Mock };
+}
+
+function mockTx(account: {
+  status: 'ACTIVE' | 'HOLD';
+  startDate: Date;
+  nextRenewalDate: Date;
+  mailboxStatus: 'ACTIVE' | 'HOLD';
+}): MockTx {
+  return {
+    account: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'acc-1',
+        mailboxId: 'mb-1',
+        status: account.status,
+        startDate: account.startDate,
+        nextRenewalDate: account.nextRenewalDate,
+        mailbox: { status: account.mailboxStatus },
+      }),
+      update: vi.fn(),
+    },
+    mailbox: { update: vi.fn() },
+    accountStatusChange: { create: vi.fn() },
+  };
+}
+
+function asTx(tx: MockTx): Prisma.TransactionClient {
+  return tx as unknown as Prisma.TransactionClient;
+}
+
+describe('InvoiceService', () => {
+  describe('getRenewalMonthlyRate', () => {
+    it('leaves one-time fees out of the new monthly rate', () => {
+      expect(InvoiceService.getRenewalMonthlyRate(renewalInvoice)).toBe(17);
+    });
+  });
+
+  describe('applyRenewal', () => {
+    it('moves the account onto the term the credit paid for', async () => {
+      const tx = mockTx({
+        status: 'ACTIVE',
+        startDate: new Date('2024-12-01'),
+        nextRenewalDate: new Date('2025-06-01'),
+        mailboxStatus: 'ACTIVE',
+      });
+
+      await expect(InvoiceService.applyRenewal(renewalInvoice, 'user-1', asTx(tx))).resolves.toBe(true);
+      expect(tx.account.update).toHaveBeenCalledWith({
+        where: { id: 'acc-1' },
+        data: {
+          renewalPeriod: 'SIX_MONTH',
+          currentRate: 17,
+          startDate: new Date('2025-06-01'),
+          nextRenewalDate: new Date('2025-12-01'),
+        },
+      });
+      expect(tx.accountStatusChange.create).not.toHaveBeenCalled();
+    });
+
+    it('releases a hold and records the reinstatement', async () => {
+      const tx = mockTx({
+        status: 'HOLD',
+        startDate: new Date('2024-12-01'),
+        nextRenewalDate: new Date('2025-06-01'),
+        mailboxStatus: 'HOLD',
+      });
+
+      await InvoiceService.applyRenewal(renewalInvoice, 'user-1', asTx(tx));
+
+      expect(tx.account.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'ACTIVE' }) })
+      );
+      expect(tx.mailbox.update).toHaveBeenCalledWith({ where: { id: 'mb-1' }, data: { status: 'ACTIVE' } });
+      expect(tx.accountStatusChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: 'HOLD',
+          toStatus: 'ACTIVE',
+          reason: 'Renewal paid from account credit',
+        }),
+      });
+    });
+
+    it('does nothing once the account is already on that term', async () => {
+      const tx = mockTx({
+        status: 'ACTIVE',
+        startDate: new Date('2025-06-01'),
+        nextRenewalDate: new Date('2025-12-01'),
+        mailboxStatus: 'ACTIVE',
+      });
+
+      await expect(InvoiceService.applyRenewal(renewalInvoice, 'user-1', asTx(tx))).resolves.toBe(false);
+      expect(tx.account.update).not.toHaveBeenCalled();
+    });
+
+    it('applies a plan change that ends before the current term would have', async () => {
+      // A 12-month term switched to six months partway through
+      const tx = mockTx({
+        status: 'ACTIVE',
+        startDate: new Date('2025-03-01'),
+        nextRenewalDate: new Date('2026-04-01'),
+        mailboxStatus: 'ACTIVE',
+      });
+
+      await expect(InvoiceService.applyRenewal(renewalInvoice, 'user-1', asTx(tx))).resolves.toBe(true);
+      expect(tx.account.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ renewalPeriod: 'SIX_MONTH', nextRenewalDate: new Date('2025-12-01') }),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { KeyDepositService } from '@/lib/services/key-deposit.service';
+
+describe('KeyDepositService', () => {
+  describe('getStatus', () => {
+    it('reports no deposit until one has been collected', () => {
+      expect(
+        KeyDepositService.getStatus({ depositPaid: 0, depositReturned: false, depositForfeited: false })
+      ).toBe('NONE');
+    });
+
+    it('holds a collected deposit', () => {
+      expect(
+        KeyDepositService.getStatus({ depositPaid: 5, depositReturned: false, depositForfeited: false })
+      ).toBe('HELD');
+    });
+
+    it('reports refunded and forfeited deposits as settled', () => {
+      expect(
+        KeyDepositService.getStatus({ depositPaid: 5, depositReturned: true, depositForfeited: false })
+      ).toBe('REFUNDED');
+      expect(
+        KeyDepositService.getStatus({ depositPaid: 5, depositReturned: false, depositForfeited: true })
+      ).toBe('FORFEITED');
+    });
+  });
+
+  describe('isCollected', () => {
+    it('counts a deposit as collected until a reversal undoes it', () => {
+      expect(KeyDepositService.isCollected([{ action: 'COLLECTED' }])).toBe(true);
+      expect(KeyDepositService.isCollected([{ action: 'COLLECTED' }, { action: 'REVERSED' }])).toBe(false);
+    });
+
+    it('collects again once the invoice is paid after a reversal', () => {
+      expect(
+        KeyDepositService.isCollected([{ action: 'COLLECTED' }, { action: 'REVERSED' }, { action: 'COLLECTED' }])
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LifecycleService } from '@/lib/services/lifecycle.service';
+import { AccountClosureService } from '@/lib/services/account-closure.service';
+import type { CloseAccountResult } from '@/types/account-closure';
+import type { LifecycleTransition } from '@/types/lifecycle';
+
+const asOfDate = new Date('2025-03-31');
+
+describe('LifecycleService', () => {
+  describe('evaluateTransition', () => {
+    it('leaves accounts inside the hold grace period alone', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'ACTIVE', nextRenewalDate: new Date('2025-03-02') }, // 29 days overdue
+        asOfDate
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('places active accounts on hold once the hold grace period has passed', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'ACTIVE', nextRenewalDate: new Date('2025-03-01') }, // 30 days overdue
+        asOfDate
+      );
+
+      expect(result).toMatchObject({ toStatus: 'HOLD', daysOverdue: 30 });
+    });
+
+    it('does not re-hold accounts already on hold', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'HOLD', nextRenewalDate: new Date('2025-02-15') }, // 44 days overdue
+        asOfDate
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('closes held accounts once the close grace period has passed', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'HOLD', nextRenewalDate: new Date('2025-01-30') }, // 60 days overdue
+        asOfDate
+      );
+
+      expect(result).toMatchObject({ toStatus: 'CLOSED', daysOverdue: 60 });
+    });
+
+    it('closes active accounts that skipped the hold stage', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'ACTIVE', nextRenewalDate: new Date('2024-12-01') },
+        asOfDate
+      );
+
+      expect(result?.toStatus).toBe('CLOSED');
+    });
+
+    it('ignores closed accounts', () => {
+      const result = LifecycleService.evaluateTransition(
+        { status: 'CLOSED', nextRenewalDate: new Date('2024-01-01') },
+        asOfDate
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('closeForNonPayment', () => {
+    const transition: LifecycleTransition = {
+      accountId: 'acc-1',
+      mailboxId: 'mb-1',
+      mailboxNumber: 120,
+      accountName: 'Jane Doe',
+      nextRenewalDate: '2024-12-01',
+      daysOverdue: 120,
+      fromStatus: 'HOLD',
+      toStatus: 'CLOSED',
+      mailboxFromStatus: 'HOLD',
+      mailboxToStatus: 'AVAILABLE',
+      reason: 'Non-Payment: 120 days past renewal (closes after 90)',
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('closes through the account closure, writing off what is unpaid', async () => {
+      const closure = vi
+        .spyOn(AccountClosureService, 'closeAccount')
+        .mockResolvedValue({ accountId: 'acc-1' } as CloseAccountResult);
+
+      await expect(LifecycleService.closeForNonPayment(transition, 'run-1', null)).resolves.toEqual({
+        accountId: 'acc-1',
+      });
+      expect(closure).toHaveBeenCalledWith(
+        'acc-1',
+        { reason: 'Non-Payment', writeOffUnpaid: true, noticeDeliveryMethod: 'PRINT' },
+        null,
+        {
+          expectedStatus: 'HOLD',
+          lifecycleRunId: 'run-1',
+          daysOverdue: 120,
+          statusChangeReason: transition.reason,
+        }
+      );
+    });
+
+    it('skips an account that changed status since the run was planned', async () => {
+      vi.spyOn(AccountClosureService, 'closeAccount').mockRejectedValue(new Error('Account status has changed'));
+
+      await expect(LifecycleService.closeForNonPayment(transition, 'run-1', null)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  memo: { findFirst: vi.fn(), update: vi.fn() },
+  memoRevision: { create: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: db }));
+vi.mock('@/lib/services/audit-log.service', () => ({
+  AuditLogService: { logChange: vi.fn() },
+}));
+
+import { MemoService } from '@/lib/services/memo.service';
+import type { AuditContext } from '@/types/audit-log';
+
+const manager = { id: 'manager-1', role: 'MANAGER' as const };
+const author = { id: 'staff-1', role: 'STAFF' as const };
+const otherStaff = { id: 'staff-2', role: 'STAFF' as const };
+const auditContext = {} as AuditContext;
+
+function storedMemo(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const user = { id: author.id, username: 'staff' };
+  return {
+    id: 'memo-1',
+    accountId: 'acc-1',
+    content: 'Customer prefers email',
+    isPinned: false,
+    createdById: author.id,
+    createdBy: user,
+    updatedById: null,
+    updatedBy: null,
+    deletedAt: null,
+    deletedById: null,
+    deletedBy: null,
+    createdAt: new Date('2025-06-01T10:00:00Z'),
+    updatedAt: new Date('2025-06-01T10:00:00Z'),
+    _count: { revisions: 0 },
+    ...overrides,
+  };
+}
+
+describe('MemoService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  });
+
+  describe('getEditBlocker', () => {
+    const memo = { createdById: author.id, deletedAt: null };
+
+    it('lets the author or a manager change the content', () => {
+      expect(MemoService.getEditBlocker(memo, { content: 'Updated' }, author)).toBeNull();
+      expect(MemoService.getEditBlocker(memo, { content: 'Updated' }, manager)).toBeNull();
+    });
+
+    it('stops other staff from changing the content', () => {
+      expect(MemoService.getEditBlocker(memo, { content: 'Updated' }, otherStaff)).toBe(
+        'Only the author or a manager can edit a memo'
+      );
+    });
+
+    it('lets any staff member pin a memo', () => {
+      expect(MemoService.getEditBlocker(memo, { isPinned: true }, otherStaff)).toBeNull();
+    });
+
+    it('rejects edits to a deleted memo', () => {
+      expect(
+        MemoService.getEditBlocker({ ...memo, deletedAt: new Date('2025-06-02') }, { isPinned: true }, manager)
+      ).toBe('Cannot edit a deleted memo');
+    });
+  });
+
+  describe('getDeleteBlocker', () => {
+    it('only lets managers delete memos', () => {
+      expect(MemoService.getDeleteBlocker({ deletedAt: null }, manager)).toBeNull();
+      expect(MemoService.getDeleteBlocker({ deletedAt: null }, author)).toBe('Only managers can delete memos');
+    });
+
+    it('rejects deleting a memo twice', () => {
+      expect(MemoService.getDeleteBlocker({ deletedAt: new Date('2025-06-02') }, manager)).toBe(
+        'Memo is already deleted'
+      );
+    });
+  });
+
+  describe('updateMemo', () => {
+    it('keeps the previous content as a revision when the content changes', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo());
+      db.memo.update.mockResolvedValue(storedMemo({ content: 'Customer prefers text', _count: { revisions: 1 } }));
+
+      const memo = await MemoService.updateMemo('acc-1', 'memo-1', { content: 'Customer prefers text' }, author, auditContext);
+
+      expect(db.memoRevision.create).toHaveBeenCalledWith({
+        data: { memoId: 'memo-1', content: 'Customer prefers email', editedById: author.id },
+      });
+      expect(db.memo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { content: 'Customer prefers text', updatedById: author.id } })
+      );
+      expect(memo.revisionCount).toBe(1);
+    });
+
+    it('records no revision when only the pin changes', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo());
+      db.memo.update.mockResolvedValue(storedMemo({ isPinned: true }));
+
+      await MemoService.updateMemo('acc-1', 'memo-1', { isPinned: true }, otherStaff, auditContext);
+
+      expect(db.memoRevision.create).not.toHaveBeenCalled();
+      expect(db.memo.update).toHaveBeenCalledWith(expect.objectContaining({ data: { isPinned: true } }));
+    });
+
+    it('records no revision when the content is saved unchanged', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo());
+      db.memo.update.mockResolvedValue(storedMemo());
+
+      await MemoService.updateMemo('acc-1', 'memo-1', { content: 'Customer prefers email' }, author, auditContext);
+
+      expect(db.memoRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses content edits from staff who did not write the memo', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo());
+
+      await expect(
+        MemoService.updateMemo('acc-1', 'memo-1', { content: 'Changed' }, otherStaff, auditContext)
+      ).rejects.toThrow('Only the author or a manager can edit a memo');
+      expect(db.memo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMemo', () => {
+    it('soft deletes and unpins the memo', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo({ isPinned: true }));
+      db.memo.update.mockResolvedValue(
+        storedMemo({ deletedAt: new Date('2025-06-02T10:00:00Z'), deletedById: manager.id })
+      );
+
+      const memo = await MemoService.deleteMemo('acc-1', 'memo-1', manager, auditContext);
+
+      expect(db.memo.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { deletedAt: expect.any(Date), deletedById: manager.id, isPinned: false },
+        })
+      );
+      expect(memo.deletedAt).toBe('2025-06-02T10:00:00.000Z');
+    });
+
+    it('refuses deletes from staff', async () => {
+      db.memo.findFirst.mockResolvedValue(storedMemo());
+
+      await expect(MemoService.deleteMemo('acc-1', 'memo-1', author, auditContext)).rejects.toThrow(
+        'Only managers can delete memos'
+      );
+      expect(db.memo.update).not.toHaveBeenCalled();
+    });
+  });
+});
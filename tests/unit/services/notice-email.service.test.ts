@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelayMs, isTransientEmailError } from '@/lib/services/notice-email.service';
+import { EMAIL } from '@/constants/app';
+
+function smtpError(fields: { code?: string; responseCode?: number }): Error {
+  return Object.assign(new Error('SMTP error'), fields);
+}
+
+describe('notice email delivery', () => {
+  describe('isTransientEmailError', () => {
+    it('retries connection failures', () => {
+      expect(isTransientEmailError(smtpError({ code: 'ECONNECTION' }))).toBe(true);
+      expect(isTransientEmailError(smtpError({ code: 'ETIMEDOUT' }))).toBe(true);
+    });
+
+    it('retries temporary SMTP replies', () => {
+      expect(isTransientEmailError(smtpError({ code: 'EENVELOPE', responseCode: 451 }))).toBe(true);
+    });
+
+    it('does not retry permanent failures', () => {
+      expect(isTransientEmailError(smtpError({ code: 'EAUTH', responseCode: 535 }))).toBe(false);
+      expect(isTransientEmailError(smtpError({ code: 'EENVELOPE', responseCode: 550 }))).toBe(false);
+      expect(isTransientEmailError(new Error('Something else'))).toBe(false);
+      expect(isTransientEmailError(null)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('doubles the delay after each failed attempt', () => {
+      expect(getRetryDelayMs(1)).toBe(EMAIL.RETRY_BASE_DELAY_MS);
+      expect(getRetryDelayMs(2)).toBe(EMAIL.RETRY_BASE_DELAY_MS * 2);
+      expect(getRetryDelayMs(3)).toBe(EMAIL.RETRY_BASE_DELAY_MS * 4);
+    });
+
+    it('caps the delay', () => {
+      expect(getRetryDelayMs(20)).toBe(EMAIL.RETRY_MAX_DELAY_MS);
+    });
+  });
+});
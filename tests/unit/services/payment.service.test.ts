@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { PaymentService } from '@/lib/services/payment.service';
+import { CreditService } from '@/lib/services/credit.service';
+import { DrawerService } from '@/lib/services/drawer.service';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import type { SerializedInvoice } from '@/types/invoice';
+import type { PaymentWithDetails } from '@/types/payment';
+
+describe('PaymentService', () => {
+  describe('getReversalAmount', () => {
+    it('voids the full amount of an untouched payment', () => {
+      expect(
+        PaymentService.getReversalAmount({ amount: 150, reversedAmount: 0 }, { type: 'VOID' })
+      ).toBe(150);
+    });
+
+    it('voids only what is left after a partial refund', () => {
+      expect(
+        PaymentService.getReversalAmount({ amount: 150, reversedAmount: 49.99 }, { type: 'VOID' })
+      ).toBe(100.01);
+    });
+
+    it('refunds the requested amount rounded to cents', () => {
+      expect(
+        PaymentService.getReversalAmount(
+          { amount: 150, reversedAmount: 0 },
+          { type: 'REFUND', amount: 25.456 }
+        )
+      ).toBe(25.46);
+    });
+
+    it('rejects refunds larger than what is left', () => {
+      expect(() =>
+        PaymentService.getReversalAmount(
+          { amount: 150, reversedAmount: 100 },
+          { type: 'REFUND', amount: 60 }
+        )
+      ).toThrow('Refund cannot exceed the remaining 50.00 on this payment');
+    });
+
+    it('rejects refunds without a positive amount', () => {
+      expect(() =>
+        PaymentService.getReversalAmount({ amount: 150, reversedAmount: 0 }, { type: 'REFUND' })
+      ).toThrow('Refund amount must be positive');
+    });
+
+    it('rejects payments that are already fully reversed', () => {
+      expect(() =>
+        PaymentService.getReversalAmount({ amount: 150, reversedAmount: 150 }, { type: 'VOID' })
+      ).toThrow('Payment has already been fully voided or refunded');
+    });
+  });
+
+  describe('reversePayment', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('takes back the key deposit a voided payment had collected', async () => {
+      const tx = {
+        payment: {
+          findUnique: vi.fn().mockResolvedValue({
+            id: 'pay-1',
+            accountId: 'acc-1',
+            invoiceId: 'inv-1',
+            amount: new Prisma.Decimal(125),
+            paymentMethod: 'CASH',
+            paymentType: 'PAYMENT',
+            periodStart: null,
+            periodEnd: null,
+            reversals: [],
+          }),
+          create: vi.fn().mockResolvedValue({ id: 'pay-2' }),
+        },
+        invoice: {
+          findUnique: vi.fn().mockResolvedValue({
+            id: 'inv-1',
+            accountId: 'acc-1',
+            status: 'PENDING',
+            account: { depositPaid: new Prisma.Decimal(5), depositReturned: false, depositForfeited: false },
+            keyDepositTransactions: [{ action: 'COLLECTED', amount: new Prisma.Decimal(5) }],
+          }),
+        },
+        keyDepositTransaction: { create: vi.fn() },
+        account: { update: vi.fn() },
+      };
+      vi.spyOn(DrawerService, 'assertDayOpen').mockResolvedValue(undefined);
+      vi.spyOn(InvoiceService, 'updateInvoicePayment').mockResolvedValue({ status: 'PENDING' } as SerializedInvoice);
+      vi.spyOn(CreditService, 'syncInvoiceOverpayment').mockResolvedValue(0);
+      vi.spyOn(PaymentService, 'rollbackRenewal').mockResolvedValue(false);
+      vi.spyOn(PaymentService, 'serializePayment').mockReturnValue({ id: 'pay-2' } as PaymentWithDetails);
+
+      const result = await PaymentService.reversePayment(
+        'pay-1',
+        { type: 'VOID', reason: 'Rang up the wrong box' },
+        'user-1',
+        tx as unknown as Prisma.TransactionClient
+      );
+
+      expect(result.invoiceStatus).toBe('PENDING');
+      expect(tx.keyDepositTransaction.create).toHaveBeenCalledWith({
+        data: { accountId: 'acc-1', action: 'REVERSED', amount: 5, invoiceId: 'inv-1', recordedById: 'user-1' },
+      });
+      expect(tx.account.update).toHaveBeenCalledWith({ where: { id: 'acc-1' }, data: { depositPaid: 0 } });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { PlanChangeService } from '@/lib/services/plan-change.service';
+import type { Decimal } from '@prisma/client/runtime/library';
+import type { PriceConfig, RenewalPriceBreakdown } from '@/types/pricing';
+
+function mockDecimal(value: number): Decimal {
+  return {
+    toString: () => value.toString(),
+  } as Decimal;
+}
+
+const rates: PriceConfig = {
+  id: 'test-rate-id',
+  startDate: new Date('2024-01-01'),
+  endDate: null,
+  baseRate3mo: mockDecimal(51),
+  baseRate6mo: mockDecimal(102),
+  baseRate12mo: mockDecimal(204),
+  rate4thAdult: mockDecimal(2),
+  rate5thAdult: mockDecimal(2),
+  rate6thAdult: mockDecimal(2),
+  rate7thAdult: mockDecimal(2),
+  businessAccountFee: mockDecimal(4),
+  minorRecipientFee: mockDecimal(1),
+  keyDeposit: mockDecimal(5),
+  lateFee: mockDecimal(0),
+  reinstatementFee: mockDecimal(0),
+  returnedCheckFee: mockDecimal(0),
+  createdById: null,
+  notes: null,
+  createdAt: new Date('2024-01-01'),
+};
+
+describe('PlanChangeService', () => {
+  describe('getChangeBlocker', () => {
+    const account = {
+      status: 'ACTIVE',
+      renewalPeriod: 'THREE_MONTH' as const,
+      hasUnpaidInvoice: false,
+      daysRemaining: 45,
+    };
+
+    it('allows an active account to switch plans mid-term', () => {
+      expect(PlanChangeService.getChangeBlocker(account, 'TWELVE_MONTH')).toBeNull();
+    });
+
+    it('rejects switching to the plan the account is already on', () => {
+      expect(PlanChangeService.getChangeBlocker(account, 'THREE_MONTH')).toBe(
+        'The account is already on this plan'
+      );
+    });
+
+    it('rejects accounts with an unpaid renewal or an ended term', () => {
+      expect(
+        PlanChangeService.getChangeBlocker({ ...account, hasUnpaidInvoice: true }, 'TWELVE_MONTH')
+      ).toBe('The account has an unpaid renewal invoice');
+      expect(
+        PlanChangeService.getChangeBlocker({ ...account, daysRemaining: 0 }, 'TWELVE_MONTH')
+      ).toBe('The current term has ended; renew the account instead');
+    });
+  });
+
+  describe('getUnusedCredit', () => {
+    it('credits the share of the term still remaining', () => {
+      expect(PlanChangeService.getUnusedCredit(51, 45, 90)).toBe(25.5);
+    });
+
+    it('credits nothing once the term has ended', () => {
+      expect(PlanChangeService.getUnusedCredit(51, 0, 90)).toBe(0);
+    });
+  });
+
+  describe('buildLineItems', () => {
+    it('itemizes the new term and adds up to the breakdown total', () => {
+      const breakdown: RenewalPriceBreakdown = {
+        baseRate: 204,
+        businessFee: 48,
+        additionalRecipientFees: 24,
+        minorFees: 8,
+        totalMonthly: 25.5,
+        totalForPeriod: 284,
+        periodMonths: 12,
+        minorTransitions: [
+          {
+            recipientId: 'minor-1',
+            recipientName: 'Sam Cruz',
+            turnsAdultDate: new Date('2025-09-01'),
+            monthsAsMinor: 8,
+            monthsAsAdult: 4,
+            additionalAdultFee: 8,
+          },
+        ],
+        transitionFees: 8,
+        adjustedTotalForPeriod: 292,
+      };
+
+      const lines = PlanChangeService.buildLineItems(
+        rates,
+        breakdown,
+        { adultCount: 4, minorCount: 1, hasBusinessRecipient: true, totalCount: 5 },
+        'TWELVE_MONTH'
+      );
+
+      expect(lines.map((l) => l.lineType)).toEqual([
+        'BASE_RATE',
+        'BUSINESS_FEE',
+        'ADDITIONAL_RECIPIENT_4TH',
+        'MINOR_FEE',
+        'MINOR_TRANSITION',
+      ]);
+      expect(lines.reduce((sum, l) => sum + l.amount, 0)).toBe(breakdown.adjustedTotalForPeriod);
+    });
+  });
+});
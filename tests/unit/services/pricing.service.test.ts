@@ -27,6 +27,9 @@ const mockRateConfig: PriceConfig = {
   businessAccountFee: mockDecimal(4),
   minorRecipientFee: mockDecimal(0),
   keyDeposit: mockDecimal(5),
+  lateFee: mockDecimal(0),
+  reinstatementFee: mockDecimal(0),
+  returnedCheckFee: mockDecimal(0),
   createdById: 'admin-id',
   notes: 'Test rates',
   createdAt: new Date('2024-01-01'),
@@ -179,6 +182,53 @@ describe('PricingService', () => {
     });
   });
 
+  describe('getOverdueFees', () => {
+    const feeRates: PriceConfig = {
+      ...mockRateConfig,
+      lateFee: mockDecimal(10),
+      reinstatementFee: mockDecimal(25),
+      returnedCheckFee: mockDecimal(0),
+    };
+    const dueDate = new Date('2024-06-01');
+
+    it('charges nothing when paid on the renewal date', () => {
+      const fees = PricingService.getOverdueFees(
+        feeRates,
+        { status: 'ACTIVE', nextRenewalDate: dueDate },
+        new Date('2024-06-01')
+      );
+      expect(fees).toEqual([]);
+    });
+
+    it('charges a late fee once the renewal date has passed', () => {
+      const fees = PricingService.getOverdueFees(
+        feeRates,
+        { status: 'ACTIVE', nextRenewalDate: dueDate },
+        new Date('2024-06-02')
+      );
+      expect(fees).toEqual([{ lineType: 'LATE_FEE', description: 'Late Fee', amount: 10 }]);
+    });
+
+    it('adds a reinstatement fee for HOLD accounts', () => {
+      const fees = PricingService.getOverdueFees(
+        feeRates,
+        { status: 'HOLD', nextRenewalDate: dueDate },
+        new Date('2024-07-15')
+      );
+      expect(fees.map((f) => f.lineType)).toEqual(['LATE_FEE', 'REINSTATEMENT_FEE']);
+      expect(fees.reduce((sum, f) => sum + f.amount, 0)).toBe(35);
+    });
+
+    it('skips fees configured as zero', () => {
+      const fees = PricingService.getOverdueFees(
+        mockRateConfig,
+        { status: 'HOLD', nextRenewalDate: dueDate },
+        new Date('2024-07-15')
+      );
+      expect(fees).toEqual([]);
+    });
+  });
+
   describe('analyzeRecipients', () => {
     it('counts adults correctly for PERSON recipients', () => {
       const recipients = [
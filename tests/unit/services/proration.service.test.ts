@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { ProrationService } from '@/lib/services/proration.service';
+import type { Decimal } from '@prisma/client/runtime/library';
+import type { PriceConfig, RecipientAnalysis } from '@/types/pricing';
+
+function mockDecimal(value: number): Decimal {
+  return {
+    toString: () => value.toString(),
+  } as Decimal;
+}
+
+const rates: PriceConfig = {
+  id: 'test-rate-id',
+  startDate: new Date('2024-01-01'),
+  endDate: null,
+  baseRate3mo: mockDecimal(51),
+  baseRate6mo: mockDecimal(102),
+  baseRate12mo: mockDecimal(204),
+  rate4thAdult: mockDecimal(2),
+  rate5thAdult: mockDecimal(3),
+  rate6thAdult: mockDecimal(4),
+  rate7thAdult: mockDecimal(5),
+  businessAccountFee: mockDecimal(4),
+  minorRecipientFee: mockDecimal(1.5),
+  keyDeposit: mockDecimal(5),
+  lateFee: mockDecimal(0),
+  reinstatementFee: mockDecimal(0),
+  returnedCheckFee: mockDecimal(0),
+  createdById: null,
+  notes: null,
+  createdAt: new Date('2024-01-01'),
+};
+
+function analysis(overrides: Partial<RecipientAnalysis> = {}): RecipientAnalysis {
+  return { adultCount: 1, minorCount: 0, hasBusinessRecipient: false, totalCount: 1, ...overrides };
+}
+
+describe('ProrationService', () => {
+  describe('getFeeChanges', () => {
+    it('adds the business fee when a business recipient is added', () => {
+      const { added, removed } = ProrationService.getFeeChanges(
+        rates,
+        analysis(),
+        analysis({ hasBusinessRecipient: true })
+      );
+      expect(added.map((f) => f.lineType)).toEqual(['BUSINESS_FEE']);
+      expect(removed).toEqual([]);
+    });
+
+    it('removes the additional recipient tiers that are no longer used', () => {
+      const { added, removed } = ProrationService.getFeeChanges(
+        rates,
+        analysis({ adultCount: 6 }),
+        analysis({ adultCount: 4 })
+      );
+      expect(added).toEqual([]);
+      expect(removed.map((f) => [f.lineType, f.monthlyRate])).toEqual([
+        ['ADDITIONAL_RECIPIENT_5TH', 3],
+        ['ADDITIONAL_RECIPIENT_6TH', 4],
+      ]);
+    });
+
+    it('charges the minor fee for each minor added', () => {
+      const { added } = ProrationService.getFeeChanges(
+        rates,
+        analysis(),
+        analysis({ minorCount: 2 })
+      );
+      expect(added).toEqual([
+        { lineType: 'MINOR_FEE', description: 'Minor Recipient Fee (2)', monthlyRate: 3 },
+      ]);
+    });
+  });
+
+  describe('getRemainingTerm', () => {
+    const account = {
+      id: 'account-id',
+      startDate: new Date('2024-01-01'),
+      nextRenewalDate: new Date('2025-07-01'),
+      renewalPeriod: 'SIX_MONTH' as const,
+    };
+
+    it('counts the days left from the change date to the renewal date', () => {
+      const term = ProrationService.getRemainingTerm(account, new Date('2025-05-01T15:30:00Z'));
+      expect(term.termDays).toBe(180);
+      expect(term.daysRemaining).toBe(61);
+    });
+
+    it('starts the term no earlier than the account did', () => {
+      const term = ProrationService.getRemainingTerm(
+        { ...account, startDate: new Date('2025-03-01') },
+        new Date('2025-05-01')
+      );
+      expect(term.termDays).toBe(122);
+    });
+
+    it('has no days remaining once the term has ended', () => {
+      expect(ProrationService.getRemainingTerm(account, new Date('2025-08-01')).daysRemaining).toBe(0);
+    });
+
+    it('sizes the term by the days a renewal adds, including the 12-month bonus month', () => {
+      // Renewals add a fixed number of days, so calendar months would miscount the term
+      expect(ProrationService.getRemainingTerm(account, new Date('2025-05-01')).periodStart).toEqual(
+        new Date('2025-01-02')
+      );
+      const term = ProrationService.getRemainingTerm(
+        { ...account, renewalPeriod: 'TWELVE_MONTH', nextRenewalDate: new Date('2026-01-30') },
+        new Date('2025-05-01')
+      );
+      expect(term.termDays).toBe(395);
+      expect(term.periodStart).toEqual(new Date('2024-12-31'));
+    });
+  });
+
+  describe('prorate', () => {
+    const fee = { lineType: 'BUSINESS_FEE' as const, description: 'Business Account Fee', monthlyRate: 4 };
+
+    it('prices a fee for the share of the term remaining', () => {
+      expect(ProrationService.prorate([fee], 'SIX_MONTH', 90, 180)).toEqual([
+        { ...fee, months: 3, amount: 12 },
+      ]);
+    });
+
+    it('charges nothing when no days remain', () => {
+      expect(ProrationService.prorate([fee], 'SIX_MONTH', 0, 180)).toEqual([]);
+    });
+  });
+
+  describe('applyRecipientChanges', () => {
+    const current = [
+      { id: 'r1', recipientType: 'PERSON' as const, birthdate: null },
+      { id: 'r2', recipientType: 'BUSINESS' as const, birthdate: null },
+    ];
+
+    it('drops deleted recipients and adds new ones', () => {
+      const result = ProrationService.applyRecipientChanges(current, [
+        { id: 'r2', _delete: true },
+        { _isNew: true, recipientType: 'PERSON', birthdate: '2015-01-01' },
+      ]);
+      expect(result.map((r) => r.recipientType)).toEqual(['PERSON', 'PERSON']);
+      expect(result[1]?.birthdate).toEqual(new Date('2015-01-01'));
+    });
+
+    it('applies type changes to existing recipients', () => {
+      const result = ProrationService.applyRecipientChanges(current, [
+        { id: 'r1', recipientType: 'BUSINESS' },
+      ]);
+      expect(result.map((r) => r.recipientType)).toEqual(['BUSINESS', 'BUSINESS']);
+    });
+  });
+});
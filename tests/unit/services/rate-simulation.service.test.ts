@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { RateSimulationService } from '@/lib/services/rate-simulation.service';
+import type { SimulatePricingInput } from '@/lib/validations/pricing';
+import type { RateSimulationAccountInput } from '@/types/pricing';
+
+const baseRates: SimulatePricingInput = {
+  startDate: '2024-01-01',
+  baseMonthlyRate: 17,
+  rate4thAdult: 2,
+  rate5thAdult: 2,
+  rate6thAdult: 2,
+  rate7thAdult: 2,
+  businessAccountFee: 4,
+  minorRecipientFee: 0,
+  keyDeposit: 5,
+  lateFee: 0,
+  reinstatementFee: 0,
+  returnedCheckFee: 0,
+};
+
+const history = [RateSimulationService.buildProposedRates(baseRates)];
+
+function account(overrides: Partial<RateSimulationAccountInput>): RateSimulationAccountInput {
+  return {
+    accountId: 'acc-1',
+    mailboxNumber: 100,
+    accountName: 'Jane Doe',
+    accountStatus: 'ACTIVE',
+    renewalPeriod: 'THREE_MONTH',
+    renewalDate: new Date('2025-08-01'),
+    recipients: [{ id: 'r-1', recipientType: 'PERSON', name: 'Jane Doe', birthdate: null }],
+    ...overrides,
+  };
+}
+
+describe('RateSimulationService', () => {
+  describe('getRatesForDate', () => {
+    it('picks the rate in effect on the date', () => {
+      const older = RateSimulationService.buildProposedRates({ ...baseRates, baseMonthlyRate: 15 });
+      older.endDate = new Date('2023-12-31');
+      older.startDate = new Date('2023-01-01');
+
+      const rates = RateSimulationService.getRatesForDate([...history, older], new Date('2023-06-01'));
+
+      expect(rates?.baseRate3mo.toString()).toBe('45');
+    });
+  });
+
+  describe('simulate', () => {
+    const proposed = RateSimulationService.buildProposedRates({
+      ...baseRates,
+      startDate: '2025-07-01',
+      baseMonthlyRate: 19,
+      businessAccountFee: 5,
+    });
+
+    it('prices renewals at saved and proposed rates and totals the change', () => {
+      const result = RateSimulationService.simulate(
+        [
+          account({}),
+          account({
+            accountId: 'acc-2',
+            mailboxNumber: 200,
+            renewalPeriod: 'TWELVE_MONTH',
+            recipients: [{ id: 'r-2', recipientType: 'BUSINESS', name: 'Acme LLC', birthdate: null }],
+          }),
+        ],
+        history,
+        proposed
+      );
+
+      // 3 months: 51 -> 57; 12 months with business fee: 204 + 48 -> 228 + 60
+      expect(result.accounts.map((a) => [a.currentPrice, a.proposedPrice, a.delta])).toEqual([
+        [51, 57, 6],
+        [252, 288, 36],
+      ]);
+      expect(result.currentRevenue).toBe(303);
+      expect(result.proposedRevenue).toBe(345);
+      expect(result.totalDelta).toBe(42);
+      expect(result.topIncreases.map((a) => a.accountId)).toEqual(['acc-2', 'acc-1']);
+      expect(result.byRenewalPeriod).toEqual([
+        { renewalPeriod: 'THREE_MONTH', accountCount: 1, affectedCount: 1, currentRevenue: 51, proposedRevenue: 57, delta: 6 },
+        { renewalPeriod: 'SIX_MONTH', accountCount: 0, affectedCount: 0, currentRevenue: 0, proposedRevenue: 0, delta: 0 },
+        { renewalPeriod: 'TWELVE_MONTH', accountCount: 1, affectedCount: 1, currentRevenue: 252, proposedRevenue: 288, delta: 36 },
+      ]);
+    });
+
+    it('leaves renewals before the proposed start date unchanged', () => {
+      const result = RateSimulationService.simulate(
+        [account({ renewalDate: new Date('2025-06-15') })],
+        history,
+        proposed
+      );
+
+      expect(result.accounts[0]).toMatchObject({ affected: false, currentPrice: 51, proposedPrice: 51, delta: 0 });
+      expect(result.affectedCount).toBe(0);
+      expect(result.topIncreases).toEqual([]);
+    });
+
+    it('fails when no saved rates cover a renewal', () => {
+      expect(() => RateSimulationService.simulate([account({})], [], proposed)).toThrow(
+        'No pricing configuration found'
+      );
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('lists accounts with the largest change first and a totals row', () => {
+      const proposed = RateSimulationService.buildProposedRates({ ...baseRates, startDate: '2025-07-01', baseMonthlyRate: 19 });
+      const result = RateSimulationService.simulate(
+        [account({}), account({ accountId: 'acc-2', mailboxNumber: 50, renewalPeriod: 'SIX_MONTH' })],
+        history,
+        proposed
+      );
+
+      const lines = RateSimulationService.formatCsv(result).trimEnd().split('\r\n');
+
+      expect(lines[1]).toBe('50,Jane Doe,ACTIVE,SIX_MONTH,2025-08-01,102.00,114.00,12.00,11.8,Yes');
+      expect(lines[2]).toBe('100,Jane Doe,ACTIVE,THREE_MONTH,2025-08-01,51.00,57.00,6.00,11.8,Yes');
+      expect(lines[3]).toBe('Total,,,,,153.00,171.00,18.00,,2');
+    });
+  });
+});
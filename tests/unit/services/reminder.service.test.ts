@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { ReminderService } from '@/lib/services/reminder.service';
+
+const asOfDate = new Date('2025-03-01');
+
+type PlanningAccount = Parameters<typeof ReminderService.planAccountReminders>[0];
+type PlanningRecipient = PlanningAccount['recipients'][number];
+
+function buildRecipient(overrides: Partial<PlanningRecipient> = {}): PlanningRecipient {
+  return {
+    id: 'recipient-1',
+    recipientType: 'PERSON',
+    firstName: 'Jane',
+    middleName: null,
+    lastName: 'Doe',
+    personAlias: null,
+    businessName: null,
+    businessAlias: null,
+    birthdate: null,
+    idExpirationDate: null,
+    validUntilDate: null,
+    removedDate: null,
+    ...overrides,
+  };
+}
+
+function buildAccount(overrides: Partial<PlanningAccount> = {}): PlanningAccount {
+  return {
+    id: 'account-1',
+    status: 'ACTIVE',
+    nextRenewalDate: new Date('2025-06-01'),
+    mailbox: { number: 120 },
+    recipients: [],
+    ...overrides,
+  } as PlanningAccount;
+}
+
+describe('ReminderService', () => {
+  describe('planAccountReminders', () => {
+    it('plans nothing for accounts outside every window', () => {
+      expect(ReminderService.planAccountReminders(buildAccount(), asOfDate)).toEqual([]);
+    });
+
+    it('plans a renewal reminder inside the renewal window', () => {
+      const planned = ReminderService.planAccountReminders(
+        buildAccount({ nextRenewalDate: new Date('2025-03-31') }), // 30 days out
+        asOfDate
+      );
+
+      expect(planned).toHaveLength(1);
+      expect(planned[0]).toMatchObject({ type: 'RENEWAL', recipientId: null });
+    });
+
+    it('plans an overdue reminder once the renewal date has passed', () => {
+      const planned = ReminderService.planAccountReminders(
+        buildAccount({ nextRenewalDate: new Date('2025-02-28') }),
+        asOfDate
+      );
+
+      expect(planned.map((p) => p.type)).toEqual(['OVERDUE']);
+    });
+
+    it('plans recipient verification reminders inside their windows', () => {
+      const planned = ReminderService.planAccountReminders(
+        buildAccount({
+          recipients: [
+            buildRecipient({ birthdate: new Date('2007-03-15'), idExpirationDate: new Date('2025-03-20') }),
+            buildRecipient({
+              id: 'recipient-2',
+              recipientType: 'BUSINESS',
+              businessName: 'Acme',
+              validUntilDate: new Date('2025-03-10'),
+            }),
+          ],
+        }),
+        asOfDate
+      );
+
+      expect(planned.map((p) => p.type)).toEqual(['AGE_18', 'ID_EXPIRY', 'BUSINESS_EXPIRY']);
+      expect(planned[0]?.triggerDate.toISOString()).toBe('2025-03-15T00:00:00.000Z');
+    });
+
+    it('ignores dates that have already passed or are beyond the window', () => {
+      const planned = ReminderService.planAccountReminders(
+        buildAccount({
+          recipients: [
+            buildRecipient({ idExpirationDate: new Date('2025-02-01'), birthdate: new Date('2007-06-01') }),
+          ],
+        }),
+        asOfDate
+      );
+
+      expect(planned).toEqual([]);
+    });
+
+    it('plans nothing for closed accounts', () => {
+      const planned = ReminderService.planAccountReminders(
+        buildAccount({ status: 'CLOSED', nextRenewalDate: new Date('2025-01-01') }),
+        asOfDate
+      );
+
+      expect(planned).toEqual([]);
+    });
+  });
+
+  describe('getCategory', () => {
+    it('separates held accounts from overdue ones', () => {
+      const triggerDate = new Date('2025-01-15');
+      expect(ReminderService.getCategory('OVERDUE', 'ACTIVE', triggerDate, asOfDate)).toBe('OVERDUE');
+      expect(ReminderService.getCategory('OVERDUE', 'HOLD', triggerDate, asOfDate)).toBe('HOLD');
+    });
+
+    it('raises renewals due within a week above later renewals', () => {
+      expect(ReminderService.getCategory('RENEWAL', 'ACTIVE', new Date('2025-03-08'), asOfDate)).toBe('RENEWAL_DUE');
+      expect(ReminderService.getCategory('RENEWAL', 'ACTIVE', new Date('2025-03-09'), asOfDate)).toBe('RENEWAL_UPCOMING');
+    });
+  });
+});
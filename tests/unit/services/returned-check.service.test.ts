@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ReturnedCheckService } from '@/lib/services/returned-check.service';
+
+describe('ReturnedCheckService', () => {
+  describe('getReturnBlocker', () => {
+    const checkPayment = {
+      paymentMethod: 'CHECK' as const,
+      paymentType: 'PAYMENT' as const,
+      checkReturnedAt: null,
+    };
+
+    it('allows a check payment to be marked as returned', () => {
+      expect(ReturnedCheckService.getReturnBlocker(checkPayment)).toBeNull();
+    });
+
+    it('rejects payments that were not made by check', () => {
+      expect(
+        ReturnedCheckService.getReturnBlocker({ ...checkPayment, paymentMethod: 'CASH' })
+      ).toBe('Only check payments can be marked as returned');
+    });
+
+    it('rejects voids and refunds', () => {
+      expect(
+        ReturnedCheckService.getReturnBlocker({ ...checkPayment, paymentType: 'VOID' })
+      ).toBe('Only check payments can be marked as returned');
+    });
+
+    it('rejects a check that was already returned', () => {
+      expect(
+        ReturnedCheckService.getReturnBlocker({ ...checkPayment, checkReturnedAt: '2025-06-02T00:00:00.000Z' })
+      ).toBe('Check has already been marked as returned');
+    });
+  });
+});
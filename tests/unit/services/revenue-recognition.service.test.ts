@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { RevenueRecognitionService } from '@/lib/services/revenue-recognition.service';
+import type { RevenueInvoiceInput } from '@/types/revenue';
+
+function invoice(overrides: Partial<RevenueInvoiceInput>): RevenueInvoiceInput {
+  return {
+    id: 'inv-1',
+    invoiceNumber: 1001,
+    invoiceType: 'RENEWAL',
+    invoiceDate: new Date('2025-01-15'),
+    periodStart: new Date('2025-01-15'),
+    periodEnd: new Date('2026-02-15'),
+    mailboxNumber: 120,
+    amount: 396,
+    oneTimeAmount: 0,
+    writtenOffShare: 0,
+    writtenOffAt: null,
+    ...overrides,
+  };
+}
+
+describe('RevenueRecognitionService', () => {
+  describe('listMonths', () => {
+    it('lists every month across a year boundary', () => {
+      expect(RevenueRecognitionService.listMonths('2024-11', '2025-02')).toEqual([
+        '2024-11',
+        '2024-12',
+        '2025-01',
+        '2025-02',
+      ]);
+    });
+  });
+
+  describe('buildSchedule', () => {
+    it('spreads a 13-month renewal evenly by day', () => {
+      // 396 days at $1 a day
+      const { report, invoices } = RevenueRecognitionService.buildSchedule([invoice({})], '2025-01', '2025-03');
+
+      expect(report.months).toEqual([
+        { month: '2025-01', billed: 396, earned: 17, deferredBalance: 379 },
+        { month: '2025-02', billed: 0, earned: 28, deferredBalance: 351 },
+        { month: '2025-03', billed: 0, earned: 31, deferredBalance: 320 },
+      ]);
+      expect(report.openingDeferred).toBe(0);
+      expect(report.closingDeferred).toBe(320);
+      expect(invoices[0]?.earnedByMonth).toEqual([17, 28, 31]);
+      expect(invoices[0]?.deferredAtEnd).toBe(320);
+    });
+
+    it('earns the whole amount by the end of the period', () => {
+      const { report } = RevenueRecognitionService.buildSchedule([invoice({})], '2025-01', '2026-03');
+
+      expect(report.totalEarned).toBe(396);
+      expect(report.closingDeferred).toBe(0);
+      expect(report.months.at(-1)?.earned).toBe(0);
+    });
+
+    it('catches up a backdated invoice in the month it is billed', () => {
+      const late = invoice({
+        invoiceDate: new Date('2025-03-10'),
+        periodStart: new Date('2025-01-01'),
+        periodEnd: new Date('2025-04-01'),
+        amount: 90,
+      });
+
+      const { report } = RevenueRecognitionService.buildSchedule([late], '2025-01', '2025-04');
+
+      expect(report.months.map((m) => m.earned)).toEqual([0, 0, 90, 0]);
+      expect(report.months.map((m) => m.deferredBalance)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('carries deferred revenue billed before the range into the opening balance', () => {
+      const earlier = invoice({
+        id: 'inv-2',
+        invoiceNumber: 1002,
+        invoiceDate: new Date('2024-12-01'),
+        periodStart: new Date('2024-12-01'),
+        periodEnd: new Date('2025-03-01'),
+        amount: 90,
+      });
+      const { report } = RevenueRecognitionService.buildSchedule([invoice({}), earlier], '2025-01', '2025-06');
+
+      expect(report.openingDeferred).toBeGreaterThan(0);
+      expect(report.closingDeferred).toBe(
+        Math.round((report.openingDeferred + report.totalBilled - report.totalEarned) * 100) / 100
+      );
+    });
+
+    it('leaves out invoices fully earned before the range', () => {
+      const old = invoice({
+        invoiceDate: new Date('2024-01-01'),
+        periodStart: new Date('2024-01-01'),
+        periodEnd: new Date('2024-04-01'),
+        amount: 90,
+      });
+
+      const { report, invoices } = RevenueRecognitionService.buildSchedule([old], '2025-01', '2025-02');
+
+      expect(invoices).toEqual([]);
+      expect(report.openingDeferred).toBe(0);
+    });
+
+    it('earns one-time fees in the month they are billed', () => {
+      // $90 over 90 days plus a $30 late fee
+      const withFee = invoice({
+        invoiceDate: new Date('2025-01-01'),
+        periodStart: new Date('2025-01-01'),
+        periodEnd: new Date('2025-04-01'),
+        amount: 120,
+        oneTimeAmount: 30,
+      });
+
+      const { report } = RevenueRecognitionService.buildSchedule([withFee], '2025-01', '2025-03');
+
+      expect(report.months.map((m) => m.earned)).toEqual([61, 28, 31]);
+      expect(report.months.map((m) => m.deferredBalance)).toEqual([59, 31, 0]);
+    });
+
+    it('takes back revenue on a written-off invoice in the write-off month', () => {
+      const writtenOff = invoice({
+        invoiceDate: new Date('2025-01-01'),
+        periodStart: new Date('2025-01-01'),
+        periodEnd: new Date('2025-04-01'),
+        amount: 90,
+        writtenOffShare: 1,
+        writtenOffAt: new Date('2025-02-10T15:00:00Z'),
+      });
+
+      const { report } = RevenueRecognitionService.buildSchedule([writtenOff], '2025-01', '2025-03');
+
+      expect(report.months.map((m) => m.billed)).toEqual([90, -90, 0]);
+      expect(report.months.map((m) => m.earned)).toEqual([31, -31, 0]);
+      expect(report.months.map((m) => m.deferredBalance)).toEqual([59, 0, 0]);
+      expect(report.totalEarned).toBe(0);
+    });
+  });
+});
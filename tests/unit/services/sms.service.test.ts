@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SmsService } from '@/lib/services/sms.service';
+import { createStubSmsProvider, renderSmsMessage } from '@/lib/sms';
+import type { SmsHistoryEntry } from '@/types/sms';
+
+const now = new Date('2025-03-01T12:00:00Z');
+const renewalDate = new Date('2025-03-20');
+
+function sent(overrides: Partial<SmsHistoryEntry> = {}): SmsHistoryEntry {
+  return {
+    messageType: 'RENEWAL_REMINDER',
+    referenceDate: renewalDate,
+    status: 'DELIVERED',
+    createdAt: new Date('2025-02-20T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('SmsService', () => {
+  describe('getSendBlockReason', () => {
+    it('allows the first reminder for a renewal', () => {
+      expect(SmsService.getSendBlockReason('RENEWAL_REMINDER', renewalDate, [], now)).toBeNull();
+    });
+
+    it('caps renewal reminders per renewal date', () => {
+      const history = [sent({ createdAt: new Date('2025-01-01T12:00:00Z') })];
+      expect(SmsService.getSendBlockReason('RENEWAL_REMINDER', renewalDate, history, now)).toBe(
+        'Already sent for this event'
+      );
+    });
+
+    it('spaces renewal-related reminders apart', () => {
+      const history = [sent({ referenceDate: new Date('2024-12-20') })];
+      expect(SmsService.getSendBlockReason('PAYMENT_OVERDUE', renewalDate, history, now)).toMatch(
+        /within the last 25 days/
+      );
+    });
+
+    it('ignores failed messages so they are retried', () => {
+      const history = [sent({ status: 'FAILED' })];
+      expect(SmsService.getSendBlockReason('RENEWAL_REMINDER', renewalDate, history, now)).toBeNull();
+    });
+
+    it('does not space non-renewal events', () => {
+      const history = [sent()];
+      expect(SmsService.getSendBlockReason('ID_EXPIRING', new Date('2025-03-15'), history, now)).toBeNull();
+    });
+  });
+
+  describe('resolvePhone', () => {
+    it('prefers the SMS phone on the account', () => {
+      expect(SmsService.resolvePhone({ smsPhone: '646-1234', recipients: [] })).toBe('+16716461234');
+    });
+  });
+
+  describe('parseKeyword', () => {
+    it('recognises opt-out, opt-in and help keywords regardless of case', () => {
+      expect(SmsService.parseKeyword('stop')).toBe('STOP');
+      expect(SmsService.parseKeyword(' Unsubscribe ')).toBe('STOP');
+      expect(SmsService.parseKeyword('START')).toBe('START');
+      expect(SmsService.parseKeyword('help!')).toBe('HELP');
+    });
+
+    it('ignores ordinary replies', () => {
+      expect(SmsService.parseKeyword('Thanks, I will come by tomorrow')).toBeNull();
+    });
+  });
+
+  describe('mapProviderStatus', () => {
+    it('maps provider delivery statuses', () => {
+      expect(SmsService.mapProviderStatus('delivered')).toBe('DELIVERED');
+      expect(SmsService.mapProviderStatus('undelivered')).toBe('FAILED');
+      expect(SmsService.mapProviderStatus('sent')).toBe('SENT');
+      expect(SmsService.mapProviderStatus('receiving')).toBeNull();
+    });
+  });
+
+  describe('renderSmsMessage', () => {
+    it('fills in the renewal reminder template', () => {
+      expect(
+        renderSmsMessage('RENEWAL_REMINDER', { box: 120, date: 'Mar 20, 2025', branchPhone: '(671) 555-1234' })
+      ).toBe(
+        'Your PostNet mailbox #120 renewal is due on Mar 20, 2025. Please visit us to renew. Questions? Call (671) 555-1234.'
+      );
+    });
+  });
+
+  describe('stub provider webhook', () => {
+    const request = { signature: null, url: 'http://localhost:3000/api/sms/webhook', params: { Body: 'STOP' } };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('accepts unsigned callbacks in development', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      expect(createStubSmsProvider().verifyWebhook(request)).toBe(true);
+    });
+
+    it('rejects unsigned callbacks anywhere else', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(createStubSmsProvider().verifyWebhook(request)).toBe(false);
+    });
+  });
+});